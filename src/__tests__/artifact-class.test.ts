@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import {
+  classifyManifest,
+  isAttestationEntry,
+  parseArtifactClasses
+} from '../artifact-class'
+import { Manifest, ManifestDescriptor } from '../utils'
+
+const descriptor = (mediaType: string): ManifestDescriptor => ({
+  mediaType,
+  digest: 'sha256:blob',
+  size: 1
+})
+
+describe('classifyManifest', () => {
+  it('classifies container images and multi-arch indexes as images', () => {
+    expect(
+      classifyManifest({
+        config: descriptor('application/vnd.oci.image.config.v1+json'),
+        layers: [descriptor('application/vnd.oci.image.layer.v1.tar+gzip')]
+      })
+    ).toBe('image')
+    expect(
+      classifyManifest({
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: [{ digest: 'sha256:amd64' }]
+      })
+    ).toBe('image')
+    expect(classifyManifest({})).toBe('image')
+  })
+
+  it('classifies by artifactType, config media type or first layer', () => {
+    const cases: Array<[Manifest, string]> = [
+      [
+        { config: descriptor('application/vnd.cncf.helm.config.v1+json') },
+        'helm'
+      ],
+      [
+        {
+          config: descriptor('application/vnd.oci.image.config.v1+json'),
+          layers: [
+            descriptor('application/vnd.dev.cosign.simplesigning.v1+json')
+          ]
+        },
+        'signature'
+      ],
+      // buildx provenance is an image manifest with an in-toto layer
+      [
+        {
+          config: descriptor('application/vnd.oci.image.config.v1+json'),
+          layers: [descriptor('application/vnd.in-toto+json')]
+        },
+        'attestation'
+      ],
+      [
+        { artifactType: 'application/vnd.dev.sigstore.bundle.v0.3+json' },
+        'attestation'
+      ],
+      [{ artifactType: 'application/spdx+json' }, 'sbom'],
+      [{ layers: [descriptor('application/vnd.cyclonedx+xml')] }, 'sbom'],
+      [{ config: descriptor('application/vnd.wasm.config.v0+json') }, 'wasm'],
+      [{ artifactType: 'application/vnd.example.thing' }, 'oras'],
+      [{ config: descriptor('application/vnd.oci.empty.v1+json') }, 'oras']
+    ]
+    for (const [manifest, artifactClass] of cases) {
+      expect(classifyManifest(manifest)).toBe(artifactClass)
+    }
+  })
+})
+
+describe('isAttestationEntry', () => {
+  it('recognises buildx attestation entries by annotation or platform', () => {
+    expect(
+      isAttestationEntry({
+        digest: 'sha256:att',
+        annotations: { 'vnd.docker.reference.type': 'attestation-manifest' }
+      })
+    ).toBe(true)
+    expect(
+      isAttestationEntry({
+        digest: 'sha256:att',
+        platform: { os: 'unknown', architecture: 'unknown' }
+      })
+    ).toBe(true)
+    expect(
+      isAttestationEntry({
+        digest: 'sha256:amd64',
+        platform: { os: 'linux', architecture: 'amd64' }
+      })
+    ).toBe(false)
+    expect(isAttestationEntry({ digest: 'sha256:plain' })).toBe(false)
+  })
+})
+
+describe('parseArtifactClasses', () => {
+  it('parses a comma-separated list of classes', () => {
+    expect(parseArtifactClasses('include-artifacts', 'Helm, sbom,')).toEqual([
+      'helm',
+      'sbom'
+    ])
+  })
+
+  it('rejects unknown classes and empty lists', () => {
+    expect(() => parseArtifactClasses('exclude-artifacts', 'chart')).toThrow(
+      'exclude-artifacts: unknown artifact class "chart", expected one of image, helm, signature, attestation, sbom, wasm, oras'
+    )
+    expect(() => parseArtifactClasses('exclude-artifacts', ' , ')).toThrow(
+      'exclude-artifacts lists no artifact classes'
+    )
+  })
+})
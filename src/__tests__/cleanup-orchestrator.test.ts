@@ -1,5 +1,9 @@
 import { describe, it, expect, beforeEach, vi, type Mocked } from 'vitest'
+import * as cache from '@actions/cache'
 import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
 import { CleanupOrchestrator } from '../cleanup-orchestrator'
 import { Config } from '../config'
 import { OctokitClient } from '../octokit-client'
@@ -10,8 +14,20 @@ import { ManifestAnalyzer } from '../manifest-analyzer'
 import { ImageValidator } from '../image-validator'
 import { DeletionStrategy } from '../deletion-strategy'
 import { ImageDeleter } from '../image-deleter'
-import { CleanupTaskStatistics } from '../utils'
-
+import {
+  CleanupTaskStatistics,
+  GhPackage,
+  logListing,
+  parentDigestFromReferrerTag
+} from '../utils'
+import { PackagePlan } from '../cleanup-plan'
+import { DeletionJournal } from '../deletion-journal'
+
+vi.mock('@actions/cache', () => ({
+  isFeatureAvailable: vi.fn(() => false),
+  restoreCache: vi.fn(),
+  saveCache: vi.fn()
+}))
 vi.mock('@actions/core')
 vi.mock('../registry')
 vi.mock('../package-repo')
@@ -20,6 +36,7 @@ vi.mock('../manifest-analyzer')
 vi.mock('../image-validator')
 vi.mock('../deletion-strategy')
 vi.mock('../image-deleter')
+vi.mock('../deletion-journal')
 vi.mock('../utils')
 
 describe('CleanupOrchestrator', () => {
@@ -78,7 +95,8 @@ describe('CleanupOrchestrator', () => {
 
     // Mock PackageRepo
     mockPackageRepo = {
-      loadPackages: vi.fn().mockResolvedValue(undefined)
+      loadPackages: vi.fn().mockResolvedValue(undefined),
+      getPackageByDigest: vi.fn()
     } as any
     vi.mocked(PackageRepo).mockImplementation(function () {
       return mockPackageRepo
@@ -87,7 +105,15 @@ describe('CleanupOrchestrator', () => {
     // Mock ImageFilter
     mockImageFilter = {
       applyExclusionFilters: vi.fn().mockReturnValue([]),
-      applyAgeFilter: vi.fn()
+      applyAgeFilter: vi.fn(),
+      applyPullRequestFilter: vi.fn().mockResolvedValue(new Set()),
+      findStaleBranchTags: vi.fn().mockResolvedValue(new Set()),
+      applyReleaseFilter: vi.fn().mockResolvedValue([]),
+      applyInventoryFilter: vi.fn().mockReturnValue(new Set()),
+      applyReferrerTypeFilter: vi.fn(),
+      applyLabelExclusionFilter: vi.fn().mockResolvedValue(undefined),
+      applyArtifactFilter: vi.fn(),
+      findLabelMatches: vi.fn().mockResolvedValue(new Set())
     } as any
     vi.mocked(ImageFilter).mockImplementation(function () {
       return mockImageFilter
@@ -97,7 +123,9 @@ describe('CleanupOrchestrator', () => {
     mockManifestAnalyzer = {
       loadDigestUsedByMap: vi.fn().mockResolvedValue({
         digestUsedBy: new Map(),
-        subjectReferrers: new Map()
+        subjectReferrers: new Map(),
+        blobSizes: new Map(),
+        artifactClasses: new Map()
       }),
       initFilterSet: vi.fn().mockResolvedValue(new Set())
     } as any
@@ -110,7 +138,7 @@ describe('CleanupOrchestrator', () => {
       findPartialImages: vi.fn().mockResolvedValue(new Set()),
       findGhostImages: vi.fn().mockResolvedValue(new Set()),
       findOrphanedImages: vi.fn().mockReturnValue(new Set()),
-      validate: vi.fn().mockResolvedValue(undefined)
+      validate: vi.fn().mockResolvedValue({ hasErrors: false, findings: [] })
     } as any
     vi.mocked(ImageValidator).mockImplementation(function () {
       return mockImageValidator
@@ -123,9 +151,13 @@ describe('CleanupOrchestrator', () => {
         untagOperations: new Map()
       }),
       keepNTagged: vi.fn().mockReturnValue(new Set()),
+      keepSemver: vi.fn().mockReturnValue(new Set()),
+      gfsRetention: vi.fn().mockReturnValue(new Set()),
       keepNUntagged: vi.fn().mockReturnValue(new Set()),
       deleteAllUntagged: vi.fn().mockReturnValue(new Set()),
-      computeKeepNTaggedDigests: vi.fn().mockReturnValue(new Set())
+      computeKeepNTaggedDigests: vi.fn().mockReturnValue(new Set()),
+      storageQuota: vi.fn().mockReturnValue(new Set()),
+      retentionFloor: vi.fn().mockReturnValue(new Set())
     } as any
     vi.mocked(DeletionStrategy).mockImplementation(function () {
       return mockDeletionStrategy
@@ -134,7 +166,9 @@ describe('CleanupOrchestrator', () => {
     // Mock ImageDeleter
     mockImageDeleter = {
       performUntagging: vi.fn().mockResolvedValue(false),
+      getUntaggedTags: vi.fn().mockReturnValue([]),
       deleteImages: vi.fn().mockResolvedValue({
+        deleted: new Set(),
         numberImagesDeleted: 0,
         numberMultiImagesDeleted: 0
       })
@@ -147,7 +181,12 @@ describe('CleanupOrchestrator', () => {
     const mockStats = {
       print: vi.fn(),
       numberImagesDeleted: 0,
-      numberMultiImagesDeleted: 0
+      numberMultiImagesDeleted: 0,
+      deletedVersions: [],
+      untaggedTags: [],
+      validationFindings: [],
+      deletedByArtifactClass: {},
+      rewrittenIndexes: []
     }
     vi.mocked(CleanupTaskStatistics).mockImplementation(function () {
       return mockStats as any
@@ -218,12 +257,19 @@ describe('CleanupOrchestrator', () => {
       const digestMap = new Map([['digest1', new Set(['tag1'])]])
       const filterSet = new Set(['image1', 'image2'])
 
+      const subjectReferrers = new Map([['image1', new Set(['sbom'])]])
+      const referrerTypes = new Map([['sbom', 'application/spdx+json']])
       mockManifestAnalyzer.loadDigestUsedByMap.mockResolvedValue({
         digestUsedBy: digestMap,
-        subjectReferrers: new Map()
+        subjectReferrers,
+        referrerTypes,
+        blobSizes: new Map(),
+        artifactClasses: new Map()
       })
       mockManifestAnalyzer.initFilterSet.mockResolvedValue(filterSet)
       mockImageFilter.applyExclusionFilters.mockReturnValue(['excluded1'])
+      const pinned = new Set(['pinned1'])
+      mockImageFilter.applyInventoryFilter.mockReturnValue(pinned)
 
       await orchestrator.reload()
 
@@ -237,6 +283,16 @@ describe('CleanupOrchestrator', () => {
       expect(mockImageFilter.applyExclusionFilters).toHaveBeenCalledWith(
         filterSet
       )
+      expect(mockImageFilter.applyInventoryFilter).toHaveBeenCalledWith(
+        filterSet,
+        ['excluded1'],
+        digestMap
+      )
+      expect(mockImageFilter.applyReferrerTypeFilter).toHaveBeenCalledWith(
+        subjectReferrers,
+        referrerTypes,
+        pinned
+      )
       expect(mockImageFilter.applyAgeFilter).toHaveBeenCalledWith(filterSet)
       expect(ImageDeleter).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -246,7 +302,8 @@ describe('CleanupOrchestrator', () => {
           targetPackage: 'test-package'
         }),
         digestMap,
-        expect.any(Map)
+        expect.any(Map),
+        pinned
       )
     })
   })
@@ -269,11 +326,74 @@ describe('CleanupOrchestrator', () => {
       expect(mockDeletionStrategy.processTagDeletions).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         deleteSet,
+        expect.any(Function),
         expect.any(Function)
       )
       expect(stats).toBeDefined()
     })
 
+    it('should queue closed pull request tags without delete-tags', async () => {
+      const closedPrTags = new Set(['pr-12'])
+      mockImageFilter.applyPullRequestFilter.mockResolvedValue(closedPrTags)
+      octokitClient.getPullRequestState = vi.fn().mockResolvedValue('closed')
+      await orchestrator.reload()
+
+      await orchestrator.run()
+
+      expect(mockDeletionStrategy.processTagDeletions).toHaveBeenCalledWith(
+        expect.any(Set),
+        [],
+        closedPrTags,
+        new Set()
+      )
+      // The state lookup goes to the repository's pulls API
+      const lookup = mockImageFilter.applyPullRequestFilter.mock.calls[0][2]
+      await expect(lookup(12)).resolves.toBe('closed')
+      expect(octokitClient.getPullRequestState).toHaveBeenCalledWith(
+        'test-owner',
+        'test-repo',
+        12
+      )
+    })
+
+    it('should queue deleted branch tags without delete-tags', async () => {
+      const staleBranchTags = new Set(['branch-gone'])
+      mockImageFilter.findStaleBranchTags.mockResolvedValue(staleBranchTags)
+      octokitClient.listBranches = vi.fn().mockResolvedValue(['main'])
+      await orchestrator.reload()
+
+      await orchestrator.run()
+
+      expect(mockDeletionStrategy.processTagDeletions).toHaveBeenCalledWith(
+        expect.any(Set),
+        [],
+        new Set(),
+        staleBranchTags
+      )
+      const list = mockImageFilter.findStaleBranchTags.mock.calls[0][1]
+      await expect(list()).resolves.toEqual(['main'])
+      expect(octokitClient.listBranches).toHaveBeenCalledWith(
+        'test-owner',
+        'test-repo'
+      )
+    })
+
+    it('should report the protected release tags in the statistics', async () => {
+      mockImageFilter.applyReleaseFilter.mockResolvedValue(['v1.0.0'])
+      octokitClient.listReleases = vi.fn().mockResolvedValue([])
+      await orchestrator.reload()
+
+      const stats = await orchestrator.run()
+
+      expect(stats.releaseProtectedTags).toEqual(['v1.0.0'])
+      const list = mockImageFilter.applyReleaseFilter.mock.calls[0][2]
+      await list()
+      expect(octokitClient.listReleases).toHaveBeenCalledWith(
+        'test-owner',
+        'test-repo'
+      )
+    })
+
     it('should handle untagging operations with reload', async () => {
       config.deleteTags = 'tag1'
       const untagOps = new Map([['digest1', ['tag1']]])
@@ -330,6 +450,7 @@ describe('CleanupOrchestrator', () => {
       // orchestrator's final delete set.
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         expect.objectContaining(new Set(['digest3'])),
+        expect.any(Function),
         expect.any(Function)
       )
       expect(stats).toBeDefined()
@@ -364,6 +485,24 @@ describe('CleanupOrchestrator', () => {
       expect(passedToUntagging.has('drop-digest')).toBe(true)
     })
 
+    it('gates untag operations and applies keep-n-tagged when only groups are set', async () => {
+      config.deleteTags = 'pr-*'
+      config.keepNtaggedGroups = [{ pattern: 'pr-*', count: 5 }]
+      mockDeletionStrategy.processTagDeletions.mockResolvedValueOnce({
+        deleteSet: new Set(),
+        untagOperations: new Map([['keep-digest', ['pr-1']]])
+      })
+      mockDeletionStrategy.computeKeepNTaggedDigests.mockReturnValueOnce(
+        new Set(['keep-digest'])
+      )
+
+      await orchestrator.run()
+
+      expect(mockDeletionStrategy.computeKeepNTaggedDigests).toHaveBeenCalled()
+      expect(mockImageDeleter.performUntagging).not.toHaveBeenCalled()
+      expect(mockDeletionStrategy.keepNTagged).toHaveBeenCalled()
+    })
+
     it('does not call computeKeepNTaggedDigests when keepNtagged is not set', async () => {
       config.deleteTags = 'v1.0'
       config.keepNtagged = undefined
@@ -389,6 +528,7 @@ describe('CleanupOrchestrator', () => {
       expect(mockImageValidator.findPartialImages).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         partialImages,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -403,6 +543,7 @@ describe('CleanupOrchestrator', () => {
       expect(mockImageValidator.findGhostImages).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         ghostImages,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -417,6 +558,22 @@ describe('CleanupOrchestrator', () => {
       expect(mockImageValidator.findOrphanedImages).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         orphanedImages,
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('should delete images matched by delete-labels', async () => {
+      config.deleteLabels = [{ key: 'com.example.ephemeral', value: 'true' }]
+      const labelledImages = new Set(['labelled1'])
+      mockImageFilter.findLabelMatches.mockResolvedValue(labelledImages)
+
+      await orchestrator.run()
+
+      expect(mockImageFilter.findLabelMatches).toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        labelledImages,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -431,6 +588,37 @@ describe('CleanupOrchestrator', () => {
       expect(mockDeletionStrategy.keepNTagged).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         toDelete,
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('should apply semver retention when a semver limit is set', async () => {
+      config.semverKeepPatches = 3
+      const toDelete = new Set(['v1.0.0-digest'])
+      mockDeletionStrategy.keepSemver.mockReturnValue(toDelete)
+
+      await orchestrator.run()
+
+      expect(mockDeletionStrategy.keepSemver).toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        toDelete,
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('should apply GFS retention when configured', async () => {
+      config.gfsRetention = { keepDaily: 30 * 24 * 60 * 60 * 1000 }
+      const toDelete = new Set(['nightly-old'])
+      mockDeletionStrategy.gfsRetention.mockReturnValue(toDelete)
+
+      await orchestrator.run()
+
+      expect(mockDeletionStrategy.gfsRetention).toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        toDelete,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -445,6 +633,7 @@ describe('CleanupOrchestrator', () => {
       expect(mockDeletionStrategy.keepNUntagged).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         toDelete,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -459,6 +648,7 @@ describe('CleanupOrchestrator', () => {
       expect(mockDeletionStrategy.deleteAllUntagged).toHaveBeenCalled()
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         toDelete,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -496,6 +686,7 @@ describe('CleanupOrchestrator', () => {
       const expectedDeleteSet = new Set(['tag-delete1', 'untagged1', 'ghost1'])
       expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
         expectedDeleteSet,
+        expect.any(Function),
         expect.any(Function)
       )
     })
@@ -513,6 +704,1224 @@ describe('CleanupOrchestrator', () => {
       expect(stats.numberImagesDeleted).toBe(5)
       expect(stats.numberMultiImagesDeleted).toBe(2)
     })
+
+    it('should apply the storage quota after the other rules', async () => {
+      config.storageQuota = 1000
+      config.deleteUntagged = true
+      mockDeletionStrategy.deleteAllUntagged.mockReturnValue(
+        new Set(['untagged1'])
+      )
+      let stagedBefore: string[] = []
+      mockDeletionStrategy.storageQuota.mockImplementation(
+        (_filterSet: Set<string>, deleteSet: Set<string>) => {
+          stagedBefore = [...deleteSet]
+          return new Set(['old1'])
+        }
+      )
+
+      await orchestrator.run()
+
+      // The quota sees what the other rules already staged
+      expect(stagedBefore).toEqual(['untagged1'])
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['untagged1', 'old1']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('should apply the retention floor after every rule', async () => {
+      config.retentionFloorTagged = 1
+      config.deleteTags = 'v*'
+      config.deleteUntagged = true
+      mockDeletionStrategy.processTagDeletions.mockResolvedValue({
+        deleteSet: new Set(['tagged1']),
+        untagOperations: new Map()
+      })
+      mockDeletionStrategy.deleteAllUntagged.mockReturnValue(
+        new Set(['untagged1'])
+      )
+      let sources = new Map<string, string>()
+      mockDeletionStrategy.retentionFloor.mockImplementation(
+        (
+          _images: Set<string>,
+          _deleteSet: Set<string>,
+          deleteSources: Map<string, string>
+        ) => {
+          sources = new Map(deleteSources)
+          return new Set(['tagged1'])
+        }
+      )
+
+      await orchestrator.run()
+
+      expect(sources).toEqual(
+        new Map([
+          ['tagged1', 'tag deletions'],
+          ['untagged1', 'delete-untagged']
+        ])
+      )
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['untagged1']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('passes every top-level image to the retention floor', async () => {
+      config.retentionFloorImages = 2
+      mockManifestAnalyzer.initFilterSet.mockResolvedValue(
+        new Set(['digest1', 'digest2'])
+      )
+      mockImageFilter.applyExclusionFilters.mockImplementation(
+        (filterSet: Set<string>) => {
+          filterSet.delete('digest1')
+          return []
+        }
+      )
+      await orchestrator.reload()
+
+      await orchestrator.run()
+
+      expect(mockDeletionStrategy.retentionFloor).toHaveBeenCalledWith(
+        new Set(['digest1', 'digest2']),
+        expect.any(Set),
+        expect.any(Map)
+      )
+    })
+
+    it('should report the bytes reclaimed by the deleted images', async () => {
+      // digest2 shares its layer with the surviving digest3
+      mockManifestAnalyzer.loadDigestUsedByMap.mockResolvedValue({
+        digestUsedBy: new Map(),
+        subjectReferrers: new Map(),
+        blobSizes: new Map([
+          [
+            'digest1',
+            new Map([
+              ['config1', 10],
+              ['layer1', 100]
+            ])
+          ],
+          [
+            'digest2',
+            new Map([
+              ['config2', 20],
+              ['shared', 500]
+            ])
+          ],
+          ['digest3', new Map([['shared', 500]])]
+        ]),
+        artifactClasses: new Map([['digest2', 'helm']])
+      })
+      await orchestrator.reload()
+      mockImageDeleter.deleteImages.mockResolvedValue({
+        deleted: new Set(['digest1', 'digest2']),
+        numberImagesDeleted: 2,
+        numberMultiImagesDeleted: 0
+      })
+
+      const stats = await orchestrator.run()
+
+      expect(stats.bytesReclaimed).toBe(130)
+      expect(stats.deletedByArtifactClass).toEqual({ image: 1, helm: 1 })
+    })
+
+    it('should protect the artifact classes left out of the cleanup', async () => {
+      const artifactClasses = new Map([['chart', 'helm']])
+      const filterSet = new Set(['image1', 'chart'])
+      mockManifestAnalyzer.loadDigestUsedByMap.mockResolvedValue({
+        digestUsedBy: new Map(),
+        subjectReferrers: new Map(),
+        blobSizes: new Map(),
+        artifactClasses
+      })
+      mockManifestAnalyzer.initFilterSet.mockResolvedValue(filterSet)
+      mockImageFilter.applyExclusionFilters.mockReturnValue(['excluded1'])
+
+      await orchestrator.reload()
+
+      expect(mockImageFilter.applyArtifactFilter).toHaveBeenCalledWith(
+        filterSet,
+        ['excluded1'],
+        artifactClasses
+      )
+    })
+
+    it('should report the deleted versions and untagged tags', async () => {
+      config.deleteTags = 'v1'
+      mockDeletionStrategy.processTagDeletions.mockResolvedValue({
+        deleteSet: new Set(),
+        untagOperations: new Map([['multi', ['v1']]])
+      })
+      mockImageDeleter.getUntaggedTags.mockReturnValue(['v1'])
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) =>
+          ({
+            id: 42,
+            name: digest,
+            metadata: { container: { tags: ['pr-1'] } }
+          }) as any
+      )
+      mockImageDeleter.deleteImages.mockResolvedValue({
+        deleted: new Set(['digest1']),
+        numberImagesDeleted: 1,
+        numberMultiImagesDeleted: 0
+      })
+      await orchestrator.reload()
+
+      const stats = await orchestrator.run()
+
+      expect(stats.untaggedTags).toEqual(['v1'])
+      expect(stats.deletedVersions).toEqual([
+        { digest: 'digest1', id: 42, tags: ['pr-1'] }
+      ])
+    })
+
+    it('should report the validation findings', async () => {
+      config.validate = true
+      mockImageValidator.validate.mockResolvedValue({
+        hasErrors: true,
+        findings: ['parent image for referrer tag sha256-abc not found'],
+        ghostImages: new Set(),
+        partialImages: new Set(),
+        orphanedImages: new Set(),
+        missingChildren: new Map(),
+        missingSubjects: new Map()
+      })
+      await orchestrator.reload()
+
+      const stats = await orchestrator.run()
+
+      expect(stats.validationFindings).toEqual([
+        'parent image for referrer tag sha256-abc not found'
+      ])
+    })
+  })
+
+  describe('max-deletions circuit breaker', () => {
+    const plan = new Set(['digest1', 'digest2', 'child1', 'sig1'])
+
+    beforeEach(async () => {
+      config.deleteUntagged = true
+      mockDeletionStrategy.deleteAllUntagged.mockReturnValue(
+        new Set(['digest1', 'digest2'])
+      )
+      mockImageDeleter.planDeletions = vi.fn().mockReturnValue(plan)
+      mockPackageRepo.getDigests = vi
+        .fn()
+        .mockReturnValue(new Set(Array.from({ length: 10 }, (_, i) => `d${i}`)))
+      mockPackageRepo.getPackageByDigest = vi.fn().mockReturnValue(undefined)
+      await orchestrator.reload()
+    })
+
+    it('deletes when the plan is within the limits', async () => {
+      config.maxDeletions = 4
+      config.maxDeletionsPercent = 40
+
+      await orchestrator.run()
+
+      expect(mockImageDeleter.planDeletions).toHaveBeenCalledWith(
+        new Set(['digest1', 'digest2'])
+      )
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalled()
+    })
+
+    it('aborts and prints the plan when the cascade is over the count', async () => {
+      config.maxDeletions = 3
+
+      await expect(orchestrator.run()).rejects.toThrow(
+        '[test-package] planned deletion of 4 of 10 package versions is over the max-deletions 3 limit, aborting without deleting (set acknowledge-deletions to 4 to delete them)'
+      )
+      expect(logListing).toHaveBeenCalledWith(
+        '[test-package] Deletion plan over the limit',
+        ['digest1', 'digest2', 'child1', 'sig1'],
+        { debug: true }
+      )
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+    })
+
+    it('aborts when the plan is over the percentage', async () => {
+      config.maxDeletionsPercent = 30
+
+      await expect(orchestrator.run()).rejects.toThrow(
+        'over the max-deletions-percent 30% limit'
+      )
+    })
+
+    it('skips the deletions when the action is dry-run', async () => {
+      config.maxDeletions = 3
+      config.maxDeletionsAction = 'dry-run'
+
+      const stats = await orchestrator.run()
+
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('nothing was deleted from this package')
+      )
+      expect(stats.numberImagesDeleted).toBe(0)
+    })
+
+    it('goes ahead when the plan is acknowledged', async () => {
+      config.maxDeletions = 3
+      config.acknowledgeDeletions = 4
+
+      await orchestrator.run()
+
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalled()
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('going ahead as acknowledge-deletions is 4')
+      )
+    })
+
+    it('still trips when the plan is larger than acknowledged', async () => {
+      config.maxDeletions = 3
+      config.acknowledgeDeletions = 3
+
+      await expect(orchestrator.run()).rejects.toThrow('aborting')
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+    })
+
+    it('only warns in dry-run mode', async () => {
+      config.maxDeletions = 3
+      config.dryRun = true
+
+      await orchestrator.run()
+
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalled()
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('a live run would stop here')
+      )
+    })
+
+    it('counts untag operations and checks them before untagging', async () => {
+      config.deleteTags = 'pr-*'
+      config.maxDeletions = 4
+      mockDeletionStrategy.processTagDeletions.mockResolvedValue({
+        deleteSet: new Set(),
+        untagOperations: new Map([['multi', ['pr-1']]])
+      })
+
+      await expect(orchestrator.run()).rejects.toThrow(
+        '[test-package] planned deletion or untagging of 5 of 10 package versions is over the max-deletions 4 limit'
+      )
+      expect(mockImageDeleter.performUntagging).not.toHaveBeenCalled()
+      expect(logListing).toHaveBeenCalledWith(
+        '[test-package] Deletion plan over the limit',
+        expect.arrayContaining(['multi (untag pr-1)']),
+        { debug: true }
+      )
+    })
+
+    it('skips untagging too when the action is dry-run', async () => {
+      config.deleteTags = 'pr-*'
+      config.maxDeletions = 4
+      config.maxDeletionsAction = 'dry-run'
+      mockDeletionStrategy.processTagDeletions.mockResolvedValue({
+        deleteSet: new Set(),
+        untagOperations: new Map([['multi', ['pr-1']]])
+      })
+
+      await orchestrator.run()
+
+      expect(mockImageDeleter.performUntagging).not.toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('plan mode', () => {
+    const versions: Record<string, { id: number; tags: string[] }> = {
+      multi: { id: 1, tags: ['v1', 'keep'] },
+      index: { id: 2, tags: ['pr-1'] },
+      amd64: { id: 3, tags: [] }
+    }
+
+    beforeEach(async () => {
+      config.mode = 'plan'
+      config.deleteTags = 'v1,pr-*'
+      mockPackageRepo.getPackageByDigest = vi.fn(
+        (digest: string) =>
+          ({
+            id: versions[digest].id,
+            name: digest,
+            updated_at: '2024-01-01T00:00:00Z',
+            metadata: { container: { tags: versions[digest].tags } }
+          }) as any
+      )
+      mockDeletionStrategy.processTagDeletions.mockResolvedValue({
+        deleteSet: new Set(['index']),
+        untagOperations: new Map([['multi', ['v1']]])
+      })
+      mockImageDeleter.planCascade = vi
+        .fn()
+        .mockReturnValue(new Map([['index', ['amd64']]]))
+      await orchestrator.reload()
+    })
+
+    it('records the changes instead of making them', async () => {
+      await orchestrator.run()
+
+      expect(mockImageDeleter.performUntagging).not.toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+      expect(orchestrator.getPackagePlan()).toEqual({
+        package: 'test-package',
+        untag: [
+          {
+            digest: 'multi',
+            id: 1,
+            tags: ['v1', 'keep'],
+            updatedAt: '2024-01-01T00:00:00Z',
+            untag: ['v1']
+          }
+        ],
+        delete: [
+          {
+            digest: 'index',
+            id: 2,
+            tags: ['pr-1'],
+            updatedAt: '2024-01-01T00:00:00Z',
+            rule: 'tag deletions',
+            cascade: [
+              {
+                digest: 'amd64',
+                id: 3,
+                tags: [],
+                updatedAt: '2024-01-01T00:00:00Z'
+              }
+            ]
+          }
+        ]
+      })
+    })
+
+    it('only warns when the plan trips the circuit breaker', async () => {
+      config.maxDeletions = 1
+      mockImageDeleter.planDeletions = vi
+        .fn()
+        .mockReturnValue(new Set(['index', 'amd64']))
+      mockPackageRepo.getDigests = vi
+        .fn()
+        .mockReturnValue(new Set(['multi', 'index', 'amd64']))
+
+      await orchestrator.run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('a live run would stop here')
+      )
+      expect(orchestrator.getPackagePlan()).not.toBeNull()
+    })
+  })
+
+  describe('apply', () => {
+    const current: Record<string, { id: number; tags: string[] }> = {
+      multi: { id: 1, tags: ['v1', 'keep'] },
+      index: { id: 2, tags: ['pr-1'] },
+      amd64: { id: 3, tags: [] },
+      other: { id: 4, tags: ['pr-2'] }
+    }
+    const version = (digest: string): any => ({
+      digest,
+      id: current[digest].id,
+      tags: [...current[digest].tags],
+      updatedAt: '2024-01-01T00:00:00Z'
+    })
+    const packagePlan = (): PackagePlan => ({
+      package: 'test-package',
+      untag: [{ ...version('multi'), untag: ['v1'] }],
+      delete: [
+        {
+          ...version('index'),
+          rule: 'delete-tags',
+          cascade: [version('amd64')]
+        },
+        { ...version('other'), rule: 'delete-tags', cascade: [] }
+      ]
+    })
+
+    beforeEach(() => {
+      mockPackageRepo.getPackageByDigest = vi.fn((digest: string) =>
+        current[digest]
+          ? ({
+              id: current[digest].id,
+              name: digest,
+              updated_at: '2024-01-01T00:00:00Z',
+              metadata: { container: { tags: current[digest].tags } }
+            } as any)
+          : undefined
+      )
+      mockImageDeleter.planCascade = vi.fn().mockReturnValue(
+        new Map([
+          ['index', ['amd64']],
+          ['other', []]
+        ])
+      )
+    })
+
+    it('validates the package after applying the plan', async () => {
+      config.validate = true
+      mockImageValidator.validate.mockResolvedValue({
+        hasErrors: true,
+        findings: ['digest amd64 not found on image pr-1'],
+        ghostImages: new Set(['index']),
+        partialImages: new Set(),
+        orphanedImages: new Set(),
+        missingChildren: new Map([['index', ['amd64']]]),
+        missingSubjects: new Map()
+      })
+
+      const stats = await orchestrator.apply(packagePlan())
+
+      expect(mockImageValidator.validate).toHaveBeenCalled()
+      expect(stats.validationFindings).toEqual([
+        'digest amd64 not found on image pr-1'
+      ])
+    })
+
+    it('untags and deletes exactly the plan', async () => {
+      await orchestrator.apply(packagePlan())
+
+      expect(mockPackageRepo.loadPackages).toHaveBeenCalled()
+      expect(mockImageDeleter.performUntagging).toHaveBeenCalledWith(
+        new Map([['multi', ['v1']]])
+      )
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['index', 'other']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+      // No rules run on apply
+      expect(mockDeletionStrategy.processTagDeletions).not.toHaveBeenCalled()
+      expect(mockImageFilter.applyAgeFilter).not.toHaveBeenCalled()
+    })
+
+    it('refuses to apply a plan that changed', async () => {
+      const plan = packagePlan()
+      plan.delete[1].tags = ['pr-2', 'latest']
+
+      await expect(orchestrator.apply(plan)).rejects.toThrow(
+        '[test-package] 1 plan entries changed since planning, refusing to apply (set plan-drift: skip to apply the rest)'
+      )
+      expect(logListing).toHaveBeenCalledWith(
+        '[test-package] Plan entries changed since planning',
+        ['other tags changed from [latest,pr-2] to [pr-2]'],
+        { debug: true }
+      )
+      expect(mockImageDeleter.performUntagging).not.toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+    })
+
+    it('skips the changed entries with plan-drift skip', async () => {
+      config.planDrift = 'skip'
+      // index would now also delete a new referrer
+      mockImageDeleter.planCascade = vi.fn().mockReturnValue(
+        new Map([
+          ['index', ['amd64', 'sig']],
+          ['other', []]
+        ])
+      )
+
+      await orchestrator.apply(packagePlan())
+
+      expect(logListing).toHaveBeenCalledWith(
+        '[test-package] Plan entries changed since planning',
+        ['index would now also delete sig'],
+        { debug: true }
+      )
+      expect(core.warning).toHaveBeenCalledWith(
+        '[test-package] skipping 1 plan entries that changed since planning'
+      )
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['other']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('treats a cascaded version that is gone as drift', async () => {
+      config.planDrift = 'skip'
+      const plan = packagePlan()
+      plan.delete[0].cascade.push({
+        digest: 'arm64',
+        id: 9,
+        tags: [],
+        updatedAt: '2024-01-01T00:00:00Z'
+      })
+
+      await orchestrator.apply(plan)
+
+      expect(logListing).toHaveBeenCalledWith(
+        '[test-package] Plan entries changed since planning',
+        ['index cascaded arm64 no longer exists'],
+        { debug: true }
+      )
+    })
+
+    it('reloads after untagging before deleting', async () => {
+      mockImageDeleter.performUntagging.mockResolvedValue(true)
+
+      await orchestrator.apply(packagePlan())
+
+      expect(mockPackageRepo.loadPackages).toHaveBeenCalledTimes(2)
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalled()
+    })
+  })
+
+  describe('strip / prune-platforms', () => {
+    const rewrite = { tags: ['v1'], newDigest: 'stripped', kept: ['amd64'] }
+    let tags: Record<string, string[]>
+    let digestUsedBy: Map<string, Set<string>>
+
+    beforeEach(() => {
+      config.mode = 'strip'
+      config.stripAttestations = true
+      tags = { index: ['v1'], plain: ['v2'] }
+      digestUsedBy = new Map([
+        ['amd64', new Set(['index'])],
+        ['att', new Set(['index'])]
+      ])
+      mockManifestAnalyzer.loadDigestUsedByMap.mockResolvedValue({
+        digestUsedBy,
+        subjectReferrers: new Map(),
+        blobSizes: new Map(),
+        artifactClasses: new Map()
+      } as any)
+      mockManifestAnalyzer.initFilterSet.mockResolvedValue(
+        new Set(['index', 'plain'])
+      )
+      mockPackageRepo.getPackageByDigest = vi.fn((digest: string) =>
+        tags[digest]
+          ? ({
+              id: 1,
+              name: digest,
+              updated_at: '2024-01-01T00:00:00Z',
+              metadata: { container: { tags: tags[digest] } }
+            } as any)
+          : undefined
+      )
+      mockPackageRepo.getDigestByTag = vi.fn((tag: string) =>
+        Object.keys(tags).find(digest => tags[digest].includes(tag))
+      )
+      mockRegistry.getManifestByDigest = vi.fn(async (digest: string) =>
+        digest === 'index'
+          ? {
+              manifests: [
+                {
+                  digest: 'amd64',
+                  platform: { os: 'linux', architecture: 'amd64' }
+                },
+                {
+                  digest: 'att',
+                  platform: { os: 'unknown', architecture: 'unknown' }
+                }
+              ]
+            }
+          : { manifests: [{ digest: 'arm64' }] }
+      )
+      // The push moves the tags of the index to the stripped index
+      mockImageDeleter.rewriteIndexes = vi.fn(async (indexes: Set<string>) => {
+        tags = { index: [], stripped: ['v1'], plain: ['v2'] }
+        return new Map([...indexes].map(digest => [digest, rewrite]))
+      })
+      mockDeletionStrategy.findStaleReferrers = vi
+        .fn()
+        .mockReturnValue(new Set())
+    })
+
+    it('rewrites the attested indexes and deletes the indexes they replace', async () => {
+      await orchestrator.reload()
+      await orchestrator.strip()
+
+      expect(mockImageDeleter.rewriteIndexes).toHaveBeenCalledWith(
+        new Set(['index']),
+        expect.any(Function),
+        'Stripping attestations'
+      )
+      expect(mockPackageRepo.loadPackages).toHaveBeenCalledTimes(2)
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['index']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('keeps an index whose tags did not move', async () => {
+      mockImageDeleter.rewriteIndexes = vi.fn(async () => {
+        tags = { index: [], plain: ['v2'] }
+        return new Map([['index', rewrite]])
+      })
+
+      await orchestrator.reload()
+      await orchestrator.strip()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        "[test-package] the tags v1 of index don't resolve to its rewritten index, leaving it in place"
+      )
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('holds the platform images of the index in dry-run mode', async () => {
+      config.dryRun = true
+      mockImageDeleter.rewriteIndexes = vi
+        .fn()
+        .mockResolvedValue(new Map([['index', rewrite]]))
+
+      await orchestrator.reload()
+      await orchestrator.strip()
+
+      expect(mockPackageRepo.loadPackages).toHaveBeenCalledTimes(1)
+      expect(digestUsedBy.get('amd64')).toEqual(new Set(['index', 'stripped']))
+      expect(digestUsedBy.get('att')).toEqual(new Set(['index']))
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['index']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('prunes the platforms and reports the digest change', async () => {
+      config.mode = 'prune-platforms'
+      config.prunePlatforms = ['linux/amd64']
+      mockRegistry.getManifestByDigest = vi.fn(async (digest: string) => ({
+        manifests:
+          digest === 'index'
+            ? [
+                {
+                  digest: 'amd64',
+                  platform: { os: 'linux', architecture: 'amd64' }
+                },
+                {
+                  digest: 'arm64',
+                  platform: { os: 'linux', architecture: 'arm64' }
+                }
+              ]
+            : [
+                {
+                  digest: 'arm64',
+                  platform: { os: 'linux', architecture: 'arm64' }
+                }
+              ]
+      }))
+
+      await orchestrator.reload()
+      const stats = await orchestrator.prunePlatforms()
+
+      expect(mockImageDeleter.rewriteIndexes).toHaveBeenCalledWith(
+        new Set(['index']),
+        expect.any(Function),
+        'Pruning platforms'
+      )
+      expect(stats.rewrittenIndexes).toEqual([
+        { digest: 'index', newDigest: 'stripped', tags: ['v1'] }
+      ])
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['index']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+
+    it('deletes the stale referrers with strip-referrers-older-than', async () => {
+      config.stripAttestations = false
+      config.stripReferrersOlderThan = 30 * 24 * 60 * 60 * 1000
+      mockDeletionStrategy.findStaleReferrers = vi
+        .fn()
+        .mockReturnValue(new Set(['sig']))
+
+      await orchestrator.reload()
+      await orchestrator.strip()
+
+      expect(mockImageDeleter.rewriteIndexes).not.toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).toHaveBeenCalledWith(
+        new Set(['sig']),
+        expect.any(Function),
+        expect.any(Function)
+      )
+    })
+  })
+
+  describe('inventory', () => {
+    it('audits the package without evaluating any rule', async () => {
+      mockPackageRepo.getDigests = vi.fn().mockReturnValue(new Set(['index']))
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        id: 1,
+        name: 'index',
+        updated_at: '2024-01-01T00:00:00Z',
+        metadata: { container: { tags: ['v1'] } }
+      } as any)
+      mockPackageRepo.getReferrerTagsForDigest = vi.fn().mockReturnValue([])
+      mockRegistry.getManifestByDigest = vi.fn().mockResolvedValue({
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: []
+      })
+      mockManifestAnalyzer.initFilterSet.mockResolvedValue(new Set(['index']))
+      mockImageValidator.findGhostImages.mockResolvedValue(new Set(['index']))
+
+      const entries = await orchestrator.inventory()
+
+      expect(mockImageValidator.findGhostImages).toHaveBeenCalledWith(
+        new Set(['index'])
+      )
+      expect(entries).toMatchObject([
+        { package: 'test-package', digest: 'index', id: 1, ghost: true }
+      ])
+      expect(mockDeletionStrategy.processTagDeletions).not.toHaveBeenCalled()
+      expect(mockImageDeleter.deleteImages).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('deletion journal', () => {
+    let mockJournal: Mocked<DeletionJournal>
+
+    beforeEach(() => {
+      config.deletionJournal = 'cache'
+      mockJournal = {
+        restore: vi.fn(),
+        getPendingTrees: vi.fn().mockReturnValue([]),
+        begin: vi.fn(),
+        complete: vi.fn(),
+        finish: vi.fn()
+      } as any
+      vi.mocked(DeletionJournal).mockImplementation(function () {
+        return mockJournal
+      } as any)
+      orchestrator = new CleanupOrchestrator(
+        config,
+        'test-package',
+        octokitClient
+      )
+    })
+
+    it('journals each tree before deleting it', async () => {
+      config.deleteUntagged = true
+      mockDeletionStrategy.deleteAllUntagged.mockReturnValue(new Set(['index']))
+      mockPackageRepo.getIdByDigest = vi.fn((digest: string) =>
+        digest === 'index' ? 1 : 2
+      )
+      mockImageDeleter.planCascade = vi
+        .fn()
+        .mockReturnValue(new Map([['index', ['amd64']]]))
+      mockImageDeleter.deleteImages.mockImplementation(
+        async (deleteSet, afterDelete, afterTree) => {
+          expect(mockJournal.begin).toHaveBeenCalledWith([
+            {
+              root: 'index',
+              versions: [
+                { digest: 'index', id: 1 },
+                { digest: 'amd64', id: 2 }
+              ]
+            }
+          ])
+          await afterTree?.('index')
+          return {
+            deleted: new Set(['index', 'amd64']),
+            numberImagesDeleted: 2,
+            numberMultiImagesDeleted: 1
+          }
+        }
+      )
+      await orchestrator.reload()
+
+      await orchestrator.run()
+
+      expect(mockJournal.complete).toHaveBeenCalledWith('index')
+      expect(mockJournal.finish).toHaveBeenCalled()
+    })
+
+    it('completes an interrupted tree whose parent is gone', async () => {
+      mockJournal.getPendingTrees.mockReturnValue([
+        {
+          root: 'gone',
+          versions: [
+            { digest: 'gone', id: 1 },
+            { digest: 'amd64', id: 2 },
+            { digest: 'shared', id: 3 }
+          ]
+        },
+        {
+          root: 'present',
+          versions: [
+            { digest: 'present', id: 4 },
+            { digest: 'arm64', id: 5 }
+          ]
+        }
+      ])
+      const ids: Record<string, number> = {
+        amd64: 2,
+        shared: 3,
+        present: 4,
+        arm64: 5
+      }
+      mockPackageRepo.getIdByDigest = vi.fn((digest: string) => ids[digest])
+      mockPackageRepo.deletePackageVersion = vi.fn()
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) =>
+          ({ name: digest, metadata: { container: { tags: [] } } }) as any
+      )
+      mockManifestAnalyzer.loadDigestUsedByMap.mockResolvedValue({
+        digestUsedBy: new Map([['shared', new Set(['other'])]]),
+        subjectReferrers: new Map(),
+        blobSizes: new Map(),
+        artifactClasses: new Map()
+      })
+
+      await orchestrator.resumeDeletions()
+
+      expect(mockPackageRepo.deletePackageVersion).toHaveBeenCalledTimes(1)
+      expect(mockPackageRepo.deletePackageVersion).toHaveBeenCalledWith(
+        'test-package',
+        2,
+        'amd64',
+        [],
+        'left by an interrupted run'
+      )
+      expect(mockJournal.complete).toHaveBeenCalledWith('gone')
+      expect(mockJournal.complete).toHaveBeenCalledWith('present')
+      expect(mockJournal.finish).toHaveBeenCalled()
+    })
+
+    it('only completes the versions a plan holds', async () => {
+      mockJournal.getPendingTrees.mockReturnValue([
+        {
+          root: 'gone',
+          versions: [
+            { digest: 'gone', id: 1 },
+            { digest: 'amd64', id: 2 },
+            { digest: 'arm64', id: 3 }
+          ]
+        }
+      ])
+      mockPackageRepo.getIdByDigest = vi.fn(
+        (digest: string) => ({ amd64: 2, arm64: 3 })[digest]
+      )
+      mockPackageRepo.deletePackageVersion = vi.fn()
+
+      expect(await orchestrator.resumeDeletions(new Set(['amd64']))).toBe(true)
+
+      expect(mockPackageRepo.deletePackageVersion).toHaveBeenCalledTimes(1)
+      expect(mockPackageRepo.deletePackageVersion).toHaveBeenCalledWith(
+        'test-package',
+        2,
+        'amd64',
+        undefined,
+        'left by an interrupted run'
+      )
+      // arm64 is left to a later run
+      expect(mockJournal.complete).not.toHaveBeenCalled()
+    })
+
+    it('checks a plan for drift before completing interrupted deletions', async () => {
+      mockJournal.getPendingTrees.mockReturnValue([
+        { root: 'gone', versions: [{ digest: 'gone', id: 1 }] }
+      ])
+      config.planDrift = undefined
+      mockPackageRepo.getPackageByDigest = vi.fn().mockReturnValue(undefined)
+      mockImageDeleter.planCascade = vi.fn().mockReturnValue(new Map())
+
+      await expect(
+        orchestrator.apply({
+          package: 'test-package',
+          untag: [],
+          delete: [
+            {
+              digest: 'index',
+              id: 2,
+              tags: [],
+              updatedAt: '2024-01-01T00:00:00Z',
+              rule: 'delete-tags',
+              cascade: []
+            }
+          ]
+        })
+      ).rejects.toThrow('1 plan entries changed since planning')
+      expect(mockJournal.restore).not.toHaveBeenCalled()
+    })
+
+    it('saves each cache snapshot of a run under its own key', async () => {
+      const { DeletionJournal: ActualJournal } = await vi.importActual<
+        typeof import('../deletion-journal')
+      >('../deletion-journal')
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'orchestrator-'))
+      process.env.RUNNER_TEMP = dir
+      process.env.GITHUB_RUN_ID = '42'
+      vi.mocked(cache.isFeatureAvailable).mockReturnValue(true)
+      // The previous run left the children of 'gone' behind
+      vi.mocked(cache.restoreCache).mockImplementation(async ([journalDir]) => {
+        fs.writeFileSync(
+          path.join(journalDir, 'journal.json'),
+          JSON.stringify({
+            version: 1,
+            packages: {
+              'test-package': [
+                {
+                  root: 'gone',
+                  versions: [
+                    { digest: 'gone', id: 1 },
+                    { digest: 'amd64', id: 2 }
+                  ]
+                }
+              ]
+            }
+          })
+        )
+        return 'hit-key'
+      })
+      const saved: Array<[string, unknown]> = []
+      vi.mocked(cache.saveCache).mockImplementation(
+        async ([journalDir], key) => {
+          saved.push([
+            key,
+            JSON.parse(
+              fs.readFileSync(path.join(journalDir, 'journal.json'), 'utf8')
+            )
+          ])
+          return 1
+        }
+      )
+      vi.mocked(DeletionJournal).mockImplementation(function (
+        ...args: ConstructorParameters<typeof DeletionJournal>
+      ) {
+        return new ActualJournal(...args)
+      } as any)
+      orchestrator = new CleanupOrchestrator(
+        config,
+        'test-package',
+        octokitClient
+      )
+      const ids: Record<string, number> = { amd64: 2, index: 3 }
+      mockPackageRepo.getIdByDigest = vi.fn((digest: string) => ids[digest])
+      mockPackageRepo.deletePackageVersion = vi.fn()
+      config.deleteUntagged = true
+      mockDeletionStrategy.deleteAllUntagged.mockReturnValue(new Set(['index']))
+      mockImageDeleter.planCascade = vi
+        .fn()
+        .mockReturnValue(new Map([['index', []]]))
+      mockImageDeleter.deleteImages.mockImplementation(
+        async (deleteSet, afterDelete, afterTree) => {
+          await afterTree?.('index')
+          return {
+            deleted: new Set(['index']),
+            numberImagesDeleted: 1,
+            numberMultiImagesDeleted: 0
+          }
+        }
+      )
+
+      try {
+        await orchestrator.resumeDeletions()
+        await orchestrator.reload()
+        await orchestrator.run()
+      } finally {
+        delete process.env.RUNNER_TEMP
+        delete process.env.GITHUB_RUN_ID
+        vi.mocked(cache.isFeatureAvailable).mockReturnValue(false)
+        fs.rmSync(dir, { recursive: true, force: true })
+      }
+
+      const keys = saved.map(([key]) => key)
+      expect(keys).toEqual([
+        expect.stringMatching(/-42-1-1-done$/),
+        expect.stringMatching(/-42-1-2-planned$/),
+        expect.stringMatching(/-42-1-3-done$/)
+      ])
+      expect(saved.at(-1)?.[1]).toEqual({ version: 1, packages: {} })
+    })
+
+    it('leaves the journal alone in plan mode', async () => {
+      config.mode = 'plan'
+
+      await orchestrator.resumeDeletions()
+
+      expect(mockJournal.restore).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('restore', () => {
+    const deleted = (
+      id: number,
+      digest: string,
+      tags: string[] = []
+    ): GhPackage => ({
+      id,
+      name: digest,
+      updated_at: '2024-03-01T00:00:00Z',
+      deleted_at: '2024-03-01T00:00:00Z',
+      metadata: { container: { tags } }
+    })
+
+    beforeEach(() => {
+      mockPackageRepo.getDeletedPackageVersions = vi
+        .fn()
+        .mockResolvedValue([
+          deleted(1, 'sha256:index', ['v1']),
+          deleted(2, 'sha256:amd64'),
+          deleted(3, 'sha256:sig', ['sha256-index.sig']),
+          deleted(4, 'sha256:other', ['v2'])
+        ])
+      mockPackageRepo.restorePackageVersion = vi.fn()
+      vi.mocked(parentDigestFromReferrerTag).mockImplementation(tag =>
+        tag === 'sha256-index.sig' ? 'sha256:index' : undefined
+      )
+      mockRegistry.getManifestByDigest = vi.fn(async (digest: string) =>
+        digest === 'sha256:index'
+          ? { manifests: [{ digest: 'sha256:amd64' }] }
+          : {}
+      )
+    })
+
+    it('restores an image with its platform images and referrers', async () => {
+      config.restoreTags = ['v1']
+
+      const restored = await orchestrator.restore()
+
+      expect(restored.map(version => [version.digest, version.reason])).toEqual(
+        [
+          ['sha256:index', 'tag v1'],
+          ['sha256:amd64', 'platform image of sha256:index'],
+          ['sha256:sig', 'referrer of sha256:index']
+        ]
+      )
+      expect(mockPackageRepo.restorePackageVersion).toHaveBeenCalledWith(
+        'test-package',
+        2,
+        'sha256:amd64',
+        []
+      )
+      expect(mockPackageRepo.restorePackageVersion).toHaveBeenCalledTimes(3)
+    })
+
+    it('restores nothing the selectors do not pick', async () => {
+      config.restoreDigests = ['sha256:missing']
+
+      await expect(orchestrator.restore()).resolves.toEqual([])
+      expect(core.info).toHaveBeenCalledWith('no deleted versions selected')
+    })
+  })
+
+  describe('graph-file', () => {
+    it('graphs the package before deleting it', async () => {
+      config.graphFiles = ['graph.dot']
+      mockPackageRepo.getDigests = vi.fn().mockReturnValue(new Set(['old']))
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'old',
+        metadata: { container: { tags: [] } }
+      } as any)
+      mockPackageRepo.getReferrerTagsForDigest = vi.fn().mockReturnValue([])
+      mockRegistry.getManifestByDigest = vi.fn().mockResolvedValue({})
+      mockImageDeleter.planCascade = vi
+        .fn()
+        .mockReturnValue(new Map([['old', []]]))
+      await orchestrator.reload()
+
+      await orchestrator.run()
+
+      expect(orchestrator.getGraph()).toEqual({
+        package: 'test-package',
+        nodes: [{ digest: 'old', tags: [], state: 'planned' }],
+        edges: [],
+        plan: new Map([['old', []]])
+      })
+    })
+
+    it('graphs nothing without graph-file', async () => {
+      await orchestrator.reload()
+      await orchestrator.run()
+
+      expect(orchestrator.getGraph()).toBeNull()
+    })
+  })
+
+  describe('explain mode', () => {
+    const versions: Record<string, string[]> = {
+      multi: ['v1', 'keep'],
+      index: ['pr-1'],
+      amd64: [],
+      old: []
+    }
+
+    beforeEach(async () => {
+      config.explainFile = 'trace.json'
+      config.deleteTags = 'v1,pr-*'
+      config.keepNtagged = 1
+      mockPackageRepo.getDigests = vi
+        .fn()
+        .mockReturnValue(new Set(Object.keys(versions)))
+      mockPackageRepo.getPackageByDigest = vi.fn(
+        (digest: string) =>
+          ({
+            id: 1,
+            name: digest,
+            updated_at: '2024-01-01T00:00:00Z',
+            metadata: { container: { tags: versions[digest] } }
+          }) as any
+      )
+      mockDeletionStrategy.processTagDeletions.mockResolvedValue({
+        deleteSet: new Set(['index']),
+        untagOperations: new Map([['multi', ['v1']]])
+      })
+      mockDeletionStrategy.computeKeepNTaggedDigests.mockReturnValue(
+        new Set(['multi'])
+      )
+      mockImageDeleter.planCascade = vi
+        .fn()
+        .mockReturnValue(new Map([['index', ['amd64']]]))
+      orchestrator = new CleanupOrchestrator(
+        config,
+        'test-package',
+        octokitClient
+      )
+      await orchestrator.reload()
+    })
+
+    it('traces the steps and verdict of every digest', async () => {
+      await orchestrator.run()
+
+      expect(orchestrator.getTrace()).toEqual({
+        multi: {
+          tags: ['v1', 'keep'],
+          steps: ['untag of v1 gated by keep-n-tagged'],
+          verdict: 'kept'
+        },
+        index: {
+          tags: ['pr-1'],
+          steps: ['staged for deletion by tag deletions'],
+          verdict: 'deleted by tag deletions'
+        },
+        amd64: { tags: [], steps: [], verdict: 'deleted with index' },
+        old: { tags: [], steps: [], verdict: 'kept' }
+      })
+    })
+
+    it('traces images the circuit breaker kept', async () => {
+      config.maxDeletions = 1
+      config.maxDeletionsAction = 'dry-run'
+      mockImageDeleter.planDeletions = vi
+        .fn()
+        .mockReturnValue(new Set(['index', 'amd64']))
+
+      await orchestrator.run()
+
+      const verdict =
+        'kept: staged by tag deletions, stopped by the max-deletions circuit breaker'
+      expect(orchestrator.getTrace()?.index.verdict).toBe(verdict)
+      expect(orchestrator.getTrace()?.amd64.verdict).toBe(verdict)
+    })
+
+    it('traces nothing without explain-file', async () => {
+      config.explainFile = undefined
+      const untraced = new CleanupOrchestrator(
+        config,
+        'test-package',
+        octokitClient
+      )
+      await untraced.reload()
+      await untraced.run()
+
+      expect(untraced.getTrace()).toBeNull()
+    })
   })
 
   describe('run() invariants', () => {
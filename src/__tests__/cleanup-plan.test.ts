@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  CleanupPlan,
+  PLAN_FORMAT_VERSION,
+  loadCleanupPlan,
+  plannedVersion,
+  versionDrift,
+  writeCleanupPlan
+} from '../cleanup-plan'
+import { GhPackage } from '../utils'
+
+const ghPackage = (overrides: Partial<GhPackage> = {}): GhPackage =>
+  ({
+    id: 7,
+    name: 'sha256:abc',
+    updated_at: '2024-01-01T00:00:00Z',
+    metadata: { container: { tags: ['v1', 'latest'] } },
+    ...overrides
+  }) as GhPackage
+
+describe('versionDrift', () => {
+  const planned = plannedVersion(ghPackage())
+
+  it('accepts an unchanged version, whatever the tag order', () => {
+    expect(
+      versionDrift(
+        planned,
+        ghPackage({ metadata: { container: { tags: ['latest', 'v1'] } } })
+      )
+    ).toBeUndefined()
+  })
+
+  it('reports a version that is gone', () => {
+    expect(versionDrift(planned, undefined)).toBe('no longer exists')
+  })
+
+  it('reports changed tags', () => {
+    expect(
+      versionDrift(
+        planned,
+        ghPackage({ metadata: { container: { tags: ['v1'] } } })
+      )
+    ).toBe('tags changed from [latest,v1] to [v1]')
+  })
+
+  it('reports a changed updated_at', () => {
+    expect(
+      versionDrift(planned, ghPackage({ updated_at: '2024-02-01T00:00:00Z' }))
+    ).toBe(
+      'updated_at changed from 2024-01-01T00:00:00Z to 2024-02-01T00:00:00Z'
+    )
+  })
+
+  it('reports a changed version id', () => {
+    expect(versionDrift(planned, ghPackage({ id: 8 }))).toBe(
+      'version id changed from 7 to 8'
+    )
+  })
+})
+
+describe('plan file', () => {
+  let dir: string
+  let file: string
+  const plan: CleanupPlan = {
+    version: PLAN_FORMAT_VERSION,
+    owner: 'Acme',
+    createdAt: '2024-01-01T00:00:00Z',
+    packages: [
+      {
+        package: 'app',
+        untag: [],
+        delete: [
+          {
+            ...plannedVersion(ghPackage()),
+            rule: 'delete-tags',
+            cascade: []
+          }
+        ]
+      }
+    ]
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-plan-'))
+    file = path.join(dir, 'plan.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('reads back the plan it wrote', async () => {
+    await writeCleanupPlan(file, plan)
+
+    await expect(loadCleanupPlan(file, 'acme')).resolves.toEqual(plan)
+  })
+
+  it('rejects a plan for another owner', async () => {
+    await writeCleanupPlan(file, plan)
+
+    await expect(loadCleanupPlan(file, 'other')).rejects.toThrow(
+      `plan-file ${file} was made for owner Acme, not other`
+    )
+  })
+
+  it('rejects a plan of another format version', async () => {
+    await writeCleanupPlan(file, { ...plan, version: 99 })
+
+    await expect(loadCleanupPlan(file, 'acme')).rejects.toThrow(
+      `plan-file ${file} has format version 99, expected ${PLAN_FORMAT_VERSION}`
+    )
+  })
+
+  it('rejects a malformed package entry', async () => {
+    fs.writeFileSync(
+      file,
+      JSON.stringify({ ...plan, packages: [{ package: 'app' }] })
+    )
+
+    await expect(loadCleanupPlan(file, 'acme')).rejects.toThrow(
+      `plan-file ${file} has a malformed package entry`
+    )
+  })
+
+  it('reports a file that cannot be read', async () => {
+    await expect(loadCleanupPlan(file, 'acme')).rejects.toThrow(
+      `plan-file ${file} could not be read`
+    )
+  })
+})
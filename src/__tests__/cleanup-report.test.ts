@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as core from '@actions/core'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  buildCleanupReport,
+  loadCleanupReport,
+  setCleanupOutputs,
+  writeCleanupReport
+} from '../cleanup-report'
+import { Config } from '../config'
+import { CleanupTaskStatistics } from '../utils'
+
+vi.mock('@actions/core')
+
+const packageStats = (
+  name: string,
+  digest: string,
+  id: number
+): CleanupTaskStatistics => {
+  const stats = new CleanupTaskStatistics(name, 0, 1)
+  stats.bytesReclaimed = 100
+  stats.deletedVersions = [{ digest, id, tags: [] }]
+  stats.deletedByArtifactClass = { helm: 1 }
+  return stats
+}
+
+describe('cleanup report', () => {
+  const config = { owner: 'acme', dryRun: true } as Config
+  const perPackage = [
+    packageStats('app', 'sha256:a', 1),
+    packageStats('api', 'sha256:b', 2)
+  ]
+  perPackage[0].untaggedTags = ['v1']
+  perPackage[1].rewrittenIndexes = [
+    { digest: 'sha256:d', newDigest: 'sha256:e', tags: ['v3'] }
+  ]
+  perPackage[1].validationFindings = ['digest sha256:c not found on image v2']
+  const global = perPackage[0].add(perPackage[1])
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('reports every package and the totals', () => {
+    const report = buildCleanupReport(config, perPackage, global)
+
+    expect(report).toMatchObject({
+      owner: 'acme',
+      dryRun: true,
+      numberImagesDeleted: 2,
+      bytesReclaimed: 200
+    })
+    expect(report.packages.map(p => p.package)).toEqual(['app', 'api'])
+    expect(report.packages[0].deleted).toEqual([
+      { digest: 'sha256:a', id: 1, tags: [] }
+    ])
+    expect(report.packages[0].deletedByArtifactClass).toEqual({ helm: 1 })
+    expect(report.packages[1].rewritten).toEqual([
+      { digest: 'sha256:d', newDigest: 'sha256:e', tags: ['v3'] }
+    ])
+  })
+
+  it('publishes the outputs across packages', () => {
+    setCleanupOutputs(buildCleanupReport(config, perPackage, global))
+
+    const outputs = Object.fromEntries(vi.mocked(core.setOutput).mock.calls)
+    expect(outputs).toEqual({
+      'dry-run': 'true',
+      'deleted-count': '2',
+      'deleted-digests': '["sha256:a","sha256:b"]',
+      'deleted-version-ids': '[1,2]',
+      'untagged-tags': '["v1"]',
+      'package-stats': JSON.stringify({
+        app: {
+          deleted: 1,
+          multiArchDeleted: 0,
+          bytesReclaimed: 100,
+          untagged: 1
+        },
+        api: {
+          deleted: 1,
+          multiArchDeleted: 0,
+          bytesReclaimed: 100,
+          untagged: 0
+        }
+      }),
+      'validation-findings': '["digest sha256:c not found on image v2"]'
+    })
+  })
+
+  describe('report file', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanup-report-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('writes the report as JSON', async () => {
+      const file = path.join(dir, 'report.json')
+      const report = buildCleanupReport(config, perPackage, global)
+
+      await writeCleanupReport(file, report)
+
+      expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(report)
+    })
+
+    it('reports a file that cannot be written', async () => {
+      const file = path.join(dir, 'missing', 'report.json')
+
+      await expect(
+        writeCleanupReport(file, buildCleanupReport(config, perPackage, global))
+      ).rejects.toThrow(`report-file ${file} could not be written`)
+    })
+
+    it('loads a report for restore-report', async () => {
+      const file = path.join(dir, 'report.json')
+      const report = buildCleanupReport(config, perPackage, global)
+      await writeCleanupReport(file, report)
+
+      await expect(loadCleanupReport(file, 'ACME')).resolves.toEqual(report)
+      await expect(loadCleanupReport(file, 'other')).rejects.toThrow(
+        `restore-report ${file} was made for owner acme, not other`
+      )
+    })
+
+    it('rejects a file that is not a report', async () => {
+      const file = path.join(dir, 'report.json')
+      fs.writeFileSync(file, JSON.stringify({ owner: 'acme' }))
+
+      await expect(loadCleanupReport(file, 'acme')).rejects.toThrow(
+        `restore-report ${file} is not a cleanup report`
+      )
+      await expect(
+        loadCleanupReport(path.join(dir, 'missing.json'), 'acme')
+      ).rejects.toThrow('could not be read')
+    })
+  })
+})
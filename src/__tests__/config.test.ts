@@ -8,9 +8,20 @@ import {
   type MockedFunction,
   type MockedClass
 } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
 import * as core from '@actions/core'
 import humanInterval from 'human-interval'
-import { Config, LogLevel, buildConfig } from '../config'
+import {
+  Config,
+  LogLevel,
+  buildConfig,
+  configForPackage,
+  parseByteSize,
+  parseKeepNTaggedGroups,
+  parseLabelSelectors
+} from '../config'
 import { OctokitClient } from '../octokit-client'
 
 // Mock dependencies
@@ -270,6 +281,534 @@ describe('Config', () => {
       await expect(buildConfig()).rejects.toThrow('keep-n-tagged is negative')
     })
 
+    it('should parse keep-n-tagged-groups', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'keep-n-tagged-groups': 'pr-*=5\n\n  v*=20\nnightly-*=3\n'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.keepNtaggedGroups).toEqual([
+        { pattern: 'pr-*', count: 5 },
+        { pattern: 'v*', count: 20 },
+        { pattern: 'nightly-*', count: 3 }
+      ])
+      expect(config.deleteUntagged).toBeUndefined()
+    })
+
+    it('should reject keep-n-tagged combined with keep-n-tagged-groups', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'keep-n-tagged': '5',
+          'keep-n-tagged-groups': 'pr-*=5'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'keep-n-tagged and keep-n-tagged-groups cannot be set at the same time'
+      )
+    })
+
+    it('should require exclude-release-tags for the draft and pre-release options', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'exclude-release-drafts': 'true'
+        }
+        return inputs[name] || ''
+      })
+      mockGetBooleanInput.mockImplementation(
+        (name: string) => name === 'exclude-release-drafts'
+      )
+
+      await expect(buildConfig()).rejects.toThrow(
+        'exclude-release-drafts requires exclude-release-tags'
+      )
+    })
+
+    it('should require a capture group in delete-closed-pr-tags', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'delete-closed-pr-tags': '^pr-\\d+$'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'delete-closed-pr-tags needs a capture group for the pull request number'
+      )
+    })
+
+    it('should parse delete-closed-pr-tags', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'delete-closed-pr-tags': '^pr-(\\d+)$'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.deleteClosedPrTags).toBe('^pr-(\\d+)$')
+      expect(config.deleteUntagged).toBeUndefined()
+    })
+
+    it('should parse delete-labels and exclude-labels', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'delete-labels': 'com.example.ephemeral=true',
+          'exclude-labels':
+            'com.example.keep, org.opencontainers.image.ref.name=v*'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.deleteLabels).toEqual([
+        { key: 'com.example.ephemeral', value: 'true' }
+      ])
+      expect(config.excludeLabels).toEqual([
+        { key: 'com.example.keep' },
+        { key: 'org.opencontainers.image.ref.name', value: 'v*' }
+      ])
+      // delete-labels is a deletion option, so no delete-untagged default
+      expect(config.deleteUntagged).toBeUndefined()
+    })
+
+    it('should parse storage-quota', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'storage-quota': '20 GB'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.storageQuota).toBe(20e9)
+      expect(config.storageQuotaReadable).toBe('20 GB')
+      expect(config.deleteUntagged).toBeUndefined()
+    })
+
+    it('should parse the max-deletions circuit breaker', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'max-deletions': '200',
+          'max-deletions-percent': '25%',
+          'max-deletions-action': 'dry-run',
+          'acknowledge-deletions': '350'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.maxDeletions).toBe(200)
+      expect(config.maxDeletionsPercent).toBe(25)
+      expect(config.maxDeletionsAction).toBe('dry-run')
+      expect(config.acknowledgeDeletions).toBe(350)
+      // A safety limit isn't a cleanup rule, delete-untagged still defaults
+      expect(config.deleteUntagged).toBe(true)
+    })
+
+    it('should parse plan mode', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          mode: 'plan',
+          'plan-file': 'cleanup-plan.json'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.mode).toBe('plan')
+      expect(config.planFile).toBe('cleanup-plan.json')
+      expect(config.cleanupPlan).toBeUndefined()
+    })
+
+    it('should parse inventory mode', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          mode: 'inventory',
+          'inventory-file': 'inventory.csv, inventory.json'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.mode).toBe('inventory')
+      expect(config.planFile).toBeUndefined()
+      expect(config.inventoryFiles).toEqual(['inventory.csv', 'inventory.json'])
+    })
+
+    it('should parse explain-file', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'explain-file': 'cleanup-trace.json'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.explainFile).toBe('cleanup-trace.json')
+    })
+
+    it('should parse graph-file', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'graph-file': 'graph.dot,graph.mmd'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.graphFiles).toEqual(['graph.dot', 'graph.mmd'])
+    })
+
+    it('should parse deletion-journal', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'deletion-journal': ' cache '
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.deletionJournal).toBe('cache')
+    })
+
+    it('should turn on validate with fail-on-invalid', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'fail-on-invalid': 'true'
+        }
+        return inputs[name] || ''
+      })
+      mockGetBooleanInput.mockImplementation(
+        (name: string) => name === 'fail-on-invalid'
+      )
+
+      const config = await buildConfig()
+
+      expect(config.failOnInvalid).toBe(true)
+      expect(config.validate).toBe(true)
+    })
+
+    it('should reject fail-on-invalid with validate off', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          validate: 'false',
+          'fail-on-invalid': 'true'
+        }
+        return inputs[name] || ''
+      })
+      mockGetBooleanInput.mockImplementation(
+        (name: string) => name === 'fail-on-invalid'
+      )
+
+      await expect(buildConfig()).rejects.toThrow(
+        'fail-on-invalid requires validate'
+      )
+    })
+
+    it('should parse the restore selectors', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      vi.mocked(humanInterval).mockImplementation((value?: string) =>
+        value === '2 hours' ? 2 * 60 * 60 * 1000 : NaN
+      )
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          mode: 'restore',
+          'restore-digests': 'sha256:a, sha256:b',
+          'restore-tags': 'v1',
+          'restore-deleted-within': '2 hours'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.mode).toBe('restore')
+      expect(config.planFile).toBeUndefined()
+      expect(config.restoreDigests).toEqual(['sha256:a', 'sha256:b'])
+      expect(config.restoreTags).toEqual(['v1'])
+      expect(config.restoreDeletedWithin).toBe(2 * 60 * 60 * 1000)
+    })
+
+    it('should parse the strip selection', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      vi.mocked(humanInterval).mockImplementation((value?: string) =>
+        value === '2 hours' ? 2 * 60 * 60 * 1000 : NaN
+      )
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          mode: 'strip',
+          'strip-referrers-older-than': '2 hours'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.mode).toBe('strip')
+      expect(config.stripAttestations).toBe(true)
+      expect(config.stripReferrersOlderThan).toBe(2 * 60 * 60 * 1000)
+      expect(config.stripReferrersOlderThanReadable).toBe('2 hours')
+    })
+
+    it('should parse the platforms to prune', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          mode: 'prune-platforms',
+          'prune-platforms': 'linux/arm/v7, linux/386'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.mode).toBe('prune-platforms')
+      expect(config.prunePlatforms).toEqual(['linux/arm/v7', 'linux/386'])
+      expect(config.keepPlatforms).toBeUndefined()
+    })
+
+    it('should reject invalid plan mode inputs', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      const cases: Array<[Record<string, string>, string]> = [
+        [
+          { mode: 'review', 'plan-file': 'p.json' },
+          'mode must be plan, apply, inventory, restore, strip or prune-platforms'
+        ],
+        [
+          { 'strip-referrers-older-than': '2 hours' },
+          'strip-referrers-older-than requires mode strip'
+        ],
+        [
+          { mode: 'strip', 'strip-attestations': 'false' },
+          'mode strip with strip-attestations false requires strip-referrers-older-than'
+        ],
+        [
+          { 'keep-platforms': 'linux/amd64' },
+          'keep-platforms requires mode prune-platforms'
+        ],
+        [
+          { mode: 'prune-platforms' },
+          'mode prune-platforms requires prune-platforms or keep-platforms'
+        ],
+        [
+          {
+            mode: 'prune-platforms',
+            'prune-platforms': 'linux/386',
+            'keep-platforms': 'linux/amd64'
+          },
+          'prune-platforms and keep-platforms cannot both be set'
+        ],
+        [
+          { mode: 'prune-platforms', 'prune-platforms': 'arm' },
+          'prune-platforms: "arm" is not a platform'
+        ],
+        [{ mode: 'restore' }, 'mode restore requires restore-report'],
+        [{ 'restore-tags': 'v1' }, 'restore-tags requires mode restore'],
+        [
+          { mode: 'restore', 'restore-deleted-within': 'soon' },
+          'restore-deleted-within value "soon" is not a valid interval'
+        ],
+        [{ mode: 'apply' }, 'mode apply requires plan-file'],
+        [
+          { mode: 'plan', 'plan-file': 'p.json', 'inventory-file': 'i.csv' },
+          'inventory-file requires mode inventory'
+        ],
+        [
+          { mode: 'plan', 'plan-file': 'p.json', 'plan-drift': 'skip' },
+          'plan-drift requires mode apply'
+        ],
+        [
+          { mode: 'apply', 'plan-file': 'p.json', 'plan-drift': 'ignore' },
+          'plan-drift must be refuse or skip'
+        ]
+      ]
+      for (const [inputs, message] of cases) {
+        mockGetInput.mockImplementation(
+          (name: string) =>
+            (({ token: 'test-token', ...inputs }) as Record<string, string>)[
+              name
+            ] || ''
+        )
+        await expect(buildConfig()).rejects.toThrow(message)
+      }
+    })
+
+    it('should parse the retention floor', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'retention-floor-tagged': '5',
+          'retention-floor-images': '10'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.retentionFloorTagged).toBe(5)
+      expect(config.retentionFloorImages).toBe(10)
+    })
+
+    it('should reject a negative retention floor', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'retention-floor-images': '-3'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'retention-floor-images is negative'
+      )
+    })
+
+    it('should reject invalid max-deletions values', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      const cases: Array<[Record<string, string>, string]> = [
+        [{ 'max-deletions': 'ten' }, 'max-deletions is not number'],
+        [
+          { 'acknowledge-deletions': '-1' },
+          'acknowledge-deletions is negative'
+        ],
+        [
+          { 'max-deletions-percent': '150%' },
+          'max-deletions-percent value "150%" is not a percentage between 0 and 100'
+        ],
+        [
+          { 'max-deletions': '10', 'max-deletions-action': 'warn' },
+          'max-deletions-action must be abort or dry-run'
+        ],
+        [
+          { 'max-deletions-action': 'abort' },
+          'max-deletions-action requires max-deletions or max-deletions-percent'
+        ]
+      ]
+      for (const [inputs, message] of cases) {
+        mockGetInput.mockImplementation(
+          (name: string) =>
+            (({ token: 'test-token', ...inputs }) as Record<string, string>)[
+              name
+            ] || ''
+        )
+        await expect(buildConfig()).rejects.toThrow(message)
+      }
+    })
+
+    it('should require the {branch} placeholder in delete-stale-branch-tags', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'delete-stale-branch-tags': 'branch-*'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'delete-stale-branch-tags must contain the {branch} placeholder once'
+      )
+    })
+
+    it('should reject a delete-stale-branch-tags template of just {branch}', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'delete-stale-branch-tags': '{branch}'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'delete-stale-branch-tags needs a prefix or suffix around {branch}, such as branch-{branch}'
+      )
+    })
+
+    it('should handle semver-keep-patches and semver-keep-minors', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'semver-keep-patches': '3',
+          'semver-keep-minors': '2'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.semverKeepPatches).toBe(3)
+      expect(config.semverKeepMinors).toBe(2)
+      // A semver limit counts as a rule, so delete-untagged is not defaulted
+      expect(config.deleteUntagged).toBeUndefined()
+    })
+
+    it('should throw error for negative semver-keep-minors value', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'semver-keep-minors': '-2'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'semver-keep-minors is negative'
+      )
+    })
+
     it('should default deleteUntagged to true when no options are set', async () => {
       process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
       mockGetInput.mockImplementation((name: string) => {
@@ -392,6 +931,113 @@ describe('Config', () => {
       expect(config.registryUrl).toBe('https://custom.registry.com/')
     })
 
+    it('should select an OCI registry without asking GitHub about the owner', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockOctokitClient.prototype.getOwnerType = vi.fn()
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'registry-password',
+          'registry-url': 'https://harbor.example.com',
+          'registry-type': 'OCI',
+          'registry-username': 'robot$cleanup'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.registryType).toBe('oci')
+      expect(config.registryUsername).toBe('robot$cleanup')
+      expect(mockOctokitClient.prototype.getOwnerType).not.toHaveBeenCalled()
+    })
+
+    it('should parse include-artifacts and exclude-artifacts', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'include-artifacts': 'image, helm',
+          'exclude-artifacts': 'SBOM'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.includeArtifacts).toEqual(['image', 'helm'])
+      expect(config.excludeArtifacts).toEqual(['sbom'])
+    })
+
+    it('should reject unknown artifact classes', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'exclude-artifacts': 'charts'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'exclude-artifacts: unknown artifact class "charts"'
+      )
+    })
+
+    it('should parse referrer-artifact-types as a comma-separated list', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'referrer-artifact-types':
+            'application/vnd.dev.cosign.*, application/spdx+json,'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.referrerArtifactTypes).toEqual([
+        'application/vnd.dev.cosign.*',
+        'application/spdx+json'
+      ])
+    })
+
+    it('should reject invalid registry-type inputs', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      const registry = {
+        'registry-type': 'oci',
+        'registry-url': 'https://registry.example.com'
+      }
+      const cases: Array<[Record<string, string>, string]> = [
+        [{ 'registry-type': 'docker' }, 'registry-type must be ghcr or oci'],
+        [{ 'registry-type': 'oci' }, 'registry-type oci requires registry-url'],
+        [
+          { ...registry, mode: 'restore', 'restore-tags': 'v1' },
+          'mode restore requires registry-type ghcr'
+        ],
+        [
+          { ...registry, 'exclude-release-tags': 'true' },
+          'exclude-release-tags requires registry-type ghcr'
+        ],
+        [
+          { ...registry, 'delete-closed-pr-tags': '^pr-(\\d+)$' },
+          'delete-closed-pr-tags requires registry-type ghcr'
+        ]
+      ]
+      for (const [inputs, message] of cases) {
+        mockGetInput.mockImplementation(
+          (name: string) =>
+            (({ token: 'test-token', ...inputs }) as Record<string, string>)[
+              name
+            ] || ''
+        )
+        mockGetBooleanInput.mockImplementation(
+          (name: string) => inputs[name] === 'true'
+        )
+        await expect(buildConfig()).rejects.toThrow(message)
+      }
+    })
+
     it('should handle github-api-url without trailing slash', async () => {
       process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
       mockGetInput.mockImplementation((name: string) => {
@@ -560,6 +1206,221 @@ describe('Config', () => {
         /older-than value "gibberish" is not a valid interval/
       )
     })
+
+    it('should parse the gfs-keep-* windows', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      const DAY = 24 * 60 * 60 * 1000
+      vi.mocked(humanInterval).mockImplementation((value?: string) =>
+        value === '7 days' ? 7 * DAY : value === '30 days' ? 30 * DAY : NaN
+      )
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'gfs-keep-all': '7 days',
+          'gfs-keep-daily': '30 days',
+          'gfs-keep-monthly': 'forever'
+        }
+        return inputs[name] || ''
+      })
+
+      const config = await buildConfig()
+
+      expect(config.gfsRetention).toEqual({
+        keepAll: 7 * DAY,
+        keepDaily: 30 * DAY,
+        keepMonthly: Infinity
+      })
+      expect(config.gfsRetentionReadable).toBe(
+        'all 7 days, daily 30 days, monthly forever'
+      )
+      expect(config.deleteUntagged).toBeUndefined()
+    })
+
+    it('should reject gfs-keep-* windows that do not grow', async () => {
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      const DAY = 24 * 60 * 60 * 1000
+      vi.mocked(humanInterval).mockImplementation((value?: string) =>
+        value === '30 days' ? 30 * DAY : 7 * DAY
+      )
+      mockGetInput.mockImplementation((name: string) => {
+        const inputs: Record<string, string> = {
+          token: 'test-token',
+          'gfs-keep-daily': '30 days',
+          'gfs-keep-weekly': '7 days'
+        }
+        return inputs[name] || ''
+      })
+
+      await expect(buildConfig()).rejects.toThrow(
+        'gfs-keep-weekly must be longer than gfs-keep-daily'
+      )
+    })
+  })
+
+  describe('policy-file', () => {
+    let dir: string
+
+    const writePolicy = (text: string): string => {
+      const file = path.join(dir, 'ghcr-cleanup.yml')
+      fs.writeFileSync(file, text)
+      return file
+    }
+
+    const mockInputs = (inputs: Record<string, string>): void => {
+      vi.mocked(core.getInput).mockImplementation(
+        (name: string) => ({ token: 'test-token', ...inputs })[name] || ''
+      )
+    }
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'))
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      vi.mocked(core.getBooleanInput).mockReturnValue(false)
+      vi.mocked(OctokitClient).prototype.getOwnerType = vi
+        .fn()
+        .mockResolvedValue('Organization')
+      vi.mocked(OctokitClient).prototype.getAuthenticatedUserLogin = vi
+        .fn()
+        .mockResolvedValue(null)
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('gives each package the options of the first matching rule', async () => {
+      const file = writePolicy(
+        [
+          'rules:',
+          '  - packages: app-*',
+          '    keep-n-tagged: 5',
+          '    exclude-tags: latest',
+          '  - packages: app-api,tools',
+          '    delete-untagged: true'
+        ].join('\n')
+      )
+      mockInputs({
+        package: 'app-api,tools,other',
+        'keep-n-untagged': '3',
+        'policy-file': file
+      })
+
+      const config = await buildConfig()
+
+      const app = configForPackage(config, 'app-api')
+      expect(app.keepNtagged).toBe(5)
+      expect(app.excludeTags).toBe('latest')
+      expect(app.keepNuntagged).toBeUndefined()
+      expect(app.deleteUntagged).toBeUndefined()
+      expect(app.policyRule?.line).toBe(2)
+
+      const tools = configForPackage(config, 'tools')
+      expect(tools.deleteUntagged).toBe(true)
+      expect(tools.policyRule?.line).toBe(5)
+
+      // No rule matches, the action inputs apply
+      expect(configForPackage(config, 'other')).toBe(config)
+      expect(config.keepNuntagged).toBe(3)
+
+      expect(core.info).toHaveBeenCalledWith('[app-api] effective policy:')
+      expect(core.info).toHaveBeenCalledWith('[other] effective policy:')
+    })
+
+    it('defaults a rule with no options to delete-untagged', async () => {
+      const file = writePolicy('rules:\n  - packages: app\n')
+      mockInputs({ package: 'app', 'policy-file': file })
+
+      const config = await buildConfig()
+
+      expect(configForPackage(config, 'app').deleteUntagged).toBe(true)
+    })
+
+    it('reports an invalid rule with the line of the offending setting', async () => {
+      const file = writePolicy(
+        [
+          'rules:',
+          '  - packages: app',
+          '    keep-n-untagged: 2',
+          '    delete-untagged: true'
+        ].join('\n')
+      )
+      mockInputs({ package: 'app', 'policy-file': file })
+
+      await expect(buildConfig()).rejects.toThrow(
+        `${file}:4: delete-untagged and keep-n-untagged cannot be set at the same time`
+      )
+    })
+
+    it('fails when the policy file cannot be read', async () => {
+      mockInputs({
+        package: 'app',
+        'policy-file': path.join(dir, 'missing.yml')
+      })
+
+      await expect(buildConfig()).rejects.toThrow(/could not be read/)
+    })
+  })
+
+  describe('protected-digests-file', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'inventory-'))
+      process.env.GITHUB_REPOSITORY = 'test-owner/test-repo'
+      vi.mocked(core.getBooleanInput).mockReturnValue(false)
+      vi.mocked(OctokitClient).prototype.getOwnerType = vi
+        .fn()
+        .mockResolvedValue('Organization')
+      vi.mocked(OctokitClient).prototype.getAuthenticatedUserLogin = vi
+        .fn()
+        .mockResolvedValue(null)
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('loads the inventory for the owner on the registry host', async () => {
+      const file = path.join(dir, 'deployed.txt')
+      fs.writeFileSync(
+        file,
+        [
+          'registry.example.com/test-owner/app:v1',
+          'ghcr.io/test-owner/app:v2'
+        ].join('\n')
+      )
+      vi.mocked(core.getInput).mockImplementation(
+        (name: string) =>
+          ({
+            token: 'test-token',
+            package: 'app',
+            'registry-url': 'https://registry.example.com',
+            'protected-digests-file': file
+          })[name] || ''
+      )
+
+      const config = await buildConfig()
+
+      expect(config.protectedInventory?.path).toBe(file)
+      expect(config.protectedInventory?.tagsByPackage).toEqual(
+        new Map([['app', new Set(['v1'])]])
+      )
+    })
+
+    it('fails when the inventory cannot be read', async () => {
+      vi.mocked(core.getInput).mockImplementation(
+        (name: string) =>
+          ({
+            token: 'test-token',
+            package: 'app',
+            'protected-digests-file': path.join(dir, 'missing.txt')
+          })[name] || ''
+      )
+
+      await expect(buildConfig()).rejects.toThrow(
+        /protected-digests-file .* could not be read/
+      )
+    })
   })
 
   describe('LogLevel enum', () => {
@@ -570,4 +1431,71 @@ describe('Config', () => {
       expect(LogLevel.DEBUG).toBe(4)
     })
   })
+
+  describe('parseKeepNTaggedGroups', () => {
+    it('splits the count off at the last equals sign', () => {
+      expect(parseKeepNTaggedGroups('^v[0-9]+(?=-)=2')).toEqual([
+        { pattern: '^v[0-9]+(?=-)', count: 2 }
+      ])
+    })
+
+    it('rejects malformed and negative entries', () => {
+      expect(() => parseKeepNTaggedGroups('pr-*')).toThrow(
+        'keep-n-tagged-groups entry "pr-*" is not in the form <pattern>=<count>'
+      )
+      expect(() => parseKeepNTaggedGroups('pr-*=five')).toThrow(
+        'is not in the form <pattern>=<count>'
+      )
+      expect(() => parseKeepNTaggedGroups('pr-*=-1')).toThrow(
+        'keep-n-tagged-groups entry "pr-*=-1" is negative'
+      )
+      expect(() => parseKeepNTaggedGroups('\n  \n')).toThrow(
+        'keep-n-tagged-groups has no entries'
+      )
+    })
+  })
+
+  describe('parseByteSize', () => {
+    it('accepts decimal and binary units', () => {
+      expect(parseByteSize('storage-quota', '20 GB')).toBe(20e9)
+      expect(parseByteSize('storage-quota', '500mb')).toBe(500e6)
+      expect(parseByteSize('storage-quota', '1.5 GiB')).toBe(1.5 * 1024 ** 3)
+      expect(parseByteSize('storage-quota', '4096')).toBe(4096)
+    })
+
+    it('rejects values that are not sizes', () => {
+      expect(() => parseByteSize('storage-quota', '20 gigs')).toThrow(
+        'storage-quota value "20 gigs" is not a size such as 500 MB or 20 GB'
+      )
+      expect(() => parseByteSize('storage-quota', '-1 GB')).toThrow(
+        'is not a size'
+      )
+    })
+  })
+
+  describe('parseLabelSelectors', () => {
+    it('splits each selector at the first equals sign', () => {
+      expect(
+        parseLabelSelectors('delete-labels', 'a=b=c,\nkey-only', false)
+      ).toEqual([{ key: 'a', value: 'b=c' }, { key: 'key-only' }])
+    })
+
+    it('keeps commas in regex values, one selector per line', () => {
+      expect(
+        parseLabelSelectors('delete-labels', 'a=^x{1,3}$\nb=y', true)
+      ).toEqual([
+        { key: 'a', value: '^x{1,3}$' },
+        { key: 'b', value: 'y' }
+      ])
+    })
+
+    it('rejects selectors without a key and empty inputs', () => {
+      expect(() => parseLabelSelectors('exclude-labels', '=true')).toThrow(
+        'exclude-labels entry "=true" has no label key'
+      )
+      expect(() => parseLabelSelectors('exclude-labels', ' , ')).toThrow(
+        'exclude-labels has no entries'
+      )
+    })
+  })
 })
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { DecisionTrace, writeCleanupTrace } from '../decision-trace'
+import { PackageRepo } from '../package-repo'
+
+const packageRepo = (versions: Record<string, string[]>): PackageRepo =>
+  ({
+    getDigests: () => new Set(Object.keys(versions)),
+    getPackageByDigest: (digest: string) => ({
+      name: digest,
+      metadata: { container: { tags: versions[digest] } }
+    })
+  }) as any
+
+describe('DecisionTrace', () => {
+  it('traces every digest, including those no step touched', () => {
+    const trace = new DecisionTrace()
+    trace.record('sha256:a', 'tag v1 matches the tag deletions')
+    trace.record('sha256:a', 'staged for deletion by tag deletions')
+    trace.setVerdict('sha256:a', 'deleted by tag deletions')
+
+    expect(
+      trace.build(packageRepo({ 'sha256:a': ['v1'], 'sha256:b': [] }))
+    ).toEqual({
+      'sha256:a': {
+        tags: ['v1'],
+        steps: [
+          'tag v1 matches the tag deletions',
+          'staged for deletion by tag deletions'
+        ],
+        verdict: 'deleted by tag deletions'
+      },
+      'sha256:b': { tags: [], steps: [], verdict: 'kept' }
+    })
+  })
+
+  it('records a step repeated by a reload once', () => {
+    const trace = new DecisionTrace()
+    trace.record('sha256:a', 'child of index sha256:i')
+    trace.record('sha256:a', 'child of index sha256:i')
+
+    expect(
+      trace.build(packageRepo({ 'sha256:a': [] }))['sha256:a'].steps
+    ).toEqual(['child of index sha256:i'])
+  })
+})
+
+describe('writeCleanupTrace', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'decision-trace-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('writes the trace as JSON', async () => {
+    const file = path.join(dir, 'trace.json')
+    const trace = {
+      app: { 'sha256:a': { tags: [], steps: [], verdict: 'kept' } }
+    }
+
+    await writeCleanupTrace(file, trace)
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual(trace)
+  })
+
+  it('reports a file that cannot be written', async () => {
+    const file = path.join(dir, 'missing', 'trace.json')
+
+    await expect(writeCleanupTrace(file, {})).rejects.toThrow(
+      `explain-file ${file} could not be written`
+    )
+  })
+})
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as cache from '@actions/cache'
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { DeletionJournal, JournalTree } from '../deletion-journal'
+
+vi.mock('@actions/cache', () => ({
+  isFeatureAvailable: vi.fn(() => false),
+  restoreCache: vi.fn(),
+  saveCache: vi.fn()
+}))
+
+vi.mock('@actions/core')
+
+describe('DeletionJournal', () => {
+  const tree = (root: string): JournalTree => ({
+    root,
+    versions: [
+      { digest: root, id: 1 },
+      { digest: `${root}-amd64`, id: 2 }
+    ]
+  })
+
+  let dir: string
+  let file: string
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'deletion-journal-'))
+    file = path.join(dir, 'journal.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('keeps the trees that did not complete for the next run', async () => {
+    const journal = new DeletionJournal('acme', 'app', file)
+    await journal.restore()
+    await journal.begin([tree('sha256:a'), tree('sha256:b')])
+    await journal.complete('sha256:a')
+    await journal.finish()
+
+    const next = new DeletionJournal('acme', 'app', file)
+    await next.restore()
+
+    expect(next.getPendingTrees()).toEqual([tree('sha256:b')])
+  })
+
+  it('is written before the first delete', async () => {
+    const journal = new DeletionJournal('acme', 'app', file)
+    await journal.begin([tree('sha256:a')])
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf8'))).toEqual({
+      version: 1,
+      packages: { app: [tree('sha256:a')] }
+    })
+  })
+
+  it('shares a journal file between packages', async () => {
+    const app = new DeletionJournal('acme', 'app', file)
+    await app.restore()
+    await app.begin([tree('sha256:a')])
+
+    const web = new DeletionJournal('acme', 'web', file)
+    await web.restore()
+    await web.begin([tree('sha256:w')])
+    await web.complete('sha256:w')
+    await web.finish()
+
+    const next = new DeletionJournal('acme', 'app', file)
+    await next.restore()
+    expect(next.getPendingTrees()).toEqual([tree('sha256:a')])
+  })
+
+  it('ignores a journal of another format', async () => {
+    fs.writeFileSync(file, JSON.stringify({ version: 99, packages: {} }))
+    const journal = new DeletionJournal('acme', 'app', file)
+
+    await journal.restore()
+
+    expect(journal.getPendingTrees()).toEqual([])
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('has an unknown format')
+    )
+  })
+
+  it('reports a journal file that cannot be written', async () => {
+    const missing = path.join(file, 'journal.json')
+    fs.writeFileSync(file, '')
+    const journal = new DeletionJournal('acme', 'app', missing)
+
+    await expect(journal.begin([tree('sha256:a')])).rejects.toThrow(
+      `deletion-journal ${missing} could not be written`
+    )
+  })
+
+  describe('cache', () => {
+    beforeEach(() => {
+      process.env.RUNNER_TEMP = dir
+      process.env.GITHUB_RUN_ID = '42'
+      process.env.GITHUB_RUN_ATTEMPT = '2'
+      vi.mocked(cache.isFeatureAvailable).mockReturnValue(true)
+      vi.mocked(cache.saveCache).mockResolvedValue(1)
+    })
+
+    afterEach(() => {
+      delete process.env.RUNNER_TEMP
+      delete process.env.GITHUB_RUN_ID
+      delete process.env.GITHUB_RUN_ATTEMPT
+      vi.mocked(cache.isFeatureAvailable).mockReturnValue(false)
+    })
+
+    it('saves the planned trees and what is left at the end', async () => {
+      vi.mocked(cache.restoreCache).mockResolvedValue(undefined)
+      const journal = new DeletionJournal('acme', 'app', 'cache')
+      await journal.restore()
+      await journal.begin([tree('sha256:a')])
+      await journal.complete('sha256:a')
+      await journal.finish()
+
+      expect(cache.restoreCache).toHaveBeenCalledWith(
+        [expect.any(String)],
+        'ghcr-journal-v1-acme-app-42-2',
+        ['ghcr-journal-v1-acme-app-']
+      )
+      expect(
+        vi.mocked(cache.saveCache).mock.calls.map(call => call[1])
+      ).toEqual([
+        'ghcr-journal-v1-acme-app-42-2-1-planned',
+        'ghcr-journal-v1-acme-app-42-2-2-done'
+      ])
+    })
+  })
+})
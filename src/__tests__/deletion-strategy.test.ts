@@ -1,8 +1,17 @@
-import { describe, it, expect, beforeEach, vi, type Mocked } from 'vitest'
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  vi,
+  type Mocked
+} from 'vitest'
 import * as core from '@actions/core'
 import { DeletionStrategy } from '../deletion-strategy'
 import { CleanupContext } from '../cleanup-types'
 import { ImageFilter } from '../image-filter'
+import { StorageUsage } from '../storage-usage'
 
 vi.mock('@actions/core')
 vi.mock('../image-filter')
@@ -93,6 +102,49 @@ describe('DeletionStrategy', () => {
       expect(filterSet.has('digest1')).toBe(false)
     })
 
+    it('should delete closed pull request tags even under keep-n-tagged', async () => {
+      context.config.deleteTags = ''
+      context.config.keepNtagged = 5
+      const filterSet = new Set(['digest1', 'digest2'])
+      mockPackageRepo.getDigestByTag.mockReturnValue('digest1')
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'digest1',
+        metadata: { container: { tags: ['pr-12'] } }
+      })
+
+      const result = await strategy.processTagDeletions(
+        filterSet,
+        [],
+        new Set(['pr-12'])
+      )
+
+      expect(result.deleteSet).toEqual(new Set(['digest1']))
+      expect(filterSet.has('digest1')).toBe(false)
+      expect(core.startGroup).toHaveBeenCalledWith(
+        '[test-package] Find tagged images to delete: closed pull requests (1)'
+      )
+    })
+
+    it('should untag deleted branch tags from multi-tagged images', async () => {
+      context.config.deleteTags = ''
+      const filterSet = new Set(['digest1'])
+      mockPackageRepo.getDigestByTag.mockReturnValue('digest1')
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'digest1',
+        metadata: { container: { tags: ['branch-gone', 'v1.0'] } }
+      })
+
+      const result = await strategy.processTagDeletions(
+        filterSet,
+        [],
+        new Set(),
+        new Set(['branch-gone'])
+      )
+
+      expect(result.deleteSet.size).toBe(0)
+      expect(result.untagOperations.get('digest1')).toEqual(['branch-gone'])
+    })
+
     it('should handle multi-tagged images for untagging', async () => {
       context.config.deleteTags = 'v1.0'
       const filterSet = new Set(['digest1'])
@@ -192,6 +244,28 @@ describe('DeletionStrategy', () => {
       expect(filterSet.has('digest4')).toBe(true)
     })
 
+    it('traces the rank of every untagged image', () => {
+      context.config.keepNuntagged = 1
+      const record = vi.fn()
+      context.trace = { record } as any
+      mockPackageRepo.getPackageByDigest.mockImplementation(digest => ({
+        name: digest,
+        updated_at: `2024-01-0${digest.slice(-1)}T00:00:00Z`,
+        metadata: { container: { tags: [] } }
+      }))
+
+      strategy.keepNUntagged(new Set(['digest1', 'digest2']))
+
+      expect(record).toHaveBeenCalledWith(
+        'digest2',
+        'keep-n-untagged rank 1: keep'
+      )
+      expect(record).toHaveBeenCalledWith(
+        'digest1',
+        'keep-n-untagged rank 2: delete'
+      )
+    })
+
     it('should not delete when untagged count is less than keepN', () => {
       context.config.keepNuntagged = 5
       const filterSet = new Set(['digest1', 'digest2'])
@@ -451,6 +525,441 @@ describe('DeletionStrategy', () => {
     })
   })
 
+  describe('keep-n-tagged groups', () => {
+    // pr-* images are the newest, so a flat keep-n-tagged would spend
+    // every keep slot on them.
+    const packages: Record<string, { tags: string[]; day: number }> = {
+      pr3: { tags: ['pr-3'], day: 9 },
+      pr2: { tags: ['pr-2'], day: 8 },
+      pr1: { tags: ['pr-1'], day: 7 },
+      v3: { tags: ['v3'], day: 6 },
+      v2: { tags: ['v2'], day: 5 },
+      v1: { tags: ['v1'], day: 4 },
+      both: { tags: ['v0', 'pr-0'], day: 3 },
+      other: { tags: ['nightly'], day: 2 }
+    }
+
+    beforeEach(() => {
+      context.config.deleteTags = undefined
+      context.config.keepNtaggedGroups = [
+        { pattern: 'pr-*', count: 1 },
+        { pattern: 'v*', count: 2 }
+      ]
+      mockPackageRepo.getPackageByDigest.mockImplementation(digest => ({
+        name: digest,
+        updated_at: `2024-01-0${packages[digest].day}T00:00:00Z`,
+        metadata: { container: { tags: packages[digest].tags } }
+      }))
+      mockPackageRepo.getDigestByTag.mockImplementation(
+        tag =>
+          Object.keys(packages).find(digest =>
+            packages[digest].tags.includes(tag)
+          ) ?? undefined
+      )
+    })
+
+    it('ranks each group independently and leaves unmatched images alone', () => {
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.keepNTagged(filterSet)
+
+      expect(result).toEqual(new Set(['pr2', 'pr1', 'v1', 'both']))
+      expect(filterSet).toEqual(new Set(['pr3', 'v3', 'v2', 'other']))
+    })
+
+    it('keeps an image that any of its groups keeps', () => {
+      context.config.keepNtaggedGroups = [
+        { pattern: 'pr-*', count: 1 },
+        { pattern: 'v*', count: 4 }
+      ]
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.keepNTagged(filterSet)
+
+      // `both` is outside the pr-* window but inside the v* window
+      expect(result).toEqual(new Set(['pr2', 'pr1']))
+      expect(core.info).toHaveBeenCalledWith(
+        'both v0,pr-0 (kept by another keep-n-tagged group)'
+      )
+    })
+
+    it('computeKeepNTaggedDigests returns the union of every group head', () => {
+      const keepSet = strategy.computeKeepNTaggedDigests(
+        new Set(Object.keys(packages))
+      )
+
+      expect(keepSet).toEqual(new Set(['pr3', 'v3', 'v2']))
+    })
+
+    it('processTagDeletions defers only the tags a group covers', async () => {
+      context.config.deleteTags = 'pr-*,nightly'
+      const filterSet = new Set(Object.keys(packages))
+      mockImageFilter.expandTags.mockReturnValue(
+        new Set(['pr-3', 'pr-2', 'nightly'])
+      )
+
+      const result = await strategy.processTagDeletions(filterSet, [])
+
+      // pr-* is owned by its keep-n-tagged group; nightly is not grouped
+      expect(result.deleteSet).toEqual(new Set(['other']))
+    })
+  })
+
+  describe('keepSemver', () => {
+    const packages: Record<string, string[]> = {
+      d200: ['v2.0.0'],
+      d131: ['v1.3.1'],
+      d130: ['v1.3.0', '1.3.0'],
+      d122: ['v1.2.2'],
+      d121: ['v1.2.1'],
+      d120: ['v1.2.0'],
+      d110: ['v1.1.0'],
+      dlatest: ['v1.0.0', 'latest'],
+      dnightly: ['nightly']
+    }
+
+    beforeEach(() => {
+      mockPackageRepo.getPackageByDigest.mockImplementation(digest => ({
+        name: digest,
+        updated_at: '2024-01-01T00:00:00Z',
+        metadata: { container: { tags: packages[digest] } }
+      }))
+    })
+
+    it('returns empty set when neither semver limit is configured', () => {
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.keepSemver(filterSet)
+
+      expect(result.size).toBe(0)
+      expect(filterSet.size).toBe(Object.keys(packages).length)
+    })
+
+    it('keeps the newest N patches of each minor line', () => {
+      context.config.semverKeepPatches = 2
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.keepSemver(filterSet)
+
+      expect(Array.from(result)).toEqual(['d120'])
+      expect(filterSet.has('d120')).toBe(false)
+      expect(filterSet.has('d121')).toBe(true)
+    })
+
+    it('keeps the newest N minors of each major and drops whole older lines', () => {
+      context.config.semverKeepMinors = 2
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.keepSemver(filterSet)
+
+      // 1.3 and 1.2 are kept; 1.1 goes; 1.0 is pinned by `latest`;
+      // 2.0 is the only minor of its major.
+      expect(result).toEqual(new Set(['d110']))
+    })
+
+    it('combines both limits', () => {
+      context.config.semverKeepMinors = 1
+      context.config.semverKeepPatches = 1
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.keepSemver(filterSet)
+
+      expect(result).toEqual(new Set(['d110', 'd120', 'd121', 'd122', 'd130']))
+      expect(filterSet.has('d131')).toBe(true)
+      expect(filterSet.has('d200')).toBe(true)
+      expect(filterSet.has('dnightly')).toBe(true)
+    })
+
+    it('logs the decision for every semver tag and ignores non-semver tags', () => {
+      context.config.semverKeepMinors = 1
+      context.config.semverKeepPatches = 1
+      const filterSet = new Set(Object.keys(packages))
+
+      strategy.keepSemver(filterSet)
+
+      const logged = vi.mocked(core.info).mock.calls.map(call => call[0])
+      expect(logged).toContain('v1.3.1 d131 keep: patch 1 of 1 in 1.3')
+      expect(logged).toContain(
+        'v1.3.0 d130 delete: patch 2 of 1.3 is beyond the newest 1'
+      )
+      expect(logged).toContain(
+        '1.3.0 d130 delete: patch 2 of 1.3 is beyond the newest 1'
+      )
+      expect(logged).toContain(
+        'v1.0.0 dlatest keep: minor 1.0 is beyond the newest 1 of 1.x, but the image is also tagged latest'
+      )
+      expect(logged.some(line => line.includes('nightly'))).toBe(false)
+    })
+  })
+
+  describe('gfsRetention', () => {
+    const DAY = 24 * 60 * 60 * 1000
+    // Wednesday 2024-06-12, noon UTC
+    const now = Date.parse('2024-06-12T12:00:00Z')
+    let packages: Record<string, { tags: string[]; updated: string }>
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(now)
+      context.config.gfsRetention = {
+        keepAll: 2 * DAY,
+        keepDaily: 7 * DAY,
+        keepWeekly: 28 * DAY,
+        keepMonthly: 90 * DAY
+      }
+      context.config.gfsRetentionReadable =
+        'all 2 days, daily 7 days, weekly 28 days, monthly 90 days'
+      packages = {
+        fresh1: { tags: [], updated: '2024-06-12T08:00:00Z' },
+        fresh2: { tags: ['nightly'], updated: '2024-06-11T08:00:00Z' },
+        // two builds on 2024-06-08 — only the later one survives
+        day8late: { tags: ['n-0608b'], updated: '2024-06-08T20:00:00Z' },
+        day8early: { tags: [], updated: '2024-06-08T02:00:00Z' },
+        day7: { tags: ['n-0607'], updated: '2024-06-07T10:00:00Z' },
+        // week of Monday 2024-05-27
+        week27a: { tags: [], updated: '2024-05-31T10:00:00Z' },
+        week27b: { tags: ['n-0528'], updated: '2024-05-28T10:00:00Z' },
+        // month 2024-04
+        april1: { tags: [], updated: '2024-04-20T10:00:00Z' },
+        april2: { tags: [], updated: '2024-04-02T10:00:00Z' },
+        ancient: { tags: ['n-0101'], updated: '2024-01-01T10:00:00Z' }
+      }
+      mockPackageRepo.getPackageByDigest.mockImplementation(digest => ({
+        name: digest,
+        updated_at: packages[digest].updated,
+        metadata: { container: { tags: packages[digest].tags } }
+      }))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('returns empty set when no GFS windows are configured', () => {
+      context.config.gfsRetention = undefined
+
+      const result = strategy.gfsRetention(new Set(Object.keys(packages)))
+
+      expect(result.size).toBe(0)
+    })
+
+    it('keeps the newest image per day, week and month tier', () => {
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.gfsRetention(filterSet)
+
+      expect(result).toEqual(
+        new Set(['day8early', 'week27b', 'april2', 'ancient'])
+      )
+      expect(filterSet).toEqual(
+        new Set(['fresh1', 'fresh2', 'day8late', 'day7', 'week27a', 'april1'])
+      )
+    })
+
+    it('treats an open-ended monthly tier as keeping one per month forever', () => {
+      context.config.gfsRetention = { keepMonthly: Infinity }
+      const filterSet = new Set(Object.keys(packages))
+
+      const result = strategy.gfsRetention(filterSet)
+
+      // newest per month: fresh1 (06), week27a (05), april1 (04), ancient (01)
+      expect(filterSet).toEqual(
+        new Set(['fresh1', 'week27a', 'april1', 'ancient'])
+      )
+      expect(result.size).toBe(6)
+    })
+
+    it('logs the bucket decision for every image', () => {
+      strategy.gfsRetention(new Set(Object.keys(packages)))
+
+      expect(core.info).toHaveBeenCalledWith(
+        'day8late n-0608b keep: newest in daily 2024-06-08'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'day8early delete: daily 2024-06-08 is kept by day8late'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'week27a keep: newest in weekly week of 2024-05-27'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'ancient n-0101 delete: older than every retention window'
+      )
+    })
+
+    it('traces the bucket decision for every image', () => {
+      const record = vi.fn()
+      context.trace = { record } as any
+
+      strategy.gfsRetention(new Set(Object.keys(packages)))
+
+      expect(record).toHaveBeenCalledWith(
+        'fresh1',
+        'gfs keep: younger than gfs-keep-all'
+      )
+      expect(record).toHaveBeenCalledWith(
+        'day8early',
+        'gfs delete: daily 2024-06-08 is kept by day8late'
+      )
+    })
+  })
+
+  describe('storageQuota', () => {
+    const updated: Record<string, string> = {
+      oldest: '2024-01-01T00:00:00Z',
+      older: '2024-02-01T00:00:00Z',
+      newer: '2024-03-01T00:00:00Z',
+      newest: '2024-04-01T00:00:00Z'
+    }
+    let usage: StorageUsage
+
+    beforeEach(() => {
+      context.config.storageQuota = 1000
+      context.config.storageQuotaReadable = '1 KB'
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => ({
+          name: digest,
+          updated_at: updated[digest],
+          metadata: { container: { tags: [] } }
+        })
+      )
+      // 1600 bytes in use: every image has a 400 byte layer of its own,
+      // oldest and older also share a 200 byte base layer
+      usage = new StorageUsage(
+        new Map([
+          [
+            'oldest',
+            new Map([
+              ['oldest-layer', 200],
+              ['base', 200]
+            ])
+          ],
+          [
+            'older',
+            new Map([
+              ['older-layer', 200],
+              ['base', 200]
+            ])
+          ],
+          ['newer', new Map([['newer-layer', 400]])],
+          ['newest', new Map([['newest-layer', 400]])]
+        ])
+      )
+    })
+
+    it('deletes the oldest images until the package fits', () => {
+      const filterSet = new Set(['newest', 'older', 'oldest', 'newer'])
+
+      const result = strategy.storageQuota(filterSet, new Set(), usage)
+
+      // oldest only frees its own layer (200), older then frees its layer
+      // and the base they shared (400)
+      expect(result).toEqual(new Set(['oldest', 'older']))
+      expect(filterSet).toEqual(new Set(['newest', 'newer']))
+      expect(usage.bytes).toBe(800)
+      expect(core.warning).not.toHaveBeenCalled()
+    })
+
+    it('counts the images other rules already delete', () => {
+      const filterSet = new Set(['older', 'newer', 'newest'])
+
+      const result = strategy.storageQuota(
+        filterSet,
+        new Set(['oldest']),
+        usage
+      )
+
+      expect(result).toEqual(new Set(['older']))
+    })
+
+    it('deletes nothing when the package is within its quota', () => {
+      context.config.storageQuota = 2000
+      const filterSet = new Set(['oldest', 'older', 'newer', 'newest'])
+
+      expect(strategy.storageQuota(filterSet, new Set(), usage).size).toBe(0)
+    })
+
+    it('warns when the eligible images cannot bring it under quota', () => {
+      const filterSet = new Set(['oldest'])
+
+      const result = strategy.storageQuota(filterSet, new Set(), usage)
+
+      expect(result).toEqual(new Set(['oldest']))
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('still over storage-quota')
+      )
+    })
+  })
+
+  describe('retentionFloor', () => {
+    // day of month and tags per image
+    const packages: Record<string, { day: number; tags: string[] }> = {
+      v1: { day: 1, tags: ['v1'] },
+      v2: { day: 2, tags: ['v2'] },
+      untagged3: { day: 3, tags: [] },
+      v4: { day: 4, tags: ['v4'] },
+      untagged5: { day: 5, tags: [] }
+    }
+    const images = new Set(Object.keys(packages))
+    const sources = new Map([
+      ['v1', 'delete-tags'],
+      ['v2', 'delete-tags'],
+      ['untagged3', 'delete-untagged'],
+      ['v4', 'delete-tags'],
+      ['untagged5', 'delete-untagged']
+    ])
+
+    beforeEach(() => {
+      mockPackageRepo.getPackageByDigest.mockImplementation(digest => ({
+        name: digest,
+        updated_at: `2024-01-0${packages[digest].day}T00:00:00Z`,
+        metadata: { container: { tags: packages[digest].tags } }
+      }))
+    })
+
+    it('keeps back the newest tagged images for the tagged floor', () => {
+      context.config.retentionFloorTagged = 2
+
+      const reverted = strategy.retentionFloor(
+        images,
+        new Set(['v1', 'v2', 'v4', 'untagged5']),
+        sources
+      )
+
+      expect(reverted).toEqual(new Set(['v4', 'v2']))
+      expect(core.info).toHaveBeenCalledWith('v4 v4 staged by delete-tags')
+      expect(core.info).toHaveBeenCalledWith('v2 v2 staged by delete-tags')
+    })
+
+    it('keeps back the newest of any images for the overall floor', () => {
+      context.config.retentionFloorTagged = 1
+      context.config.retentionFloorImages = 3
+
+      const reverted = strategy.retentionFloor(images, new Set(images), sources)
+
+      // v4 for the tagged floor, then the newest two others
+      expect(reverted).toEqual(new Set(['v4', 'untagged5', 'untagged3']))
+      expect(core.info).toHaveBeenCalledWith(
+        'untagged5 staged by delete-untagged'
+      )
+    })
+
+    it('reverts nothing when the survivors meet the floor', () => {
+      context.config.retentionFloorTagged = 1
+      context.config.retentionFloorImages = 3
+
+      const reverted = strategy.retentionFloor(
+        images,
+        new Set(['v1', 'untagged3']),
+        sources
+      )
+
+      expect(reverted.size).toBe(0)
+      expect(core.info).toHaveBeenCalledWith(
+        'the cleanup leaves the package above its floor'
+      )
+    })
+  })
+
   describe('deleteAllUntagged', () => {
     it('should delete all untagged images', () => {
       const filterSet = new Set([
@@ -505,4 +1014,60 @@ describe('DeletionStrategy', () => {
       expect(core.info).toHaveBeenCalledWith('no untagged images found')
     })
   })
+
+  describe('findStaleReferrers', () => {
+    const DAY = 24 * 60 * 60 * 1000
+    const image = `sha256:${'a'.repeat(64)}`
+    const daysAgo = (days: number): string =>
+      new Date(Date.now() - days * DAY).toISOString()
+
+    beforeEach(() => {
+      context.config.stripReferrersOlderThan = 30 * DAY
+      context.config.stripReferrersOlderThanReadable = '30 days'
+      const versions: Record<string, string> = {
+        'sha256:old-sig': daysAgo(60),
+        'sha256:new-sig': daysAgo(5),
+        'sha256:old-sbom': daysAgo(60),
+        'sha256:old-bundle': daysAgo(90)
+      }
+      const tags: Record<string, string> = {
+        [`sha256-${'a'.repeat(64)}.sig`]: 'sha256:old-sig',
+        [`sha256-${'a'.repeat(64)}.att`]: 'sha256:new-sig',
+        [`sha256-${'a'.repeat(64)}.sbom`]: 'sha256:old-sbom'
+      }
+      mockPackageRepo.getReferrerTagsForDigest = vi.fn((digest: string) =>
+        digest === image ? Object.keys(tags) : []
+      )
+      mockPackageRepo.getDigestByTag.mockImplementation(
+        (tag: string) => tags[tag]
+      )
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) =>
+          versions[digest] && {
+            name: digest,
+            updated_at: versions[digest],
+            metadata: { container: { tags: [] } }
+          }
+      )
+    })
+
+    it('finds the .sig / .att and subject referrers older than the cutoff', () => {
+      const stale = strategy.findStaleReferrers(
+        new Set([image]),
+        new Map([[image, new Set(['sha256:old-bundle'])]])
+      )
+
+      expect(stale).toEqual(new Set(['sha256:old-sig', 'sha256:old-bundle']))
+    })
+
+    it('leaves the referrers of images outside the filter set', () => {
+      const stale = strategy.findStaleReferrers(
+        new Set(['sha256:other']),
+        new Map([[image, new Set(['sha256:old-bundle'])]])
+      )
+
+      expect(stale.size).toBe(0)
+      expect(core.info).toHaveBeenCalledWith('no referrers found')
+    })
+  })
 })
@@ -264,6 +264,123 @@ describe('ImageDeleter', () => {
     })
   })
 
+  describe('rewriteIndexes', () => {
+    const attestation = {
+      digest: 'sha256:att',
+      platform: { os: 'unknown', architecture: 'unknown' },
+      annotations: { 'vnd.docker.reference.type': 'attestation-manifest' }
+    }
+    const amd64 = {
+      digest: 'sha256:amd64',
+      platform: { os: 'linux', architecture: 'amd64' }
+    }
+    const dropAttestation = (entry: { digest: string }): boolean =>
+      entry.digest === 'sha256:att'
+
+    it('pushes the index without the dropped entries under every tag', async () => {
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'sha256:index',
+        metadata: { container: { tags: ['v1', 'latest'] } }
+      })
+      mockRegistry.getRawManifestByDigest.mockResolvedValue({
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: [amd64, attestation]
+      })
+
+      const rewritten = await deleter.rewriteIndexes(
+        new Set(['sha256:index']),
+        dropAttestation,
+        'Stripping attestations'
+      )
+
+      expect(rewritten).toEqual(
+        new Map([
+          [
+            'sha256:index',
+            {
+              tags: ['v1', 'latest'],
+              newDigest: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+              kept: ['sha256:amd64']
+            }
+          ]
+        ])
+      )
+      expect(mockRegistry.putManifest).toHaveBeenCalledTimes(2)
+      for (const tag of ['v1', 'latest']) {
+        expect(mockRegistry.putManifest).toHaveBeenCalledWith(
+          tag,
+          {
+            mediaType: 'application/vnd.oci.image.index.v1+json',
+            manifests: [amd64]
+          },
+          true
+        )
+      }
+    })
+
+    it('leaves alone an index losing none or all of its entries', async () => {
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'sha256:index',
+        metadata: { container: { tags: ['v1'] } }
+      })
+      mockRegistry.getRawManifestByDigest.mockImplementation(
+        async (digest: string) => ({
+          manifests: digest === 'sha256:plain' ? [amd64] : [attestation]
+        })
+      )
+
+      const rewritten = await deleter.rewriteIndexes(
+        new Set(['sha256:plain', 'sha256:only-attestations']),
+        dropAttestation,
+        'Stripping attestations'
+      )
+
+      expect(rewritten.size).toBe(0)
+      expect(mockRegistry.putManifest).not.toHaveBeenCalled()
+    })
+
+    it('leaves alone an index that would keep no platform image', async () => {
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'sha256:index',
+        metadata: { container: { tags: ['v1'] } }
+      })
+      mockRegistry.getRawManifestByDigest.mockResolvedValue({
+        manifests: [amd64, attestation]
+      })
+
+      const rewritten = await deleter.rewriteIndexes(
+        new Set(['sha256:index']),
+        entry => entry.digest === 'sha256:amd64',
+        'Pruning platforms'
+      )
+
+      expect(rewritten.size).toBe(0)
+      expect(mockRegistry.putManifest).not.toHaveBeenCalled()
+      expect(core.info).toHaveBeenCalledWith(
+        'sha256:index v1: no platform image would be left, skipping'
+      )
+    })
+
+    it('skips untagged indexes', async () => {
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        name: 'sha256:index',
+        metadata: { container: { tags: [] } }
+      })
+      mockRegistry.getRawManifestByDigest.mockResolvedValue({
+        manifests: [amd64, attestation]
+      })
+
+      const rewritten = await deleter.rewriteIndexes(
+        new Set(['sha256:index']),
+        dropAttestation,
+        'Stripping attestations'
+      )
+
+      expect(rewritten.size).toBe(0)
+      expect(mockRegistry.putManifest).not.toHaveBeenCalled()
+    })
+  })
+
   describe('deleteImage', () => {
     const mockPackage = {
       id: 'pkg-id',
@@ -380,6 +497,64 @@ describe('ImageDeleter', () => {
       )
     })
 
+    it('should never delete a pinned platform image', async () => {
+      const childPackage = {
+        id: 'child-id',
+        name: 'sha256:child1',
+        metadata: { container: { tags: [] } }
+      }
+
+      mockRegistry.getManifestByDigest.mockResolvedValue({
+        manifests: [{ digest: 'sha256:child1' }]
+      })
+
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => {
+          if (digest === 'sha256:child1') return childPackage
+          return mockPackage
+        }
+      )
+
+      // The only parent is being deleted, the pin alone keeps the child
+      digestUsedBy.set('sha256:child1', new Set(['sha256:abc123']))
+      deleter = new ImageDeleter(
+        context,
+        digestUsedBy,
+        new Map(),
+        new Set(['sha256:child1'])
+      )
+
+      const result = await deleter.deleteImage(mockPackage)
+
+      expect(result.deleted).toBe(1)
+      expect(mockPackageRepo.deletePackageVersion).toHaveBeenCalledTimes(1)
+      expect(mockPackageRepo.deletePackageVersion).not.toHaveBeenCalledWith(
+        'test-package',
+        'child-id',
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringContaining('pinned by the protected digests file')
+      )
+    })
+
+    it('should never delete a pinned image', async () => {
+      deleter = new ImageDeleter(
+        context,
+        digestUsedBy,
+        new Map(),
+        new Set(['sha256:abc123'])
+      )
+
+      const result = await deleter.deleteImage(mockPackage)
+
+      expect(result.deleted).toBe(0)
+      expect(mockPackageRepo.deletePackageVersion).not.toHaveBeenCalled()
+    })
+
     it('should delete attestation/referrer images', async () => {
       const attestationPackage = {
         id: 'att-id',
@@ -624,6 +799,99 @@ describe('ImageDeleter', () => {
     })
   })
 
+  describe('planDeletions', () => {
+    beforeEach(() => {
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => ({
+          id: `id-${digest}`,
+          name: digest,
+          metadata: { container: { tags: [] } }
+        })
+      )
+    })
+
+    it('counts platform images only when all their parents are deleted', () => {
+      digestUsedBy.set('sha256:amd64', new Set(['sha256:index1']))
+      digestUsedBy.set(
+        'sha256:shared',
+        new Set(['sha256:index1', 'sha256:index2'])
+      )
+
+      const plan = deleter.planDeletions(new Set(['sha256:index1']))
+
+      expect(plan).toEqual(new Set(['sha256:index1', 'sha256:amd64']))
+      expect(mockPackageRepo.deletePackageVersion).not.toHaveBeenCalled()
+    })
+
+    it('follows referrer tags and subject referrers', () => {
+      mockPackageRepo.getReferrerTagsForDigest.mockImplementation(
+        (digest: string) => (digest === 'sha256:img' ? ['sha256-img.sig'] : [])
+      )
+      mockPackageRepo.getDigestByTag.mockImplementation((tag: string) =>
+        tag === 'sha256-img.sig' ? 'sha256:sig' : undefined
+      )
+      deleter = new ImageDeleter(
+        context,
+        digestUsedBy,
+        new Map([
+          ['sha256:img', new Set(['sha256:sbom'])],
+          ['sha256:sbom', new Set(['sha256:sbom-sig'])]
+        ])
+      )
+
+      const plan = deleter.planDeletions(new Set(['sha256:img']))
+
+      expect(plan).toEqual(
+        new Set(['sha256:img', 'sha256:sig', 'sha256:sbom', 'sha256:sbom-sig'])
+      )
+    })
+
+    it('leaves out pinned images and missing packages', () => {
+      digestUsedBy.set('sha256:amd64', new Set(['sha256:index']))
+      mockPackageRepo.getPackageByDigest.mockImplementation((digest: string) =>
+        digest === 'sha256:gone'
+          ? undefined
+          : {
+              id: `id-${digest}`,
+              name: digest,
+              metadata: { container: { tags: [] } }
+            }
+      )
+      deleter = new ImageDeleter(
+        context,
+        digestUsedBy,
+        new Map(),
+        new Set(['sha256:amd64'])
+      )
+
+      const plan = deleter.planDeletions(
+        new Set(['sha256:index', 'sha256:gone'])
+      )
+
+      expect([...plan]).toEqual(['sha256:index'])
+    })
+
+    it('groups the cascade by the image it is deleted along with', () => {
+      digestUsedBy.set('sha256:amd64', new Set(['sha256:index']))
+      deleter = new ImageDeleter(
+        context,
+        digestUsedBy,
+        new Map([['sha256:index', new Set(['sha256:sbom'])]])
+      )
+
+      const cascade = deleter.planCascade(
+        new Set(['sha256:index', 'sha256:plain'])
+      )
+
+      expect(cascade).toEqual(
+        new Map([
+          ['sha256:index', ['sha256:sbom', 'sha256:amd64']],
+          ['sha256:plain', []]
+        ])
+      )
+    })
+  })
+
   describe('deleteImages', () => {
     it('should delete all images in the delete set', async () => {
       const deleteSet = new Set(['sha256:img1', 'sha256:img2'])
@@ -648,6 +916,26 @@ describe('ImageDeleter', () => {
       expect(result.deleted.size).toBe(2)
     })
 
+    it('should report each image once its tree is deleted', async () => {
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => ({
+          id: `id-${digest}`,
+          name: digest,
+          metadata: { container: { tags: [] } }
+        })
+      )
+      mockRegistry.getManifestByDigest.mockResolvedValue({})
+      const afterTree = vi.fn().mockResolvedValue(undefined)
+
+      await deleter.deleteImages(
+        new Set(['sha256:img1', 'sha256:img2']),
+        undefined,
+        afterTree
+      )
+
+      expect(afterTree.mock.calls).toEqual([['sha256:img1'], ['sha256:img2']])
+    })
+
     it('should handle empty delete set', async () => {
       const deleteSet = new Set<string>()
 
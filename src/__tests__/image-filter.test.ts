@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import * as core from '@actions/core'
 import { ImageFilter } from '../image-filter'
 import { CleanupContext } from '../cleanup-types'
+import type { ArtifactClass } from '../artifact-class'
 
 vi.mock('@actions/core')
 vi.mock('wildcard-match', () => ({
@@ -96,6 +97,24 @@ describe('ImageFilter', () => {
       expect(filterSet.has('digest3')).toBe(false)
     })
 
+    it('should trace the excluded images', () => {
+      context.config.excludeTags = 'latest'
+      const record = vi.fn()
+      context.trace = { record } as any
+      mockPackageRepo.getTags.mockReturnValue(['latest', 'v2.0'])
+      mockPackageRepo.getDigestByTag.mockImplementation((tag: string) =>
+        tag === 'latest' ? 'digest1' : 'digest2'
+      )
+
+      filter.applyExclusionFilters(new Set(['digest1', 'digest2']))
+
+      expect(record).toHaveBeenCalledTimes(1)
+      expect(record).toHaveBeenCalledWith(
+        'digest1',
+        'excluded: tag latest matches exclude-tags'
+      )
+    })
+
     it('should exclude tags using regex patterns', () => {
       context.config.excludeTags = '^v1\\.\\d+$'
       context.config.useRegex = true
@@ -204,6 +223,480 @@ describe('ImageFilter', () => {
     })
   })
 
+  describe('applyInventoryFilter', () => {
+    it('should pin nothing when no inventory is configured', () => {
+      const filterSet = new Set(['digest1'])
+      const excludeTags: string[] = []
+
+      const pinned = filter.applyInventoryFilter(
+        filterSet,
+        excludeTags,
+        new Map()
+      )
+
+      expect(pinned.size).toBe(0)
+      expect(filterSet.size).toBe(1)
+    })
+
+    it('should pin inventory digests, tags and their platform children', () => {
+      context.config.protectedInventory = {
+        path: 'deployed.txt',
+        digests: new Set(['sha256:index', 'sha256:elsewhere']),
+        tagsByPackage: new Map([
+          ['test-package', new Set(['v1.0', 'gone'])],
+          ['other-package', new Set(['v2.0'])]
+        ])
+      }
+      // sha256:elsewhere belongs to another package
+      mockPackageRepo.getPackageByDigest.mockImplementation((digest: string) =>
+        digest === 'sha256:elsewhere' ? undefined : { name: digest }
+      )
+      mockPackageRepo.getDigestByTag.mockImplementation((tag: string) =>
+        tag === 'v1.0' ? 'sha256:tagged' : undefined
+      )
+      const digestUsedBy = new Map([
+        ['sha256:child', new Set(['sha256:other', 'sha256:index'])],
+        ['sha256:unpinned-child', new Set(['sha256:other'])]
+      ])
+      const filterSet = new Set([
+        'sha256:index',
+        'sha256:tagged',
+        'sha256:other'
+      ])
+      const excludeTags: string[] = []
+
+      const pinned = filter.applyInventoryFilter(
+        filterSet,
+        excludeTags,
+        digestUsedBy
+      )
+
+      expect(pinned).toEqual(
+        new Set(['sha256:index', 'sha256:tagged', 'sha256:child'])
+      )
+      expect(filterSet).toEqual(new Set(['sha256:other']))
+      expect(excludeTags).toEqual(['v1.0'])
+      expect(core.startGroup).toHaveBeenCalledWith(
+        expect.stringContaining('Excluding images pinned by deployed.txt')
+      )
+    })
+  })
+
+  describe('applyReferrerTypeFilter', () => {
+    const subjectReferrers = new Map([
+      ['sha256:subject', new Set(['sha256:sig', 'sha256:sbom', 'sha256:odd'])]
+    ])
+    const referrerTypes = new Map([
+      ['sha256:sig', 'application/vnd.dev.cosign.artifact.sig.v1+json'],
+      ['sha256:sbom', 'application/spdx+json']
+    ])
+
+    beforeEach(() => {
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => ({ name: digest })
+      )
+    })
+
+    it('should pin nothing when referrer-artifact-types is not configured', () => {
+      const pinned = new Set<string>()
+
+      filter.applyReferrerTypeFilter(subjectReferrers, referrerTypes, pinned)
+
+      expect(pinned.size).toBe(0)
+    })
+
+    it('should pin referrers of other or unknown artifact types', () => {
+      context.config.referrerArtifactTypes = ['application/vnd.dev.cosign.*']
+      const pinned = new Set<string>()
+
+      filter.applyReferrerTypeFilter(subjectReferrers, referrerTypes, pinned)
+
+      expect(pinned).toEqual(new Set(['sha256:sbom', 'sha256:odd']))
+      expect(core.startGroup).toHaveBeenCalledWith(
+        expect.stringContaining('Keeping referrers of other artifact types')
+      )
+    })
+
+    it('should skip referrers outside the package', () => {
+      context.config.referrerArtifactTypes = ['application/vnd.dev.cosign.*']
+      mockPackageRepo.getPackageByDigest.mockImplementation((digest: string) =>
+        digest === 'sha256:odd' ? undefined : { name: digest }
+      )
+      const pinned = new Set<string>()
+
+      filter.applyReferrerTypeFilter(subjectReferrers, referrerTypes, pinned)
+
+      expect(pinned).toEqual(new Set(['sha256:sbom']))
+    })
+  })
+
+  describe('applyArtifactFilter', () => {
+    const artifactClasses = new Map<string, ArtifactClass>([
+      ['sha256:image', 'image'],
+      ['sha256:chart', 'helm'],
+      ['sha256:sbom', 'sbom']
+    ])
+
+    beforeEach(() => {
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => ({
+          name: digest,
+          metadata: { container: { tags: [`${digest.slice(7)}-tag`] } }
+        })
+      )
+    })
+
+    it('should keep the filter set when no artifact class is configured', () => {
+      const filterSet = new Set(artifactClasses.keys())
+
+      filter.applyArtifactFilter(filterSet, [], artifactClasses)
+
+      expect(filterSet.size).toBe(3)
+    })
+
+    it('should protect the classes include-artifacts does not list', () => {
+      context.config.includeArtifacts = ['helm', 'sbom']
+      const filterSet = new Set(artifactClasses.keys())
+      const excludeTags: string[] = []
+
+      filter.applyArtifactFilter(filterSet, excludeTags, artifactClasses)
+
+      expect(filterSet).toEqual(new Set(['sha256:chart', 'sha256:sbom']))
+      expect(excludeTags).toEqual(['image-tag'])
+      expect(core.startGroup).toHaveBeenCalledWith(
+        expect.stringContaining('Excluding images by artifact class')
+      )
+    })
+
+    it('should protect the classes exclude-artifacts lists', () => {
+      context.config.excludeArtifacts = ['helm']
+      const filterSet = new Set([...artifactClasses.keys(), 'sha256:unknown'])
+      const excludeTags: string[] = []
+
+      filter.applyArtifactFilter(filterSet, excludeTags, artifactClasses)
+
+      // An image the analysis did not classify counts as an image
+      expect(filterSet).toEqual(
+        new Set(['sha256:image', 'sha256:sbom', 'sha256:unknown'])
+      )
+      expect(excludeTags).toEqual(['chart-tag'])
+    })
+  })
+
+  describe('applyReleaseFilter', () => {
+    const releases = [
+      { tag: 'v1.0.0', draft: false, prerelease: false },
+      { tag: 'v1.1.0-rc.1', draft: false, prerelease: true },
+      { tag: 'v2.0.0', draft: true, prerelease: false },
+      { tag: 'v0.9.0', draft: false, prerelease: false }
+    ]
+    let listReleases: ReturnType<typeof vi.fn>
+    let filterSet: Set<string>
+
+    beforeEach(() => {
+      context.config.excludeReleaseTags = true
+      listReleases = vi.fn().mockResolvedValue(releases)
+      // v0.9.0 has no image in this package
+      mockPackageRepo.getDigestByTag.mockImplementation((tag: string) =>
+        tag === 'v0.9.0' ? undefined : `digest-${tag}`
+      )
+      filterSet = new Set([
+        'digest-v1.0.0',
+        'digest-v1.1.0-rc.1',
+        'digest-v2.0.0',
+        'digest-latest'
+      ])
+    })
+
+    it('does nothing when exclude-release-tags is not set', async () => {
+      context.config.excludeReleaseTags = false
+
+      const result = await filter.applyReleaseFilter(
+        filterSet,
+        [],
+        listReleases
+      )
+
+      expect(result).toEqual([])
+      expect(listReleases).not.toHaveBeenCalled()
+    })
+
+    it('protects published releases only by default', async () => {
+      const excludeTags = ['latest']
+
+      const result = await filter.applyReleaseFilter(
+        filterSet,
+        excludeTags,
+        listReleases
+      )
+
+      expect(result).toEqual(['v1.0.0'])
+      expect(excludeTags).toEqual(['latest', 'v1.0.0'])
+      expect(filterSet.has('digest-v1.0.0')).toBe(false)
+      expect(filterSet.has('digest-v1.1.0-rc.1')).toBe(true)
+      expect(filterSet.has('digest-v2.0.0')).toBe(true)
+    })
+
+    it('protects drafts and pre-releases behind their options', async () => {
+      context.config.excludeReleaseDrafts = true
+      context.config.excludeReleasePrereleases = true
+
+      const result = await filter.applyReleaseFilter(
+        filterSet,
+        [],
+        listReleases
+      )
+
+      expect(result).toEqual(['v1.0.0', 'v1.1.0-rc.1', 'v2.0.0'])
+      expect(filterSet).toEqual(new Set(['digest-latest']))
+      expect(core.info).toHaveBeenCalledWith('v2.0.0 (draft)')
+      expect(core.info).toHaveBeenCalledWith('v1.1.0-rc.1 (pre-release)')
+    })
+
+    it('lists the releases once across reloads', async () => {
+      await filter.applyReleaseFilter(new Set(), [], listReleases)
+      await filter.applyReleaseFilter(new Set(), [], listReleases)
+
+      expect(listReleases).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('applyPullRequestFilter', () => {
+    const states: Record<number, 'open' | 'closed' | null> = {
+      1: 'closed',
+      2: 'open',
+      3: null
+    }
+    let getState: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      context.config.deleteClosedPrTags = '^pr-(\\d+)$'
+      getState = vi.fn(async (pullNumber: number) => states[pullNumber])
+      mockPackageRepo.getTags.mockReturnValue(['pr-1', 'pr-2', 'pr-3', 'v1'])
+      mockPackageRepo.getDigestByTag.mockImplementation(
+        (tag: string) => `digest-${tag}`
+      )
+    })
+
+    it('does nothing when delete-closed-pr-tags is not configured', async () => {
+      context.config.deleteClosedPrTags = undefined
+      const filterSet = new Set(['digest-pr-1'])
+
+      const result = await filter.applyPullRequestFilter(
+        filterSet,
+        [],
+        getState
+      )
+
+      expect(result.size).toBe(0)
+      expect(getState).not.toHaveBeenCalled()
+    })
+
+    it('returns closed tags and protects open ones', async () => {
+      const filterSet = new Set([
+        'digest-pr-1',
+        'digest-pr-2',
+        'digest-pr-3',
+        'digest-v1'
+      ])
+      const excludeTags: string[] = []
+
+      const result = await filter.applyPullRequestFilter(
+        filterSet,
+        excludeTags,
+        getState
+      )
+
+      expect(result).toEqual(new Set(['pr-1']))
+      expect(excludeTags).toEqual(['pr-2'])
+      expect(filterSet).toEqual(
+        new Set(['digest-pr-1', 'digest-pr-3', 'digest-v1'])
+      )
+      expect(getState).toHaveBeenCalledTimes(3)
+    })
+
+    it('skips closed tags whose image is no longer selected', async () => {
+      const filterSet = new Set(['digest-v1'])
+
+      const result = await filter.applyPullRequestFilter(
+        filterSet,
+        [],
+        getState
+      )
+
+      expect(result.size).toBe(0)
+      expect(core.info).toHaveBeenCalledWith(
+        'pr-1: #1 is closed, image is not selected'
+      )
+    })
+
+    it('looks each pull request up once across reloads', async () => {
+      await filter.applyPullRequestFilter(new Set(), [], getState)
+      await filter.applyPullRequestFilter(new Set(), [], getState)
+
+      expect(getState).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('findStaleBranchTags', () => {
+    let listBranches: ReturnType<typeof vi.fn>
+
+    beforeEach(() => {
+      context.config.deleteStaleBranchTags = 'branch-{branch}'
+      context.config.owner = 'test-owner'
+      context.config.repository = 'test-repo'
+      listBranches = vi.fn().mockResolvedValue(['main', 'feature/login'])
+      mockPackageRepo.getTags.mockReturnValue([
+        'branch-main',
+        'branch-feature-login',
+        'branch-feature-gone',
+        'branch-old',
+        'v1'
+      ])
+      mockPackageRepo.getDigestByTag.mockImplementation(
+        (tag: string) => `digest-${tag}`
+      )
+    })
+
+    it('does nothing when delete-stale-branch-tags is not configured', async () => {
+      context.config.deleteStaleBranchTags = undefined
+
+      const result = await filter.findStaleBranchTags(new Set(), listBranches)
+
+      expect(result.size).toBe(0)
+      expect(listBranches).not.toHaveBeenCalled()
+    })
+
+    it('returns the tags no live branch renders to', async () => {
+      const filterSet = new Set([
+        'digest-branch-main',
+        'digest-branch-feature-login',
+        'digest-branch-feature-gone',
+        'digest-v1'
+      ])
+
+      const result = await filter.findStaleBranchTags(filterSet, listBranches)
+
+      expect(result).toEqual(new Set(['branch-feature-gone']))
+      expect(core.info).toHaveBeenCalledWith(
+        'branch-old: branch is gone, image is not selected'
+      )
+    })
+
+    it('skips referrer tags that fit the template', async () => {
+      context.config.deleteStaleBranchTags = '{branch}.sig'
+      const referrerTag = `sha256-${'a'.repeat(64)}.sig`
+      mockPackageRepo.getTags.mockReturnValue([referrerTag, 'gone.sig'])
+
+      const result = await filter.findStaleBranchTags(
+        new Set([`digest-${referrerTag}`, 'digest-gone.sig']),
+        listBranches
+      )
+
+      expect(result).toEqual(new Set(['gone.sig']))
+    })
+
+    it('lists the branches once across reloads', async () => {
+      await filter.findStaleBranchTags(new Set(), listBranches)
+      await filter.findStaleBranchTags(new Set(), listBranches)
+
+      expect(listBranches).toHaveBeenCalledTimes(1)
+    })
+
+    it('refuses to run when the repository has no branches', async () => {
+      listBranches.mockResolvedValue([])
+
+      await expect(
+        filter.findStaleBranchTags(new Set(), listBranches)
+      ).rejects.toThrow(
+        'no branches found for test-owner/test-repo, refusing to treat every branch tag as stale'
+      )
+    })
+  })
+
+  describe('label filters', () => {
+    const labels: Record<string, Record<string, string>> = {
+      'sha256:keep': { 'com.example.keep': 'true' },
+      'sha256:pr': {
+        'org.opencontainers.image.revision': 'abc123',
+        'org.opencontainers.image.source': 'https://github.com/acme/app'
+      },
+      'sha256:plain': {}
+    }
+    let filterSet: Set<string>
+
+    beforeEach(() => {
+      context.registry = {
+        getLabels: vi.fn(async (digest: string) => labels[digest])
+      } as any
+      mockPackageRepo.getPackageByDigest.mockImplementation(
+        (digest: string) => ({
+          name: digest,
+          metadata: {
+            container: { tags: digest === 'sha256:keep' ? ['stable'] : [] }
+          }
+        })
+      )
+      filterSet = new Set(['sha256:keep', 'sha256:pr', 'sha256:plain'])
+    })
+
+    it('should protect images matching exclude-labels', async () => {
+      context.config.excludeLabels = [
+        { key: 'com.example.keep', value: 'true' }
+      ]
+      const excludeTags: string[] = []
+
+      await filter.applyLabelExclusionFilter(filterSet, excludeTags)
+
+      expect(filterSet).toEqual(new Set(['sha256:pr', 'sha256:plain']))
+      expect(excludeTags).toEqual(['stable'])
+    })
+
+    it('should match a bare key on any value', async () => {
+      context.config.deleteLabels = [
+        { key: 'org.opencontainers.image.revision' }
+      ]
+
+      const matched = await filter.findLabelMatches(filterSet)
+
+      expect(matched).toEqual(new Set(['sha256:pr']))
+    })
+
+    it('should match label values with wildcards', async () => {
+      context.config.deleteLabels = [
+        { key: 'org.opencontainers.image.source', value: '*/acme/*' }
+      ]
+
+      const matched = await filter.findLabelMatches(filterSet)
+
+      expect(matched).toEqual(new Set(['sha256:pr']))
+      // Selection leaves the filter set to the orchestrator
+      expect(filterSet.size).toBe(3)
+    })
+
+    it('should match label values with a regex when use-regex is set', async () => {
+      context.config.useRegex = true
+      context.config.deleteLabels = [
+        { key: 'com.example.keep', value: '^(true|yes)$' },
+        { key: 'org.opencontainers.image.revision', value: '^def' }
+      ]
+
+      const matched = await filter.findLabelMatches(filterSet)
+
+      expect(matched).toEqual(new Set(['sha256:keep']))
+    })
+
+    it('should not fetch labels when no selectors are configured', async () => {
+      const excludeTags: string[] = []
+
+      await filter.applyLabelExclusionFilter(filterSet, excludeTags)
+      const matched = await filter.findLabelMatches(filterSet)
+
+      expect(matched.size).toBe(0)
+      expect(context.registry.getLabels).not.toHaveBeenCalled()
+    })
+  })
+
   describe('applyAgeFilter', () => {
     it('should not filter when olderThan is not configured', () => {
       const filterSet = new Set(['digest1'])
@@ -78,6 +78,58 @@ describe('ImageValidator', () => {
       expect(core.warning).toHaveBeenCalledWith(
         'digest sha256:child2 not found on image latest'
       )
+      expect(result.findings).toEqual([
+        'digest sha256:child1 not found on image latest',
+        'digest sha256:child2 not found on image latest'
+      ])
+      expect(result.ghostImages).toEqual(new Set(['parent-digest']))
+      expect(result.missingChildren).toEqual(
+        new Map([['parent-digest', ['sha256:child1', 'sha256:child2']]])
+      )
+    })
+
+    it('should classify an index missing some children as partial', async () => {
+      mockPackageRepo.getDigests.mockReturnValue(
+        new Set(['parent-digest', 'sha256:child1'])
+      )
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        metadata: { container: { tags: ['latest'] } }
+      })
+      mockPackageRepo.getIdByDigest.mockImplementation((digest: string) =>
+        digest === 'sha256:child2' ? undefined : 'some-id'
+      )
+      mockRegistry.getManifestByDigest.mockResolvedValue({
+        manifests: [{ digest: 'sha256:child1' }, { digest: 'sha256:child2' }]
+      })
+
+      const result = await validator.validate()
+
+      expect(result.ghostImages.size).toBe(0)
+      expect(result.partialImages).toEqual(new Set(['parent-digest']))
+      expect(result.missingChildren).toEqual(
+        new Map([['parent-digest', ['sha256:child2']]])
+      )
+    })
+
+    it('should report findings as errors with fail-on-invalid', async () => {
+      context.config.failOnInvalid = true
+      mockPackageRepo.getDigests.mockReturnValue(new Set(['parent-digest']))
+      mockPackageRepo.getPackageByDigest.mockReturnValue({
+        metadata: { container: { tags: ['latest'] } }
+      })
+      mockPackageRepo.getIdByDigest.mockImplementation((digest: string) =>
+        digest === 'parent-digest' ? 'parent-id' : undefined
+      )
+      mockRegistry.getManifestByDigest.mockResolvedValue({
+        manifests: [{ digest: 'sha256:child1' }]
+      })
+
+      await validator.validate()
+
+      expect(core.error).toHaveBeenCalledWith(
+        'digest sha256:child1 not found on image latest'
+      )
+      expect(core.warning).not.toHaveBeenCalled()
     })
 
     it('should detect missing child manifests for untagged images', async () => {
@@ -114,6 +166,9 @@ describe('ImageValidator', () => {
       mockPackageRepo.getPackageByDigest.mockReturnValue({
         metadata: { container: { tags: [] } }
       })
+      mockPackageRepo.getDigestByTag.mockImplementation((tag: string) =>
+        tag.endsWith('.sig') ? 'sig-digest' : undefined
+      )
       mockRegistry.getManifestByDigest.mockResolvedValue({})
 
       const result = await validator.validate()
@@ -122,6 +177,7 @@ describe('ImageValidator', () => {
       expect(core.warning).toHaveBeenCalledWith(
         `parent image for referrer tag sha256-${fullDigest}.sig not found in repository`
       )
+      expect(result.orphanedImages).toEqual(new Set(['sig-digest']))
     })
 
     it('should handle long referrer tags correctly', async () => {
@@ -468,6 +524,8 @@ describe('ImageValidator', () => {
       expect(core.warning).toHaveBeenCalledWith(
         `subject ${subject} for referrer ${referrer} not found in repository`
       )
+      expect(result.orphanedImages).toEqual(new Set([referrer]))
+      expect(result.missingSubjects).toEqual(new Map([[referrer, subject]]))
     })
   })
 })
@@ -2,12 +2,27 @@
 import { describe, it, expect, beforeEach, vi, type Mocked } from 'vitest'
 import * as core from '@actions/core'
 import { run } from '../main'
-import { Config, buildConfig } from '../config'
+import { Config, buildConfig, configForPackage } from '../config'
 import { OctokitClient } from '../octokit-client'
 import { PackageRepo } from '../package-repo'
 import { CleanupOrchestrator } from '../cleanup-orchestrator'
 import { createTokenAuth } from '@octokit/auth-token'
 import { CleanupTaskStatistics } from '../utils'
+import { writeCleanupPlan, type PackagePlan } from '../cleanup-plan'
+import { writeCleanupTrace, type DigestTrace } from '../decision-trace'
+import {
+  buildCleanupReport,
+  setCleanupOutputs,
+  writeCleanupReport,
+  type CleanupReport
+} from '../cleanup-report'
+import { writeInventory, type InventoryEntry } from '../package-inventory'
+import { type RestoredVersion } from '../package-restore'
+import {
+  renderPlanMermaid,
+  writeGraph,
+  type PackageGraph
+} from '../relationship-graph'
 
 vi.mock('@actions/core', async () => {
   // Provide a real chainable summary object - the production code calls
@@ -44,6 +59,11 @@ vi.mock('../package-repo')
 vi.mock('../cleanup-orchestrator')
 vi.mock('@octokit/auth-token')
 vi.mock('../utils')
+vi.mock('../cleanup-plan')
+vi.mock('../decision-trace')
+vi.mock('../cleanup-report')
+vi.mock('../package-inventory')
+vi.mock('../relationship-graph')
 // Mock-controlled cache stats. vi.hoisted lets the vi.mock factory
 // (which is itself hoisted) safely reference this state — individual
 // tests assign to `mockCacheStats.value` to control what `getStats()`
@@ -74,6 +94,7 @@ const defaultConfig = (overrides: Partial<Config> = {}): Config =>
     token: 'gh-token',
     dryRun: false,
     repoType: 'Organization',
+    registryType: 'ghcr',
     tokenOwnsPackage: false,
     defaultPackageUsed: false,
     logLevel: 1,
@@ -94,6 +115,7 @@ describe('main.run()', () => {
 
     mockBuildConfig = vi.mocked(buildConfig)
     mockBuildConfig.mockResolvedValue(defaultConfig())
+    vi.mocked(configForPackage).mockImplementation(config => config)
 
     mockOctokitClient = { getClient: vi.fn() }
     vi.mocked(OctokitClient).mockImplementation(function () {
@@ -112,6 +134,10 @@ describe('main.run()', () => {
       name: 'pkg-a',
       numberImagesDeleted: 5,
       numberMultiImagesDeleted: 2,
+      releaseProtectedTags: [],
+      bytesReclaimed: 0,
+      deletedByArtifactClass: {},
+      rewrittenIndexes: [],
       print: vi.fn(),
       add: vi.fn().mockReturnThis()
     }
@@ -119,7 +145,16 @@ describe('main.run()', () => {
     mockOrchestrator = {
       init: vi.fn().mockResolvedValue(undefined),
       reload: vi.fn().mockResolvedValue(undefined),
-      run: vi.fn().mockResolvedValue(mockStats)
+      run: vi.fn().mockResolvedValue(mockStats),
+      apply: vi.fn().mockResolvedValue(mockStats),
+      strip: vi.fn().mockResolvedValue(mockStats),
+      prunePlatforms: vi.fn().mockResolvedValue(mockStats),
+      getPackagePlan: vi.fn().mockReturnValue(null),
+      getTrace: vi.fn().mockReturnValue(null),
+      inventory: vi.fn().mockResolvedValue([]),
+      restore: vi.fn().mockResolvedValue([]),
+      resumeDeletions: vi.fn().mockResolvedValue(undefined),
+      getGraph: vi.fn().mockReturnValue(null)
     }
     vi.mocked(CleanupOrchestrator).mockImplementation(function () {
       return mockOrchestrator
@@ -130,6 +165,10 @@ describe('main.run()', () => {
       name: 'combined-action',
       numberImagesDeleted: 0,
       numberMultiImagesDeleted: 0,
+      releaseProtectedTags: [],
+      bytesReclaimed: 0,
+      deletedByArtifactClass: {},
+      rewrittenIndexes: [],
       print: vi.fn(),
       add: vi.fn().mockReturnThis()
     }
@@ -319,6 +358,19 @@ describe('main.run()', () => {
       expect(mockPackageRepo.getPackageList).toHaveBeenCalled()
     })
 
+    it('lists the packages of an OCI registry without a PAT', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({ expandPackages: true, registryType: 'oci' })
+      )
+      mockPackageRepo.getPackageList.mockResolvedValue(['pkg-a'])
+
+      await run()
+
+      expect(mockAuth).not.toHaveBeenCalled()
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(mockPackageRepo.getPackageList).toHaveBeenCalled()
+    })
+
     it('fails when zero packages match the filter', async () => {
       mockBuildConfig.mockResolvedValue(
         defaultConfig({
@@ -363,6 +415,17 @@ describe('main.run()', () => {
       expect(mockOrchestrator.run).toHaveBeenCalledTimes(2)
     })
 
+    it('completes interrupted deletions before planning', async () => {
+      mockBuildConfig.mockResolvedValue(defaultConfig())
+
+      await run()
+
+      expect(mockOrchestrator.resumeDeletions).toHaveBeenCalledTimes(1)
+      expect(
+        mockOrchestrator.resumeDeletions.mock.invocationCallOrder[0]
+      ).toBeLessThan(mockOrchestrator.reload.mock.invocationCallOrder[0])
+    })
+
     it('accumulates per-package stats into a global stats object', async () => {
       mockBuildConfig.mockResolvedValue(defaultConfig({ package: 'a,b,c' }))
 
@@ -385,6 +448,372 @@ describe('main.run()', () => {
     })
   })
 
+  describe('plan and apply', () => {
+    const packagePlan = (name: string): PackagePlan => ({
+      package: name,
+      untag: [],
+      delete: []
+    })
+
+    it('writes the plans of every package in plan mode', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({
+          package: 'a,b',
+          mode: 'plan',
+          planFile: 'cleanup-plan.json'
+        })
+      )
+      mockOrchestrator.getPackagePlan
+        .mockReturnValueOnce(packagePlan('a'))
+        .mockReturnValueOnce(packagePlan('b'))
+
+      await run()
+
+      expect(writeCleanupPlan).toHaveBeenCalledWith('cleanup-plan.json', {
+        version: 1,
+        owner: 'test-owner',
+        createdAt: expect.any(String),
+        packages: [packagePlan('a'), packagePlan('b')]
+      })
+      expect(core.summary.addRaw).toHaveBeenCalledWith(
+        expect.stringContaining('Plan mode'),
+        true
+      )
+    })
+
+    it('applies the packages of the plan in apply mode', async () => {
+      const cleanupPlan = {
+        version: 1,
+        owner: 'test-owner',
+        createdAt: '2024-01-01T00:00:00Z',
+        packages: [packagePlan('x'), packagePlan('y')]
+      }
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({
+          package: 'pkg-a',
+          mode: 'apply',
+          planFile: 'cleanup-plan.json',
+          cleanupPlan
+        })
+      )
+
+      await run()
+
+      expect(vi.mocked(CleanupOrchestrator).mock.calls.map(c => c[1])).toEqual([
+        'x',
+        'y'
+      ])
+      expect(mockOrchestrator.apply).toHaveBeenCalledWith(packagePlan('x'))
+      expect(mockOrchestrator.apply).toHaveBeenCalledWith(packagePlan('y'))
+      // apply completes interrupted deletions once the plan is checked
+      expect(mockOrchestrator.resumeDeletions).not.toHaveBeenCalled()
+      expect(mockOrchestrator.run).not.toHaveBeenCalled()
+      expect(writeCleanupPlan).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('mode: strip', () => {
+    it('strips each package instead of running the rules', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({
+          package: 'a,b',
+          mode: 'strip',
+          stripAttestations: true
+        })
+      )
+
+      await run()
+
+      expect(mockOrchestrator.reload).toHaveBeenCalledTimes(2)
+      expect(mockOrchestrator.strip).toHaveBeenCalledTimes(2)
+      expect(mockOrchestrator.run).not.toHaveBeenCalled()
+      expect(core.summary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([['Mode', 'Strip']])
+      )
+    })
+  })
+
+  describe('mode: prune-platforms', () => {
+    it('prunes each package and lists the rewritten images', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({
+          package: 'pkg-a',
+          mode: 'prune-platforms',
+          prunePlatforms: ['linux/386']
+        })
+      )
+      mockStats.rewrittenIndexes = [
+        {
+          digest: 'sha256:old',
+          newDigest: 'sha256:new',
+          tags: ['v1', 'latest']
+        }
+      ]
+
+      await run()
+
+      expect(mockOrchestrator.prunePlatforms).toHaveBeenCalledTimes(1)
+      expect(mockOrchestrator.run).not.toHaveBeenCalled()
+      expect(core.summary.addHeading).toHaveBeenCalledWith(
+        'Rewritten images',
+        2
+      )
+      expect(core.summary.addTable).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          ['pkg-a', 'v1, latest', 'sha256:old', 'sha256:new']
+        ])
+      )
+    })
+  })
+
+  describe('inventory mode', () => {
+    const entry = (pkg: string, ghost: boolean): InventoryEntry => ({
+      package: pkg,
+      digest: `sha256:${pkg}`,
+      id: 1,
+      tags: ['v1'],
+      updatedAt: '2024-01-01T00:00:00Z',
+      mediaType: 'application/vnd.oci.image.manifest.v1+json',
+      platforms: [],
+      parents: [],
+      referrers: [],
+      size: 10,
+      child: false,
+      ghost,
+      partial: false,
+      orphan: false
+    })
+
+    it('reports every package without cleaning it up', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({
+          package: 'a,b',
+          mode: 'inventory',
+          inventoryFiles: ['inventory.csv']
+        })
+      )
+      mockOrchestrator.inventory
+        .mockResolvedValueOnce([entry('a', true)])
+        .mockResolvedValueOnce([entry('b', false)])
+
+      await run()
+
+      expect(mockOrchestrator.reload).not.toHaveBeenCalled()
+      expect(mockOrchestrator.run).not.toHaveBeenCalled()
+      expect(writeInventory).toHaveBeenCalledWith(
+        ['inventory.csv'],
+        [entry('a', true), entry('b', false)]
+      )
+      const overview = vi.mocked(core.summary.addTable).mock.calls[0][0]
+      expect(overview.slice(1)).toEqual([
+        ['a', '1', '1', '0', '1', '0', '0'],
+        ['b', '1', '1', '0', '0', '0', '0']
+      ])
+      expect(core.summary.addDetails).toHaveBeenCalledWith(
+        'a (1 versions)',
+        expect.stringContaining('<td>sha256:a</td>')
+      )
+    })
+  })
+
+  describe('mode: restore', () => {
+    const restored = (name: string): RestoredVersion => ({
+      package: name,
+      digest: 'sha256:a',
+      id: 1,
+      tags: ['v1'],
+      deletedAt: '2024-03-01T00:00:00Z',
+      reason: 'tag v1'
+    })
+
+    it('restores the packages a report deleted from', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({
+          mode: 'restore',
+          restoreReportFile: 'report.json',
+          restoreReport: {
+            owner: 'test-owner',
+            dryRun: false,
+            createdAt: '2024-03-01T00:00:00Z',
+            numberImagesDeleted: 1,
+            numberMultiImagesDeleted: 0,
+            bytesReclaimed: 0,
+            packages: [
+              {
+                package: 'a',
+                numberImagesDeleted: 1,
+                numberMultiImagesDeleted: 0,
+                bytesReclaimed: 0,
+                deleted: [{ digest: 'sha256:a', id: 1, tags: ['v1'] }],
+                untaggedTags: [],
+                releaseProtectedTags: [],
+                validationFindings: []
+              },
+              {
+                package: 'b',
+                numberImagesDeleted: 0,
+                numberMultiImagesDeleted: 0,
+                bytesReclaimed: 0,
+                deleted: [],
+                untaggedTags: [],
+                releaseProtectedTags: [],
+                validationFindings: []
+              }
+            ]
+          }
+        })
+      )
+      mockOrchestrator.restore.mockResolvedValueOnce([restored('a')])
+
+      await run()
+
+      expect(mockOrchestrator.restore).toHaveBeenCalledTimes(1)
+      expect(mockOrchestrator.run).not.toHaveBeenCalled()
+      expect(core.summary.addHeading).toHaveBeenCalledWith(
+        '♻️ GHCR Package Restore'
+      )
+      expect(core.summary.addDetails).toHaveBeenCalledWith(
+        'a (1 versions)',
+        expect.stringContaining('<td>tag v1</td>')
+      )
+    })
+  })
+
+  describe('graph-file', () => {
+    const graph = (name: string): PackageGraph => ({
+      package: name,
+      nodes: [],
+      edges: [],
+      plan: new Map()
+    })
+
+    it('writes the graph of every package and summarises the plan', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({ package: 'a,b', graphFiles: ['graph.dot'] })
+      )
+      mockOrchestrator.getGraph
+        .mockReturnValueOnce(graph('a'))
+        .mockReturnValueOnce(graph('b'))
+      vi.mocked(renderPlanMermaid)
+        .mockReturnValueOnce('flowchart LR')
+        .mockReturnValueOnce(null)
+
+      await run()
+
+      expect(writeGraph).toHaveBeenCalledWith(
+        ['graph.dot'],
+        [graph('a'), graph('b')]
+      )
+      expect(core.summary.addHeading).toHaveBeenCalledWith('Deletion plan', 2)
+      expect(core.summary.addDetails).toHaveBeenCalledWith(
+        'a',
+        expect.stringContaining('```mermaid\nflowchart LR\n```')
+      )
+      expect(core.summary.addDetails).not.toHaveBeenCalledWith(
+        'b',
+        expect.anything()
+      )
+    })
+  })
+
+  describe('fail-on-invalid', () => {
+    it('fails the run when validation found problems', async () => {
+      mockStats.validationFindings = ['digest sha256:b not found on image v1']
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({ validate: true, failOnInvalid: true })
+      )
+
+      await run()
+
+      expect(core.summary.write).toHaveBeenCalled()
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'validate found 1 problems after the cleanup'
+      )
+    })
+
+    it('passes when validation found nothing', async () => {
+      mockStats.validationFindings = []
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({ validate: true, failOnInvalid: true })
+      )
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('action outputs', () => {
+    const report = { packages: [] } as unknown as CleanupReport
+
+    beforeEach(() => {
+      vi.mocked(buildCleanupReport).mockReturnValue(report)
+    })
+
+    it('publishes the report of every package', async () => {
+      mockBuildConfig.mockResolvedValue(defaultConfig({ package: 'a,b' }))
+
+      await run()
+
+      expect(buildCleanupReport).toHaveBeenCalledWith(
+        expect.objectContaining({ package: 'a,b' }),
+        [mockStats, mockStats],
+        globalStats
+      )
+      expect(setCleanupOutputs).toHaveBeenCalledWith(report)
+      expect(writeCleanupReport).not.toHaveBeenCalled()
+    })
+
+    it('writes the report to report-file', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({ reportFile: 'cleanup-report.json' })
+      )
+
+      await run()
+
+      expect(writeCleanupReport).toHaveBeenCalledWith(
+        'cleanup-report.json',
+        report
+      )
+    })
+  })
+
+  describe('explain mode', () => {
+    const trace = (verdict: string): Record<string, DigestTrace> => ({
+      'sha256:a': { tags: ['v1'], steps: ['staged for deletion'], verdict }
+    })
+
+    it('writes the trace of every package and summarises it', async () => {
+      mockBuildConfig.mockResolvedValue(
+        defaultConfig({ package: 'a,b', explainFile: 'trace.json' })
+      )
+      mockOrchestrator.getTrace
+        .mockReturnValueOnce(trace('deleted by keep-n-tagged'))
+        .mockReturnValueOnce(trace('kept'))
+
+      await run()
+
+      expect(writeCleanupTrace).toHaveBeenCalledWith('trace.json', {
+        a: trace('deleted by keep-n-tagged'),
+        b: trace('kept')
+      })
+      expect(core.summary.addDetails).toHaveBeenCalledWith(
+        'a (1 digests)',
+        expect.stringContaining(
+          '<td>sha256:a</td><td>v1</td><td>staged for deletion</td><td>deleted by keep-n-tagged</td>'
+        )
+      )
+    })
+
+    it('writes no trace without explain-file', async () => {
+      mockBuildConfig.mockResolvedValue(defaultConfig())
+
+      await run()
+
+      expect(writeCleanupTrace).not.toHaveBeenCalled()
+    })
+  })
+
   describe('writeJobSummary', () => {
     it('renders the summary even for a single package', async () => {
       mockBuildConfig.mockResolvedValue(defaultConfig({ package: 'only-one' }))
@@ -536,5 +965,65 @@ describe('main.run()', () => {
       // header row + 3 packages + total row = 5 rows
       expect(results.length).toBe(5)
     })
+
+    it('reports the storage reclaimed overall and per package', async () => {
+      mockStats.bytesReclaimed = 1500000
+      ;(globalStats as any).bytesReclaimed = 2500000000
+      await run()
+
+      const tableCalls = vi.mocked(core.summary.addTable).mock.calls
+      const overview = JSON.stringify(tableCalls[0][0])
+      expect(overview).toContain('["Storage reclaimed","2.5 GB"]')
+      const results = tableCalls[1][0] as unknown[][]
+      expect(results[1]).toEqual(['pkg-a', '5', '2', '1.5 MB'])
+    })
+
+    it('lists the protected release tags per package', async () => {
+      mockStats.releaseProtectedTags = ['v1.0.0', 'v1.1.0']
+      await run()
+
+      expect(core.summary.addHeading).toHaveBeenCalledWith(
+        'Protected release tags',
+        2
+      )
+      const tableCalls = vi.mocked(core.summary.addTable).mock.calls
+      const releases = tableCalls[2][0] as unknown[][]
+      expect(releases[1]).toEqual(['pkg-a', 'v1.0.0, v1.1.0'])
+    })
+
+    it('counts the deletions of each artifact class', async () => {
+      mockStats.deletedByArtifactClass = { image: 3, helm: 1 }
+      globalStats.deletedByArtifactClass = { image: 9, helm: 1, sbom: 2 }
+      await run()
+
+      expect(core.summary.addHeading).toHaveBeenCalledWith(
+        'Deleted by artifact class',
+        2
+      )
+      const tableCalls = vi.mocked(core.summary.addTable).mock.calls
+      const classes = tableCalls[2][0] as unknown[][]
+      expect(classes[0]).toEqual([
+        { data: 'Package', header: true },
+        { data: 'image', header: true },
+        { data: 'helm', header: true },
+        { data: 'sbom', header: true }
+      ])
+      expect(classes[1]).toEqual(['pkg-a', '3', '1', '0'])
+      expect(classes[classes.length - 1]).toEqual([
+        { data: 'Total', header: true },
+        '9',
+        '1',
+        '2'
+      ])
+    })
+
+    it('omits the protected release tags when there are none', async () => {
+      await run()
+
+      expect(core.summary.addHeading).not.toHaveBeenCalledWith(
+        'Protected release tags',
+        2
+      )
+    })
   })
 })
@@ -28,7 +28,9 @@ describe('ManifestAnalyzer', () => {
 
     mockRegistry = {
       getManifestByDigest: vi.fn<(digest: string) => Promise<Manifest>>(),
-      getManifestByTag: vi.fn<(tag: string) => Promise<Manifest | undefined>>()
+      getManifestByTag: vi.fn<(tag: string) => Promise<Manifest | undefined>>(),
+      supportsReferrers: vi.fn().mockResolvedValue(false),
+      getReferrers: vi.fn()
     }
 
     config = new Config()
@@ -56,6 +58,36 @@ describe('ManifestAnalyzer', () => {
       expect(digestUsedBy.size).toBe(0)
     })
 
+    it('collects the config and layer blob sizes of each image', async () => {
+      mockPackageRepo.getDigests.mockReturnValue(
+        new Set(['sha256:index', 'sha256:image'])
+      )
+      mockRegistry.getManifestByDigest.mockImplementation(
+        async (digest: string) =>
+          digest === 'sha256:index'
+            ? { manifests: [{ digest: 'sha256:image' }] }
+            : {
+                config: { mediaType: 'c', digest: 'sha256:config', size: 5 },
+                layers: [{ mediaType: 'l', digest: 'sha256:layer', size: 50 }]
+              }
+      )
+
+      const { blobSizes } = await analyzer.loadDigestUsedByMap()
+
+      // An index holds no blobs of its own
+      expect(blobSizes).toEqual(
+        new Map([
+          [
+            'sha256:image',
+            new Map([
+              ['sha256:config', 5],
+              ['sha256:layer', 50]
+            ])
+          ]
+        ])
+      )
+    })
+
     it('maps each child digest to its multi-arch parent', async () => {
       const parent = 'sha256:parent'
       const childAmd = 'sha256:amd64'
@@ -216,6 +248,123 @@ describe('ManifestAnalyzer', () => {
       expect(subjectReferrers.get(subject)).toEqual(new Set([referrer]))
     })
 
+    it('classifies every manifest by what it holds', async () => {
+      mockPackageRepo.getDigests.mockReturnValue(
+        new Set(['sha256:image', 'sha256:chart', 'sha256:sbom'])
+      )
+      mockRegistry.getManifestByDigest.mockImplementation(
+        async (digest: string) => {
+          if (digest === 'sha256:chart') {
+            return {
+              config: {
+                mediaType: 'application/vnd.cncf.helm.config.v1+json',
+                digest: 'sha256:c',
+                size: 1
+              }
+            }
+          }
+          if (digest === 'sha256:sbom') {
+            return { artifactType: 'application/spdx+json' }
+          }
+          return {
+            config: {
+              mediaType: 'application/vnd.oci.image.config.v1+json',
+              digest: 'sha256:c2',
+              size: 1
+            }
+          }
+        }
+      )
+
+      const { artifactClasses } = await analyzer.loadDigestUsedByMap()
+
+      expect(artifactClasses).toEqual(
+        new Map([
+          ['sha256:image', 'image'],
+          ['sha256:chart', 'helm'],
+          ['sha256:sbom', 'sbom']
+        ])
+      )
+    })
+
+    it('records the artifact type of each referrer', async () => {
+      mockPackageRepo.getDigests.mockReturnValue(
+        new Set(['sha256:subject', 'sha256:bundle', 'sha256:sbom'])
+      )
+      mockRegistry.getManifestByDigest.mockImplementation(
+        async (digest: string) => {
+          if (digest === 'sha256:bundle') {
+            return {
+              artifactType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+              subject: { digest: 'sha256:subject' }
+            }
+          }
+          if (digest === 'sha256:sbom') {
+            // No artifactType: the config media type stands in for it
+            return {
+              config: {
+                mediaType: 'application/spdx+json',
+                digest: 'sha256:c',
+                size: 1
+              },
+              subject: { digest: 'sha256:subject' }
+            }
+          }
+          return { layers: [] }
+        }
+      )
+
+      const { referrerTypes } = await analyzer.loadDigestUsedByMap()
+
+      expect(referrerTypes).toEqual(
+        new Map([
+          ['sha256:bundle', 'application/vnd.dev.sigstore.bundle.v0.3+json'],
+          ['sha256:sbom', 'application/spdx+json']
+        ])
+      )
+      expect(mockRegistry.getReferrers).not.toHaveBeenCalled()
+    })
+
+    it('asks the Referrers API in place of the subject field where supported', async () => {
+      mockPackageRepo.getDigests.mockReturnValue(
+        new Set(['sha256:subject', 'sha256:sig', 'sha256:stale'])
+      )
+      mockRegistry.supportsReferrers.mockResolvedValue(true)
+      mockRegistry.getManifestByDigest.mockImplementation(
+        async (digest: string) =>
+          digest === 'sha256:subject'
+            ? { layers: [] }
+            : {
+                artifactType: 'application/vnd.dev.cosign.artifact.sig.v1+json',
+                subject: { digest: 'sha256:subject' }
+              }
+      )
+      mockRegistry.getReferrers.mockImplementation(async (digest: string) =>
+        digest === 'sha256:subject'
+          ? [
+              {
+                digest: 'sha256:sig',
+                artifactType: 'application/vnd.dev.cosign.artifact.sig.v1+json'
+              }
+            ]
+          : []
+      )
+
+      const { subjectReferrers, referrerTypes } =
+        await analyzer.loadDigestUsedByMap()
+
+      // Signatures are never a subject, and the API's answer is the one
+      // that counts for the digests it was asked about
+      expect(mockRegistry.getReferrers).toHaveBeenCalledTimes(1)
+      expect(mockRegistry.getReferrers).toHaveBeenCalledWith('sha256:subject')
+      expect(subjectReferrers).toEqual(
+        new Map([['sha256:subject', new Set(['sha256:sig'])]])
+      )
+      expect(referrerTypes.get('sha256:sig')).toBe(
+        'application/vnd.dev.cosign.artifact.sig.v1+json'
+      )
+    })
+
     it('records multiple referrers pointing at the same subject', async () => {
       const subject = 'sha256:subject'
       const refA = 'sha256:refA'
@@ -367,21 +516,31 @@ describe('ManifestAnalyzer', () => {
         platform: { architecture: 'unknown' }
       })
 
-      expect(label).toBe('application/vnd.in-toto+json')
+      expect(label).toBe('artifact: attestation')
     })
 
     it('labels sigstore attestations by artifactType prefix', async () => {
       const label = await analyzer.buildLabel({
         artifactType: 'application/vnd.dev.sigstore.bundle.v0.3+json'
       })
-      expect(label).toBe('sigstore attestation')
+      expect(label).toBe('artifact: attestation')
+    })
+
+    it('labels signatures, SBOMs and Helm charts by their class', async () => {
+      for (const [artifactType, label] of [
+        ['application/vnd.cncf.notary.signature', 'artifact: signature'],
+        ['application/vnd.cyclonedx+json', 'artifact: sbom'],
+        ['application/vnd.cncf.helm.config.v1+json', 'artifact: helm']
+      ]) {
+        expect(await analyzer.buildLabel({ artifactType })).toBe(label)
+      }
     })
 
-    it('falls back to the raw artifactType when not a sigstore bundle', async () => {
+    it('falls back to the raw artifactType of other artifacts', async () => {
       const label = await analyzer.buildLabel({
-        artifactType: 'application/vnd.cncf.notary.signature'
+        artifactType: 'application/vnd.example.thing'
       })
-      expect(label).toBe('application/vnd.cncf.notary.signature')
+      expect(label).toBe('application/vnd.example.thing')
     })
 
     it('returns an empty label when there is no platform or artifactType', async () => {
@@ -75,14 +75,53 @@ describe('manifest-cache', () => {
       expect(distilled.firstLayerMediaType).toBe('application/vnd.in-toto+json')
     })
 
-    it('does not capture layer descriptor digest or size', () => {
+    it('captures blob digests and sizes for storage accounting', () => {
       const manifest: Manifest = {
-        layers: [{ mediaType: 'foo', digest: 'sha256:secret', size: 99 }]
+        config: { mediaType: 'cfg', digest: 'sha256:config', size: 7 },
+        layers: [
+          { mediaType: 'foo', digest: 'sha256:l1', size: 99 },
+          { mediaType: 'bar', digest: 'sha256:l2', size: 42 }
+        ]
       }
       const distilled = distillManifest(manifest)
-      // We deliberately only persist the media type — layer digests are
-      // never read by the cleanup pipeline.
-      expect(JSON.stringify(distilled)).not.toContain('sha256:secret')
+      expect(distilled.layerBlobs).toEqual([
+        ['sha256:l1', 99],
+        ['sha256:l2', 42]
+      ])
+      expect(distilled.configSize).toBe(7)
+
+      // Only the config's and the first layer's media types are kept
+      const round = reconstituteManifest(distilled)
+      expect(round.config).toEqual({
+        mediaType: 'cfg',
+        digest: 'sha256:config',
+        size: 7
+      })
+      expect(round.layers).toEqual([
+        { mediaType: 'foo', digest: 'sha256:l1', size: 99 },
+        { mediaType: '', digest: 'sha256:l2', size: 42 }
+      ])
+    })
+
+    it('captures the config digest and annotations for label filters', () => {
+      const manifest: Manifest = {
+        config: {
+          mediaType: 'application/vnd.oci.image.config.v1+json',
+          digest: 'sha256:config',
+          size: 42
+        },
+        annotations: { 'org.opencontainers.image.revision': 'abc123' }
+      }
+
+      const distilled = distillManifest(manifest)
+      expect(distilled.configDigest).toBe('sha256:config')
+      expect(distilled.annotations).toEqual({
+        'org.opencontainers.image.revision': 'abc123'
+      })
+
+      const round = reconstituteManifest(distilled)
+      expect(round.config?.digest).toBe('sha256:config')
+      expect(round.annotations).toEqual(manifest.annotations)
     })
 
     it('returns empty object for minimal manifest', () => {
@@ -119,6 +158,17 @@ describe('manifest-cache', () => {
       expect(round.layers?.[0].mediaType).toBe('application/vnd.in-toto+json')
     })
 
+    it('round-trips the artifact type for artifact classification', () => {
+      const round = reconstituteManifest(
+        distillManifest({
+          artifactType: 'application/vnd.cncf.helm.config.v1+json'
+        })
+      )
+      expect(round.artifactType).toBe(
+        'application/vnd.cncf.helm.config.v1+json'
+      )
+    })
+
     it('returns empty manifest when distilled is empty', () => {
       expect(reconstituteManifest({})).toEqual({})
     })
@@ -152,6 +202,46 @@ describe('manifest-cache', () => {
       expect(dropped).toBe(0)
       expect(mc.size()).toBe(2)
     })
+
+    it('drops config labels once no live manifest uses the config', () => {
+      const mc = new ManifestCache('owner', 'pkg')
+      mc.set('sha256:a', { configDigest: 'sha256:shared' })
+      mc.set('sha256:b', { configDigest: 'sha256:shared' })
+      mc.set('sha256:c', { configDigest: 'sha256:only-c' })
+      mc.setLabels('sha256:shared', { keep: 'true' })
+      mc.setLabels('sha256:only-c', { keep: 'false' })
+
+      mc.prune(new Set(['sha256:a']))
+
+      expect(mc.getLabels('sha256:shared')).toEqual({ keep: 'true' })
+      expect(mc.getLabels('sha256:only-c')).toBeUndefined()
+    })
+
+    it('drops the referrers of gone subjects and the gone referrers', () => {
+      const mc = new ManifestCache('owner', 'pkg')
+      mc.set('sha256:a', {})
+      mc.set('sha256:b', {})
+      mc.set('sha256:sig', {})
+      mc.setReferrers('sha256:a', [{ digest: 'sha256:sig' }])
+      mc.setReferrers('sha256:b', [{ digest: 'sha256:gone' }])
+      mc.setReferrers('sha256:gone', [{ digest: 'sha256:sig' }])
+
+      mc.prune(new Set(['sha256:a', 'sha256:b', 'sha256:sig']))
+
+      expect(mc.getReferrers('sha256:a')).toEqual([{ digest: 'sha256:sig' }])
+      expect(mc.getReferrers('sha256:b')).toEqual([])
+      expect(mc.getReferrers('sha256:gone')).toBeUndefined()
+    })
+
+    it('drops every referrer list once a new version shows up', () => {
+      const mc = new ManifestCache('owner', 'pkg')
+      mc.set('sha256:a', {})
+      mc.setReferrers('sha256:a', [])
+
+      mc.prune(new Set(['sha256:a', 'sha256:new-sig']))
+
+      expect(mc.getReferrers('sha256:a')).toBeUndefined()
+    })
   })
 
   describe('save', () => {
@@ -169,8 +259,8 @@ describe('manifest-cache', () => {
 
       expect(cache.saveCache).toHaveBeenCalledTimes(1)
       const [, key] = vi.mocked(cache.saveCache).mock.calls[0]
-      // Key format: ghcr-manifest-v1-<owner>-<pkg>-<runId>
-      expect(key).toMatch(/^ghcr-manifest-v1-owner-pkg-.+$/)
+      // Key format: ghcr-manifest-v4-<owner>-<pkg>-<runId>
+      expect(key).toMatch(/^ghcr-manifest-v4-owner-pkg-.+$/)
     })
 
     it('is a no-op when nothing was fetched (empty map)', async () => {
@@ -298,6 +388,37 @@ describe('manifest-cache', () => {
       expect(cache.saveCache).not.toHaveBeenCalled()
     })
 
+    it('restores config labels saved by an earlier run', async () => {
+      const c = new ManifestCache('owner', 'pkg')
+      c.set('sha256:a', { configDigest: 'sha256:config' })
+      c.setLabels('sha256:config', { 'com.example.keep': 'true' })
+      await c.save()
+
+      vi.mocked(cache.restoreCache).mockResolvedValueOnce('hit-key')
+      const restored = new ManifestCache('owner', 'pkg')
+      await restored.restore()
+
+      expect(restored.get('sha256:a')?.configDigest).toBe('sha256:config')
+      expect(restored.getLabels('sha256:config')).toEqual({
+        'com.example.keep': 'true'
+      })
+    })
+
+    it('restores referrers saved by an earlier run', async () => {
+      const c = new ManifestCache('owner', 'pkg')
+      c.set('sha256:a', {})
+      c.setReferrers('sha256:a', [{ digest: 'sha256:sig', artifactType: 't' }])
+      await c.save()
+
+      vi.mocked(cache.restoreCache).mockResolvedValueOnce('hit-key')
+      const restored = new ManifestCache('owner', 'pkg')
+      await restored.restore()
+
+      expect(restored.getReferrers('sha256:a')).toEqual([
+        { digest: 'sha256:sig', artifactType: 't' }
+      ])
+    })
+
     it('keeps valid lines and counts skipped malformed ones', async () => {
       seedCacheFile(
         'owner',
@@ -0,0 +1,523 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  OciDistributionBackend,
+  versionIdFromDigest
+} from '../oci-distribution-backend'
+import { Config, LogLevel } from '../config'
+import { GhPackage, REFERRERS_PROBE_DIGEST } from '../utils'
+
+// Single shared mock axios instance returned from every axios.create()
+// call: `request` serves the registry, `get` the token service.
+const mockAxiosInstance = {
+  request: vi.fn(),
+  get: vi.fn()
+}
+
+vi.mock('axios', () => {
+  return {
+    default: {
+      create: vi.fn(() => mockAxiosInstance)
+    },
+    isAxiosError: vi.fn((err: any) => err && err.__isAxiosError === true)
+  }
+})
+
+vi.mock('axios-retry', () => {
+  const axiosRetryMock = vi.fn() as ReturnType<typeof vi.fn> & {
+    isNetworkOrIdempotentRequestError: ReturnType<typeof vi.fn>
+    exponentialDelay: ReturnType<typeof vi.fn>
+  }
+  axiosRetryMock.isNetworkOrIdempotentRequestError = vi.fn(() => false)
+  axiosRetryMock.exponentialDelay = vi.fn(() => 0)
+  return { default: axiosRetryMock }
+})
+
+interface FakeAxiosError {
+  __isAxiosError: true
+  response: { status: number; headers: Record<string, string>; data: string }
+}
+
+interface FakeResponse {
+  data?: unknown
+  headers?: Record<string, string>
+}
+
+function fakeAxiosError(
+  status: number,
+  headers: Record<string, string> = {}
+): FakeAxiosError {
+  return { __isAxiosError: true, response: { status, headers, data: '' } }
+}
+
+const digest = (n: number): string => `sha256:${String(n).repeat(64)}`
+
+// Answer `<METHOD> <url>` requests from a table; anything else is a 404
+function serve(
+  routes: Record<string, FakeResponse | (() => FakeResponse)>
+): void {
+  mockAxiosInstance.request.mockImplementation(
+    async (request: { method: string; url: string }) => {
+      const route = routes[`${request.method} ${request.url}`]
+      if (!route) {
+        throw fakeAxiosError(404)
+      }
+      const response = typeof route === 'function' ? route() : route
+      return { data: response.data, headers: response.headers ?? {} }
+    }
+  )
+}
+
+describe('OciDistributionBackend', () => {
+  let config: Config
+  let backend: OciDistributionBackend
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    config = new Config()
+    config.owner = 'team'
+    config.token = 'secret'
+    config.registryType = 'oci'
+    config.registryUrl = 'https://registry.example.com/'
+    config.logLevel = LogLevel.INFO
+    backend = new OciDistributionBackend(config)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const listVersions = async (): Promise<GhPackage[]> => {
+    const versions: GhPackage[] = []
+    await backend.listVersions('app', page => versions.push(...page))
+    return versions
+  }
+
+  describe('listVersions', () => {
+    it('resolves the tags of every page to manifests with HEAD', async () => {
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': {
+          data: { name: 'team/app', tags: ['v1', 'latest'] },
+          headers: {
+            link: '</v2/team/app/tags/list?last=latest&n=1000>; rel="next"'
+          }
+        },
+        'GET /v2/team/app/tags/list?last=latest&n=1000': {
+          data: { name: 'team/app', tags: ['v2'] }
+        },
+        'HEAD /v2/team/app/manifests/v1': {
+          headers: { 'docker-content-digest': digest(1) }
+        },
+        'HEAD /v2/team/app/manifests/latest': {
+          headers: { 'docker-content-digest': digest(2) }
+        },
+        'HEAD /v2/team/app/manifests/v2': {
+          headers: { 'docker-content-digest': digest(2) }
+        },
+        [`GET /v2/team/app/manifests/${digest(1)}`]: {
+          data: {
+            annotations: {
+              'org.opencontainers.image.created': '2026-01-02T03:04:05Z'
+            }
+          }
+        },
+        [`GET /v2/team/app/manifests/${digest(2)}`]: {
+          data: {
+            config: {
+              mediaType: 'application/vnd.oci.image.config.v1+json',
+              digest: digest(9),
+              size: 10
+            }
+          }
+        },
+        [`GET /v2/team/app/blobs/${digest(9)}`]: {
+          data: { created: '2026-02-03T04:05:06.123Z' }
+        }
+      })
+
+      const versions = await listVersions()
+
+      expect(versions).toEqual([
+        {
+          id: versionIdFromDigest(digest(1)),
+          name: digest(1),
+          updated_at: '2026-01-02T03:04:05.000Z',
+          metadata: { container: { tags: ['v1'] } }
+        },
+        {
+          id: versionIdFromDigest(digest(2)),
+          name: digest(2),
+          updated_at: '2026-02-03T04:05:06.123Z',
+          metadata: { container: { tags: ['latest', 'v2'] } }
+        }
+      ])
+    })
+
+    it('refuses two manifests sharing a version id', async () => {
+      const first = `sha256:${'1'.repeat(12)}${'a'.repeat(52)}`
+      const second = `sha256:${'1'.repeat(12)}${'b'.repeat(52)}`
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': {
+          data: { name: 'team/app', tags: ['v1', 'v2'] }
+        },
+        'HEAD /v2/team/app/manifests/v1': {
+          headers: { 'docker-content-digest': first }
+        },
+        'HEAD /v2/team/app/manifests/v2': {
+          headers: { 'docker-content-digest': second }
+        },
+        [`GET /v2/team/app/manifests/${first}`]: { data: {} },
+        [`GET /v2/team/app/manifests/${second}`]: { data: {} }
+      })
+
+      await expect(listVersions()).rejects.toThrow(
+        `${second} and ${first} in team/app share the version id ${versionIdFromDigest(first)}, refusing to go on`
+      )
+    })
+
+    it('adds the platform images of an index as untagged versions', async () => {
+      const image = (created: string): FakeResponse => ({
+        data: {
+          config: {
+            mediaType: 'application/vnd.docker.container.image.v1+json',
+            digest: created === 'a' ? digest(7) : digest(8),
+            size: 10
+          }
+        }
+      })
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': { data: { tags: ['multi'] } },
+        'HEAD /v2/team/app/manifests/multi': {
+          headers: { 'docker-content-digest': digest(1) }
+        },
+        [`GET /v2/team/app/manifests/${digest(1)}`]: {
+          data: {
+            manifests: [
+              { digest: digest(2), mediaType: 'm', size: 1 },
+              { digest: digest(3), mediaType: 'm', size: 1 }
+            ]
+          }
+        },
+        [`GET /v2/team/app/manifests/${digest(2)}`]: image('a'),
+        [`GET /v2/team/app/manifests/${digest(3)}`]: image('b'),
+        [`GET /v2/team/app/blobs/${digest(7)}`]: {
+          data: { created: '2026-03-01T00:00:00Z' }
+        },
+        [`GET /v2/team/app/blobs/${digest(8)}`]: {
+          data: { created: '2026-03-02T00:00:00Z' }
+        }
+      })
+
+      const versions = await listVersions()
+
+      expect(versions.map(version => version.name)).toEqual([
+        digest(1),
+        digest(2),
+        digest(3)
+      ])
+      expect(versions[1].metadata.container.tags).toEqual([])
+      // The index takes the time of its newest platform image
+      expect(versions[0].updated_at).toBe('2026-03-02T00:00:00.000Z')
+    })
+
+    it('adds the referrers of each version where the registry has the Referrers API', async () => {
+      const index = 'application/vnd.oci.image.index.v1+json'
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': { data: { tags: ['v1'] } },
+        'HEAD /v2/team/app/manifests/v1': {
+          headers: { 'docker-content-digest': digest(1) }
+        },
+        [`GET /v2/team/app/referrers/${REFERRERS_PROBE_DIGEST}`]: {
+          data: { manifests: [] },
+          headers: { 'content-type': index }
+        },
+        [`GET /v2/team/app/manifests/${digest(1)}`]: { data: {} },
+        [`GET /v2/team/app/referrers/${digest(1)}`]: {
+          data: { manifests: [{ digest: digest(2) }] },
+          headers: { 'content-type': index }
+        },
+        [`GET /v2/team/app/manifests/${digest(2)}`]: {
+          data: { subject: { digest: digest(1) } }
+        },
+        [`GET /v2/team/app/referrers/${digest(2)}`]: {
+          data: { manifests: [] },
+          headers: { 'content-type': index }
+        }
+      })
+
+      const versions = await listVersions()
+
+      expect(versions.map(version => version.name)).toEqual([
+        digest(1),
+        digest(2)
+      ])
+      expect(versions[1].metadata.container.tags).toEqual([])
+    })
+
+    it('dates a version of unknown age at the listing, so age rules keep it', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': { data: { tags: ['sig'] } },
+        'HEAD /v2/team/app/manifests/sig': {
+          headers: { 'docker-content-digest': digest(1) }
+        },
+        [`GET /v2/team/app/manifests/${digest(1)}`]: {
+          data: {
+            config: {
+              mediaType: 'application/vnd.dev.cosign.simplesigning.v1+json',
+              digest: digest(9),
+              size: 10
+            }
+          }
+        }
+      })
+
+      const versions = await listVersions()
+
+      expect(versions[0].updated_at).toBe('2026-10-19T12:00:00.000Z')
+      // Only image configs are read for their build time
+      expect(mockAxiosInstance.request).not.toHaveBeenCalledWith(
+        expect.objectContaining({ url: `/v2/team/app/blobs/${digest(9)}` })
+      )
+    })
+
+    it('ignores the epoch time of reproducible builds', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2026-10-19T12:00:00Z'))
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': { data: { tags: ['v1'] } },
+        'HEAD /v2/team/app/manifests/v1': {
+          headers: { 'docker-content-digest': digest(1) }
+        },
+        [`GET /v2/team/app/manifests/${digest(1)}`]: {
+          data: {
+            config: {
+              mediaType: 'application/vnd.oci.image.config.v1+json',
+              digest: digest(9),
+              size: 10
+            }
+          }
+        },
+        [`GET /v2/team/app/blobs/${digest(9)}`]: {
+          data: { created: '1970-01-01T00:00:00Z' }
+        }
+      })
+
+      const versions = await listVersions()
+
+      expect(versions[0].updated_at).toBe('2026-10-19T12:00:00.000Z')
+    })
+
+    it('lists an empty package when the repository has no tags', async () => {
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': {
+          data: { name: 'team/app', tags: null }
+        }
+      })
+
+      expect(await listVersions()).toEqual([])
+    })
+
+    it('reports a package the registry does not know', async () => {
+      serve({})
+
+      await expect(listVersions()).rejects.toThrow(
+        'The package "app" is not found under team/app on https://registry.example.com/'
+      )
+    })
+
+    it('fails when the registry sends no digest for a tag', async () => {
+      serve({
+        'GET /v2/team/app/tags/list?n=1000': { data: { tags: ['v1'] } },
+        'HEAD /v2/team/app/manifests/v1': { headers: {} }
+      })
+
+      await expect(listVersions()).rejects.toThrow(
+        'sent no Docker-Content-Digest for team/app:v1'
+      )
+    })
+  })
+
+  describe('authentication', () => {
+    it('answers a challenge with a token and keeps using it', async () => {
+      config.registryUsername = 'robot$cleanup'
+      let challenged = false
+      mockAxiosInstance.request.mockImplementation(
+        async (request: { headers?: Record<string, string> }) => {
+          if (request.headers?.Authorization !== 'Bearer pull-token') {
+            challenged = true
+            throw fakeAxiosError(401, {
+              'www-authenticate':
+                'Bearer realm="https://auth.example.com/token",service="registry",scope="repository:team/app:pull"'
+            })
+          }
+          return { data: { tags: [] }, headers: {} }
+        }
+      )
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { token: 'pull-token' }
+      })
+
+      await listVersions()
+      await listVersions()
+
+      expect(challenged).toBe(true)
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1)
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        'https://auth.example.com/token?service=registry&scope=repository:team/app:pull',
+        { auth: { username: 'robot$cleanup', password: 'secret' } }
+      )
+    })
+
+    it('accepts an access_token from the token service', async () => {
+      mockAxiosInstance.request
+        .mockRejectedValueOnce(
+          fakeAxiosError(401, {
+            'www-authenticate':
+              'Bearer realm="https://auth.example.com/token",service="registry",scope="repository:team/app:delete"'
+          })
+        )
+        .mockResolvedValueOnce({ data: '', headers: {} })
+      mockAxiosInstance.get.mockResolvedValue({
+        data: { access_token: 'delete-token' }
+      })
+
+      expect(await backend.deleteVersion('app', 1, digest(1))).toBe(true)
+
+      expect(mockAxiosInstance.request).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          headers: { Authorization: 'Bearer delete-token' }
+        })
+      )
+      // The basic username stands in when none is configured
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(expect.any(String), {
+        auth: { username: 'token', password: 'secret' }
+      })
+    })
+
+    it('answers a Basic challenge with the credentials and keeps using them', async () => {
+      config.registryUsername = 'cleanup'
+      const basic = `Basic ${Buffer.from('cleanup:secret').toString('base64')}`
+      let challenges = 0
+      mockAxiosInstance.request.mockImplementation(
+        async (request: { headers?: Record<string, string> }) => {
+          if (request.headers?.Authorization !== basic) {
+            challenges++
+            throw fakeAxiosError(401, {
+              'www-authenticate': 'Basic realm="Registry Realm"'
+            })
+          }
+          return { data: { tags: [] }, headers: {} }
+        }
+      )
+
+      await listVersions()
+      await listVersions()
+
+      // One challenge, then the credentials go along with every request
+      expect(challenges).toBe(1)
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled()
+    })
+
+    it('fails when the Basic credentials are refused', async () => {
+      mockAxiosInstance.request.mockRejectedValue(
+        fakeAxiosError(401, { 'www-authenticate': 'Basic realm="registry"' })
+      )
+
+      await expect(listVersions()).rejects.toMatchObject({
+        response: { status: 401 }
+      })
+      expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2)
+    })
+
+    it('rejects a challenge it cannot answer', async () => {
+      mockAxiosInstance.request.mockRejectedValue(
+        fakeAxiosError(401, { 'www-authenticate': 'Negotiate' })
+      )
+
+      await expect(listVersions()).rejects.toThrow(
+        'invalid www-authenticate challenge Negotiate'
+      )
+    })
+
+    it('fails when the token service returns no token', async () => {
+      mockAxiosInstance.request.mockRejectedValue(
+        fakeAxiosError(401, {
+          'www-authenticate':
+            'Bearer realm="https://auth.example.com/token",service="registry",scope="repository:team/app:pull"'
+        })
+      )
+      mockAxiosInstance.get.mockResolvedValue({ data: { error: 'denied' } })
+
+      await expect(listVersions()).rejects.toThrow(
+        'https://registry.example.com/ login failed: {"error":"denied"}'
+      )
+    })
+  })
+
+  describe('deleteVersion', () => {
+    it('deletes the manifest by digest', async () => {
+      serve({
+        [`DELETE /v2/team/app/manifests/${digest(1)}`]: { data: '' }
+      })
+
+      expect(await backend.deleteVersion('app', 1, digest(1))).toBe(true)
+    })
+
+    it('reports a manifest that is already gone', async () => {
+      serve({})
+
+      expect(await backend.deleteVersion('app', 1, digest(1))).toBe(false)
+    })
+
+    it('explains a registry with deletes disabled', async () => {
+      mockAxiosInstance.request.mockRejectedValue(fakeAxiosError(405))
+
+      await expect(backend.deleteVersion('app', 1, digest(1))).rejects.toThrow(
+        'REGISTRY_STORAGE_DELETE_ENABLED=true'
+      )
+    })
+
+    it('rethrows other errors', async () => {
+      mockAxiosInstance.request.mockRejectedValue(fakeAxiosError(500))
+
+      await expect(
+        backend.deleteVersion('app', 1, digest(1))
+      ).rejects.toMatchObject({ response: { status: 500 } })
+    })
+  })
+
+  describe('listPackages', () => {
+    it('lists the repositories under the owner from every catalog page', async () => {
+      serve({
+        'GET /v2/_catalog?n=1000': {
+          data: { repositories: ['other/app', 'team/app', 'team/tools/cli'] },
+          headers: { link: '</v2/_catalog?last=team%2Fx&n=1000>; rel="next"' }
+        },
+        'GET /v2/_catalog?last=team%2Fx&n=1000': {
+          data: { repositories: ['team/web'] }
+        }
+      })
+
+      expect(await backend.listPackages()).toEqual(['app', 'tools/cli', 'web'])
+    })
+  })
+
+  it('has no deleted versions to restore', async () => {
+    await expect(backend.listDeletedVersions()).rejects.toThrow(
+      'mode restore requires registry-type ghcr'
+    )
+    await expect(backend.restoreVersion()).rejects.toThrow(
+      'mode restore requires registry-type ghcr'
+    )
+  })
+})
+
+describe('versionIdFromDigest', () => {
+  it('takes the first 48 bits of the digest', () => {
+    expect(versionIdFromDigest(`sha256:0000000000ff${'0'.repeat(52)}`)).toBe(
+      255
+    )
+    expect(versionIdFromDigest(`sha256:${'f'.repeat(64)}`)).toBe(2 ** 48 - 1)
+  })
+})
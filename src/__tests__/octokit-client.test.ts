@@ -357,6 +357,107 @@ describe('OctokitClient', () => {
     })
   })
 
+  describe('getPullRequestState', () => {
+    let client: OctokitClient
+    let mockRequest: Mock
+
+    beforeEach(() => {
+      client = new OctokitClient('test-token')
+      mockRequest = vi.fn()
+      ;(client as any).octokit = { request: mockRequest }
+    })
+
+    it('returns open or closed from the pull request state', async () => {
+      mockRequest.mockResolvedValueOnce({ data: { state: 'open' } })
+      mockRequest.mockResolvedValueOnce({ data: { state: 'closed' } })
+
+      await expect(client.getPullRequestState('o', 'r', 12)).resolves.toBe(
+        'open'
+      )
+      await expect(client.getPullRequestState('o', 'r', 13)).resolves.toBe(
+        'closed'
+      )
+      expect(mockRequest).toHaveBeenCalledWith(
+        'GET /repos/{owner}/{repo}/pulls/{pull_number}',
+        { owner: 'o', repo: 'r', pull_number: 12 }
+      )
+    })
+
+    it('returns null when the number is not a pull request', async () => {
+      const error = new RequestError('Not Found', 404, {
+        request: {
+          method: 'GET',
+          url: 'https://api.github.com/repos/o/r/pulls/99',
+          headers: {}
+        },
+        response: {
+          status: 404,
+          url: 'https://api.github.com/repos/o/r/pulls/99',
+          headers: {},
+          data: {}
+        }
+      })
+      mockRequest.mockRejectedValue(error)
+
+      await expect(client.getPullRequestState('o', 'r', 99)).resolves.toBeNull()
+    })
+  })
+
+  describe('listBranches', () => {
+    it('collects branch names across pages', async () => {
+      const client = new OctokitClient('test-token')
+      const listBranches = vi.fn()
+      const iterator = vi.fn(async function* () {
+        yield { data: [{ name: 'main' }, { name: 'feature/a' }] }
+        yield { data: [{ name: 'release-1.x' }] }
+      })
+      ;(client as any).octokit = {
+        paginate: { iterator },
+        rest: { repos: { listBranches } }
+      }
+
+      await expect(client.listBranches('o', 'r')).resolves.toEqual([
+        'main',
+        'feature/a',
+        'release-1.x'
+      ])
+      expect(iterator).toHaveBeenCalledWith(listBranches, {
+        owner: 'o',
+        repo: 'r',
+        per_page: 100
+      })
+    })
+  })
+
+  describe('listReleases', () => {
+    it('maps each release to its tag and flags', async () => {
+      const client = new OctokitClient('test-token')
+      const listReleases = vi.fn()
+      const iterator = vi.fn(async function* () {
+        yield {
+          data: [
+            { tag_name: 'v1.0.0', draft: false, prerelease: false },
+            { tag_name: 'v1.1.0-rc.1', draft: false, prerelease: true }
+          ]
+        }
+      })
+      ;(client as any).octokit = {
+        paginate: { iterator },
+        rest: { repos: { listReleases } }
+      }
+
+      await expect(client.listReleases('o', 'r')).resolves.toEqual([
+        { tag: 'v1.0.0', draft: false, prerelease: false },
+        { tag: 'v1.1.0-rc.1', draft: false, prerelease: true }
+      ])
+      expect(iterator).toHaveBeenCalledWith(listReleases, {
+        owner: 'o',
+        repo: 'r',
+        per_page: 100
+      })
+    })
+  })
+
   describe('logging configuration', () => {
     it('should log debug messages when log level is DEBUG', () => {
       const client = new OctokitClient('test-token', undefined, LogLevel.DEBUG)
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  InventoryEntry,
+  buildInventory,
+  inventoryCsv,
+  writeInventory
+} from '../package-inventory'
+import { CleanupContext } from '../cleanup-types'
+
+describe('buildInventory', () => {
+  // A multi-arch index with two platform images, a cosign signature
+  // linked by tag and an OCI 1.1 attestation linked by subject
+  const versions: Record<
+    string,
+    { id: number; tags: string[]; manifest: object }
+  > = {
+    'sha256:index': {
+      id: 1,
+      tags: ['v1'],
+      manifest: {
+        mediaType: 'application/vnd.oci.image.index.v1+json',
+        manifests: [
+          {
+            digest: 'sha256:amd64',
+            platform: { os: 'linux', architecture: 'amd64' }
+          },
+          {
+            digest: 'sha256:arm64',
+            platform: { os: 'linux', architecture: 'arm64', variant: 'v8' }
+          }
+        ]
+      }
+    },
+    'sha256:amd64': {
+      id: 2,
+      tags: [],
+      manifest: {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        layers: []
+      }
+    },
+    'sha256:arm64': {
+      id: 3,
+      tags: [],
+      manifest: {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        layers: []
+      }
+    },
+    'sha256:sig': {
+      id: 4,
+      tags: ['sha256-index.sig'],
+      manifest: { mediaType: 'application/vnd.oci.image.manifest.v1+json' }
+    },
+    'sha256:att': {
+      id: 5,
+      tags: [],
+      manifest: {
+        mediaType: 'application/vnd.oci.image.manifest.v1+json',
+        subject: { digest: 'sha256:index' }
+      }
+    }
+  }
+
+  const context = {
+    targetPackage: 'app',
+    packageRepo: {
+      getDigests: () => new Set(Object.keys(versions)),
+      getPackageByDigest: (digest: string) => ({
+        id: versions[digest].id,
+        name: digest,
+        updated_at: '2024-01-01T00:00:00Z',
+        metadata: { container: { tags: versions[digest].tags } }
+      }),
+      getReferrerTagsForDigest: (digest: string) =>
+        digest === 'sha256:index' ? ['sha256-index.sig'] : [],
+      getDigestByTag: (tag: string) =>
+        tag === 'sha256-index.sig' ? 'sha256:sig' : undefined
+    },
+    registry: {
+      getManifestByDigest: async (digest: string) => versions[digest].manifest
+    }
+  } as unknown as CleanupContext
+
+  const relations = {
+    digestUsedBy: new Map([
+      ['sha256:amd64', new Set(['sha256:index'])],
+      ['sha256:arm64', new Set(['sha256:index'])]
+    ]),
+    subjectReferrers: new Map([['sha256:index', new Set(['sha256:att'])]]),
+    blobSizes: new Map([
+      [
+        'sha256:amd64',
+        new Map([
+          ['config-amd64', 10],
+          ['base', 100]
+        ])
+      ],
+      [
+        'sha256:arm64',
+        new Map([
+          ['config-arm64', 20],
+          ['base', 100]
+        ])
+      ]
+    ])
+  }
+
+  let entries: InventoryEntry[]
+
+  beforeEach(async () => {
+    entries = await buildInventory(context, relations, {
+      ghost: new Set(),
+      partial: new Set(['sha256:index']),
+      orphan: new Set()
+    })
+  })
+
+  it('describes an index with its platforms, referrers and size', () => {
+    expect(entries[0]).toEqual({
+      package: 'app',
+      digest: 'sha256:index',
+      id: 1,
+      tags: ['v1'],
+      updatedAt: '2024-01-01T00:00:00Z',
+      mediaType: 'application/vnd.oci.image.index.v1+json',
+      platforms: ['linux/amd64', 'linux/arm64/v8'],
+      parents: [],
+      referrers: ['sha256:att', 'sha256:sig'],
+      size: 130,
+      child: false,
+      ghost: false,
+      partial: true,
+      orphan: false
+    })
+  })
+
+  it('describes a platform image with its parent and platform', () => {
+    expect(entries[1]).toMatchObject({
+      digest: 'sha256:amd64',
+      platforms: ['linux/amd64'],
+      parents: ['sha256:index'],
+      size: 110,
+      child: true
+    })
+  })
+
+  it('reports every version', () => {
+    expect(entries.map(entry => entry.id)).toEqual([1, 2, 3, 4, 5])
+  })
+})
+
+describe('inventory files', () => {
+  const entry: InventoryEntry = {
+    package: 'app',
+    digest: 'sha256:a',
+    id: 1,
+    tags: ['v1', 'latest'],
+    updatedAt: '2024-01-01T00:00:00Z',
+    mediaType: 'application/vnd.oci.image.manifest.v1+json',
+    platforms: [],
+    parents: [],
+    referrers: [],
+    size: 42,
+    child: false,
+    ghost: false,
+    partial: false,
+    orphan: false
+  }
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'package-inventory-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('renders one CSV row per version', () => {
+    expect(inventoryCsv([entry])).toBe(
+      'package,digest,id,tags,updatedAt,mediaType,platforms,parents,referrers,size,child,ghost,partial,orphan\n' +
+        'app,sha256:a,1,v1 latest,2024-01-01T00:00:00Z,application/vnd.oci.image.manifest.v1+json,,,,42,false,false,false,false\n'
+    )
+  })
+
+  it('quotes CSV fields holding commas or quotes', () => {
+    const csv = inventoryCsv([{ ...entry, package: 'a,"b"' }])
+
+    expect(csv.split('\n')[1]).toMatch(/^"a,""b""",/)
+  })
+
+  it('writes CSV or JSON by extension', async () => {
+    const csvFile = path.join(dir, 'inventory.csv')
+    const jsonFile = path.join(dir, 'inventory.json')
+
+    await writeInventory([csvFile, jsonFile], [entry])
+
+    expect(fs.readFileSync(csvFile, 'utf8')).toBe(inventoryCsv([entry]))
+    expect(JSON.parse(fs.readFileSync(jsonFile, 'utf8'))).toEqual([entry])
+  })
+
+  it('reports a file that cannot be written', async () => {
+    const file = path.join(dir, 'missing', 'inventory.json')
+
+    await expect(writeInventory([file], [entry])).rejects.toThrow(
+      `inventory-file ${file} could not be written`
+    )
+  })
+})
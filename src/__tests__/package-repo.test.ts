@@ -4,13 +4,17 @@ import {
   expect,
   beforeEach,
   vi,
+  type Mocked,
   type MockedFunction
 } from 'vitest'
 import * as core from '@actions/core'
 import { RequestError } from '@octokit/request-error'
-import { PackageRepo, parseLastPageFromLinkHeader } from '../package-repo'
+import { PackageRepo } from '../package-repo'
+import { parseLastPageFromLinkHeader } from '../github-packages-backend'
 import { Config, LogLevel } from '../config'
 import { OctokitClient } from '../octokit-client'
+import { PackageBackend } from '../package-backend'
+import { OciDistributionBackend } from '../oci-distribution-backend'
 
 vi.mock('@actions/core')
 
@@ -23,6 +27,9 @@ interface MockPackages {
   deletePackageVersionForOrg: ReturnType<typeof vi.fn>
   deletePackageVersionForUser: ReturnType<typeof vi.fn>
   deletePackageVersionForAuthenticatedUser: ReturnType<typeof vi.fn>
+  restorePackageVersionForOrg: ReturnType<typeof vi.fn>
+  restorePackageVersionForUser: ReturnType<typeof vi.fn>
+  restorePackageVersionForAuthenticatedUser: ReturnType<typeof vi.fn>
   listPackagesForOrganization: ReturnType<typeof vi.fn>
   listPackagesForUser: ReturnType<typeof vi.fn>
   listPackagesForAuthenticatedUser: ReturnType<typeof vi.fn>
@@ -44,6 +51,11 @@ const makeMockOctokit = (): MockOctokit => ({
       deletePackageVersionForAuthenticatedUser: vi
         .fn()
         .mockResolvedValue(undefined),
+      restorePackageVersionForOrg: vi.fn().mockResolvedValue(undefined),
+      restorePackageVersionForUser: vi.fn().mockResolvedValue(undefined),
+      restorePackageVersionForAuthenticatedUser: vi
+        .fn()
+        .mockResolvedValue(undefined),
       listPackagesForOrganization: vi.fn(),
       listPackagesForUser: vi.fn(),
       listPackagesForAuthenticatedUser: vi.fn()
@@ -732,6 +744,83 @@ describe('PackageRepo', () => {
     })
   })
 
+  describe('getDeletedPackageVersions', () => {
+    it('lists every page of deleted versions without loading them', async () => {
+      const getFn =
+        mockOctokit.rest.packages.getAllPackageVersionsForPackageOwnedByOrg
+      mockPaginatedPages(getFn, [
+        { data: [buildPackageVersion(1, 'sha256:a', ['v1'])] },
+        { data: [buildPackageVersion(2, 'sha256:b')] }
+      ])
+      const repo = new PackageRepo(buildConfig(), octokitClient)
+
+      const deleted = await repo.getDeletedPackageVersions('pkg')
+
+      expect(deleted.map(version => version.id).sort()).toEqual([1, 2])
+      expect(getFn).toHaveBeenCalledWith(
+        expect.objectContaining({ state: 'deleted', org: 'test-owner' })
+      )
+      expect(repo.getDigests().size).toBe(0)
+    })
+  })
+
+  describe('restorePackageVersion', () => {
+    it('skips API call when dryRun=true (still logs)', async () => {
+      const repo = new PackageRepo(buildConfig({ dryRun: true }), octokitClient)
+      await repo.restorePackageVersion('pkg', 42, 'sha256:a', ['v1'])
+      expect(core.info).toHaveBeenCalledWith(
+        ' restoring package id: 42 digest: sha256:a tag: v1'
+      )
+      expect(
+        mockOctokit.rest.packages.restorePackageVersionForOrg
+      ).not.toHaveBeenCalled()
+    })
+
+    it('uses Org restore endpoint when repoType=Organization', async () => {
+      const repo = new PackageRepo(buildConfig(), octokitClient)
+      await repo.restorePackageVersion('pkg', 42, 'sha256:a')
+      expect(
+        mockOctokit.rest.packages.restorePackageVersionForOrg
+      ).toHaveBeenCalledWith({
+        package_type: 'container',
+        package_name: 'pkg',
+        org: 'test-owner',
+        package_version_id: 42
+      })
+    })
+
+    it('uses public-User restore endpoint when token is NOT the owner', async () => {
+      const repo = new PackageRepo(
+        buildConfig({ repoType: 'User', tokenOwnsPackage: false }),
+        octokitClient
+      )
+      await repo.restorePackageVersion('pkg', 42, 'sha256:a')
+      expect(
+        mockOctokit.rest.packages.restorePackageVersionForUser
+      ).toHaveBeenCalledWith({
+        package_type: 'container',
+        package_name: 'pkg',
+        username: 'test-owner',
+        package_version_id: 42
+      })
+    })
+
+    it('uses authenticated-User restore endpoint when token IS the owner', async () => {
+      const repo = new PackageRepo(
+        buildConfig({ repoType: 'User', tokenOwnsPackage: true }),
+        octokitClient
+      )
+      await repo.restorePackageVersion('pkg', 42, 'sha256:a')
+      expect(
+        mockOctokit.rest.packages.restorePackageVersionForAuthenticatedUser
+      ).toHaveBeenCalledWith({
+        package_type: 'container',
+        package_name: 'pkg',
+        package_version_id: 42
+      })
+    })
+  })
+
   describe('getPackageList', () => {
     it('lists from Org endpoint when repoType=Organization', async () => {
       const repo = new PackageRepo(buildConfig(), octokitClient)
@@ -832,6 +921,46 @@ describe('PackageRepo', () => {
       expect(result).toEqual(['p1', 'p2', 'p3'])
     })
   })
+
+  describe('with another backend', () => {
+    const makeBackend = (): Mocked<PackageBackend> => ({
+      listVersions: vi.fn(async (_pkg, ingestPage) => {
+        ingestPage([buildPackageVersion(7, 'sha256:aaa', ['v1'])])
+      }),
+      listDeletedVersions: vi.fn(),
+      deleteVersion: vi.fn().mockResolvedValue(false),
+      restoreVersion: vi.fn(),
+      listPackages: vi.fn().mockResolvedValue(['pkg'])
+    })
+
+    it('loads and deletes the versions through it', async () => {
+      const backend = makeBackend()
+      const repo = new PackageRepo(buildConfig(), octokitClient, backend)
+
+      await repo.loadPackages('pkg', false)
+      await repo.deletePackageVersion('pkg', 7, 'sha256:aaa')
+
+      expect(repo.getDigestByTag('v1')).toBe('sha256:aaa')
+      expect(backend.deleteVersion).toHaveBeenCalledWith('pkg', 7, 'sha256:aaa')
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('treating as already deleted')
+      )
+      expect(await repo.getPackageList()).toEqual(['pkg'])
+      expect(mockGetClient).not.toHaveBeenCalled()
+    })
+
+    it('selects the OCI Distribution backend for registry-type oci', () => {
+      const repo = new PackageRepo(
+        buildConfig({
+          registryType: 'oci',
+          registryUrl: 'https://registry.example.com/'
+        }),
+        octokitClient
+      )
+
+      expect(repo.backend).toBeInstanceOf(OciDistributionBackend)
+    })
+  })
 })
 
 describe('parseLastPageFromLinkHeader', () => {
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { Config, LogLevel } from '../config'
+import { CleanupReport } from '../cleanup-report'
+import { GhPackage } from '../utils'
+import { latestDeletions, selectRestoreVersions } from '../package-restore'
+
+const version = (
+  id: number,
+  digest: string,
+  deletedAt: string,
+  tags: string[] = []
+): GhPackage => ({
+  id,
+  name: digest,
+  updated_at: '2024-01-01T00:00:00Z',
+  deleted_at: deletedAt,
+  metadata: { container: { tags } }
+})
+
+describe('package restore', () => {
+  // sha256:a was pushed and deleted twice, latest moved from b to c
+  const deleted = [
+    version(1, 'sha256:a', '2024-03-01T00:00:00Z', ['v1']),
+    version(2, 'sha256:a', '2024-03-05T00:00:00Z', ['v1']),
+    version(3, 'sha256:b', '2024-03-02T00:00:00Z', ['latest']),
+    version(4, 'sha256:c', '2024-03-09T00:00:00Z', ['latest'])
+  ]
+
+  const select = (overrides: Partial<Config>): number[] =>
+    selectRestoreVersions(
+      { logLevel: LogLevel.INFO, ...overrides } as Config,
+      'app',
+      deleted,
+      Date.parse('2024-03-10T00:00:00Z')
+    ).map(candidate => candidate.version.id)
+
+  it('keeps the most recent deletion of each digest', () => {
+    expect(
+      [...latestDeletions(deleted).values()].map(entry => entry.id)
+    ).toEqual([2, 3, 4])
+  })
+
+  it('selects the versions a report deleted by id', () => {
+    const restoreReport = {
+      packages: [
+        { package: 'app', deleted: [{ digest: 'sha256:a', id: 1, tags: [] }] },
+        { package: 'other', deleted: [{ digest: 'sha256:b', id: 3, tags: [] }] }
+      ]
+    } as unknown as CleanupReport
+
+    expect(select({ restoreReport })).toEqual([1])
+  })
+
+  it('selects digests and tags by their latest deletion', () => {
+    expect(select({ restoreDigests: ['sha256:a', 'sha256:gone'] })).toEqual([2])
+    expect(select({ restoreTags: ['latest'] })).toEqual([4])
+  })
+
+  it('selects everything deleted within the window', () => {
+    expect(
+      select({
+        restoreDeletedWithin: 7 * 24 * 60 * 60 * 1000,
+        restoreDeletedWithinReadable: '7 days'
+      })
+    ).toEqual([2, 4])
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createPlatformFilter,
+  matchesPlatform,
+  parsePlatforms
+} from '../platform-filter'
+import { ManifestEntry } from '../utils'
+
+describe('parsePlatforms', () => {
+  it('parses a comma-separated list of platforms', () => {
+    expect(
+      parsePlatforms('prune-platforms', 'linux/arm/v7, Linux/386,')
+    ).toEqual(['linux/arm/v7', 'linux/386'])
+  })
+
+  it('rejects values that are not platforms', () => {
+    expect(() => parsePlatforms('keep-platforms', 'amd64')).toThrow(
+      'keep-platforms: "amd64" is not a platform, expected os/architecture[/variant]'
+    )
+    expect(() => parsePlatforms('keep-platforms', ' , ')).toThrow(
+      'keep-platforms lists no platforms'
+    )
+  })
+})
+
+describe('matchesPlatform', () => {
+  it('matches every variant when none is listed', () => {
+    const armV7 = { os: 'linux', architecture: 'arm', variant: 'v7' }
+    expect(matchesPlatform(armV7, 'linux/arm')).toBe(true)
+    expect(matchesPlatform(armV7, 'linux/arm/v7')).toBe(true)
+    expect(matchesPlatform(armV7, 'linux/arm/v6')).toBe(false)
+    expect(matchesPlatform(armV7, 'linux/arm64')).toBe(false)
+    expect(matchesPlatform(undefined, 'linux/arm')).toBe(false)
+  })
+})
+
+describe('createPlatformFilter', () => {
+  const entries: ManifestEntry[] = [
+    { digest: 'amd64', platform: { os: 'linux', architecture: 'amd64' } },
+    {
+      digest: 'armv7',
+      platform: { os: 'linux', architecture: 'arm', variant: 'v7' }
+    },
+    {
+      digest: 'att-amd64',
+      platform: { os: 'unknown', architecture: 'unknown' },
+      annotations: {
+        'vnd.docker.reference.type': 'attestation-manifest',
+        'vnd.docker.reference.digest': 'amd64'
+      }
+    },
+    {
+      digest: 'att-armv7',
+      platform: { os: 'unknown', architecture: 'unknown' },
+      annotations: {
+        'vnd.docker.reference.type': 'attestation-manifest',
+        'vnd.docker.reference.digest': 'armv7'
+      }
+    }
+  ]
+  const dropped = (
+    dropEntry: (entry: ManifestEntry, entries: ManifestEntry[]) => boolean
+  ): string[] =>
+    entries
+      .filter(entry => dropEntry(entry, entries))
+      .map(entry => entry.digest)
+
+  it('drops the denied platforms with their attestations', () => {
+    expect(dropped(createPlatformFilter(['linux/arm/v7'], undefined))).toEqual([
+      'armv7',
+      'att-armv7'
+    ])
+  })
+
+  it('drops the platforms the allowlist leaves out', () => {
+    expect(dropped(createPlatformFilter(undefined, ['linux/amd64']))).toEqual([
+      'armv7',
+      'att-armv7'
+    ])
+  })
+
+  it('keeps attestations that do not name their image', () => {
+    const dropEntry = createPlatformFilter(['linux/arm'], undefined)
+    expect(
+      dropEntry(
+        {
+          digest: 'att',
+          platform: { os: 'unknown', architecture: 'unknown' }
+        },
+        entries
+      )
+    ).toBe(false)
+  })
+})
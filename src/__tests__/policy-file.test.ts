@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { parsePolicyFile } from '../policy-file'
+
+const parse = (...lines: string[]): ReturnType<typeof parsePolicyFile> =>
+  parsePolicyFile('policy.yml', lines.join('\n'))
+
+describe('parsePolicyFile', () => {
+  it('converts rule settings to their action input form', () => {
+    const rules = parse(
+      'rules:',
+      '  - packages: app-*',
+      '    keep-n-tagged: 3',
+      '    delete-untagged: false',
+      '    older-than: 30 days',
+      '    keep-n-tagged-groups:',
+      '      pr-*: 2',
+      '      v*: 10'
+    )
+
+    expect(rules).toHaveLength(1)
+    expect(rules[0].packages).toBe('app-*')
+    expect(rules[0].line).toBe(2)
+    expect(Object.fromEntries(rules[0].settings)).toEqual({
+      'keep-n-tagged': { value: '3', line: 3 },
+      'delete-untagged': { value: 'false', line: 4 },
+      'older-than': { value: '30 days', line: 5 },
+      'keep-n-tagged-groups': { value: 'pr-*=2\nv*=10', line: 7 }
+    })
+  })
+
+  it('accepts JSON', () => {
+    const rules = parsePolicyFile(
+      'policy.json',
+      '{"rules": [{"packages": "app", "keep-n-untagged": 1}]}'
+    )
+
+    expect(rules[0].settings.get('keep-n-untagged')?.value).toBe('1')
+  })
+
+  it('reports schema errors with line numbers', () => {
+    expect(() => parse('rule:', '  - packages: app')).toThrow(
+      'policy.yml:1: unknown top-level key "rule"'
+    )
+    expect(() => parse('rules: []')).toThrow(
+      'policy.yml:1: rules has no entries'
+    )
+    expect(() =>
+      parse('rules:', '  - packages: app', '    keep-n-taged: 3')
+    ).toThrow('policy.yml:3: unknown rule key "keep-n-taged"')
+    expect(() =>
+      parse('rules:', '  - packages: app', '    keep-n-tagged: -1')
+    ).toThrow('policy.yml:3: keep-n-tagged must be a non-negative integer')
+    expect(() =>
+      parse('rules:', '  - packages: app', '    delete-untagged: "yes"')
+    ).toThrow('policy.yml:3: delete-untagged must be true or false')
+    expect(() =>
+      parse('rules:', '  - packages: app', '  - keep-n-tagged: 3')
+    ).toThrow('policy.yml:3: rule is missing packages')
+    expect(() =>
+      parse(
+        'rules:',
+        '  - packages: app',
+        '    keep-n-tagged-groups:',
+        '      pr-*: many'
+      )
+    ).toThrow(
+      'policy.yml:4: keep-n-tagged-groups entries must map a pattern to a non-negative integer'
+    )
+  })
+
+  it('reports YAML syntax errors with line numbers', () => {
+    expect(() =>
+      parse('rules:', '  - packages: app', '    keep-n-tagged: [3')
+    ).toThrow(/^policy\.yml:3: /)
+  })
+})
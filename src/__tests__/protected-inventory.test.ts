@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { parseProtectedInventory } from '../protected-inventory'
+
+const DIGEST_A = `sha256:${'a'.repeat(64)}`
+const DIGEST_B = `sha256:${'b'.repeat(64)}`
+
+const parse = (
+  ...lines: string[]
+): ReturnType<typeof parseProtectedInventory> =>
+  parseProtectedInventory(lines.join('\n'), 'ghcr.io', 'acme')
+
+describe('parseProtectedInventory', () => {
+  it('reads a plain list of digests and image references', () => {
+    const inventory = parse(
+      DIGEST_A,
+      'ghcr.io/acme/app:v1.2.0',
+      `ghcr.io/acme/tools:latest@${DIGEST_B}`,
+      '# not an image'
+    )
+
+    expect(inventory.digests).toEqual(new Set([DIGEST_A, DIGEST_B]))
+    expect(inventory.tagsByPackage).toEqual(
+      new Map([
+        ['app', new Set(['v1.2.0'])],
+        ['tools', new Set(['latest'])]
+      ])
+    )
+  })
+
+  it('reads a JSON export', () => {
+    const inventory = parse(
+      JSON.stringify({
+        deployments: [
+          { image: 'ghcr.io/acme/app:v1', digest: DIGEST_A },
+          { image: 'ghcr.io/acme/app:v2' }
+        ]
+      })
+    )
+
+    expect(inventory.digests).toEqual(new Set([DIGEST_A]))
+    expect(inventory.tagsByPackage.get('app')).toEqual(new Set(['v1', 'v2']))
+  })
+
+  it('reads image references from Kubernetes manifests', () => {
+    const inventory = parse(
+      'spec:',
+      '  containers:',
+      '    - name: api',
+      '      image: "ghcr.io/acme/team/api:2024.1"',
+      '    - name: proxy',
+      `      image: ghcr.io/acme/proxy@${DIGEST_B}`
+    )
+
+    expect(inventory.digests).toEqual(new Set([DIGEST_B]))
+    // Nested package names keep their path, digest-only references pin no tag
+    expect(inventory.tagsByPackage).toEqual(
+      new Map([['team/api', new Set(['2024.1'])]])
+    )
+  })
+
+  it('pins latest for references without a tag', () => {
+    const inventory = parse(
+      'ghcr.io/acme/app',
+      '      image: ghcr.io/acme/team/api',
+      'ghcr.io/acme/'
+    )
+
+    expect(inventory.tagsByPackage).toEqual(
+      new Map([
+        ['app', new Set(['latest'])],
+        ['team/api', new Set(['latest'])]
+      ])
+    )
+  })
+
+  it('ignores images of other owners and registries', () => {
+    const inventory = parse(
+      'ghcr.io/someone-else/app:v1',
+      'docker.io/acme/app:v1',
+      'GHCR.IO/ACME/app:v1'
+    )
+
+    expect(inventory.tagsByPackage).toEqual(new Map([['app', new Set(['v1'])]]))
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import axiosRetry from 'axios-retry'
 import { Registry } from '../registry'
 import { Config, LogLevel } from '../config'
@@ -134,11 +134,36 @@ describe('Registry', () => {
       )
     })
 
+    it('answers a Basic challenge with the credentials, PUTs included', async () => {
+      config.registryUsername = 'cleanup'
+      const basic = `Basic ${Buffer.from('cleanup:test-token').toString('base64')}`
+      mockAxiosInstance.get.mockRejectedValueOnce(
+        fakeAxiosError({
+          status: 401,
+          headers: { 'www-authenticate': 'Basic realm="Registry Realm"' }
+        })
+      )
+
+      await registry.login('pkg')
+      mockAxiosInstance.put.mockResolvedValueOnce({ status: 201 })
+      await registry.putManifest('latest', { mediaType: 'x' }, false)
+
+      expect(mockAxiosInstance.defaults.headers.common['Authorization']).toBe(
+        basic
+      )
+      // No token service is involved
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1)
+      expect(mockAxiosInstance.put).toHaveBeenCalledTimes(1)
+      expect(mockAxiosInstance.put.mock.calls[0][0]).toBe(
+        '/v2/test-owner/pkg/manifests/latest'
+      )
+    })
+
     it('throws when the 401 response lacks a valid challenge', async () => {
       mockAxiosInstance.get.mockRejectedValueOnce(
         fakeAxiosError({
           status: 401,
-          headers: { 'www-authenticate': 'Basic realm="x"' }
+          headers: { 'www-authenticate': 'Negotiate' }
         })
       )
 
@@ -315,6 +340,225 @@ describe('Registry', () => {
     })
   })
 
+  describe('getLabels', () => {
+    const responses = new Map<string, unknown>()
+
+    beforeEach(async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: {} })
+      await registry.login('pkg')
+      mockAxiosInstance.get.mockClear()
+      responses.clear()
+      mockAxiosInstance.get.mockImplementation(async (url: string) => ({
+        data: JSON.stringify(responses.get(url.split('/').at(-1) ?? ''))
+      }))
+      packageRepo.getPackageByDigest = vi.fn((digest: string) =>
+        digest === 'sha256:missing' ? undefined : { name: digest }
+      )
+    })
+
+    afterEach(() => {
+      mockAxiosInstance.get.mockReset()
+    })
+
+    it('merges config blob labels with manifest annotations', async () => {
+      responses.set('sha256:image', {
+        config: { mediaType: 'cfg', digest: 'sha256:config', size: 1 },
+        annotations: { 'org.opencontainers.image.revision': 'from-annotation' }
+      })
+      responses.set('sha256:config', {
+        config: {
+          Labels: {
+            'com.example.keep': 'true',
+            'org.opencontainers.image.revision': 'from-label'
+          }
+        }
+      })
+
+      const labels = await registry.getLabels('sha256:image')
+
+      expect(labels).toEqual({
+        'com.example.keep': 'true',
+        'org.opencontainers.image.revision': 'from-annotation'
+      })
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/v2/test-owner/pkg/blobs/sha256:config',
+        expect.anything()
+      )
+    })
+
+    it('collects the labels of an index from its platform images', async () => {
+      responses.set('sha256:index', {
+        manifests: [
+          {
+            digest: 'sha256:amd64',
+            platform: { architecture: 'amd64', os: 'linux' }
+          },
+          {
+            digest: 'sha256:attestation',
+            platform: { architecture: 'unknown', os: 'unknown' }
+          },
+          {
+            digest: 'sha256:missing',
+            platform: { architecture: 'arm64', os: 'linux' }
+          }
+        ],
+        annotations: { 'com.example.index': 'yes' }
+      })
+      responses.set('sha256:amd64', {
+        config: { mediaType: 'cfg', digest: 'sha256:config', size: 1 }
+      })
+      responses.set('sha256:config', {
+        config: { Labels: { 'com.example.keep': 'true' } }
+      })
+
+      const labels = await registry.getLabels('sha256:index')
+
+      expect(labels).toEqual({
+        'com.example.keep': 'true',
+        'com.example.index': 'yes'
+      })
+      const urls = mockAxiosInstance.get.mock.calls.map(call => call[0])
+      expect(urls).not.toContain('/v2/test-owner/pkg/manifests/sha256:missing')
+      expect(urls).not.toContain(
+        '/v2/test-owner/pkg/manifests/sha256:attestation'
+      )
+    })
+
+    it('treats a config without labels as no labels', async () => {
+      responses.set('sha256:image', {
+        config: { mediaType: 'cfg', digest: 'sha256:config', size: 1 }
+      })
+      responses.set('sha256:config', { config: { Labels: null } })
+
+      expect(await registry.getLabels('sha256:image')).toEqual({})
+    })
+
+    it('reads config labels through the cross-run cache', async () => {
+      const distilledCache = {
+        get: vi.fn().mockReturnValue({ configDigest: 'sha256:config' }),
+        set: vi.fn(),
+        getLabels: vi.fn().mockReturnValue({ 'com.example.keep': 'true' }),
+        setLabels: vi.fn()
+      }
+      const cachedRegistry = new Registry(
+        config,
+        packageRepo,
+        distilledCache as any
+      )
+
+      const labels = await cachedRegistry.getLabels('sha256:image')
+
+      expect(labels).toEqual({ 'com.example.keep': 'true' })
+      expect(distilledCache.getLabels).toHaveBeenCalledWith('sha256:config')
+      expect(mockAxiosInstance.get).not.toHaveBeenCalled()
+    })
+
+    it('populates the cross-run cache after a blob fetch', async () => {
+      const distilledCache = {
+        get: vi.fn().mockReturnValue({ configDigest: 'sha256:config' }),
+        set: vi.fn(),
+        getLabels: vi.fn().mockReturnValue(undefined),
+        setLabels: vi.fn()
+      }
+      const cachedRegistry = new Registry(
+        config,
+        packageRepo,
+        distilledCache as any
+      )
+      responses.set('sha256:config', {
+        config: { Labels: { 'com.example.keep': 'true' } }
+      })
+
+      await cachedRegistry.getLabels('sha256:image')
+
+      expect(distilledCache.setLabels).toHaveBeenCalledWith('sha256:config', {
+        'com.example.keep': 'true'
+      })
+    })
+  })
+
+  describe('referrers', () => {
+    beforeEach(async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: {} })
+      await registry.login('pkg')
+      mockAxiosInstance.get.mockClear()
+    })
+
+    it('supports the Referrers API when the probe answers with an image index', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: { manifests: [] },
+        headers: {
+          'content-type': 'application/vnd.oci.image.index.v1+json'
+        }
+      })
+
+      expect(await registry.supportsReferrers()).toBe(true)
+      expect(await registry.supportsReferrers()).toBe(true)
+      // Probed once per login
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1)
+      expect(mockAxiosInstance.get.mock.calls[0][0]).toMatch(
+        /^\/v2\/test-owner\/pkg\/referrers\/sha256:e3b0c442/
+      )
+    })
+
+    it('does not support it when the probe fails or answers with anything else', async () => {
+      mockAxiosInstance.get.mockRejectedValueOnce(
+        fakeAxiosError({ status: 404 })
+      )
+      expect(await registry.supportsReferrers()).toBe(false)
+
+      mockAxiosInstance.get.mockResolvedValueOnce({ data: {} })
+      await registry.login('other')
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: '<html></html>',
+        headers: { 'content-type': 'text/html' }
+      })
+      expect(await registry.supportsReferrers()).toBe(false)
+    })
+
+    it('rethrows errors without a response', async () => {
+      mockAxiosInstance.get.mockRejectedValueOnce(new Error('socket hang up'))
+
+      await expect(registry.supportsReferrers()).rejects.toThrow(
+        'socket hang up'
+      )
+    })
+
+    it('follows the Link header through every page of referrers', async () => {
+      mockAxiosInstance.get
+        .mockResolvedValueOnce({
+          data: { manifests: [{ digest: 'sha256:r1' }] },
+          headers: {
+            link: '</v2/test-owner/pkg/referrers/sha256:s?last=r1>; rel="next"'
+          }
+        })
+        .mockResolvedValueOnce({
+          data: { manifests: [{ digest: 'sha256:r2' }] },
+          headers: {}
+        })
+
+      const referrers = await registry.getReferrers('sha256:s')
+
+      expect(referrers.map(r => r.digest)).toEqual(['sha256:r1', 'sha256:r2'])
+      expect(mockAxiosInstance.get.mock.calls[1][0]).toBe(
+        '/v2/test-owner/pkg/referrers/sha256:s?last=r1'
+      )
+    })
+
+    it('caches the referrers of each digest until the next login', async () => {
+      mockAxiosInstance.get.mockResolvedValueOnce({
+        data: { manifests: [{ digest: 'sha256:r1', artifactType: 'a' }] },
+        headers: {}
+      })
+
+      await registry.getReferrers('sha256:s')
+      const referrers = await registry.getReferrers('sha256:s')
+
+      expect(referrers).toEqual([{ digest: 'sha256:r1', artifactType: 'a' }])
+      expect(mockAxiosInstance.get).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('getManifestByTag', () => {
     beforeEach(async () => {
       mockAxiosInstance.get.mockResolvedValueOnce({ data: {} })
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  PackageGraph,
+  buildPackageGraph,
+  renderDot,
+  renderMermaid,
+  renderPlanMermaid,
+  writeGraph
+} from '../relationship-graph'
+import { CleanupContext } from '../cleanup-types'
+
+describe('buildPackageGraph', () => {
+  // An index with one platform image and a cosign signature, a ghost
+  // index, an attestation whose subject is gone and an untagged image
+  const versions: Record<string, { tags: string[]; manifest: object }> = {
+    'sha256:index': {
+      tags: ['v1'],
+      manifest: { manifests: [{ digest: 'sha256:amd64' }] }
+    },
+    'sha256:amd64': { tags: [], manifest: {} },
+    'sha256:sig': { tags: ['sha256-index.sig'], manifest: {} },
+    'sha256:ghost': {
+      tags: ['v0'],
+      manifest: { manifests: [{ digest: 'sha256:gone' }] }
+    },
+    'sha256:att': { tags: [], manifest: { subject: { digest: 'sha256:x' } } },
+    'sha256:old': { tags: [], manifest: {} }
+  }
+
+  const context = {
+    targetPackage: 'app',
+    packageRepo: {
+      getDigests: () => new Set(Object.keys(versions)),
+      getPackageByDigest: (digest: string) => ({
+        name: digest,
+        metadata: { container: { tags: versions[digest].tags } }
+      }),
+      getIdByDigest: (digest: string) => (versions[digest] ? 1 : undefined),
+      getReferrerTagsForDigest: (digest: string) =>
+        digest === 'sha256:index' ? ['sha256-index.sig'] : [],
+      getDigestByTag: (tag: string) =>
+        tag === 'sha256-index.sig' ? 'sha256:sig' : undefined
+    },
+    registry: {
+      getManifestByDigest: async (digest: string) => versions[digest].manifest
+    }
+  } as unknown as CleanupContext
+
+  let graph: PackageGraph
+
+  beforeEach(async () => {
+    graph = await buildPackageGraph(
+      context,
+      new Map([['sha256:amd64', new Set(['sha256:index'])]]),
+      new Map([['sha256:x', new Set(['sha256:att'])]]),
+      new Map([['sha256:old', []]])
+    )
+  })
+
+  it('colours each version by its state', () => {
+    expect(
+      Object.fromEntries(graph.nodes.map(node => [node.digest, node.state]))
+    ).toEqual({
+      'sha256:index': 'tagged',
+      'sha256:amd64': 'untagged',
+      'sha256:sig': 'tagged',
+      'sha256:ghost': 'ghost',
+      'sha256:att': 'orphan',
+      'sha256:old': 'planned'
+    })
+  })
+
+  it('links platform images and referrers', () => {
+    expect(graph.edges).toEqual([
+      { from: 'sha256:index', to: 'sha256:amd64', kind: 'platform' },
+      { from: 'sha256:index', to: 'sha256:sig', kind: 'tag' }
+    ])
+  })
+})
+
+describe('graph rendering', () => {
+  const graph: PackageGraph = {
+    package: 'app',
+    nodes: [
+      { digest: 'sha256:aaaaaaaaaaaaaaaa', tags: ['v1'], state: 'planned' },
+      { digest: 'sha256:bbbbbbbbbbbbbbbb', tags: [], state: 'planned' }
+    ],
+    edges: [
+      {
+        from: 'sha256:aaaaaaaaaaaaaaaa',
+        to: 'sha256:bbbbbbbbbbbbbbbb',
+        kind: 'platform'
+      }
+    ],
+    plan: new Map([['sha256:aaaaaaaaaaaaaaaa', ['sha256:bbbbbbbbbbbbbbbb']]])
+  }
+
+  it('renders DOT with one cluster per package', () => {
+    const dot = renderDot([graph])
+
+    expect(dot).toContain('subgraph cluster_0 {')
+    expect(dot).toContain(
+      '"0:sha256:aaaaaaaaaaaaaaaa" [label="aaaaaaaaaaaa v1", fillcolor="#f4a6a6"]'
+    )
+    expect(dot).toContain(
+      '"0:sha256:aaaaaaaaaaaaaaaa" -> "0:sha256:bbbbbbbbbbbbbbbb" [label="platform"]'
+    )
+  })
+
+  it('renders Mermaid with one subgraph per package', () => {
+    const mermaid = renderMermaid([graph])
+
+    expect(mermaid).toContain('subgraph p0["app"]')
+    expect(mermaid).toContain('p0n0["aaaaaaaaaaaa v1"]:::planned')
+    expect(mermaid).toContain('p0n0 -->|platform| p0n1')
+  })
+
+  it('collapses the deletion plan to the staged images', () => {
+    expect(renderPlanMermaid(graph)).toContain(
+      'n0 --> c0["1 cascaded versions"]:::planned'
+    )
+    expect(renderPlanMermaid({ ...graph, plan: new Map() })).toBeNull()
+  })
+
+  describe('graph file', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'relationship-graph-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('writes DOT or Mermaid by extension', async () => {
+      const dotFile = path.join(dir, 'graph.dot')
+      const mermaidFile = path.join(dir, 'graph.mmd')
+
+      await writeGraph([dotFile, mermaidFile], [graph])
+
+      expect(fs.readFileSync(dotFile, 'utf8')).toBe(renderDot([graph]))
+      expect(fs.readFileSync(mermaidFile, 'utf8')).toBe(renderMermaid([graph]))
+    })
+
+    it('reports a file that cannot be written', async () => {
+      const file = path.join(dir, 'missing', 'graph.dot')
+
+      await expect(writeGraph([file], [graph])).rejects.toThrow(
+        `graph-file ${file} could not be written`
+      )
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { StorageUsage, formatBytes } from '../storage-usage'
+
+const blobs = (...entries: Array<[string, number]>): Map<string, number> =>
+  new Map(entries)
+
+describe('StorageUsage', () => {
+  it('counts a blob shared between images once', () => {
+    const usage = new StorageUsage(
+      new Map([
+        ['img1', blobs(['config1', 10], ['base', 1000])],
+        ['img2', blobs(['config2', 20], ['base', 1000])]
+      ])
+    )
+
+    expect(usage.bytes).toBe(1030)
+  })
+
+  it('frees a shared blob only with the last image using it', () => {
+    const usage = new StorageUsage(
+      new Map([
+        ['img1', blobs(['config1', 10], ['base', 1000])],
+        ['img2', blobs(['config2', 20], ['base', 1000])]
+      ])
+    )
+
+    expect(usage.release(['img1'])).toBe(10)
+    expect(usage.release(['img2'])).toBe(1020)
+    expect(usage.bytes).toBe(0)
+    // Releasing twice frees nothing more
+    expect(usage.release(['img1'])).toBe(0)
+  })
+
+  it('releases the platform images an index no longer shares', () => {
+    const usage = new StorageUsage(
+      new Map([
+        ['amd64', blobs(['layer-amd64', 300])],
+        ['arm64', blobs(['layer-arm64', 200])]
+      ]),
+      new Map([
+        ['amd64', new Set(['index1'])],
+        ['arm64', new Set(['index1', 'index2'])]
+      ])
+    )
+
+    // arm64 is still used by index2
+    expect(usage.releaseImage('index1')).toBe(300)
+    expect(usage.releaseImage('index2')).toBe(200)
+  })
+
+  it('releases the referrers deleted along with an image', () => {
+    const usage = new StorageUsage(
+      new Map([
+        ['img1', blobs(['layer1', 100])],
+        ['sig1', blobs(['sig-layer1', 10])],
+        ['sbom1', blobs(['sbom-layer1', 40])]
+      ]),
+      new Map(),
+      digest => (digest === 'img1' ? ['sig1', 'sbom1'] : [])
+    )
+
+    expect(usage.releaseImage('img1')).toBe(150)
+    expect(usage.bytes).toBe(0)
+  })
+
+  it('releases the referrers of the platform images it releases', () => {
+    const usage = new StorageUsage(
+      new Map([
+        ['amd64', blobs(['layer-amd64', 300])],
+        ['sig-amd64', blobs(['sig-layer-amd64', 10])],
+        ['arm64', blobs(['layer-arm64', 200])],
+        ['sig-arm64', blobs(['sig-layer-arm64', 20])]
+      ]),
+      new Map([
+        ['amd64', new Set(['index1'])],
+        ['arm64', new Set(['index1', 'index2'])]
+      ]),
+      digest => [`sig-${digest}`]
+    )
+
+    // arm64 and its signature stay with index2
+    expect(usage.releaseImage('index1')).toBe(310)
+    expect(usage.releaseImage('index2')).toBe(220)
+  })
+})
+
+describe('formatBytes', () => {
+  it('formats in decimal units', () => {
+    expect(formatBytes(512)).toBe('512 B')
+    expect(formatBytes(1500)).toBe('1.5 KB')
+    expect(formatBytes(20e9)).toBe('20.0 GB')
+    expect(formatBytes(3.2e15)).toBe('3200.0 TB')
+  })
+})
@@ -8,11 +8,15 @@ import {
 } from 'vitest'
 import * as core from '@actions/core'
 import {
+  branchTag,
   parseChallenge,
+  parseNextLink,
   isValidChallenge,
   MapPrinter,
   CleanupTaskStatistics,
+  formatArtifactClassCounts,
   parentDigestFromReferrerTag,
+  parseSemverTag,
   SHA256_DIGEST_LENGTH,
   validateUserRegex,
   MAX_USER_REGEX_LENGTH,
@@ -129,6 +133,43 @@ describe('utils', () => {
     })
   })
 
+  describe('parseSemverTag', () => {
+    it('parses release tags with and without a v prefix', () => {
+      expect(parseSemverTag('v1.2.3')).toEqual({
+        tag: 'v1.2.3',
+        major: 1,
+        minor: 2,
+        patch: 3
+      })
+      expect(parseSemverTag('10.0.12')).toEqual({
+        tag: '10.0.12',
+        major: 10,
+        minor: 0,
+        patch: 12
+      })
+    })
+
+    it('returns null for pre-release, partial and non-version tags', () => {
+      expect(parseSemverTag('v1.2.3-rc.1')).toBeNull()
+      expect(parseSemverTag('v1.2.3+build.5')).toBeNull()
+      expect(parseSemverTag('v1.2')).toBeNull()
+      expect(parseSemverTag('v01.2.3')).toBeNull()
+      expect(parseSemverTag('latest')).toBeNull()
+    })
+  })
+
+  describe('branchTag', () => {
+    it('renders the template with the sanitized branch name', () => {
+      expect(branchTag('branch-{branch}', 'main')).toBe('branch-main')
+      expect(branchTag('branch-{branch}', 'feature/login')).toBe(
+        'branch-feature-login'
+      )
+      expect(branchTag('{branch}-build', 'fix/#12 typo')).toBe(
+        'fix-12-typo-build'
+      )
+    })
+  })
+
   describe('isValidChallenge', () => {
     it('should return true for valid challenge with all required attributes', () => {
       const attributes = new Map<string, string>([
@@ -272,6 +313,25 @@ describe('utils', () => {
       expect(result.numberImagesDeleted).toBe(17)
     })
 
+    it('should add the deletions of each artifact class', () => {
+      const stats1 = new CleanupTaskStatistics('combined', 0, 3)
+      stats1.deletedByArtifactClass = { image: 2, sbom: 1 }
+      const stats2 = new CleanupTaskStatistics('package2', 0, 2)
+      stats2.deletedByArtifactClass = { image: 1, helm: 1 }
+
+      const result = stats1.add(stats2)
+
+      expect(result.deletedByArtifactClass).toEqual({
+        image: 3,
+        sbom: 1,
+        helm: 1
+      })
+      expect(stats1.deletedByArtifactClass).toEqual({ image: 2, sbom: 1 })
+      expect(formatArtifactClassCounts(result.deletedByArtifactClass)).toBe(
+        'image 3, helm 1, sbom 1'
+      )
+    })
+
     it('should handle adding with zero values', () => {
       const stats1 = new CleanupTaskStatistics('test', 5, 10)
       const stats2 = new CleanupTaskStatistics('test2', 0, 0)
@@ -442,4 +502,17 @@ describe('utils', () => {
       expect(seen.sort((a, b) => a - b)).toEqual([1, 2])
     })
   })
+
+  describe('parseNextLink', () => {
+    it('returns the next page target', () => {
+      expect(
+        parseNextLink('</v2/team/app/tags/list?last=b&n=2>; rel="next"')
+      ).toBe('/v2/team/app/tags/list?last=b&n=2')
+    })
+
+    it('returns null on the last page', () => {
+      expect(parseNextLink(undefined)).toBeNull()
+      expect(parseNextLink('</v2/_catalog?n=2>; rel="prev"')).toBeNull()
+    })
+  })
 })
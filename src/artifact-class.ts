@@ -0,0 +1,128 @@
+import type { Manifest, ManifestEntry } from './utils.js'
+
+// Config blobs of runnable images
+export const IMAGE_CONFIG_MEDIA_TYPES = new Set([
+  'application/vnd.oci.image.config.v1+json',
+  'application/vnd.docker.container.image.v1+json'
+])
+
+/**
+ * What a package version holds, as `include-artifacts` /
+ * `exclude-artifacts` name it: a container image (or multi-arch index),
+ * a Helm chart, a cosign or notation signature, an in-toto attestation
+ * (buildx provenance, sigstore bundles), an SPDX or CycloneDX SBOM, a wasm
+ * module, or any other ORAS artifact.
+ */
+export const ARTIFACT_CLASSES = [
+  'image',
+  'helm',
+  'signature',
+  'attestation',
+  'sbom',
+  'wasm',
+  'oras'
+] as const
+
+export type ArtifactClass = (typeof ARTIFACT_CLASSES)[number]
+
+// Media type prefixes of each class but image and oras, checked in order
+const CLASS_MEDIA_TYPES: Array<[ArtifactClass, string[]]> = [
+  [
+    'signature',
+    [
+      'application/vnd.dev.cosign.simplesigning',
+      'application/vnd.dev.cosign.artifact.sig',
+      'application/vnd.cncf.notary.signature'
+    ]
+  ],
+  [
+    'attestation',
+    [
+      'application/vnd.in-toto',
+      'application/vnd.dsse.envelope',
+      'application/vnd.dev.sigstore.bundle',
+      'application/vnd.dev.cosign.attestation'
+    ]
+  ],
+  ['sbom', ['application/spdx', 'text/spdx', 'application/vnd.cyclonedx']],
+  ['helm', ['application/vnd.cncf.helm.']],
+  ['wasm', ['application/vnd.wasm.', 'application/wasm']]
+]
+
+/**
+ * Classify a manifest by its artifactType, else its config media type,
+ * else the media type of its first layer, the only one the manifest cache
+ * keeps. Buildx attestations and cosign signatures are image manifests
+ * with an image config, so the layer is what tells them apart. A manifest
+ * none of them places is an image when it is an index or has an image
+ * config (or none at all), else a generic ORAS artifact.
+ */
+export function classifyManifest(manifest: Manifest): ArtifactClass {
+  const mediaTypes = [
+    manifest.artifactType,
+    manifest.config?.mediaType,
+    manifest.layers?.[0]?.mediaType
+  ]
+  for (const mediaType of mediaTypes) {
+    if (!mediaType) continue
+    for (const [artifactClass, prefixes] of CLASS_MEDIA_TYPES) {
+      if (prefixes.some(prefix => mediaType.startsWith(prefix))) {
+        return artifactClass
+      }
+    }
+  }
+  if (manifest.artifactType) {
+    return 'oras'
+  }
+  if (
+    manifest.manifests ||
+    !manifest.config?.mediaType ||
+    IMAGE_CONFIG_MEDIA_TYPES.has(manifest.config.mediaType)
+  ) {
+    return 'image'
+  }
+  return 'oras'
+}
+
+/**
+ * Whether an entry of a multi-arch index is an attestation rather than a
+ * platform image: buildx annotates its provenance and SBOM manifests with
+ * `vnd.docker.reference.type`, and lists them under the `unknown/unknown`
+ * platform, which is all the manifest cache keeps of the entry.
+ */
+export function isAttestationEntry(entry: ManifestEntry): boolean {
+  return (
+    entry.annotations?.['vnd.docker.reference.type'] ===
+      'attestation-manifest' ||
+    (entry.platform?.os === 'unknown' &&
+      entry.platform.architecture === 'unknown')
+  )
+}
+
+/**
+ * Parse an `include-artifacts` / `exclude-artifacts` input: a
+ * comma-separated list of artifact classes.
+ */
+export function parseArtifactClasses(
+  name: string,
+  value: string
+): ArtifactClass[] {
+  const classes: ArtifactClass[] = []
+  for (const item of value.split(',')) {
+    const artifactClass = item.trim().toLowerCase()
+    if (!artifactClass) continue
+    const known = ARTIFACT_CLASSES.find(
+      candidate => candidate === artifactClass
+    )
+    if (!known) {
+      throw new Error(
+        `${name}: unknown artifact class "${artifactClass}", expected one of ${ARTIFACT_CLASSES.join(', ')}`
+      )
+    }
+    classes.push(known)
+  }
+  if (classes.length === 0) {
+    throw new Error(`${name} lists no artifact classes`)
+  }
+  return classes
+}
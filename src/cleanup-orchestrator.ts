@@ -1,16 +1,42 @@
 import * as core from '@actions/core'
-import { Config } from './config.js'
+import { Config, LogLevel } from './config.js'
 import { Registry } from './registry.js'
 import { PackageRepo } from './package-repo.js'
 import { OctokitClient } from './octokit-client.js'
-import { CleanupTaskStatistics } from './utils.js'
+import {
+  CleanupTaskStatistics,
+  GhPackage,
+  logListing,
+  ManifestEntry,
+  parentDigestFromReferrerTag
+} from './utils.js'
 import { ImageFilter } from './image-filter.js'
 import { ManifestAnalyzer } from './manifest-analyzer.js'
 import { ImageValidator } from './image-validator.js'
 import { DeletionStrategy } from './deletion-strategy.js'
 import { ImageDeleter } from './image-deleter.js'
-import { CleanupContext } from './cleanup-types.js'
+import { CleanupContext, DeletionResult } from './cleanup-types.js'
 import { ManifestCache } from './manifest-cache.js'
+import { type ArtifactClass, isAttestationEntry } from './artifact-class.js'
+import { createPlatformFilter } from './platform-filter.js'
+import { DeletionJournal, JournalTree } from './deletion-journal.js'
+import { StorageUsage } from './storage-usage.js'
+import { DecisionTrace, DigestTrace } from './decision-trace.js'
+import { InventoryEntry, buildInventory } from './package-inventory.js'
+import { PackageGraph, buildPackageGraph } from './relationship-graph.js'
+import {
+  RestoreCandidate,
+  RestoredVersion,
+  deletedAt,
+  latestDeletions,
+  selectRestoreVersions
+} from './package-restore.js'
+import {
+  PackagePlan,
+  PlannedDeletion,
+  plannedVersion,
+  versionDrift
+} from './cleanup-plan.js'
 
 /**
  * Orchestrates the cleanup process using modular components
@@ -34,10 +60,33 @@ export class CleanupOrchestrator {
   // State
   private filterSet = new Set<string>()
   private deleteSet = new Set<string>()
+  // The rule that staged each deleteSet entry, for the retention floor log
+  private deleteSources = new Map<string, string>()
+  // Every top-level image of the package, before any filtering
+  private images = new Set<string>()
+  // Untag operations `mode: plan` records instead of performing
+  private untagPlan = new Map<string, string[]>()
+  // Versions untagged this run, or planned to be, which the max-deletions
+  // circuit breaker counts along with the deletions
+  private untagged = new Map<string, string[]>()
+  // Set once the circuit breaker skipped this package's deletions
+  private deletionsStopped = false
+  private packagePlan: PackagePlan | null = null
+  // The decision trace as it stood when the verdicts were set, before
+  // deletion dropped the versions
+  private traceSnapshot: Record<string, DigestTrace> | null = null
+  private graph: PackageGraph | null = null
   private excludeTags: string[] = []
+  private closedPrTags = new Set<string>()
+  private staleBranchTags = new Set<string>()
+  private releaseTags: string[] = []
+  private pinnedDigests = new Set<string>()
+  private blobSizes = new Map<string, Map<string, number>>()
   private digestUsedBy = new Map<string, Set<string>>()
   private subjectReferrers = new Map<string, Set<string>>()
+  private artifactClasses = new Map<string, ArtifactClass>()
   private statistics: CleanupTaskStatistics
+  private journal: DeletionJournal | null
 
   constructor(
     config: Config,
@@ -52,13 +101,17 @@ export class CleanupOrchestrator {
     this.packageRepo = new PackageRepo(config, octokitClient)
     this.registry = new Registry(config, this.packageRepo, manifestCache)
     this.statistics = new CleanupTaskStatistics(targetPackage, 0, 0)
+    this.journal = config.deletionJournal
+      ? new DeletionJournal(config.owner, targetPackage, config.deletionJournal)
+      : null
 
     // Create context for modules
     this.context = {
       config,
       registry: this.registry,
       packageRepo: this.packageRepo,
-      targetPackage
+      targetPackage,
+      trace: config.explainFile ? new DecisionTrace() : undefined
     }
 
     // Initialize modules
@@ -74,7 +127,67 @@ export class CleanupOrchestrator {
 
   async reload(): Promise<void> {
     this.deleteSet.clear()
+    this.deleteSources.clear()
+    this.untagPlan.clear()
 
+    await this.load()
+
+    // Protect the images of GitHub Releases the same way
+    this.releaseTags = await this.imageFilter.applyReleaseFilter(
+      this.filterSet,
+      this.excludeTags,
+      async () =>
+        this.octokitClient.listReleases(
+          this.config.owner,
+          this.config.repository
+        )
+    )
+
+    // Protect images by their labels and annotations
+    await this.imageFilter.applyLabelExclusionFilter(
+      this.filterSet,
+      this.excludeTags
+    )
+
+    // Protect the artifact classes left out of the cleanup
+    this.imageFilter.applyArtifactFilter(
+      this.filterSet,
+      this.excludeTags,
+      this.artifactClasses
+    )
+
+    // Apply age filter
+    this.imageFilter.applyAgeFilter(this.filterSet)
+
+    // Resolve pull request tags - open pull requests are protected like
+    // exclude-tags, the tags of closed ones are queued for deletion
+    this.closedPrTags = await this.imageFilter.applyPullRequestFilter(
+      this.filterSet,
+      this.excludeTags,
+      async pullNumber =>
+        this.octokitClient.getPullRequestState(
+          this.config.owner,
+          this.config.repository,
+          pullNumber
+        )
+    )
+
+    // Find the tags of branches that no longer exist
+    this.staleBranchTags = await this.imageFilter.findStaleBranchTags(
+      this.filterSet,
+      async () =>
+        this.octokitClient.listBranches(
+          this.config.owner,
+          this.config.repository
+        )
+    )
+  }
+
+  /**
+   * Load the package versions and their relationships, and the pins that
+   * hold for any deletion. Shared by reload() and apply().
+   */
+  private async load(): Promise<ImageDeleter> {
     // Prime the list of current packages. The afterLoad callback runs
     // inside the "[Loaded package data]" log group, so the manifest-
     // cache prune's diagnostic line lands inside that group rather than
@@ -93,62 +206,117 @@ export class CleanupOrchestrator {
     const analysis = await this.manifestAnalyzer.loadDigestUsedByMap()
     this.digestUsedBy = analysis.digestUsedBy
     this.subjectReferrers = analysis.subjectReferrers
-
-    // Initialize imageDeleter with both relationship maps
-    this.imageDeleter = new ImageDeleter(
-      this.context,
-      this.digestUsedBy,
-      this.subjectReferrers
-    )
+    this.blobSizes = analysis.blobSizes
+    this.artifactClasses = analysis.artifactClasses
 
     // Initialize filterSet - remove manifest image children, referrers etc
     this.filterSet = await this.manifestAnalyzer.initFilterSet(
       this.subjectReferrers
     )
 
+    this.images = new Set(this.filterSet)
+
     // Apply exclusion filters
     this.excludeTags = this.imageFilter.applyExclusionFilters(this.filterSet)
 
-    // Apply age filter
-    this.imageFilter.applyAgeFilter(this.filterSet)
+    // Pin the images listed in the protected digests inventory
+    this.pinnedDigests = this.imageFilter.applyInventoryFilter(
+      this.filterSet,
+      this.excludeTags,
+      this.digestUsedBy
+    )
+    this.imageFilter.applyReferrerTypeFilter(
+      this.subjectReferrers,
+      analysis.referrerTypes,
+      this.pinnedDigests
+    )
+
+    // Initialize imageDeleter with both relationship maps and the pins,
+    // which it honours all the way down the cascade
+    this.imageDeleter = new ImageDeleter(
+      this.context,
+      this.digestUsedBy,
+      this.subjectReferrers,
+      this.pinnedDigests
+    )
+    return this.imageDeleter
   }
 
   async run(): Promise<CleanupTaskStatistics> {
     // Process tag deletions first - to support untagging
-    if (this.config.deleteTags) {
+    if (
+      this.config.deleteTags ||
+      this.closedPrTags.size > 0 ||
+      this.staleBranchTags.size > 0
+    ) {
       const plan = await this.deletionStrategy.processTagDeletions(
         this.filterSet,
-        this.excludeTags
+        this.excludeTags,
+        this.closedPrTags,
+        this.staleBranchTags
       )
 
       // When keep-n-tagged is set, gate the untag operations: any image that
       // keep-n-tagged would protect must not be partially untagged here.
       // Otherwise multi-tagged images in the keep set get a matched tag
-      // stripped before keep-n-tagged runs, defeating its protection.
-      if (this.config.keepNtagged != null && plan.untagOperations.size > 0) {
+      // stripped before keep-n-tagged runs, defeating its protection. With
+      // keep-n-tagged-groups the keep set is the union of every group's.
+      if (this.hasKeepNTagged() && plan.untagOperations.size > 0) {
         const keepSet = this.deletionStrategy.computeKeepNTaggedDigests(
           this.filterSet
         )
         for (const digest of keepSet) {
-          plan.untagOperations.delete(digest)
+          const tags = plan.untagOperations.get(digest)
+          if (tags) {
+            this.context.trace?.record(
+              digest,
+              `untag of ${tags} gated by keep-n-tagged`
+            )
+            plan.untagOperations.delete(digest)
+          }
         }
       }
+      for (const [digest, tags] of plan.untagOperations) {
+        this.context.trace?.record(
+          digest,
+          this.config.mode === 'plan'
+            ? `untag of ${tags} planned`
+            : `untagged ${tags}`
+        )
+      }
 
-      // Perform untagging if needed
+      // Perform untagging if needed. Untagging rewrites the registry, so a
+      // plan records it for apply instead
       let reloadOccurred = false
-      if (plan.untagOperations.size > 0) {
+      if (plan.untagOperations.size > 0 && this.config.mode === 'plan') {
+        this.untagPlan = plan.untagOperations
+        this.countUntagging(plan.untagOperations)
+      } else if (plan.untagOperations.size > 0) {
         if (!this.imageDeleter) {
           throw new Error(
             'CleanupOrchestrator.run() invariant: imageDeleter is not initialized — reload() must be called before run()'
           )
         }
-        const reloadNeeded = await this.imageDeleter.performUntagging(
-          plan.untagOperations
-        )
-        if (reloadNeeded) {
-          core.info('Reloading action due to untagging')
-          await this.reload()
-          reloadOccurred = true
+        // The circuit breaker goes first, as untagging can't be undone
+        if (
+          this.checkDeletionLimits(
+            this.imageDeleter,
+            plan.untagOperations,
+            new Set([...this.deleteSet, ...plan.deleteSet])
+          )
+        ) {
+          this.countUntagging(plan.untagOperations)
+          const reloadNeeded = await this.imageDeleter.performUntagging(
+            plan.untagOperations
+          )
+          this.statistics.untaggedTags.push(
+            ...this.imageDeleter.getUntaggedTags()
+          )
+          if (reloadNeeded) {
+            core.info('Reloading action due to untagging')
+            await this.reload()
+            reloadOccurred = true
+          }
         }
       }
 
@@ -156,7 +324,7 @@ export class CleanupOrchestrator {
       // If we reloaded, we need to re-process tag deletions
       if (!reloadOccurred) {
         for (const digest of plan.deleteSet) {
-          this.deleteSet.add(digest)
+          this.stage(digest, 'tag deletions')
         }
       } else {
         // After reload, re-process tag deletions to pick up images
@@ -176,10 +344,12 @@ export class CleanupOrchestrator {
         // equivalent and avoids a redundant gate computation.
         const newPlan = await this.deletionStrategy.processTagDeletions(
           this.filterSet,
-          this.excludeTags
+          this.excludeTags,
+          this.closedPrTags,
+          this.staleBranchTags
         )
         for (const digest of newPlan.deleteSet) {
-          this.deleteSet.add(digest)
+          this.stage(digest, 'tag deletions')
         }
       }
     }
@@ -190,7 +360,7 @@ export class CleanupOrchestrator {
         this.filterSet
       )
       for (const digest of partialImages) {
-        this.deleteSet.add(digest)
+        this.stage(digest, 'delete-partial-images')
         this.filterSet.delete(digest)
       }
     } else if (this.config.deleteGhostImages) {
@@ -198,7 +368,7 @@ export class CleanupOrchestrator {
         this.filterSet
       )
       for (const digest of ghostImages) {
-        this.deleteSet.add(digest)
+        this.stage(digest, 'delete-ghost-images')
         this.filterSet.delete(digest)
       }
     }
@@ -208,28 +378,89 @@ export class CleanupOrchestrator {
         this.subjectReferrers
       )
       for (const digest of orphanedImages) {
-        this.deleteSet.add(digest)
+        this.stage(digest, 'delete-orphaned-images')
+        this.filterSet.delete(digest)
+      }
+    }
+
+    if (this.config.deleteLabels) {
+      const labelledImages = await this.imageFilter.findLabelMatches(
+        this.filterSet
+      )
+      for (const digest of labelledImages) {
+        this.stage(digest, 'delete-labels')
         this.filterSet.delete(digest)
       }
     }
 
     // Process keep-n policies
-    if (this.config.keepNtagged != null) {
+    if (this.hasKeepNTagged()) {
       const toDelete = this.deletionStrategy.keepNTagged(this.filterSet)
       for (const digest of toDelete) {
-        this.deleteSet.add(digest)
+        this.stage(digest, 'keep-n-tagged')
+      }
+    }
+
+    if (
+      this.config.semverKeepPatches != null ||
+      this.config.semverKeepMinors != null
+    ) {
+      const toDelete = this.deletionStrategy.keepSemver(this.filterSet)
+      for (const digest of toDelete) {
+        this.stage(digest, 'semver-keep')
+      }
+    }
+
+    if (this.config.gfsRetention) {
+      const toDelete = this.deletionStrategy.gfsRetention(this.filterSet)
+      for (const digest of toDelete) {
+        this.stage(digest, 'gfs-keep')
       }
     }
 
     if (this.config.keepNuntagged != null) {
       const toDelete = this.deletionStrategy.keepNUntagged(this.filterSet)
       for (const digest of toDelete) {
-        this.deleteSet.add(digest)
+        this.stage(digest, 'keep-n-untagged')
       }
     } else if (this.config.deleteUntagged) {
       const toDelete = this.deletionStrategy.deleteAllUntagged(this.filterSet)
       for (const digest of toDelete) {
-        this.deleteSet.add(digest)
+        this.stage(digest, 'delete-untagged')
+      }
+    }
+
+    // The storage quota goes last, so it only deletes what the other rules
+    // left over
+    if (this.config.storageQuota != null) {
+      const imageDeleter = this.imageDeleter
+      const toDelete = this.deletionStrategy.storageQuota(
+        this.filterSet,
+        this.deleteSet,
+        new StorageUsage(
+          this.blobSizes,
+          this.digestUsedBy,
+          digest =>
+            imageDeleter?.planCascade(new Set([digest])).get(digest) ?? []
+        )
+      )
+      for (const digest of toDelete) {
+        this.stage(digest, 'storage-quota')
+      }
+    }
+
+    // The retention floor overrides every rule above
+    if (
+      this.config.retentionFloorTagged != null ||
+      this.config.retentionFloorImages != null
+    ) {
+      const reverted = this.deletionStrategy.retentionFloor(
+        this.images,
+        this.deleteSet,
+        this.deleteSources
+      )
+      for (const digest of reverted) {
+        this.deleteSet.delete(digest)
       }
     }
 
@@ -239,38 +470,836 @@ export class CleanupOrchestrator {
         'CleanupOrchestrator.run() invariant: imageDeleter is not initialized — reload() must be called before run()'
       )
     }
+    if (this.config.graphFiles) {
+      this.graph = await buildPackageGraph(
+        this.context,
+        this.digestUsedBy,
+        this.subjectReferrers,
+        this.imageDeleter.planCascade(this.deleteSet)
+      )
+    }
+
+    // A plan only records what apply would do
+    if (this.config.mode === 'plan') {
+      this.checkDeletionLimits(this.imageDeleter)
+      this.traceVerdicts(this.imageDeleter, 'planned for deletion')
+      this.packagePlan = this.buildPackagePlan(this.imageDeleter)
+      this.statistics.releaseProtectedTags = this.releaseTags
+      return this.statistics
+    }
+
+    await this.executeDeletions(this.imageDeleter)
+
+    // Run validation if requested
+    if (this.config.validate) {
+      await this.reload()
+      await this.validate()
+    }
+
+    return this.statistics
+  }
+
+  /**
+   * Check the package as it is left after the cleanup, on a freshly loaded
+   * package list.
+   */
+  private async validate(): Promise<void> {
+    core.info(` [${this.targetPackage}] Running Validation Task `)
+    const validation = await this.imageValidator.validate(this.subjectReferrers)
+    this.statistics.validationFindings = validation.findings
+    core.info('')
+  }
+
+  /**
+   * Execute a plan made by `mode: plan`. The package is loaded afresh and
+   * every entry checked against it first: an entry has drifted when one of
+   * its versions is gone or its id, tags or updated_at changed, or when
+   * its cascade no longer matches. Any drift fails the run before the
+   * package is touched, or with `plan-drift: skip` the drifted entries are
+   * left out with a warning.
+   */
+  async apply(packagePlan: PackagePlan): Promise<CleanupTaskStatistics> {
+    this.deleteSet.clear()
+    this.deleteSources.clear()
+    let imageDeleter = await this.load()
+
+    const drift: string[] = []
+    const untagOperations = new Map<string, string[]>()
+    for (const entry of packagePlan.untag) {
+      const reason = versionDrift(
+        entry,
+        this.packageRepo.getPackageByDigest(entry.digest)
+      )
+      if (reason) {
+        drift.push(`untag ${entry.digest} ${reason}`)
+      } else {
+        untagOperations.set(entry.digest, entry.untag)
+      }
+    }
+    const cascade = imageDeleter.planCascade(
+      new Set(packagePlan.delete.map(entry => entry.digest))
+    )
+    for (const entry of packagePlan.delete) {
+      const reason = this.deletionDrift(entry, cascade.get(entry.digest) ?? [])
+      if (reason) {
+        drift.push(`${entry.digest} ${reason}`)
+        this.context.trace?.record(
+          entry.digest,
+          `plan entry changed since planning: ${reason}`
+        )
+      } else {
+        this.stage(entry.digest, entry.rule)
+      }
+    }
+
+    if (drift.length > 0) {
+      logListing(
+        `[${this.targetPackage}] Plan entries changed since planning`,
+        drift,
+        { debug: true }
+      )
+      if (this.config.planDrift !== 'skip') {
+        throw new Error(
+          `[${this.targetPackage}] ${drift.length} plan entries changed since planning, refusing to apply (set plan-drift: skip to apply the rest)`
+        )
+      }
+      core.warning(
+        `[${this.targetPackage}] skipping ${drift.length} plan entries that changed since planning`
+      )
+    }
+
+    // Only now that the plan has been checked are the deletions of an
+    // interrupted run completed, as far as the plan covers them
+    const planned = new Set<string>()
+    for (const entry of packagePlan.delete) {
+      planned.add(entry.digest)
+      for (const version of entry.cascade) {
+        planned.add(version.digest)
+      }
+    }
+    if (await this.resumeDeletions(planned)) {
+      imageDeleter = await this.load()
+    }
+
+    if (
+      untagOperations.size > 0 &&
+      this.checkDeletionLimits(imageDeleter, untagOperations)
+    ) {
+      this.countUntagging(untagOperations)
+      const reloadNeeded = await imageDeleter.performUntagging(untagOperations)
+      this.statistics.untaggedTags.push(...imageDeleter.getUntaggedTags())
+      if (reloadNeeded) {
+        core.info('Reloading action due to untagging')
+        imageDeleter = await this.load()
+      }
+    }
+
+    await this.executeDeletions(imageDeleter)
+
+    if (this.config.validate) {
+      await this.load()
+      await this.validate()
+    }
+    return this.statistics
+  }
+
+  /**
+   * `mode: strip`: take the attestations out of the images without deleting
+   * the images. Each tagged multi-arch index of the filter set listing
+   * attestations is pushed again without them, see replaceIndexes. With
+   * strip-referrers-older-than the signatures and other referrers of the
+   * images older than that are deleted too.
+   */
+  async strip(): Promise<CleanupTaskStatistics> {
+    let imageDeleter = this.requireImageDeleter('strip')
+    if (this.config.stripAttestations) {
+      imageDeleter = await this.replaceIndexes(
+        imageDeleter,
+        isAttestationEntry,
+        'Stripping attestations',
+        'strip-attestations'
+      )
+    }
+
+    if (this.config.stripReferrersOlderThan) {
+      const referrers = this.deletionStrategy.findStaleReferrers(
+        this.filterSet,
+        this.subjectReferrers
+      )
+      for (const digest of referrers) {
+        this.stage(digest, 'strip-referrers-older-than')
+      }
+    }
+
+    await this.executeDeletions(imageDeleter)
+
+    if (this.config.validate) {
+      await this.reload()
+      await this.validate()
+    }
+    return this.statistics
+  }
+
+  /**
+   * `mode: prune-platforms`: drop the platforms prune-platforms lists, or
+   * keep-platforms leaves out, from every tagged multi-arch index of the
+   * filter set, see replaceIndexes.
+   */
+  async prunePlatforms(): Promise<CleanupTaskStatistics> {
+    const imageDeleter = await this.replaceIndexes(
+      this.requireImageDeleter('prunePlatforms'),
+      createPlatformFilter(
+        this.config.prunePlatforms,
+        this.config.keepPlatforms
+      ),
+      'Pruning platforms',
+      'prune-platforms'
+    )
+
+    await this.executeDeletions(imageDeleter)
+
+    if (this.config.validate) {
+      await this.reload()
+      await this.validate()
+    }
+    return this.statistics
+  }
+
+  /**
+   * Push the tagged multi-arch indexes of the filter set with an entry
+   * `dropEntry` picks again without those entries, under the tags they
+   * had, and stage the indexes they replace for deletion. The deletion
+   * cascades to the dropped entries and the old index's referrers, while
+   * the entries the new index kept are in use by it. An old index is only
+   * staged once every tag has moved off it; in dry-run mode, where
+   * nothing is pushed, a stand-in holds the kept entries instead.
+   *
+   * @returns The image deleter, reloaded when an index was pushed
+   */
+  private async replaceIndexes(
+    imageDeleter: ImageDeleter,
+    dropEntry: (entry: ManifestEntry, entries: ManifestEntry[]) => boolean,
+    title: string,
+    rule: string
+  ): Promise<ImageDeleter> {
+    const indexes = new Set<string>()
+    for (const digest of this.filterSet) {
+      const ghPackage = this.packageRepo.getPackageByDigest(digest)
+      if (!ghPackage || ghPackage.metadata.container.tags.length === 0) {
+        continue
+      }
+      const entries =
+        (await this.registry.getManifestByDigest(digest)).manifests ?? []
+      if (entries.some(entry => dropEntry(entry, entries))) {
+        indexes.add(digest)
+      }
+    }
+    const rewritten = await imageDeleter.rewriteIndexes(
+      indexes,
+      dropEntry,
+      title
+    )
+
+    if (rewritten.size > 0 && !this.config.dryRun) {
+      core.info(`Reloading action due to ${rule}`)
+      await this.reload()
+      imageDeleter = this.requireImageDeleter('replaceIndexes')
+    }
+
+    for (const [digest, rewrite] of rewritten) {
+      const newDigest = this.config.dryRun
+        ? rewrite.newDigest
+        : (this.packageRepo.getDigestByTag(rewrite.tags[0]) ??
+          rewrite.newDigest)
+      this.statistics.rewrittenIndexes.push({
+        digest,
+        newDigest,
+        tags: rewrite.tags
+      })
+      if (this.config.dryRun) {
+        for (const kept of rewrite.kept) {
+          this.digestUsedBy.get(kept)?.add(newDigest)
+        }
+      } else {
+        const ghPackage = this.packageRepo.getPackageByDigest(digest)
+        const moved = rewrite.tags.every(tag => {
+          const current = this.packageRepo.getDigestByTag(tag)
+          return current !== undefined && current !== digest
+        })
+        if (!ghPackage || ghPackage.metadata.container.tags.length > 0) {
+          core.warning(
+            `[${this.targetPackage}] ${digest} still holds tags after ${rule}, leaving it in place`
+          )
+          continue
+        }
+        if (!moved) {
+          core.warning(
+            `[${this.targetPackage}] the tags ${rewrite.tags} of ${digest} don't resolve to its rewritten index, leaving it in place`
+          )
+          continue
+        }
+      }
+      this.stage(digest, rule)
+    }
+    return imageDeleter
+  }
+
+  private requireImageDeleter(method: string): ImageDeleter {
+    if (!this.imageDeleter) {
+      throw new Error(
+        `CleanupOrchestrator.${method}() invariant: imageDeleter is not initialized — reload() must be called first`
+      )
+    }
+    return this.imageDeleter
+  }
+
+  /**
+   * Audit the package for `mode: inventory`, without evaluating any
+   * cleanup rule: every version with its platforms, referrers, estimated
+   * size and whether it is a platform image, ghost, partial or orphan.
+   */
+  async inventory(): Promise<InventoryEntry[]> {
+    await this.packageRepo.loadPackages(this.targetPackage, true, () => {
+      this.manifestCache?.prune(this.packageRepo.getDigests())
+    })
+    const relations = await this.manifestAnalyzer.loadDigestUsedByMap()
+    const images = await this.manifestAnalyzer.initFilterSet(
+      relations.subjectReferrers
+    )
+    return buildInventory(this.context, relations, {
+      ghost: await this.imageValidator.findGhostImages(images),
+      partial: await this.imageValidator.findPartialImages(images),
+      orphan: this.imageValidator.findOrphanedImages(relations.subjectReferrers)
+    })
+  }
+
+  /**
+   * `mode: restore`: bring back the deleted versions the restore selectors
+   * pick, and with each image its platform images and referrers. The
+   * platform images are read from the image's manifest once it is
+   * restored (or from the manifest cache in dry-run mode); referrers are
+   * found by their sha256-* tag, or by the subject in their cached
+   * manifest.
+   */
+  async restore(): Promise<RestoredVersion[]> {
+    const deleted = await this.packageRepo.getDeletedPackageVersions(
+      this.targetPackage
+    )
+    const latest = latestDeletions(deleted)
+
+    const referrers = new Map<string, string[]>()
+    const addReferrer = (parent: string, referrer: string): void => {
+      let list = referrers.get(parent)
+      if (!list) {
+        list = []
+        referrers.set(parent, list)
+      }
+      list.push(referrer)
+    }
+    for (const version of latest.values()) {
+      for (const tag of version.metadata.container.tags) {
+        const parent = parentDigestFromReferrerTag(tag)
+        if (parent) {
+          addReferrer(parent, version.name)
+        }
+      }
+      const subject = this.manifestCache?.get(version.name)?.subjectDigest
+      if (subject) {
+        addReferrer(subject, version.name)
+      }
+    }
+
+    core.startGroup(`[${this.targetPackage}] Restoring deleted versions`)
+    const queue: RestoreCandidate[] = selectRestoreVersions(
+      this.config,
+      this.targetPackage,
+      deleted
+    )
+    const restored = new Map<string, RestoredVersion>()
+    // The queue grows as restored images bring their platform images and
+    // referrers along, and the iteration picks those up too
+    for (const { version, reason } of queue) {
+      if (restored.has(version.name)) continue
+      await this.packageRepo.restorePackageVersion(
+        this.targetPackage,
+        version.id,
+        version.name,
+        version.metadata.container.tags
+      )
+      restored.set(version.name, {
+        package: this.targetPackage,
+        digest: version.name,
+        id: version.id,
+        tags: [...version.metadata.container.tags],
+        deletedAt: deletedAt(version),
+        reason
+      })
+
+      let platformImages: string[] = []
+      try {
+        const manifest = await this.registry.getManifestByDigest(version.name)
+        platformImages = (manifest.manifests ?? []).map(entry => entry.digest)
+      } catch (error) {
+        // A deleted manifest is only served once it is restored
+        core.warning(
+          this.config.dryRun
+            ? `[${this.targetPackage}] the platform images of ${version.name} can't be listed until it is restored`
+            : `[${this.targetPackage}] the manifest of ${version.name} could not be read, its platform images were not restored: ${(error as Error).message}`
+        )
+      }
+      for (const digest of platformImages) {
+        const child = latest.get(digest)
+        if (child) {
+          queue.push({
+            version: child,
+            reason: `platform image of ${version.name}`
+          })
+        }
+      }
+      for (const digest of referrers.get(version.name) ?? []) {
+        const referrer = latest.get(digest)
+        if (referrer) {
+          queue.push({
+            version: referrer,
+            reason: `referrer of ${version.name}`
+          })
+        }
+      }
+    }
+    if (restored.size === 0) {
+      core.info('no deleted versions selected')
+    }
+    core.endGroup()
+    return [...restored.values()]
+  }
+
+  /**
+   * Why a planned deletion no longer matches the package, or undefined
+   * when it still does.
+   *
+   * @param cascade - The versions deleting the image would cascade to now
+   */
+  private deletionDrift(
+    entry: PlannedDeletion,
+    cascade: string[]
+  ): string | undefined {
+    const reason = versionDrift(
+      entry,
+      this.packageRepo.getPackageByDigest(entry.digest)
+    )
+    if (reason) {
+      return reason
+    }
+    const planned = new Set<string>()
+    for (const version of entry.cascade) {
+      const cascadeReason = versionDrift(
+        version,
+        this.packageRepo.getPackageByDigest(version.digest)
+      )
+      if (cascadeReason) {
+        return `cascaded ${version.digest} ${cascadeReason}`
+      }
+      if (!cascade.includes(version.digest)) {
+        return `cascaded ${version.digest} would no longer be deleted`
+      }
+      planned.add(version.digest)
+    }
+    const added = cascade.find(digest => !planned.has(digest))
+    if (added) {
+      return `would now also delete ${added}`
+    }
+    return undefined
+  }
+
+  /**
+   * The plan `mode: plan` writes for this package: the deleteSet with the
+   * rule that staged each image and its cascade, and the untag operations.
+   */
+  getPackagePlan(): PackagePlan | null {
+    return this.packagePlan
+  }
+
+  private buildPackagePlan(imageDeleter: ImageDeleter): PackagePlan {
+    const versionOf = (digest: string): GhPackage => {
+      const ghPackage = this.packageRepo.getPackageByDigest(digest)
+      if (!ghPackage) {
+        throw new Error(
+          `cache invariant: digest ${digest} not in package cache`
+        )
+      }
+      return ghPackage
+    }
+
+    const packagePlan: PackagePlan = {
+      package: this.targetPackage,
+      untag: [],
+      delete: []
+    }
+    const lines: string[] = []
+    for (const [digest, tags] of this.untagPlan) {
+      packagePlan.untag.push({
+        ...plannedVersion(versionOf(digest)),
+        untag: tags
+      })
+      lines.push(`${digest} untag ${tags}`)
+    }
+    for (const [digest, children] of imageDeleter.planCascade(this.deleteSet)) {
+      const version = plannedVersion(versionOf(digest))
+      const rule = this.deleteSources.get(digest) ?? 'unknown'
+      packagePlan.delete.push({
+        ...version,
+        rule,
+        cascade: children.map(child => plannedVersion(versionOf(child)))
+      })
+      const label =
+        version.tags.length > 0 ? `${digest} ${version.tags}` : digest
+      lines.push(
+        children.length > 0
+          ? `${label} by ${rule}, with ${children.length} cascaded versions`
+          : `${label} by ${rule}`
+      )
+    }
+    logListing(`[${this.targetPackage}] Planned changes`, lines, {
+      debug: this.config.logLevel >= LogLevel.DEBUG,
+      emptyMessage: 'nothing to delete'
+    })
+    return packagePlan
+  }
+
+  /**
+   * Delete the deleteSet once it passes the max-deletions circuit breaker,
+   * and record the outcome in the statistics.
+   */
+  private async executeDeletions(imageDeleter: ImageDeleter): Promise<void> {
     // The afterDelete hook fires inside the "Deleting packages" log
     // group so the "pruned N stale entries" line lands under the same
     // collapsible section as the deletes that caused it. Reload-time
     // prune only saw pre-deletion state; without this, a run that
     // deleted 5000 packages would persist 5000 dead entries until the
     // next run's reload prune caught them.
-    const result = await this.imageDeleter.deleteImages(
-      this.deleteSet,
-      deleted => {
-        if (this.manifestCache && deleted.size > 0) {
-          const stillAlive = new Set(this.packageRepo.getDigests())
-          for (const digest of deleted) {
-            stillAlive.delete(digest)
-          }
-          this.manifestCache.prune(stillAlive)
-        }
+    let result: DeletionResult = {
+      deleted: new Set<string>(),
+      numberImagesDeleted: 0,
+      numberMultiImagesDeleted: 0
+    }
+    if (this.checkDeletionLimits(imageDeleter)) {
+      this.traceVerdicts(
+        imageDeleter,
+        this.config.dryRun ? 'would be deleted' : 'deleted'
+      )
+      const journal = this.config.dryRun ? null : this.journal
+      await journal?.begin(this.journalTrees(imageDeleter))
+      try {
+        result = await imageDeleter.deleteImages(
+          this.deleteSet,
+          deleted => {
+            if (this.manifestCache && deleted.size > 0) {
+              const stillAlive = new Set(this.packageRepo.getDigests())
+              for (const digest of deleted) {
+                stillAlive.delete(digest)
+              }
+              this.manifestCache.prune(stillAlive)
+            }
+          },
+          async digest => await journal?.complete(digest)
+        )
+      } finally {
+        await journal?.finish()
       }
-    )
-    this.statistics.numberImagesDeleted = result.numberImagesDeleted
-    this.statistics.numberMultiImagesDeleted = result.numberMultiImagesDeleted
+    } else {
+      this.traceVerdicts(imageDeleter, null)
+    }
+    // Added to what resumeDeletions completed
+    this.statistics.numberImagesDeleted += result.numberImagesDeleted
+    this.statistics.numberMultiImagesDeleted += result.numberMultiImagesDeleted
+    // The package cache still holds the deleted versions
+    for (const digest of result.deleted) {
+      const artifactClass = this.artifactClasses.get(digest) ?? 'image'
+      this.statistics.deletedByArtifactClass[artifactClass] =
+        (this.statistics.deletedByArtifactClass[artifactClass] ?? 0) + 1
+      const ghPackage = this.packageRepo.getPackageByDigest(digest)
+      if (ghPackage) {
+        this.statistics.deletedVersions.push({
+          digest,
+          id: ghPackage.id,
+          tags: [...ghPackage.metadata.container.tags]
+        })
+      }
+    }
+    this.statistics.releaseProtectedTags = this.releaseTags
+    this.statistics.bytesReclaimed = new StorageUsage(
+      this.blobSizes,
+      this.digestUsedBy
+    ).release(result.deleted)
 
     // Print statistics
     this.statistics.print()
+  }
 
-    // Run validation if requested
-    if (this.config.validate) {
-      core.info(` [${this.targetPackage}] Running Validation Task `)
-      await this.reload()
-      await this.imageValidator.validate(this.subjectReferrers)
-      core.info('')
+  // Each image of the delete set with the versions deleted along with it
+  private journalTrees(imageDeleter: ImageDeleter): JournalTree[] {
+    const trees: JournalTree[] = []
+    for (const [root, cascade] of imageDeleter.planCascade(this.deleteSet)) {
+      const versions: JournalTree['versions'] = []
+      for (const digest of [root, ...cascade]) {
+        const id = this.packageRepo.getIdByDigest(digest)
+        if (id !== undefined) {
+          versions.push({ digest, id })
+        }
+      }
+      trees.push({ root, versions })
     }
+    return trees
+  }
 
-    return this.statistics
+  /**
+   * Complete the deletions a previous run left unfinished, before anything
+   * new is planned. A journaled tree whose parent is gone had its children
+   * and referrers cut off midway: those still present are deleted, unless
+   * they are pinned or a platform image another index now uses. A tree
+   * whose parent is still there was never started and is left to this
+   * run's rules. With `planned`, as apply passes the versions of its plan,
+   * only those are deleted, and the trees holding others stay journaled.
+   *
+   * @returns whether anything was deleted
+   */
+  async resumeDeletions(planned?: Set<string>): Promise<boolean> {
+    if (!this.journal || this.config.mode === 'plan') {
+      return false
+    }
+    await this.journal.restore()
+    const trees = this.journal.getPendingTrees()
+    if (trees.length === 0) {
+      return false
+    }
+    await this.load()
+
+    const lines: string[] = []
+    const remaining: JournalTree['versions'] = []
+    const completed: string[] = []
+    for (const tree of trees) {
+      const [parent] = tree.versions
+      if (
+        parent &&
+        this.packageRepo.getIdByDigest(parent.digest) === parent.id
+      ) {
+        lines.push(`${tree.root} was not started, left to this run`)
+        completed.push(tree.root)
+        continue
+      }
+      let unplanned = false
+      for (const version of tree.versions.slice(1)) {
+        if (this.packageRepo.getIdByDigest(version.digest) !== version.id) {
+          continue
+        }
+        if (planned && !planned.has(version.digest)) {
+          lines.push(`${version.digest} is not in the plan, left in place`)
+          unplanned = true
+        } else if (this.pinnedDigests.has(version.digest)) {
+          lines.push(`${version.digest} is pinned, left in place`)
+        } else if ((this.digestUsedBy.get(version.digest)?.size ?? 0) > 0) {
+          lines.push(
+            `${version.digest} is in use by another image, left in place`
+          )
+        } else {
+          remaining.push(version)
+        }
+      }
+      if (!unplanned) {
+        completed.push(tree.root)
+      }
+    }
+
+    core.startGroup(
+      `[${this.targetPackage}] Completing ${trees.length} interrupted deletions`
+    )
+    for (const line of lines) {
+      core.info(line)
+    }
+    for (const version of remaining) {
+      const ghPackage = this.packageRepo.getPackageByDigest(version.digest)
+      await this.packageRepo.deletePackageVersion(
+        this.targetPackage,
+        version.id,
+        version.digest,
+        ghPackage?.metadata.container.tags,
+        'left by an interrupted run'
+      )
+      this.statistics.numberImagesDeleted += 1
+      if (ghPackage) {
+        this.statistics.deletedVersions.push({
+          digest: version.digest,
+          id: version.id,
+          tags: [...ghPackage.metadata.container.tags]
+        })
+      }
+    }
+    if (remaining.length === 0) {
+      core.info('nothing left to delete')
+    }
+    core.endGroup()
+
+    if (!this.config.dryRun) {
+      for (const root of completed) {
+        await this.journal.complete(root)
+      }
+      await this.journal.finish()
+    }
+    return remaining.length > 0
+  }
+
+  // Remember untag operations for the circuit breaker
+  private countUntagging(untagOperations: Map<string, string[]>): void {
+    for (const [digest, tags] of untagOperations) {
+      this.untagged.set(digest, tags)
+    }
+  }
+
+  /**
+   * The max-deletions circuit breaker: check the plan, cascade included,
+   * against the configured limits before anything is deleted or untagged.
+   * The versions untagged this run count too, as do `untagOperations`
+   * about to be performed. Over a limit the full plan is printed and the
+   * run aborts, or with `max-deletions-action: dry-run` this package's
+   * deletions and untagging are skipped. A plan no larger than
+   * `acknowledge-deletions` goes ahead regardless.
+   *
+   * @returns whether the deletions may go ahead
+   */
+  private checkDeletionLimits(
+    imageDeleter: ImageDeleter,
+    untagOperations = new Map<string, string[]>(),
+    deleteSet = this.deleteSet
+  ): boolean {
+    if (this.deletionsStopped) {
+      return false
+    }
+    const { maxDeletions, maxDeletionsPercent, acknowledgeDeletions } =
+      this.config
+    if (maxDeletions == null && maxDeletionsPercent == null) {
+      return true
+    }
+    const untag = new Map([...this.untagged, ...untagOperations])
+    const plan = new Set([
+      ...imageDeleter.planDeletions(deleteSet),
+      ...untag.keys()
+    ])
+    const total = this.packageRepo.getDigests().size
+    const limits: string[] = []
+    let limit = Infinity
+    if (maxDeletions != null) {
+      limit = maxDeletions
+      limits.push(`max-deletions ${maxDeletions}`)
+    }
+    if (maxDeletionsPercent != null) {
+      limit = Math.min(limit, Math.floor((total * maxDeletionsPercent) / 100))
+      limits.push(`max-deletions-percent ${maxDeletionsPercent}%`)
+    }
+    if (plan.size <= limit) {
+      return true
+    }
+
+    const planned = untag.size > 0 ? 'deletion or untagging' : 'deletion'
+    const summary = `[${this.targetPackage}] planned ${planned} of ${plan.size} of ${total} package versions is over the ${limits.join(' / ')} limit`
+    if (acknowledgeDeletions != null && plan.size <= acknowledgeDeletions) {
+      core.warning(
+        `${summary}, going ahead as acknowledge-deletions is ${acknowledgeDeletions}`
+      )
+      return true
+    }
+
+    const lines: string[] = []
+    for (const digest of plan) {
+      const tags =
+        this.packageRepo.getPackageByDigest(digest)?.metadata.container.tags ??
+        []
+      const line = tags.length > 0 ? `${digest} ${tags.join(', ')}` : digest
+      const untagTags = untag.get(digest)
+      lines.push(untagTags ? `${line} (untag ${untagTags.join(', ')})` : line)
+    }
+    logListing(`[${this.targetPackage}] Deletion plan over the limit`, lines, {
+      debug: true
+    })
+
+    const override = `set acknowledge-deletions to ${plan.size} to delete them`
+    if (this.config.dryRun || this.config.mode === 'plan') {
+      core.warning(`${summary}, a live run would stop here`)
+      return true
+    }
+    if (this.config.maxDeletionsAction === 'dry-run') {
+      core.warning(
+        `${summary}, nothing was deleted from this package (${override})`
+      )
+      this.deletionsStopped = true
+      return false
+    }
+    throw new Error(`${summary}, aborting without deleting (${override})`)
+  }
+
+  /**
+   * The relationship graph of the package as it was before deletion, for
+   * `graph-file`, or null when it isn't set.
+   */
+  getGraph(): PackageGraph | null {
+    return this.graph
+  }
+
+  /**
+   * The decision trace of every version of the package, for `explain-file`,
+   * or null when it isn't set.
+   */
+  getTrace(): Record<string, DigestTrace> | null {
+    if (!this.context.trace) {
+      return null
+    }
+    return this.traceSnapshot ?? this.context.trace.build(this.packageRepo)
+  }
+
+  /**
+   * Set the verdict of every image the deleteSet reaches, cascade included,
+   * and snapshot the trace.
+   *
+   * @param action - What happens to the images, or null when the circuit
+   *   breaker stopped their deletion
+   */
+  private traceVerdicts(
+    imageDeleter: ImageDeleter,
+    action: string | null
+  ): void {
+    const trace = this.context.trace
+    if (!trace) {
+      return
+    }
+    for (const [digest, children] of imageDeleter.planCascade(this.deleteSet)) {
+      const rule = this.deleteSources.get(digest) ?? 'unknown'
+      if (action == null) {
+        const verdict = `kept: staged by ${rule}, stopped by the max-deletions circuit breaker`
+        trace.setVerdict(digest, verdict)
+        for (const child of children) {
+          trace.setVerdict(child, verdict)
+        }
+        continue
+      }
+      trace.setVerdict(digest, `${action} by ${rule}`)
+      for (const child of children) {
+        trace.setVerdict(child, `${action} with ${digest}`)
+      }
+    }
+    this.traceSnapshot = trace.build(this.packageRepo)
+  }
+
+  // Stage a digest for deletion, remembering the first rule to pick it
+  private stage(digest: string, rule: string): void {
+    this.deleteSet.add(digest)
+    this.context.trace?.record(digest, `staged for deletion by ${rule}`)
+    if (!this.deleteSources.has(digest)) {
+      this.deleteSources.set(digest, rule)
+    }
+  }
+
+  private hasKeepNTagged(): boolean {
+    return (
+      this.config.keepNtagged != null || this.config.keepNtaggedGroups != null
+    )
   }
 }
@@ -0,0 +1,135 @@
+import fs from 'fs'
+import { GhPackage } from './utils.js'
+
+// Bumped whenever the plan file layout changes, so an apply job never
+// executes a plan written by a different release
+export const PLAN_FORMAT_VERSION = 1
+
+/**
+ * A package version as it was when the plan was made. Apply compares it
+ * with the version then in the registry to detect drift.
+ */
+export interface PlannedVersion {
+  digest: string
+  id: number
+  tags: string[]
+  updatedAt: string
+}
+
+export interface PlannedDeletion extends PlannedVersion {
+  // The cleanup rule that selected the image
+  rule: string
+  // Platform images and referrers deleted along with it
+  cascade: PlannedVersion[]
+}
+
+export interface PlannedUntag extends PlannedVersion {
+  // The tags to strip from the image
+  untag: string[]
+}
+
+export interface PackagePlan {
+  package: string
+  untag: PlannedUntag[]
+  delete: PlannedDeletion[]
+}
+
+/**
+ * The `plan-file` written by `mode: plan` and executed by `mode: apply`.
+ */
+export interface CleanupPlan {
+  version: number
+  owner: string
+  createdAt: string
+  packages: PackagePlan[]
+}
+
+export function plannedVersion(ghPackage: GhPackage): PlannedVersion {
+  return {
+    digest: ghPackage.name,
+    id: ghPackage.id,
+    tags: [...ghPackage.metadata.container.tags],
+    updatedAt: ghPackage.updated_at
+  }
+}
+
+/**
+ * Compare a planned version with the package version now in the registry.
+ *
+ * @returns why the version changed since planning, or undefined when it
+ *   hasn't
+ */
+export function versionDrift(
+  planned: PlannedVersion,
+  current: GhPackage | undefined
+): string | undefined {
+  if (!current) {
+    return 'no longer exists'
+  }
+  if (current.id !== planned.id) {
+    return `version id changed from ${planned.id} to ${current.id}`
+  }
+  const tags = [...current.metadata.container.tags].sort()
+  const plannedTags = [...planned.tags].sort()
+  if (tags.join(',') !== plannedTags.join(',')) {
+    return `tags changed from [${plannedTags}] to [${tags}]`
+  }
+  if (current.updated_at !== planned.updatedAt) {
+    return `updated_at changed from ${planned.updatedAt} to ${current.updated_at}`
+  }
+  return undefined
+}
+
+export async function writeCleanupPlan(
+  path: string,
+  plan: CleanupPlan
+): Promise<void> {
+  try {
+    await fs.promises.writeFile(path, `${JSON.stringify(plan, null, 2)}\n`)
+  } catch (error) {
+    throw new Error(
+      `plan-file ${path} could not be written: ${(error as Error).message}`
+    )
+  }
+}
+
+/**
+ * Load a plan written by `mode: plan`, checking it was made by this
+ * release for the same owner.
+ */
+export async function loadCleanupPlan(
+  path: string,
+  owner: string
+): Promise<CleanupPlan> {
+  let plan: CleanupPlan
+  try {
+    plan = JSON.parse(await fs.promises.readFile(path, 'utf8'))
+  } catch (error) {
+    throw new Error(
+      `plan-file ${path} could not be read: ${(error as Error).message}`
+    )
+  }
+  if (plan?.version !== PLAN_FORMAT_VERSION) {
+    throw new Error(
+      `plan-file ${path} has format version ${plan?.version}, expected ${PLAN_FORMAT_VERSION} - re-run the plan with this release`
+    )
+  }
+  if (typeof plan.owner !== 'string' || !Array.isArray(plan.packages)) {
+    throw new Error(`plan-file ${path} is not a cleanup plan`)
+  }
+  if (plan.owner.toLowerCase() !== owner.toLowerCase()) {
+    throw new Error(
+      `plan-file ${path} was made for owner ${plan.owner}, not ${owner}`
+    )
+  }
+  for (const packagePlan of plan.packages) {
+    if (
+      typeof packagePlan?.package !== 'string' ||
+      !Array.isArray(packagePlan.untag) ||
+      !Array.isArray(packagePlan.delete)
+    ) {
+      throw new Error(`plan-file ${path} has a malformed package entry`)
+    }
+  }
+  return plan
+}
@@ -0,0 +1,156 @@
+import * as core from '@actions/core'
+import fs from 'fs'
+import { Config } from './config.js'
+import type { ArtifactClass } from './artifact-class.js'
+import {
+  CleanupTaskStatistics,
+  DeletedVersion,
+  RewrittenIndex
+} from './utils.js'
+
+export interface PackageReport {
+  package: string
+  numberImagesDeleted: number
+  numberMultiImagesDeleted: number
+  bytesReclaimed: number
+  deleted: DeletedVersion[]
+  deletedByArtifactClass: Partial<Record<ArtifactClass, number>>
+  untaggedTags: string[]
+  // Indexes mode strip or prune-platforms pushed again
+  rewritten: RewrittenIndex[]
+  releaseProtectedTags: string[]
+  validationFindings: string[]
+}
+
+/**
+ * What a run did, written to `report-file` and published as the action
+ * outputs. In dry-run mode `deleted` lists what would have been deleted.
+ */
+export interface CleanupReport {
+  owner: string
+  dryRun: boolean
+  mode?: Config['mode']
+  createdAt: string
+  numberImagesDeleted: number
+  numberMultiImagesDeleted: number
+  bytesReclaimed: number
+  packages: PackageReport[]
+}
+
+export function buildCleanupReport(
+  config: Config,
+  perPackageStats: CleanupTaskStatistics[],
+  globalStats: CleanupTaskStatistics
+): CleanupReport {
+  return {
+    owner: config.owner,
+    dryRun: config.dryRun === true,
+    mode: config.mode,
+    createdAt: new Date().toISOString(),
+    numberImagesDeleted: globalStats.numberImagesDeleted,
+    numberMultiImagesDeleted: globalStats.numberMultiImagesDeleted,
+    bytesReclaimed: globalStats.bytesReclaimed,
+    packages: perPackageStats.map(stats => ({
+      package: stats.name,
+      numberImagesDeleted: stats.numberImagesDeleted,
+      numberMultiImagesDeleted: stats.numberMultiImagesDeleted,
+      bytesReclaimed: stats.bytesReclaimed,
+      deleted: stats.deletedVersions,
+      deletedByArtifactClass: stats.deletedByArtifactClass,
+      untaggedTags: stats.untaggedTags,
+      rewritten: stats.rewrittenIndexes,
+      releaseProtectedTags: stats.releaseProtectedTags,
+      validationFindings: stats.validationFindings
+    }))
+  }
+}
+
+/**
+ * Publish the report as action outputs for later workflow steps. Lists are
+ * JSON arrays, so a step can read them with `fromJSON`.
+ */
+export function setCleanupOutputs(report: CleanupReport): void {
+  const packages = report.packages
+  core.setOutput('dry-run', `${report.dryRun}`)
+  core.setOutput('deleted-count', `${report.numberImagesDeleted}`)
+  core.setOutput(
+    'deleted-digests',
+    JSON.stringify(packages.flatMap(p => p.deleted.map(v => v.digest)))
+  )
+  core.setOutput(
+    'deleted-version-ids',
+    JSON.stringify(packages.flatMap(p => p.deleted.map(v => v.id)))
+  )
+  core.setOutput(
+    'untagged-tags',
+    JSON.stringify(packages.flatMap(p => p.untaggedTags))
+  )
+  core.setOutput(
+    'package-stats',
+    JSON.stringify(
+      Object.fromEntries(
+        packages.map(p => [
+          p.package,
+          {
+            deleted: p.numberImagesDeleted,
+            multiArchDeleted: p.numberMultiImagesDeleted,
+            bytesReclaimed: p.bytesReclaimed,
+            untagged: p.untaggedTags.length
+          }
+        ])
+      )
+    )
+  )
+  core.setOutput(
+    'validation-findings',
+    JSON.stringify(packages.flatMap(p => p.validationFindings))
+  )
+}
+
+/**
+ * Load a report written by `report-file`, for `restore-report`, checking
+ * it was made for the same owner.
+ */
+export async function loadCleanupReport(
+  path: string,
+  owner: string
+): Promise<CleanupReport> {
+  let report: CleanupReport
+  try {
+    report = JSON.parse(await fs.promises.readFile(path, 'utf8'))
+  } catch (error) {
+    throw new Error(
+      `restore-report ${path} could not be read: ${(error as Error).message}`
+    )
+  }
+  if (typeof report?.owner !== 'string' || !Array.isArray(report.packages)) {
+    throw new Error(`restore-report ${path} is not a cleanup report`)
+  }
+  if (report.owner.toLowerCase() !== owner.toLowerCase()) {
+    throw new Error(
+      `restore-report ${path} was made for owner ${report.owner}, not ${owner}`
+    )
+  }
+  for (const packageReport of report.packages) {
+    if (
+      typeof packageReport?.package !== 'string' ||
+      !Array.isArray(packageReport.deleted)
+    ) {
+      throw new Error(`restore-report ${path} has a malformed package entry`)
+    }
+  }
+  return report
+}
+
+export async function writeCleanupReport(
+  path: string,
+  report: CleanupReport
+): Promise<void> {
+  try {
+    await fs.promises.writeFile(path, `${JSON.stringify(report, null, 2)}\n`)
+  } catch (error) {
+    throw new Error(
+      `report-file ${path} could not be written: ${(error as Error).message}`
+    )
+  }
+}
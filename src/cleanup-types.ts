@@ -1,6 +1,7 @@
 import { Config } from './config.js'
 import { Registry } from './registry.js'
 import { PackageRepo } from './package-repo.js'
+import { DecisionTrace } from './decision-trace.js'
 
 /**
  * Shared context object passed to all cleanup modules.
@@ -11,10 +12,12 @@ export interface CleanupContext {
   config: Config
   /** Registry client for interacting with the container registry (ghcr.io) */
   registry: Registry
-  /** Package repository client for GitHub Package API operations */
+  /** Package versions of the target package, from the registry backend */
   packageRepo: PackageRepo
   /** The name of the package being processed */
   targetPackage: string
+  /** Per-digest decision trace, set when `explain-file` is */
+  trace?: DecisionTrace
 }
 
 /**
@@ -52,6 +55,8 @@ export interface ManifestAnalysis {
 export interface ValidationResult {
   /** Whether any validation errors were found */
   hasErrors: boolean
+  /** The problems found, one message per problem as logged */
+  findings: string[]
   /**
    * Ghost images: multi-arch images where ALL platform images are missing.
    * These are completely broken and cannot be pulled.
@@ -65,8 +70,13 @@ export interface ValidationResult {
   /**
    * Orphaned images: images with tags like 'sha256-...' whose parent image no longer exists.
    * Common with attestation/signature images that lost their parent.
+   * Also includes OCI 1.1 referrers whose subject no longer exists.
    */
   orphanedImages: Set<string>
+  /** Ghost and partial images → the platform image digests they are missing */
+  missingChildren: Map<string, string[]>
+  /** OCI 1.1 referrers whose subject is missing → the subject digest */
+  missingSubjects: Map<string, string>
 }
 
 /**
@@ -107,3 +117,15 @@ export interface DeletionResult {
   /** Number of multi-architecture parent images deleted */
   numberMultiImagesDeleted: number
 }
+
+/**
+ * A multi-arch index ImageDeleter.rewriteIndexes pushed again.
+ */
+export interface IndexRewrite {
+  /** The tags moved to the rewritten index */
+  tags: string[]
+  /** Digest of the rewritten index */
+  newDigest: string
+  /** Digests of the entries the rewritten index kept */
+  kept: string[]
+}
@@ -1,6 +1,19 @@
 import * as core from '@actions/core'
-import { MapPrinter, validateUserRegex } from './utils.js'
+import { MapPrinter, createTagMatcher, validateUserRegex } from './utils.js'
 import { OctokitClient } from './octokit-client.js'
+import {
+  loadPolicyFile,
+  type PolicyFile,
+  type PolicyRule
+} from './policy-file.js'
+import {
+  loadProtectedInventory,
+  type ProtectedInventory
+} from './protected-inventory.js'
+import { loadCleanupPlan, type CleanupPlan } from './cleanup-plan.js'
+import { loadCleanupReport, type CleanupReport } from './cleanup-report.js'
+import { parseArtifactClasses, type ArtifactClass } from './artifact-class.js'
+import { parsePlatforms } from './platform-filter.js'
 import humanInterval from 'human-interval'
 
 export enum LogLevel {
@@ -10,9 +23,33 @@ export enum LogLevel {
   DEBUG
 }
 
+// One bucket of `keep-n-tagged-groups`: images with a tag matching
+// `pattern` are ranked by date and the newest `count` are kept.
+export interface KeepNTaggedGroup {
+  pattern: string
+  count: number
+}
+
+// One `delete-labels` / `exclude-labels` selector: an image matches when
+// its label or annotation `key` is set and, if given, its value matches
+// the `value` pattern.
+export interface LabelSelector {
+  key: string
+  value?: string
+}
+
+// Grandfather-father-son retention windows in milliseconds, each measured
+// back from now. Infinity means the tier never ends.
+export interface GfsRetention {
+  keepAll?: number
+  keepDaily?: number
+  keepWeekly?: number
+  keepMonthly?: number
+}
+
 export class Config {
-  // True when the authenticated token's login matches `owner` —
-  // tells package-repo which Packages-API endpoint flavour to call:
+  // True when the authenticated token's login matches `owner` — tells
+  // github-packages-backend which Packages-API endpoint flavour to call:
   // - tokenOwnsPackage  → packages.forAuthenticatedUser.*
   // - !tokenOwnsPackage → packages.forUser.* (or forOrg if owner is Org)
   // Named for what it actually means; replaced the older `isPrivateRepo`
@@ -26,6 +63,16 @@ export class Config {
   defaultPackageUsed = false
   deleteTags?: string
   excludeTags?: string
+  deleteClosedPrTags?: string
+  deleteStaleBranchTags?: string
+  excludeReleaseTags?: boolean
+  excludeReleaseDrafts?: boolean
+  excludeReleasePrereleases?: boolean
+  deleteLabels?: LabelSelector[]
+  excludeLabels?: LabelSelector[]
+  // Artifact classes the rules may delete, and those they never delete
+  includeArtifacts?: ArtifactClass[]
+  excludeArtifacts?: ArtifactClass[]
   olderThanReadable?: string
   olderThan?: number
   deleteUntagged?: boolean
@@ -34,19 +81,922 @@ export class Config {
   deleteOrphanedImages?: boolean
   keepNuntagged?: number
   keepNtagged?: number
+  keepNtaggedGroups?: KeepNTaggedGroup[]
+  semverKeepPatches?: number
+  semverKeepMinors?: number
+  gfsRetention?: GfsRetention
+  gfsRetentionReadable?: string
+  // Storage budget in bytes
+  storageQuota?: number
+  storageQuotaReadable?: string
   dryRun?: boolean
+  // Circuit breaker limits on the package versions one package's plan may
+  // delete, children and referrers included
+  maxDeletions?: number
+  maxDeletionsPercent?: number
+  maxDeletionsAction?: 'abort' | 'dry-run'
+  // Plan size a run has been acknowledged to delete over those limits
+  acknowledgeDeletions?: number
+  // Retention floor: images every package keeps whatever the rules pick
+  retentionFloorTagged?: number
+  retentionFloorImages?: number
+  // Two-phase cleanup: `plan` writes plan-file, `apply` executes it.
+  // `inventory` only reports the packages' versions
+  mode?:
+    | 'plan'
+    | 'apply'
+    | 'inventory'
+    | 'restore'
+    | 'strip'
+    | 'prune-platforms'
+  planFile?: string
+  // Files the inventory is written to, CSV or JSON by extension
+  inventoryFiles?: string[]
+  // What mode restore brings back: the deletions of a report, digests,
+  // tags, or everything deleted within the interval (ms)
+  restoreReportFile?: string
+  restoreReport?: CleanupReport
+  restoreDigests?: string[]
+  restoreTags?: string[]
+  restoreDeletedWithin?: number
+  restoreDeletedWithinReadable?: string
+  // What mode strip removes from the images: the attestation entries of
+  // multi-arch indexes, and referrers older than the interval (ms)
+  stripAttestations?: boolean
+  stripReferrersOlderThan?: number
+  stripReferrersOlderThanReadable?: string
+  // The platforms mode prune-platforms drops from multi-arch indexes, or
+  // the only ones it keeps
+  prunePlatforms?: string[]
+  keepPlatforms?: string[]
+  planDrift?: 'refuse' | 'skip'
+  cleanupPlan?: CleanupPlan
+  // Where to write the per-digest decision trace
+  explainFile?: string
+  // Where to write the JSON report of what the run did
+  reportFile?: string
+  // Files the relationship graph is written to, DOT or Mermaid by extension
+  graphFiles?: string[]
+  // Where unfinished deletions are journaled: `cache` or a file path
+  deletionJournal?: string
+  // Artifact types (wildcard patterns) of the OCI 1.1 referrers deleted
+  // along with their subject; referrers of other types are kept
+  referrerArtifactTypes?: string[]
   validate?: boolean
+  // Fail the run when validate finds problems after the cleanup
+  failOnInvalid?: boolean
   logLevel: LogLevel
   useRegex?: boolean
   token = ''
   registryUrl?: string
+  // ghcr lists and deletes versions through the GitHub Packages API, oci
+  // through the OCI Distribution API of any other registry
+  registryType: 'ghcr' | 'oci' = 'ghcr'
+  // User name given to the registry's token service with `token`
+  registryUsername?: string
   githubApiUrl?: string
+  policyFile?: PolicyFile
+  // The policy file rule this package's cleanup options came from
+  policyRule?: PolicyRule
+  protectedInventory?: ProtectedInventory
 
   constructor() {
     this.logLevel = LogLevel.INFO
   }
 }
 
+// Where the cleanup rule options are read from: the action inputs, or a
+// policy file rule standing in for them.
+interface RuleInputs {
+  getInput(name: string): string
+  getBooleanInput(name: string): boolean
+}
+
+const actionInputs: RuleInputs = {
+  getInput: name => core.getInput(name),
+  getBooleanInput: name => core.getBooleanInput(name)
+}
+
+// Config fields set by parseCleanupRules, cleared before a policy rule is
+// applied so nothing leaks through from the action inputs
+const CLEANUP_RULE_FIELDS = [
+  'deleteTags',
+  'excludeTags',
+  'deleteClosedPrTags',
+  'deleteStaleBranchTags',
+  'excludeReleaseTags',
+  'excludeReleaseDrafts',
+  'excludeReleasePrereleases',
+  'deleteLabels',
+  'excludeLabels',
+  'includeArtifacts',
+  'excludeArtifacts',
+  'olderThan',
+  'olderThanReadable',
+  'deleteUntagged',
+  'deleteGhostImages',
+  'deletePartialImages',
+  'deleteOrphanedImages',
+  'keepNuntagged',
+  'keepNtagged',
+  'keepNtaggedGroups',
+  'semverKeepPatches',
+  'semverKeepMinors',
+  'gfsRetention',
+  'gfsRetentionReadable',
+  'storageQuota',
+  'storageQuotaReadable'
+] as const
+
+/**
+ * Parse the `keep-n-tagged-groups` input: one `<pattern>=<count>` entry
+ * per line. The count is split off at the last `=` so regular expression
+ * patterns may contain `=` themselves.
+ */
+export function parseKeepNTaggedGroups(value: string): KeepNTaggedGroup[] {
+  const groups: KeepNTaggedGroup[] = []
+  for (const rawLine of value.split('\n')) {
+    const line = rawLine.trim()
+    if (!line) continue
+    const idx = line.lastIndexOf('=')
+    const pattern = idx > 0 ? line.substring(0, idx).trim() : ''
+    const count = idx > 0 ? Number(line.substring(idx + 1).trim()) : NaN
+    if (!pattern || !Number.isInteger(count)) {
+      throw new Error(
+        `keep-n-tagged-groups entry "${line}" is not in the form <pattern>=<count>`
+      )
+    }
+    if (count < 0) {
+      throw new Error(`keep-n-tagged-groups entry "${line}" is negative`)
+    }
+    groups.push({ pattern, count })
+  }
+  if (groups.length === 0) {
+    throw new Error('keep-n-tagged-groups has no entries')
+  }
+  return groups
+}
+
+/**
+ * Parse a `delete-labels` / `exclude-labels` input: one `key=value`
+ * selector per line, or comma separated when `use-regex` is off (a
+ * regular expression value may contain commas). A bare `key` matches any
+ * value. The key is split off at the first `=` as label keys never
+ * contain one.
+ */
+export function parseLabelSelectors(
+  name: string,
+  value: string,
+  useRegex?: boolean
+): LabelSelector[] {
+  const selectors: LabelSelector[] = []
+  const entries = useRegex ? value.split('\n') : value.split(/[\n,]/)
+  for (const rawEntry of entries) {
+    const entry = rawEntry.trim()
+    if (!entry) continue
+    const idx = entry.indexOf('=')
+    const key = (idx >= 0 ? entry.substring(0, idx) : entry).trim()
+    if (!key) {
+      throw new Error(`${name} entry "${entry}" has no label key`)
+    }
+    if (idx < 0) {
+      selectors.push({ key })
+      continue
+    }
+    const pattern = entry.substring(idx + 1).trim()
+    if (useRegex) {
+      validateUserRegex(pattern, name)
+    }
+    selectors.push({ key, value: pattern })
+  }
+  if (selectors.length === 0) {
+    throw new Error(`${name} has no entries`)
+  }
+  return selectors
+}
+
+export function formatLabelSelectors(selectors: LabelSelector[]): string {
+  return selectors
+    .map(selector =>
+      selector.value === undefined
+        ? selector.key
+        : `${selector.key}=${selector.value}`
+    )
+    .join(', ')
+}
+
+export function formatKeepNTaggedGroups(groups: KeepNTaggedGroup[]): string {
+  return groups.map(group => `${group.pattern}=${group.count}`).join(', ')
+}
+
+/**
+ * Parse a human readable interval input (`15 days`, `6 months`) into
+ * milliseconds.
+ */
+function parseIntervalInput(name: string, value: string): number {
+  const interval = humanInterval(value)
+  // humanInterval returns undefined for unparsable strings and NaN for
+  // partially-parsed ones. Both must be treated as fatal — otherwise the
+  // filter is silently skipped at runtime.
+  if (interval == null || isNaN(interval)) {
+    // check if it has an interval type
+    const regexp = /(second|minute|hour|day|week|month|year)s?/
+    const match = value.match(regexp)
+    if (match) {
+      throw Error(`${name} value "${value}" is not a valid interval`)
+    } else {
+      throw Error(
+        `${name} value "${value}" is not a valid interval, it's missing an interval such as second, minute, hour, day, week or year`
+      )
+    }
+  }
+  return interval
+}
+
+// Decimal units as GitHub bills storage, binary ones for those who think
+// in them
+const BYTE_SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4
+}
+
+/**
+ * Parse a human readable size input (`500 MB`, `20GB`, `1.5 GiB`) into
+ * bytes. A bare number is bytes.
+ */
+export function parseByteSize(name: string, value: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(value.trim())
+  const unit = match ? (match[2] || 'b').toLowerCase() : ''
+  if (!match || BYTE_SIZE_UNITS[unit] === undefined) {
+    throw new Error(
+      `${name} value "${value}" is not a size such as 500 MB or 20 GB`
+    )
+  }
+  return Math.floor(Number(match[1]) * BYTE_SIZE_UNITS[unit])
+}
+
+/**
+ * Parse the `gfs-keep-*` inputs into `config.gfsRetention`. Each is an age
+ * window measured back from now; `forever` leaves the window open-ended.
+ * Windows must grow from `all` through `monthly` because each tier starts
+ * where the previous one ends.
+ */
+function parseGfsRetention(config: Config, inputs: RuleInputs): void {
+  const tiers: Array<[keyof GfsRetention, string, string]> = [
+    ['keepAll', 'gfs-keep-all', 'all'],
+    ['keepDaily', 'gfs-keep-daily', 'daily'],
+    ['keepWeekly', 'gfs-keep-weekly', 'weekly'],
+    ['keepMonthly', 'gfs-keep-monthly', 'monthly']
+  ]
+  const retention: GfsRetention = {}
+  const readable: string[] = []
+  let previous: { name: string; window: number } | undefined
+  for (const [key, name, label] of tiers) {
+    const value = inputs.getInput(name)
+    if (!value) continue
+    const window =
+      value.trim().toLowerCase() === 'forever'
+        ? Infinity
+        : parseIntervalInput(name, value)
+    if (previous && window <= previous.window) {
+      throw new Error(`${name} must be longer than ${previous.name}`)
+    }
+    retention[key] = window
+    readable.push(`${label} ${value.trim()}`)
+    previous = { name, window }
+  }
+  if (previous) {
+    config.gfsRetention = retention
+    config.gfsRetentionReadable = readable.join(', ')
+  }
+}
+
+/**
+ * Parse the cleanup rule options (what to delete and what to keep) from
+ * `inputs` into `config`. Used for the action inputs and for each policy
+ * file rule, so both go through the same validation.
+ */
+function parseCleanupRules(config: Config, inputs: RuleInputs): void {
+  if (inputs.getInput('tags') && inputs.getInput('delete-tags')) {
+    throw Error(
+      'tags and delete-tags cannot be used at the same time, use either one'
+    )
+  }
+  if (inputs.getInput('tags')) {
+    config.deleteTags = inputs.getInput('tags')
+  } else if (inputs.getInput('delete-tags')) {
+    config.deleteTags = inputs.getInput('delete-tags')
+  }
+
+  config.excludeTags = inputs.getInput('exclude-tags')
+
+  if (inputs.getInput('exclude-release-tags')) {
+    config.excludeReleaseTags = inputs.getBooleanInput('exclude-release-tags')
+  }
+  for (const [name, key] of [
+    ['exclude-release-drafts', 'excludeReleaseDrafts'],
+    ['exclude-release-prereleases', 'excludeReleasePrereleases']
+  ] as const) {
+    if (inputs.getInput(name)) {
+      config[key] = inputs.getBooleanInput(name)
+      if (config[key] && !config.excludeReleaseTags) {
+        throw new Error(`${name} requires exclude-release-tags`)
+      }
+    }
+  }
+
+  for (const [name, key] of [
+    ['delete-labels', 'deleteLabels'],
+    ['exclude-labels', 'excludeLabels']
+  ] as const) {
+    if (inputs.getInput(name)) {
+      config[key] = parseLabelSelectors(
+        name,
+        inputs.getInput(name),
+        config.useRegex
+      )
+    }
+  }
+
+  for (const [name, key] of [
+    ['include-artifacts', 'includeArtifacts'],
+    ['exclude-artifacts', 'excludeArtifacts']
+  ] as const) {
+    if (inputs.getInput(name)) {
+      config[key] = parseArtifactClasses(name, inputs.getInput(name))
+    }
+  }
+
+  if (inputs.getInput('delete-closed-pr-tags')) {
+    // Always a regular expression, its first capture group is the pull
+    // request number
+    const pattern = inputs.getInput('delete-closed-pr-tags')
+    validateUserRegex(pattern, 'delete-closed-pr-tags')
+    const groups = new RegExp(`${pattern}|`).exec('')
+    if (!groups || groups.length < 2) {
+      throw new Error(
+        'delete-closed-pr-tags needs a capture group for the pull request number'
+      )
+    }
+    config.deleteClosedPrTags = pattern
+  }
+
+  if (inputs.getInput('delete-stale-branch-tags')) {
+    const template = inputs.getInput('delete-stale-branch-tags')
+    const parts = template.split('{branch}')
+    if (parts.length !== 2) {
+      throw new Error(
+        'delete-stale-branch-tags must contain the {branch} placeholder once'
+      )
+    }
+    // A bare {branch} would fit every tag, releases and latest included
+    if (!parts[0] && !parts[1]) {
+      throw new Error(
+        'delete-stale-branch-tags needs a prefix or suffix around {branch}, such as branch-{branch}'
+      )
+    }
+    config.deleteStaleBranchTags = template
+  }
+
+  if (inputs.getInput('older-than')) {
+    config.olderThan = parseIntervalInput(
+      'older-than',
+      inputs.getInput('older-than')
+    )
+    // save the text version of it
+    config.olderThanReadable = inputs.getInput('older-than')
+  }
+
+  if (inputs.getInput('keep-n-tagged')) {
+    const value: number = parseInt(inputs.getInput('keep-n-tagged'))
+    if (isNaN(value)) {
+      throw new Error('keep-n-tagged is not number')
+    } else if (value < 0) {
+      throw new Error('keep-n-tagged is negative')
+    } else {
+      config.keepNtagged = value
+    }
+  }
+
+  if (inputs.getInput('keep-n-tagged-groups')) {
+    if (config.keepNtagged != null) {
+      throw new Error(
+        'keep-n-tagged and keep-n-tagged-groups cannot be set at the same time'
+      )
+    }
+    config.keepNtaggedGroups = parseKeepNTaggedGroups(
+      inputs.getInput('keep-n-tagged-groups')
+    )
+  }
+
+  if (inputs.getInput('keep-n-untagged')) {
+    const value: number = parseInt(inputs.getInput('keep-n-untagged'))
+    if (isNaN(value)) {
+      throw new Error('keep-n-untagged is not number')
+    } else if (value < 0) {
+      throw new Error('keep-n-untagged is negative')
+    } else {
+      config.keepNuntagged = value
+    }
+  }
+
+  if (inputs.getInput('semver-keep-patches')) {
+    const value: number = parseInt(inputs.getInput('semver-keep-patches'))
+    if (isNaN(value)) {
+      throw new Error('semver-keep-patches is not number')
+    } else if (value < 0) {
+      throw new Error('semver-keep-patches is negative')
+    } else {
+      config.semverKeepPatches = value
+    }
+  }
+
+  if (inputs.getInput('semver-keep-minors')) {
+    const value: number = parseInt(inputs.getInput('semver-keep-minors'))
+    if (isNaN(value)) {
+      throw new Error('semver-keep-minors is not number')
+    } else if (value < 0) {
+      throw new Error('semver-keep-minors is negative')
+    } else {
+      config.semverKeepMinors = value
+    }
+  }
+
+  parseGfsRetention(config, inputs)
+
+  if (inputs.getInput('storage-quota')) {
+    config.storageQuota = parseByteSize(
+      'storage-quota',
+      inputs.getInput('storage-quota')
+    )
+    config.storageQuotaReadable = inputs.getInput('storage-quota').trim()
+  }
+
+  if (inputs.getInput('delete-untagged')) {
+    config.deleteUntagged = inputs.getBooleanInput('delete-untagged')
+  } else {
+    // default is deleteUntagged if no options are set
+    if (
+      !inputs.getInput('tags') &&
+      !inputs.getInput('delete-tags') &&
+      !inputs.getInput('delete-closed-pr-tags') &&
+      !inputs.getInput('delete-stale-branch-tags') &&
+      !inputs.getInput('delete-labels') &&
+      !inputs.getInput('delete-ghost-images') &&
+      !inputs.getInput('delete-partial-images') &&
+      !inputs.getInput('delete-orphaned-images') &&
+      !inputs.getInput('keep-n-untagged') &&
+      !inputs.getInput('keep-n-tagged') &&
+      !inputs.getInput('keep-n-tagged-groups') &&
+      !inputs.getInput('semver-keep-patches') &&
+      !inputs.getInput('semver-keep-minors') &&
+      !inputs.getInput('storage-quota') &&
+      !config.gfsRetention
+    ) {
+      config.deleteUntagged = true
+    }
+  }
+
+  if (config.keepNuntagged != null && inputs.getInput('delete-untagged')) {
+    throw new Error(
+      'delete-untagged and keep-n-untagged cannot be set at the same time'
+    )
+  }
+
+  if (inputs.getInput('delete-ghost-images')) {
+    config.deleteGhostImages = inputs.getBooleanInput('delete-ghost-images')
+  }
+  if (inputs.getInput('delete-partial-images')) {
+    config.deletePartialImages = inputs.getBooleanInput('delete-partial-images')
+  }
+  if (inputs.getInput('delete-orphaned-images')) {
+    config.deleteOrphanedImages = inputs.getBooleanInput(
+      'delete-orphaned-images'
+    )
+  }
+
+  // When regex mode is on, validate every user-supplied pattern up front
+  // so a ReDoS-prone or absurdly long pattern fails fast with a clear
+  // message rather than burning workflow minutes inside `.test()`.
+  if (config.useRegex) {
+    if (config.deleteTags) {
+      validateUserRegex(config.deleteTags, 'delete-tags')
+    }
+    if (config.excludeTags) {
+      validateUserRegex(config.excludeTags, 'exclude-tags')
+    }
+    for (const group of config.keepNtaggedGroups ?? []) {
+      validateUserRegex(group.pattern, 'keep-n-tagged-groups')
+    }
+  }
+}
+
+function addCleanupRuleOptions(optionsMap: MapPrinter, config: Config): void {
+  if (config.deleteTags) {
+    optionsMap.add('delete-tags', config.deleteTags)
+  }
+  if (config.excludeTags) {
+    optionsMap.add('exclude-tags', config.excludeTags)
+  }
+  if (config.excludeReleaseTags !== undefined) {
+    optionsMap.add('exclude-release-tags', `${config.excludeReleaseTags}`)
+  }
+  if (config.excludeReleaseDrafts !== undefined) {
+    optionsMap.add('exclude-release-drafts', `${config.excludeReleaseDrafts}`)
+  }
+  if (config.excludeReleasePrereleases !== undefined) {
+    optionsMap.add(
+      'exclude-release-prereleases',
+      `${config.excludeReleasePrereleases}`
+    )
+  }
+  if (config.deleteLabels) {
+    optionsMap.add('delete-labels', formatLabelSelectors(config.deleteLabels))
+  }
+  if (config.excludeLabels) {
+    optionsMap.add('exclude-labels', formatLabelSelectors(config.excludeLabels))
+  }
+  if (config.includeArtifacts) {
+    optionsMap.add('include-artifacts', config.includeArtifacts.join(', '))
+  }
+  if (config.excludeArtifacts) {
+    optionsMap.add('exclude-artifacts', config.excludeArtifacts.join(', '))
+  }
+  if (config.deleteClosedPrTags) {
+    optionsMap.add('delete-closed-pr-tags', config.deleteClosedPrTags)
+  }
+  if (config.deleteStaleBranchTags) {
+    optionsMap.add('delete-stale-branch-tags', config.deleteStaleBranchTags)
+  }
+  if (config.olderThan) {
+    try {
+      const cutOff = new Date(Date.now() - config.olderThan)
+      optionsMap.add('older-than', cutOff.toUTCString())
+    } catch (error) {
+      core.info('error processing older-than value')
+      throw error
+    }
+  }
+  if (config.deleteUntagged !== undefined) {
+    optionsMap.add('delete-untagged', `${config.deleteUntagged}`)
+  }
+  if (config.deleteGhostImages !== undefined) {
+    optionsMap.add('delete-ghost-images', `${config.deleteGhostImages}`)
+  }
+  if (config.deletePartialImages !== undefined) {
+    optionsMap.add('delete-partial-images', `${config.deletePartialImages}`)
+  }
+  if (config.deleteOrphanedImages !== undefined) {
+    optionsMap.add('delete-orphaned-images', `${config.deleteOrphanedImages}`)
+  }
+  if (config.keepNtagged !== undefined) {
+    optionsMap.add('keep-n-tagged', `${config.keepNtagged}`)
+  }
+  if (config.keepNtaggedGroups !== undefined) {
+    optionsMap.add(
+      'keep-n-tagged-groups',
+      formatKeepNTaggedGroups(config.keepNtaggedGroups)
+    )
+  }
+  if (config.semverKeepPatches !== undefined) {
+    optionsMap.add('semver-keep-patches', `${config.semverKeepPatches}`)
+  }
+  if (config.semverKeepMinors !== undefined) {
+    optionsMap.add('semver-keep-minors', `${config.semverKeepMinors}`)
+  }
+  if (config.gfsRetentionReadable !== undefined) {
+    optionsMap.add('gfs-retention', config.gfsRetentionReadable)
+  }
+  if (config.keepNuntagged !== undefined) {
+    optionsMap.add('keep-n-untagged', `${config.keepNuntagged}`)
+  }
+  if (config.storageQuotaReadable !== undefined) {
+    optionsMap.add('storage-quota', config.storageQuotaReadable)
+  }
+}
+
+/**
+ * Build the config for one package from the first policy file rule whose
+ * `packages` pattern matches it. A matching rule replaces the action's
+ * cleanup inputs outright; packages no rule matches keep the action inputs.
+ */
+export function configForPackage(
+  config: Config,
+  targetPackage: string
+): Config {
+  const rule = config.policyFile?.rules.find(candidate =>
+    createTagMatcher(candidate.packages, config.useRegex)(targetPackage)
+  )
+  return rule ? applyPolicyRule(config, rule) : config
+}
+
+function applyPolicyRule(base: Config, rule: PolicyRule): Config {
+  const config = Object.assign(new Config(), base)
+  for (const field of CLEANUP_RULE_FIELDS) {
+    delete config[field]
+  }
+  config.policyRule = rule
+  try {
+    parseCleanupRules(config, {
+      getInput: name => rule.settings.get(name)?.value ?? '',
+      getBooleanInput: name => rule.settings.get(name)?.value === 'true'
+    })
+  } catch (error) {
+    // Point at the setting the message names, else at the rule itself
+    const message = (error as Error).message
+    let line = rule.line
+    for (const [name, setting] of rule.settings) {
+      if (message.startsWith(`${name} `) || message.startsWith(`${name}:`)) {
+        line = setting.line
+        break
+      }
+    }
+    throw new Error(`${base.policyFile?.path}:${line}: ${message}`)
+  }
+  return config
+}
+
+/**
+ * Log the cleanup options a package runs with, and where they came from.
+ */
+export function printEffectivePolicy(
+  config: Config,
+  targetPackage: string
+): void {
+  const optionsMap = new MapPrinter()
+  optionsMap.add(
+    'policy rule',
+    config.policyRule
+      ? `${config.policyFile?.path}:${config.policyRule.line} (packages: ${config.policyRule.packages})`
+      : 'none matched, using action inputs'
+  )
+  addCleanupRuleOptions(optionsMap, config)
+  core.info(`[${targetPackage}] effective policy:`)
+  optionsMap.print()
+}
+
+// Parse a whole, non-negative number input
+function parseCountInput(name: string): number {
+  const value = Number(core.getInput(name).trim())
+  if (!Number.isInteger(value)) {
+    throw new Error(`${name} is not number`)
+  } else if (value < 0) {
+    throw new Error(`${name} is negative`)
+  }
+  return value
+}
+
+/**
+ * Parse the plan/apply, inventory, restore, strip and prune-platforms
+ * inputs. The plan and the restore report are loaded once the owner is
+ * known.
+ */
+function parsePlanMode(config: Config): void {
+  if (core.getInput('mode')) {
+    const mode = core.getInput('mode').trim().toLowerCase()
+    if (
+      mode !== 'plan' &&
+      mode !== 'apply' &&
+      mode !== 'inventory' &&
+      mode !== 'restore' &&
+      mode !== 'strip' &&
+      mode !== 'prune-platforms'
+    ) {
+      throw new Error(
+        'mode must be plan, apply, inventory, restore, strip or prune-platforms'
+      )
+    }
+    if (mode === 'plan' || mode === 'apply') {
+      if (!core.getInput('plan-file')) {
+        throw new Error(`mode ${mode} requires plan-file`)
+      }
+      config.planFile = core.getInput('plan-file')
+    }
+    config.mode = mode
+  }
+
+  if (core.getInput('inventory-file')) {
+    if (config.mode !== 'inventory') {
+      throw new Error('inventory-file requires mode inventory')
+    }
+    config.inventoryFiles = core
+      .getInput('inventory-file')
+      .split(',')
+      .map(path => path.trim())
+      .filter(Boolean)
+  }
+
+  if (core.getInput('plan-drift')) {
+    const drift = core.getInput('plan-drift').trim().toLowerCase()
+    if (drift !== 'refuse' && drift !== 'skip') {
+      throw new Error('plan-drift must be refuse or skip')
+    }
+    if (config.mode !== 'apply') {
+      throw new Error('plan-drift requires mode apply')
+    }
+    config.planDrift = drift
+  }
+
+  parseRestoreSelection(config)
+  parseStripSelection(config)
+  parsePlatformSelection(config)
+}
+
+/**
+ * Parse what `mode: strip` removes. Attestations are stripped unless
+ * `strip-attestations` is false, in which case `strip-referrers-older-than`
+ * has to give the mode something to do.
+ */
+function parseStripSelection(config: Config): void {
+  for (const name of ['strip-attestations', 'strip-referrers-older-than']) {
+    if (core.getInput(name) && config.mode !== 'strip') {
+      throw new Error(`${name} requires mode strip`)
+    }
+  }
+  if (config.mode !== 'strip') {
+    return
+  }
+  config.stripAttestations = core.getInput('strip-attestations')
+    ? core.getBooleanInput('strip-attestations')
+    : true
+  if (core.getInput('strip-referrers-older-than')) {
+    config.stripReferrersOlderThan = parseIntervalInput(
+      'strip-referrers-older-than',
+      core.getInput('strip-referrers-older-than')
+    )
+    config.stripReferrersOlderThanReadable = core.getInput(
+      'strip-referrers-older-than'
+    )
+  }
+  if (!config.stripAttestations && !config.stripReferrersOlderThan) {
+    throw new Error(
+      'mode strip with strip-attestations false requires strip-referrers-older-than'
+    )
+  }
+}
+
+/**
+ * Parse what `mode: restore` brings back. At least one selector is
+ * required, so a restore never brings back every deleted version by
+ * accident.
+ */
+function parseRestoreSelection(config: Config): void {
+  const splitList = (name: string): string[] =>
+    core
+      .getInput(name)
+      .split(',')
+      .map(value => value.trim())
+      .filter(Boolean)
+
+  for (const name of [
+    'restore-report',
+    'restore-digests',
+    'restore-tags',
+    'restore-deleted-within'
+  ]) {
+    if (core.getInput(name) && config.mode !== 'restore') {
+      throw new Error(`${name} requires mode restore`)
+    }
+  }
+  if (config.mode !== 'restore') {
+    return
+  }
+
+  if (core.getInput('restore-report')) {
+    config.restoreReportFile = core.getInput('restore-report')
+  }
+  if (core.getInput('restore-digests')) {
+    config.restoreDigests = splitList('restore-digests')
+  }
+  if (core.getInput('restore-tags')) {
+    config.restoreTags = splitList('restore-tags')
+  }
+  if (core.getInput('restore-deleted-within')) {
+    config.restoreDeletedWithin = parseIntervalInput(
+      'restore-deleted-within',
+      core.getInput('restore-deleted-within')
+    )
+    config.restoreDeletedWithinReadable = core.getInput(
+      'restore-deleted-within'
+    )
+  }
+  if (
+    !config.restoreReportFile &&
+    !config.restoreDigests &&
+    !config.restoreTags &&
+    !config.restoreDeletedWithin
+  ) {
+    throw new Error(
+      'mode restore requires restore-report, restore-digests, restore-tags or restore-deleted-within'
+    )
+  }
+}
+
+/**
+ * Parse the platforms `mode: prune-platforms` drops: a denylist in
+ * `prune-platforms` or an allowlist in `keep-platforms`, exactly one of
+ * them.
+ */
+function parsePlatformSelection(config: Config): void {
+  for (const name of ['prune-platforms', 'keep-platforms']) {
+    if (core.getInput(name) && config.mode !== 'prune-platforms') {
+      throw new Error(`${name} requires mode prune-platforms`)
+    }
+  }
+  if (config.mode !== 'prune-platforms') {
+    return
+  }
+  if (core.getInput('prune-platforms') && core.getInput('keep-platforms')) {
+    throw new Error('prune-platforms and keep-platforms cannot both be set')
+  }
+  if (core.getInput('prune-platforms')) {
+    config.prunePlatforms = parsePlatforms(
+      'prune-platforms',
+      core.getInput('prune-platforms')
+    )
+  } else if (core.getInput('keep-platforms')) {
+    config.keepPlatforms = parsePlatforms(
+      'keep-platforms',
+      core.getInput('keep-platforms')
+    )
+  } else {
+    throw new Error(
+      'mode prune-platforms requires prune-platforms or keep-platforms'
+    )
+  }
+}
+
+// The rules that look up releases, pull requests and branches through the
+// GitHub API, which the credentials of another registry don't reach
+const GITHUB_RULE_INPUTS: Array<[string, keyof Config]> = [
+  ['exclude-release-tags', 'excludeReleaseTags'],
+  ['delete-closed-pr-tags', 'deleteClosedPrTags'],
+  ['delete-stale-branch-tags', 'deleteStaleBranchTags']
+]
+
+/**
+ * Reject the GitHub-only cleanup rules on an OCI registry.
+ *
+ * @param source - Prefix naming where the rules came from
+ */
+function checkRegistryRules(config: Config, source: string): void {
+  if (config.registryType !== 'oci') {
+    return
+  }
+  for (const [name, key] of GITHUB_RULE_INPUTS) {
+    if (config[key]) {
+      throw new Error(`${source}${name} requires registry-type ghcr`)
+    }
+  }
+}
+
+/**
+ * Parse the max-deletions circuit breaker inputs. The limits are checked
+ * against each package's plan before anything is deleted.
+ */
+function parseDeletionLimits(config: Config): void {
+  for (const [name, key] of [
+    ['max-deletions', 'maxDeletions'],
+    ['acknowledge-deletions', 'acknowledgeDeletions']
+  ] as const) {
+    if (core.getInput(name)) {
+      config[key] = parseCountInput(name)
+    }
+  }
+
+  if (core.getInput('max-deletions-percent')) {
+    const input = core.getInput('max-deletions-percent').trim()
+    const match = /^(\d+(?:\.\d+)?)\s*%?$/.exec(input)
+    const value = match ? Number(match[1]) : NaN
+    if (isNaN(value) || value > 100) {
+      throw new Error(
+        `max-deletions-percent value "${input}" is not a percentage between 0 and 100`
+      )
+    }
+    config.maxDeletionsPercent = value
+  }
+
+  if (core.getInput('max-deletions-action')) {
+    const action = core.getInput('max-deletions-action').trim().toLowerCase()
+    if (action !== 'abort' && action !== 'dry-run') {
+      throw new Error('max-deletions-action must be abort or dry-run')
+    }
+    if (config.maxDeletions == null && config.maxDeletionsPercent == null) {
+      throw new Error(
+        'max-deletions-action requires max-deletions or max-deletions-percent'
+      )
+    }
+    config.maxDeletionsAction = action
+  }
+}
+
 export async function buildConfig(): Promise<Config> {
   const token: string = core.getInput('token', { required: true })
   const config = new Config()
@@ -100,109 +1050,73 @@ export async function buildConfig(): Promise<Config> {
     }
   }
 
-  if (core.getInput('tags') && core.getInput('delete-tags')) {
-    throw Error(
-      'tags and delete-tags cannot be used at the same time, use either one'
-    )
-  }
-  if (core.getInput('tags')) {
-    config.deleteTags = core.getInput('tags')
-  } else if (core.getInput('delete-tags')) {
-    config.deleteTags = core.getInput('delete-tags')
+  if (core.getInput('use-regex')) {
+    config.useRegex = core.getBooleanInput('use-regex')
   }
 
-  config.excludeTags = core.getInput('exclude-tags')
+  parseCleanupRules(config, actionInputs)
 
-  if (core.getInput('older-than')) {
-    config.olderThan = humanInterval(core.getInput('older-than'))
-    // save the text version of it
-    config.olderThanReadable = core.getInput('older-than')
-
-    // humanInterval returns undefined for unparsable strings and NaN for
-    // partially-parsed ones. Both must be treated as fatal — otherwise the
-    // filter is silently skipped at runtime.
-    if (config.olderThan == null || isNaN(config.olderThan)) {
-      // check if it has an interval type
-      const regexp = /(second|minute|hour|day|week|month|year)s?/
-      const match = config.olderThanReadable.match(regexp)
-      if (match) {
-        throw Error(
-          `older-than value "${config.olderThanReadable}" is not a valid interval`
-        )
-      } else {
-        throw Error(
-          `older-than value "${config.olderThanReadable}" is not a valid interval, it's missing an interval such as second, minute, hour, day, week or year`
-        )
-      }
+  if (core.getInput('dry-run')) {
+    config.dryRun = core.getBooleanInput('dry-run')
+    if (config.dryRun) {
+      core.info('***** In dry run mode - No packages will be deleted *****')
     }
   }
 
-  if (core.getInput('keep-n-tagged')) {
-    const value: number = parseInt(core.getInput('keep-n-tagged'))
-    if (isNaN(value)) {
-      throw new Error('keep-n-tagged is not number')
-    } else if (value < 0) {
-      throw new Error('keep-n-tagged is negative')
-    } else {
-      config.keepNtagged = value
-    }
-  }
+  parseDeletionLimits(config)
+  parsePlanMode(config)
 
-  if (core.getInput('keep-n-untagged')) {
-    const value: number = parseInt(core.getInput('keep-n-untagged'))
-    if (isNaN(value)) {
-      throw new Error('keep-n-untagged is not number')
-    } else if (value < 0) {
-      throw new Error('keep-n-untagged is negative')
-    } else {
-      config.keepNuntagged = value
+  for (const [name, key] of [
+    ['retention-floor-tagged', 'retentionFloorTagged'],
+    ['retention-floor-images', 'retentionFloorImages']
+  ] as const) {
+    if (core.getInput(name)) {
+      config[key] = parseCountInput(name)
     }
   }
 
-  if (core.getInput('delete-untagged')) {
-    config.deleteUntagged = core.getBooleanInput('delete-untagged')
-  } else {
-    // default is deleteUntagged if no options are set
-    if (
-      !core.getInput('tags') &&
-      !core.getInput('delete-tags') &&
-      !core.getInput('delete-ghost-images') &&
-      !core.getInput('delete-partial-images') &&
-      !core.getInput('delete-orphaned-images') &&
-      !core.getInput('keep-n-untagged') &&
-      !core.getInput('keep-n-tagged')
-    ) {
-      config.deleteUntagged = true
-    }
+  if (core.getInput('explain-file')) {
+    config.explainFile = core.getInput('explain-file')
   }
 
-  if (config.keepNuntagged != null && core.getInput('delete-untagged')) {
-    throw new Error(
-      'delete-untagged and keep-n-untagged cannot be set at the same time'
-    )
+  if (core.getInput('report-file')) {
+    config.reportFile = core.getInput('report-file')
   }
 
-  if (core.getInput('delete-ghost-images')) {
-    config.deleteGhostImages = core.getBooleanInput('delete-ghost-images')
-  }
-  if (core.getInput('delete-partial-images')) {
-    config.deletePartialImages = core.getBooleanInput('delete-partial-images')
+  if (core.getInput('graph-file')) {
+    config.graphFiles = core
+      .getInput('graph-file')
+      .split(',')
+      .map(path => path.trim())
+      .filter(Boolean)
   }
-  if (core.getInput('delete-orphaned-images')) {
-    config.deleteOrphanedImages = core.getBooleanInput('delete-orphaned-images')
+
+  if (core.getInput('deletion-journal')) {
+    config.deletionJournal = core.getInput('deletion-journal').trim()
   }
 
-  if (core.getInput('dry-run')) {
-    config.dryRun = core.getBooleanInput('dry-run')
-    if (config.dryRun) {
-      core.info('***** In dry run mode - No packages will be deleted *****')
-    }
+  if (core.getInput('referrer-artifact-types')) {
+    config.referrerArtifactTypes = core
+      .getInput('referrer-artifact-types')
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean)
   }
 
   if (core.getInput('validate')) {
     config.validate = core.getBooleanInput('validate')
   }
 
+  if (core.getInput('fail-on-invalid')) {
+    config.failOnInvalid = core.getBooleanInput('fail-on-invalid')
+    if (config.failOnInvalid) {
+      if (config.validate === false) {
+        throw new Error('fail-on-invalid requires validate')
+      }
+      config.validate = true
+    }
+  }
+
   if (core.getInput('log-level')) {
     const level = core.getInput('log-level').toLowerCase()
     if (level === 'error') {
@@ -216,22 +1130,34 @@ export async function buildConfig(): Promise<Config> {
     }
   }
 
-  if (core.getInput('use-regex')) {
-    config.useRegex = core.getBooleanInput('use-regex')
+  if (config.useRegex && config.expandPackages && config.package) {
+    validateUserRegex(config.package, 'package')
   }
 
-  // When regex mode is on, validate every user-supplied pattern up front
-  // so a ReDoS-prone or absurdly long pattern fails fast with a clear
-  // message rather than burning workflow minutes inside `.test()`.
-  if (config.useRegex) {
-    if (config.deleteTags) {
-      validateUserRegex(config.deleteTags, 'delete-tags')
-    }
-    if (config.excludeTags) {
-      validateUserRegex(config.excludeTags, 'exclude-tags')
+  if (core.getInput('registry-type')) {
+    const registryType = core.getInput('registry-type').trim().toLowerCase()
+    if (registryType !== 'ghcr' && registryType !== 'oci') {
+      throw new Error('registry-type must be ghcr or oci')
     }
-    if (config.expandPackages && config.package) {
-      validateUserRegex(config.package, 'package')
+    config.registryType = registryType
+  }
+  if (core.getInput('registry-username')) {
+    config.registryUsername = core.getInput('registry-username')
+  }
+  checkRegistryRules(config, '')
+
+  if (core.getInput('policy-file')) {
+    config.policyFile = await loadPolicyFile(core.getInput('policy-file'))
+    // Resolve every rule once so a bad rule fails before any package is
+    // touched, not halfway through the run
+    for (const rule of config.policyFile.rules) {
+      if (config.useRegex) {
+        validateUserRegex(rule.packages, 'policy-file packages')
+      }
+      checkRegistryRules(
+        applyPolicyRule(config, rule),
+        `${config.policyFile.path}:${rule.line}: `
+      )
     }
   }
 
@@ -241,6 +1167,14 @@ export async function buildConfig(): Promise<Config> {
       config.registryUrl += '/'
     }
   }
+  if (config.registryType === 'oci') {
+    if (!config.registryUrl) {
+      throw new Error('registry-type oci requires registry-url')
+    }
+    if (config.mode === 'restore') {
+      throw new Error('mode restore requires registry-type ghcr')
+    }
+  }
   if (core.getInput('github-api-url')) {
     config.githubApiUrl = core.getInput('github-api-url')
     if (config.githubApiUrl.endsWith('/')) {
@@ -254,23 +1188,44 @@ export async function buildConfig(): Promise<Config> {
   if (!config.package) {
     throw new Error('package is not set')
   }
+
+  if (config.mode === 'apply' && config.planFile) {
+    config.cleanupPlan = await loadCleanupPlan(config.planFile, config.owner)
+  }
+  if (config.restoreReportFile) {
+    config.restoreReport = await loadCleanupReport(
+      config.restoreReportFile,
+      config.owner
+    )
+  }
+
+  if (core.getInput('protected-digests-file')) {
+    config.protectedInventory = await loadProtectedInventory(
+      core.getInput('protected-digests-file'),
+      new URL(config.registryUrl ?? 'https://ghcr.io/').host,
+      config.owner
+    )
+  }
   // `repository` is no longer required. It now only appears in
   // diagnostic log lines; the cleanup decision path uses `owner` + token
   // identity directly. Falls back to empty string if unset.
 
   // Identify the owner (User vs Organization) and the authenticated
-  // token's login. Endpoint selection in package-repo.ts uses these
-  // directly — no repository lookup needed. See issue #117.
-  const octokitClient = new OctokitClient(
-    config.token,
-    config.githubApiUrl,
-    config.logLevel
-  )
-  config.repoType = await octokitClient.getOwnerType(config.owner)
-  const tokenLogin = await octokitClient.getAuthenticatedUserLogin()
-  config.tokenOwnsPackage =
-    tokenLogin !== null &&
-    tokenLogin.toLowerCase() === config.owner.toLowerCase()
+  // token's login. Endpoint selection in github-packages-backend.ts uses
+  // these directly — no repository lookup needed. See issue #117. An OCI
+  // registry has no such split, and its token is not a GitHub one.
+  if (config.registryType === 'ghcr') {
+    const octokitClient = new OctokitClient(
+      config.token,
+      config.githubApiUrl,
+      config.logLevel
+    )
+    config.repoType = await octokitClient.getOwnerType(config.owner)
+    const tokenLogin = await octokitClient.getAuthenticatedUserLogin()
+    config.tokenOwnsPackage =
+      tokenLogin !== null &&
+      tokenLogin.toLowerCase() === config.owner.toLowerCase()
+  }
 
   const optionsMap = new MapPrinter()
   optionsMap.add('token owns package', `${config.tokenOwnsPackage}`)
@@ -281,45 +1236,112 @@ export async function buildConfig(): Promise<Config> {
   if (config.expandPackages !== undefined) {
     optionsMap.add('expand-packages', `${config.expandPackages}`)
   }
-  if (config.deleteTags) {
-    optionsMap.add('delete-tags', config.deleteTags)
-  }
-  if (config.excludeTags) {
-    optionsMap.add('exclude-tags', config.excludeTags)
+  addCleanupRuleOptions(optionsMap, config)
+  if (config.policyFile !== undefined) {
+    optionsMap.add('policy-file', config.policyFile.path)
   }
-  if (config.olderThan) {
-    try {
-      const cutOff = new Date(Date.now() - config.olderThan)
-      optionsMap.add('older-than', cutOff.toUTCString())
-    } catch (error) {
-      core.info('error processing older-than value')
-      throw error
+  if (config.protectedInventory !== undefined) {
+    const { path, digests, tagsByPackage } = config.protectedInventory
+    let tags = 0
+    for (const packageTags of tagsByPackage.values()) {
+      tags += packageTags.size
     }
+    optionsMap.add(
+      'protected-digests-file',
+      `${path} (${digests.size} digests, ${tags} tags)`
+    )
   }
-  if (config.deleteUntagged !== undefined) {
-    optionsMap.add('delete-untagged', `${config.deleteUntagged}`)
+  if (config.dryRun !== undefined) {
+    optionsMap.add('dry-run', `${config.dryRun}`)
   }
-  if (config.deleteGhostImages !== undefined) {
-    optionsMap.add('delete-ghost-images', `${config.deleteGhostImages}`)
+  if (
+    config.mode === 'inventory' ||
+    config.mode === 'restore' ||
+    config.mode === 'strip' ||
+    config.mode === 'prune-platforms'
+  ) {
+    optionsMap.add('mode', config.mode)
+  } else if (config.mode !== undefined) {
+    optionsMap.add('mode', `${config.mode} ${config.planFile}`)
   }
-  if (config.deletePartialImages !== undefined) {
-    optionsMap.add('delete-partial-images', `${config.deletePartialImages}`)
+  if (config.inventoryFiles !== undefined) {
+    optionsMap.add('inventory-file', config.inventoryFiles.join(', '))
   }
-  if (config.deleteOrphanedImages !== undefined) {
-    optionsMap.add('delete-orphaned-images', `${config.deleteOrphanedImages}`)
+  if (config.planDrift !== undefined) {
+    optionsMap.add('plan-drift', config.planDrift)
   }
-  if (config.keepNtagged !== undefined) {
-    optionsMap.add('keep-n-tagged', `${config.keepNtagged}`)
+  if (config.restoreReportFile !== undefined) {
+    optionsMap.add('restore-report', config.restoreReportFile)
   }
-  if (config.keepNuntagged !== undefined) {
-    optionsMap.add('keep-n-untagged', `${config.keepNuntagged}`)
+  if (config.restoreDigests !== undefined) {
+    optionsMap.add('restore-digests', config.restoreDigests.join(', '))
   }
-  if (config.dryRun !== undefined) {
-    optionsMap.add('dry-run', `${config.dryRun}`)
+  if (config.restoreTags !== undefined) {
+    optionsMap.add('restore-tags', config.restoreTags.join(', '))
+  }
+  if (config.restoreDeletedWithinReadable !== undefined) {
+    optionsMap.add(
+      'restore-deleted-within',
+      config.restoreDeletedWithinReadable
+    )
+  }
+  if (config.stripAttestations !== undefined) {
+    optionsMap.add('strip-attestations', `${config.stripAttestations}`)
+  }
+  if (config.stripReferrersOlderThanReadable !== undefined) {
+    optionsMap.add(
+      'strip-referrers-older-than',
+      config.stripReferrersOlderThanReadable
+    )
+  }
+  if (config.prunePlatforms !== undefined) {
+    optionsMap.add('prune-platforms', config.prunePlatforms.join(', '))
+  }
+  if (config.keepPlatforms !== undefined) {
+    optionsMap.add('keep-platforms', config.keepPlatforms.join(', '))
+  }
+  if (config.explainFile !== undefined) {
+    optionsMap.add('explain-file', config.explainFile)
+  }
+  if (config.reportFile !== undefined) {
+    optionsMap.add('report-file', config.reportFile)
+  }
+  if (config.graphFiles !== undefined) {
+    optionsMap.add('graph-file', config.graphFiles.join(', '))
+  }
+  if (config.maxDeletions !== undefined) {
+    optionsMap.add('max-deletions', `${config.maxDeletions}`)
+  }
+  if (config.maxDeletionsPercent !== undefined) {
+    optionsMap.add('max-deletions-percent', `${config.maxDeletionsPercent}%`)
+  }
+  if (config.maxDeletionsAction !== undefined) {
+    optionsMap.add('max-deletions-action', config.maxDeletionsAction)
+  }
+  if (config.acknowledgeDeletions !== undefined) {
+    optionsMap.add('acknowledge-deletions', `${config.acknowledgeDeletions}`)
+  }
+  if (config.retentionFloorTagged !== undefined) {
+    optionsMap.add('retention-floor-tagged', `${config.retentionFloorTagged}`)
+  }
+  if (config.retentionFloorImages !== undefined) {
+    optionsMap.add('retention-floor-images', `${config.retentionFloorImages}`)
+  }
+  if (config.deletionJournal !== undefined) {
+    optionsMap.add('deletion-journal', config.deletionJournal)
+  }
+  if (config.referrerArtifactTypes !== undefined) {
+    optionsMap.add(
+      'referrer-artifact-types',
+      config.referrerArtifactTypes.join(', ')
+    )
   }
   if (config.validate !== undefined) {
     optionsMap.add('validate', `${config.validate}`)
   }
+  if (config.failOnInvalid !== undefined) {
+    optionsMap.add('fail-on-invalid', `${config.failOnInvalid}`)
+  }
   optionsMap.add('log-level', LogLevel[config.logLevel])
 
   if (config.useRegex !== undefined) {
@@ -329,12 +1351,32 @@ export async function buildConfig(): Promise<Config> {
   if (config.registryUrl !== undefined) {
     optionsMap.add('registry-url', `${config.registryUrl}`)
   }
+  if (config.registryType !== 'ghcr') {
+    optionsMap.add('registry-type', config.registryType)
+  }
+  if (config.registryUsername !== undefined) {
+    optionsMap.add('registry-username', config.registryUsername)
+  }
   if (config.githubApiUrl !== undefined) {
     optionsMap.add('github-api-url', `${config.githubApiUrl}`)
   }
 
   core.startGroup('Runtime configuration')
   optionsMap.print()
+  // Expanded package names aren't known yet, their effective policy is
+  // printed as each one is processed
+  if (config.policyFile && !config.expandPackages) {
+    for (const targetPackage of config.package
+      .split(',')
+      .map(s => s.trim())
+      .filter(Boolean)) {
+      core.info('')
+      printEffectivePolicy(
+        configForPackage(config, targetPackage),
+        targetPackage
+      )
+    }
+  }
   core.endGroup()
 
   return config
@@ -0,0 +1,73 @@
+import fs from 'fs'
+import { PackageRepo } from './package-repo.js'
+
+export interface DigestTrace {
+  tags: string[]
+  // Each cleanup step that touched the image, in order
+  steps: string[]
+  verdict: string
+}
+
+// Package name → digest → its trace
+export type CleanupTrace = Record<string, Record<string, DigestTrace>>
+
+/**
+ * Per-digest record of the cleanup steps that touched each image of one
+ * package, for `explain-file`. The filters, the manifest analysis, the
+ * deletion rules and the orchestrator each record what they did to an
+ * image, and the orchestrator sets the final verdict.
+ *
+ * A reload (after untagging, or for validation) runs the same steps again,
+ * so a step already recorded for a digest is not repeated.
+ */
+export class DecisionTrace {
+  private steps = new Map<string, string[]>()
+  private verdicts = new Map<string, string>()
+
+  record(digest: string, step: string): void {
+    let steps = this.steps.get(digest)
+    if (!steps) {
+      steps = []
+      this.steps.set(digest, steps)
+    }
+    if (!steps.includes(step)) {
+      steps.push(step)
+    }
+  }
+
+  setVerdict(digest: string, verdict: string): void {
+    this.verdicts.set(digest, verdict)
+  }
+
+  /**
+   * The trace of every version in the package, including those no step
+   * touched.
+   */
+  build(packageRepo: PackageRepo): Record<string, DigestTrace> {
+    const trace: Record<string, DigestTrace> = {}
+    for (const digest of packageRepo.getDigests()) {
+      trace[digest] = {
+        tags: [
+          ...(packageRepo.getPackageByDigest(digest)?.metadata.container.tags ??
+            [])
+        ],
+        steps: this.steps.get(digest) ?? [],
+        verdict: this.verdicts.get(digest) ?? 'kept'
+      }
+    }
+    return trace
+  }
+}
+
+export async function writeCleanupTrace(
+  path: string,
+  trace: CleanupTrace
+): Promise<void> {
+  try {
+    await fs.promises.writeFile(path, `${JSON.stringify(trace, null, 2)}\n`)
+  } catch (error) {
+    throw new Error(
+      `explain-file ${path} could not be written: ${(error as Error).message}`
+    )
+  }
+}
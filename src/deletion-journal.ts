@@ -0,0 +1,214 @@
+import * as core from '@actions/core'
+import * as cache from '@actions/cache'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+// Bump when the journal shape changes, old entries are then ignored
+const JOURNAL_FORMAT_VERSION = 1
+
+export interface JournalVersion {
+  digest: string
+  id: number
+}
+
+/**
+ * One top-level deletion: the image of the delete set first, then the
+ * platform images and referrers deleted along with it.
+ */
+export interface JournalTree {
+  root: string
+  versions: JournalVersion[]
+}
+
+// Package name → its unfinished trees
+interface JournalFile {
+  version: number
+  packages: Record<string, JournalTree[]>
+}
+
+/**
+ * Journal of the deletions of one package, for `deletion-journal`.
+ *
+ * Every tree is recorded before deleteImages starts and dropped once its
+ * parent and all its children are gone. A run that dies midway leaves the
+ * unfinished trees behind, and the next run completes those whose parent
+ * is already deleted before it plans anything new.
+ *
+ * The journal lives in a local file, which may hold every package, or
+ * with `deletion-journal: cache` in the Actions cache. Cache entries are
+ * immutable, so each save goes under a fresh key (run id, attempt, a
+ * count of the saves and phase) and restore picks the most recent through
+ * the key prefix, like
+ * ManifestCache. The planned trees are saved before the first delete, so
+ * even a runner that is lost outright leaves them for the next run.
+ */
+export class DeletionJournal {
+  private packageName: string
+  private trees = new Map<string, JournalTree>()
+  // Trees of the other packages sharing a local journal file
+  private others: Record<string, JournalTree[]> = {}
+  private journalPath: string
+  private useCache: boolean
+  private keyPrefix: string
+  private runKey: string
+  // Saves made to the cache, as a run can begin and finish more than once
+  private saves = 0
+
+  /**
+   * @param location - `cache`, or the path of the journal file
+   */
+  constructor(owner: string, packageName: string, location: string) {
+    this.packageName = packageName
+    const safePackage = packageName.replace(/[^a-zA-Z0-9._-]/g, '_')
+    this.useCache = location === 'cache'
+    if (this.useCache) {
+      const root = process.env.RUNNER_TEMP || os.tmpdir()
+      this.journalPath = path.join(
+        root,
+        'ghcr-cleanup-deletion-journal',
+        `${owner}-${safePackage}`,
+        'journal.json'
+      )
+    } else {
+      this.journalPath = location
+    }
+    this.keyPrefix = `ghcr-journal-v${JOURNAL_FORMAT_VERSION}-${owner}-${safePackage}-`
+    const runId = process.env.GITHUB_RUN_ID || `${Date.now()}`
+    this.runKey = `${this.keyPrefix}${runId}-${process.env.GITHUB_RUN_ATTEMPT || '1'}`
+  }
+
+  /**
+   * Load the trees a previous run left unfinished.
+   */
+  async restore(): Promise<void> {
+    this.trees.clear()
+    this.others = {}
+    if (this.useCache) {
+      if (!cache.isFeatureAvailable()) {
+        core.warning(
+          'deletion journal: @actions/cache unavailable, the journal only lasts this run'
+        )
+        return
+      }
+      try {
+        await fs.promises.mkdir(path.dirname(this.journalPath), {
+          recursive: true
+        })
+        const hitKey = await cache.restoreCache(
+          [path.dirname(this.journalPath)],
+          this.runKey,
+          [this.keyPrefix]
+        )
+        if (!hitKey) return
+      } catch (error) {
+        core.warning(
+          `deletion journal: restore failed (${(error as Error).message}); continuing`
+        )
+        return
+      }
+    }
+
+    let journal: JournalFile
+    try {
+      journal = JSON.parse(await fs.promises.readFile(this.journalPath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return
+      }
+      throw new Error(
+        `deletion-journal ${this.journalPath} could not be read: ${(error as Error).message}`
+      )
+    }
+    if (journal?.version !== JOURNAL_FORMAT_VERSION || !journal.packages) {
+      core.warning(
+        `deletion journal: ${this.journalPath} has an unknown format, ignoring it`
+      )
+      return
+    }
+    for (const [name, trees] of Object.entries(journal.packages)) {
+      if (name !== this.packageName) {
+        this.others[name] = trees
+      }
+    }
+    for (const tree of journal.packages[this.packageName] ?? []) {
+      this.trees.set(tree.root, tree)
+    }
+  }
+
+  getPendingTrees(): JournalTree[] {
+    return [...this.trees.values()]
+  }
+
+  /**
+   * Record the trees about to be deleted, and save them before the first
+   * delete.
+   */
+  async begin(trees: JournalTree[]): Promise<void> {
+    for (const tree of trees) {
+      this.trees.set(tree.root, tree)
+    }
+    await this.write()
+    await this.upload('planned')
+  }
+
+  /**
+   * A tree is fully deleted.
+   */
+  async complete(root: string): Promise<void> {
+    if (this.trees.delete(root)) {
+      await this.write()
+    }
+  }
+
+  /**
+   * Save what is left unfinished, nothing after a clean run.
+   */
+  async finish(): Promise<void> {
+    await this.write()
+    await this.upload('done')
+  }
+
+  private async write(): Promise<void> {
+    const journal: JournalFile = {
+      version: JOURNAL_FORMAT_VERSION,
+      packages: { ...this.others }
+    }
+    if (this.trees.size > 0) {
+      journal.packages[this.packageName] = [...this.trees.values()]
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(this.journalPath), {
+        recursive: true
+      })
+      await fs.promises.writeFile(
+        this.journalPath,
+        `${JSON.stringify(journal, null, 2)}\n`
+      )
+    } catch (error) {
+      throw new Error(
+        `deletion-journal ${this.journalPath} could not be written: ${(error as Error).message}`
+      )
+    }
+  }
+
+  private async upload(phase: 'planned' | 'done'): Promise<void> {
+    if (!this.useCache || !cache.isFeatureAvailable()) {
+      return
+    }
+    const key = `${this.runKey}-${++this.saves}-${phase}`
+    try {
+      const cacheId = await cache.saveCache(
+        [path.dirname(this.journalPath)],
+        key
+      )
+      if (cacheId === -1) {
+        core.warning(`deletion journal: ${key} could not be saved`)
+      }
+    } catch (error) {
+      core.warning(
+        `deletion journal: save failed (${(error as Error).message}); continuing`
+      )
+    }
+  }
+}
@@ -1,7 +1,15 @@
+import * as core from '@actions/core'
 import { CleanupContext, DeletionPlan } from './cleanup-types.js'
 import { ImageFilter } from './image-filter.js'
 import { LogLevel } from './config.js'
-import { GhPackage, logListing } from './utils.js'
+import { StorageUsage, formatBytes } from './storage-usage.js'
+import {
+  createTagMatcher,
+  GhPackage,
+  logListing,
+  parseSemverTag,
+  SemverTag
+} from './utils.js'
 
 export class DeletionStrategy {
   private context: CleanupContext
@@ -25,25 +33,45 @@ export class DeletionStrategy {
    * reports what it found.
    *
    * @see CleanupOrchestrator.run — search "gate the untag operations"
+   *
+   * @param closedPrTags - Tags of closed pull requests found by
+   *   ImageFilter.applyPullRequestFilter, deleted alongside the
+   *   `delete-tags` matches.
+   * @param staleBranchTags - Tags of deleted branches found by
+   *   ImageFilter.findStaleBranchTags, handled the same way.
    */
   async processTagDeletions(
     filterSet: Set<string>,
-    excludeTags: string[]
+    excludeTags: string[],
+    closedPrTags = new Set<string>(),
+    staleBranchTags = new Set<string>()
   ): Promise<DeletionPlan> {
     const plan: DeletionPlan = {
       deleteSet: new Set<string>(),
       untagOperations: new Map<string, string[]>()
     }
 
-    if (!this.context.config.deleteTags) {
+    const queuedTags = new Set([...closedPrTags, ...staleBranchTags])
+    if (!this.context.config.deleteTags && queuedTags.size === 0) {
       return plan
     }
 
     const matchTags = this.imageFilter.expandTags(filterSet)
+    for (const tag of queuedTags) {
+      matchTags.add(tag)
+    }
+    const selectors = [this.context.config.deleteTags]
+    if (closedPrTags.size > 0) {
+      selectors.push('closed pull requests')
+    }
+    if (staleBranchTags.size > 0) {
+      selectors.push('deleted branches')
+    }
+    const selector = selectors.filter(Boolean).join(', ')
 
     if (matchTags.size === 0) {
       logListing(
-        `[${this.context.targetPackage}] Finding tagged images to delete: ${this.context.config.deleteTags}`,
+        `[${this.context.targetPackage}] Finding tagged images to delete: ${selector}`,
         [],
         {
           debug: this.context.config.logLevel >= LogLevel.DEBUG,
@@ -73,6 +101,10 @@ export class DeletionStrategy {
             }
             if (ghPackage.metadata.container.tags.length > 1) {
               untaggingTags.add(tag)
+              this.context.trace?.record(
+                manifestDigest,
+                `tag ${tag} matches the tag deletions, untag as the image has other tags`
+              )
               if (!plan.untagOperations.has(manifestDigest)) {
                 plan.untagOperations.set(manifestDigest, [])
               }
@@ -88,25 +120,35 @@ export class DeletionStrategy {
       }
     }
 
-    // Process standard deletions - only if keep-n-tagged is not set
-    // When keep-n-tagged IS set, it will handle ALL tagged deletions later
-    if (standardTags.size > 0 && this.context.config.keepNtagged == null) {
-      const lines: string[] = []
-      for (const tag of standardTags) {
-        lines.push(tag)
-        let manifestDigest: string | undefined
-        if (tag.startsWith('sha256:')) {
-          manifestDigest = tag
-        } else {
-          manifestDigest = this.context.packageRepo.getDigestByTag(tag)
-        }
-        if (manifestDigest) {
-          plan.deleteSet.add(manifestDigest)
-          filterSet.delete(manifestDigest)
-        }
+    // Process standard deletions - only for tags keep-n-tagged doesn't
+    // cover. Flat keep-n-tagged covers every tag; keep-n-tagged-groups
+    // cover the tags matching one of their patterns. Covered tags are
+    // handled by keepNTagged later so their keep window is honoured.
+    // A closed pull request's or deleted branch's tag is deleted
+    // regardless.
+    const keepNCovers = this.keepNTaggedCoverage()
+    const lines: string[] = []
+    for (const tag of standardTags) {
+      if (keepNCovers(tag) && !queuedTags.has(tag)) continue
+      lines.push(tag)
+      let manifestDigest: string | undefined
+      if (tag.startsWith('sha256:')) {
+        manifestDigest = tag
+      } else {
+        manifestDigest = this.context.packageRepo.getDigestByTag(tag)
+      }
+      if (manifestDigest) {
+        plan.deleteSet.add(manifestDigest)
+        filterSet.delete(manifestDigest)
+        this.context.trace?.record(
+          manifestDigest,
+          `tag ${tag} matches the tag deletions`
+        )
       }
+    }
+    if (lines.length > 0) {
       logListing(
-        `[${this.context.targetPackage}] Find tagged images to delete: ${this.context.config.deleteTags}`,
+        `[${this.context.targetPackage}] Find tagged images to delete: ${selector}`,
         lines,
         { debug: this.context.config.logLevel >= LogLevel.DEBUG }
       )
@@ -145,6 +187,14 @@ export class DeletionStrategy {
         return Date.parse(b.updated_at) - Date.parse(a.updated_at)
       })
 
+      for (const [index, ghPackage] of unTaggedPackages.entries()) {
+        const keep = index < this.context.config.keepNuntagged
+        this.context.trace?.record(
+          ghPackage.name,
+          `keep-n-untagged rank ${index + 1}: ${keep ? 'keep' : 'delete'}`
+        )
+      }
+
       if (unTaggedPackages.length > this.context.config.keepNuntagged) {
         const deletePackages = unTaggedPackages.splice(
           this.context.config.keepNuntagged
@@ -170,69 +220,118 @@ export class DeletionStrategy {
   }
 
   /**
-   * Keep N tagged images
+   * Keep N tagged images. With `keep-n-tagged-groups` each group is ranked
+   * on its own and an image survives if any group it belongs to keeps it;
+   * images matching no group are left to the other rules.
    */
   keepNTagged(filterSet: Set<string>): Set<string> {
     const deleteSet = new Set<string>()
+    const groups = this.keepNTaggedGroups()
 
-    if (this.context.config.keepNtagged == null) {
+    if (groups.length === 0) {
       return deleteSet
     }
 
-    const taggedPackages = this.collectKeepNTaggedCandidates(filterSet)
-    const lines: string[] = []
+    // Heads first, so a tail entry in one group can be checked against
+    // every other group's keep set before it is staged.
+    const ranked = groups.map(group => ({
+      group,
+      candidates: this.collectKeepNTaggedCandidates(filterSet, group.pattern)
+    }))
+    const keepSet = new Set<string>()
+    for (const { group, candidates } of ranked) {
+      for (const pkg of candidates.slice(0, group.count)) {
+        keepSet.add(pkg.name)
+      }
+    }
 
-    if (taggedPackages.length > this.context.config.keepNtagged) {
-      const deletePackages = taggedPackages.splice(
-        this.context.config.keepNtagged
-      )
-      for (const deletePackage of deletePackages) {
-        deleteSet.add(deletePackage.name)
-        filterSet.delete(deletePackage.name)
-        const ghPackage = this.context.packageRepo.getPackageByDigest(
-          deletePackage.name
+    for (const { group, candidates } of ranked) {
+      const matching = group.pattern != null ? ` matching ${group.pattern}` : ''
+      for (const [index, candidate] of candidates.entries()) {
+        const keep = index < group.count
+        this.context.trace?.record(
+          candidate.name,
+          `keep-n-tagged${matching} rank ${index + 1}: ${keep ? 'keep' : 'delete'}`
         )
-        if (!ghPackage) {
-          throw new Error(
-            `cache invariant: digest ${deletePackage.name} not in package cache`
+      }
+
+      const lines: string[] = []
+      for (const deletePackage of candidates.slice(group.count)) {
+        const tags = deletePackage.metadata.container.tags
+        if (keepSet.has(deletePackage.name)) {
+          lines.push(
+            `${deletePackage.name} ${tags} (kept by another keep-n-tagged group)`
           )
+          continue
         }
-        lines.push(`${deletePackage.name} ${ghPackage.metadata.container.tags}`)
+        deleteSet.add(deletePackage.name)
+        filterSet.delete(deletePackage.name)
+        lines.push(`${deletePackage.name} ${tags}`)
       }
-    }
 
-    logListing(
-      `[${this.context.targetPackage}] Finding tagged images to delete, keeping ${this.context.config.keepNtagged} versions`,
-      lines,
-      {
-        debug: this.context.config.logLevel >= LogLevel.DEBUG,
-        emptyMessage: 'no tagged images found to delete'
-      }
-    )
+      logListing(
+        `[${this.context.targetPackage}] Finding tagged images${matching} to delete, keeping ${group.count} versions`,
+        lines,
+        {
+          debug: this.context.config.logLevel >= LogLevel.DEBUG,
+          emptyMessage: 'no tagged images found to delete'
+        }
+      )
+    }
 
     return deleteSet
   }
 
   /**
    * Returns the set of digests that keep-n-tagged would protect — i.e. the
-   * top-N most recent images among the keep-n-tagged candidate set. Used by
-   * the orchestrator to gate untag operations so that a multi-tagged image
-   * in the keep set doesn't have a matched tag stripped before keep-n-tagged
-   * is consulted.
+   * top-N most recent images among the keep-n-tagged candidate set, unioned
+   * across every keep-n-tagged group. Used by the orchestrator to gate
+   * untag operations so that a multi-tagged image in any keep set doesn't
+   * have a matched tag stripped before keep-n-tagged is consulted.
    */
   computeKeepNTaggedDigests(filterSet: Set<string>): Set<string> {
     const keepSet = new Set<string>()
-    if (this.context.config.keepNtagged == null) {
-      return keepSet
-    }
-    const candidates = this.collectKeepNTaggedCandidates(filterSet)
-    const kept = candidates.slice(0, this.context.config.keepNtagged)
-    for (const pkg of kept) {
-      keepSet.add(pkg.name)
+    for (const group of this.keepNTaggedGroups()) {
+      const candidates = this.collectKeepNTaggedCandidates(
+        filterSet,
+        group.pattern
+      )
+      for (const pkg of candidates.slice(0, group.count)) {
+        keepSet.add(pkg.name)
+      }
     }
     return keepSet
   }
 
+  /**
+   * Returns a predicate telling whether a tag falls under a keep-n-tagged
+   * rule, in which case keep-n-tagged owns its deletion rather than
+   * processTagDeletions.
+   */
+  private keepNTaggedCoverage(): (tag: string) => boolean {
+    const matchers = this.keepNTaggedGroups().map(group =>
+      group.pattern != null
+        ? createTagMatcher(group.pattern, this.context.config.useRegex)
+        : () => true
+    )
+    return tag => matchers.some(matches => matches(tag))
+  }
+
+  /**
+   * Normalise the two keep-n-tagged forms into a list of buckets. The flat
+   * `keep-n-tagged` count is a single bucket with no pattern (every tagged
+   * image is a candidate).
+   */
+  private keepNTaggedGroups(): Array<{ pattern?: string; count: number }> {
+    if (this.context.config.keepNtaggedGroups) {
+      return this.context.config.keepNtaggedGroups
+    }
+    if (this.context.config.keepNtagged != null) {
+      return [{ count: this.context.config.keepNtagged }]
+    }
+    return []
+  }
+
   /**
    * Collect the candidate set for keep-n-tagged, deduplicated by digest, and
    * sorted newest-first. Shared by keepNTagged() (which deletes the tail) and
@@ -241,14 +340,25 @@ export class DeletionStrategy {
    * Dedup matters because the delete-tags branch walks per-tag and would
    * otherwise enter the same image N times when an image has N matched tags —
    * wrongly making each tag count as a separate keep-set slot.
+   *
+   * @param pattern - Restrict candidates to images with a tag matching this
+   *   keep-n-tagged group pattern. Omitted for the flat keep-n-tagged form.
    */
-  private collectKeepNTaggedCandidates(filterSet: Set<string>): GhPackage[] {
+  private collectKeepNTaggedCandidates(
+    filterSet: Set<string>,
+    pattern?: string
+  ): GhPackage[] {
     const byDigest = new Map<string, GhPackage>()
+    const inGroup =
+      pattern != null
+        ? createTagMatcher(pattern, this.context.config.useRegex)
+        : () => true
 
     if (this.context.config.deleteTags != null) {
       // Apply keep-n mode only on the supplied/expanded tags
       const matchTags = this.imageFilter.expandTags(filterSet)
       for (const tag of matchTags) {
+        if (!inGroup(tag)) continue
         const digest = this.context.packageRepo.getDigestByTag(tag)
         if (digest && !byDigest.has(digest)) {
           const ghPackage = this.context.packageRepo.getPackageByDigest(digest)
@@ -270,7 +380,7 @@ export class DeletionStrategy {
             `cache invariant: digest ${digest} not in package cache`
           )
         }
-        if (ghPackage.metadata.container.tags.length > 0) {
+        if (ghPackage.metadata.container.tags.some(tag => inGroup(tag))) {
           byDigest.set(digest, ghPackage)
         }
       }
@@ -283,6 +393,393 @@ export class DeletionStrategy {
     return taggedPackages
   }
 
+  /**
+   * Semver retention: among images carrying `vMAJOR.MINOR.PATCH` tags,
+   * keep the newest `semver-keep-minors` minor lines of each major and the
+   * newest `semver-keep-patches` patches of each kept minor. Either limit
+   * may be unset, meaning "keep all" at that level.
+   *
+   * Ranking is by version, not by `updated_at` — a re-pushed v1.2.3 does
+   * not outrank v1.2.4. An image is only deleted when every tag on it is
+   * a semver tag that fell outside the keep window; anything else on the
+   * image (`latest`, a kept sibling version) pins it, and non-semver tags
+   * are otherwise left to the other rules.
+   */
+  keepSemver(filterSet: Set<string>): Set<string> {
+    const deleteSet = new Set<string>()
+    const keepPatches = this.context.config.semverKeepPatches
+    const keepMinors = this.context.config.semverKeepMinors
+
+    if (keepPatches == null && keepMinors == null) {
+      return deleteSet
+    }
+
+    const candidates: Array<SemverTag & { digest: string }> = []
+    for (const digest of filterSet) {
+      const ghPackage = this.context.packageRepo.getPackageByDigest(digest)
+      if (!ghPackage) {
+        throw new Error(
+          `cache invariant: digest ${digest} not in package cache`
+        )
+      }
+      for (const tag of ghPackage.metadata.container.tags) {
+        const semver = parseSemverTag(tag)
+        if (semver) {
+          candidates.push({ ...semver, digest })
+        }
+      }
+    }
+    candidates.sort(
+      (a, b) => b.major - a.major || b.minor - a.minor || b.patch - a.patch
+    )
+
+    // Walk highest version first, ranking each distinct minor within its
+    // major and each distinct patch within its minor. Tags that resolve
+    // to the same version (`v1.2.3` and `1.2.3`) share a rank.
+    const verdicts = new Map<string, { keep: boolean; reason: string }>()
+    let minorRank = 0
+    let patchRank = 0
+    let previous: SemverTag | undefined
+    for (const candidate of candidates) {
+      const { major, minor } = candidate
+      if (previous && major === previous.major) {
+        if (minor !== previous.minor) {
+          minorRank++
+          patchRank = 0
+        } else if (candidate.patch !== previous.patch) {
+          patchRank++
+        }
+      } else {
+        minorRank = 0
+        patchRank = 0
+      }
+      previous = candidate
+
+      if (keepMinors != null && minorRank >= keepMinors) {
+        verdicts.set(candidate.tag, {
+          keep: false,
+          reason: `minor ${major}.${minor} is beyond the newest ${keepMinors} of ${major}.x`
+        })
+      } else if (keepPatches != null && patchRank >= keepPatches) {
+        verdicts.set(candidate.tag, {
+          keep: false,
+          reason: `patch ${patchRank + 1} of ${major}.${minor} is beyond the newest ${keepPatches}`
+        })
+      } else {
+        verdicts.set(candidate.tag, {
+          keep: true,
+          reason:
+            keepPatches != null
+              ? `patch ${patchRank + 1} of ${keepPatches} in ${major}.${minor}`
+              : `minor ${minorRank + 1} of ${keepMinors} in ${major}.x`
+        })
+      }
+    }
+
+    // An image is only deletable once every tag on it has been voted
+    // out — a kept sibling version or any non-semver tag pins it.
+    const lines: string[] = []
+    for (const { tag, digest } of candidates) {
+      const verdict = verdicts.get(tag)
+      if (!verdict) continue
+      if (verdict.keep) {
+        lines.push(`${tag} ${digest} keep: ${verdict.reason}`)
+        this.context.trace?.record(
+          digest,
+          `semver ${tag} keep: ${verdict.reason}`
+        )
+        continue
+      }
+      const ghPackage = this.context.packageRepo.getPackageByDigest(digest)
+      const pinnedBy = (ghPackage?.metadata.container.tags ?? []).filter(
+        other => verdicts.get(other)?.keep !== false
+      )
+      if (pinnedBy.length > 0) {
+        lines.push(
+          `${tag} ${digest} keep: ${verdict.reason}, but the image is also tagged ${pinnedBy}`
+        )
+        this.context.trace?.record(
+          digest,
+          `semver ${tag} keep: ${verdict.reason}, but the image is also tagged ${pinnedBy}`
+        )
+      } else {
+        deleteSet.add(digest)
+        filterSet.delete(digest)
+        lines.push(`${tag} ${digest} delete: ${verdict.reason}`)
+        this.context.trace?.record(
+          digest,
+          `semver ${tag} delete: ${verdict.reason}`
+        )
+      }
+    }
+
+    const limits: string[] = []
+    if (keepMinors != null) {
+      limits.push(`${keepMinors} minors per major`)
+    }
+    if (keepPatches != null) {
+      limits.push(`${keepPatches} patches per minor`)
+    }
+    logListing(
+      `[${this.context.targetPackage}] Finding semver tagged images to delete, keeping ${limits.join(' and ')}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no semver tagged images found'
+      }
+    )
+
+    return deleteSet
+  }
+
+  /**
+   * Grandfather-father-son retention over every top-level image in the
+   * filter set, tagged or untagged. Ages are measured from `updated_at`;
+   * an image younger than `gfs-keep-all` is kept outright, otherwise it
+   * falls into the daily, weekly or monthly tier whose window it is
+   * within, and only the newest image of each calendar day / week / month
+   * (UTC) in that tier survives. Images older than every window go.
+   *
+   * Child platform manifests and referrers aren't in the filter set, so
+   * they follow their parent through the ImageDeleter cascade; exclude-tags
+   * matches were removed from the filter set before we get here.
+   */
+  gfsRetention(filterSet: Set<string>): Set<string> {
+    const deleteSet = new Set<string>()
+    const retention = this.context.config.gfsRetention
+
+    if (!retention) {
+      return deleteSet
+    }
+
+    const tiers: Array<{
+      window: number | undefined
+      name: string
+      bucket: (date: Date) => string
+    }> = [
+      { window: retention.keepDaily, name: 'daily', bucket: dayBucket },
+      { window: retention.keepWeekly, name: 'weekly', bucket: weekBucket },
+      { window: retention.keepMonthly, name: 'monthly', bucket: monthBucket }
+    ]
+
+    const packages: GhPackage[] = []
+    for (const digest of filterSet) {
+      const ghPackage = this.context.packageRepo.getPackageByDigest(digest)
+      if (!ghPackage) {
+        throw new Error(
+          `cache invariant: digest ${digest} not in package cache`
+        )
+      }
+      packages.push(ghPackage)
+    }
+    // Newest first, so the first image seen in a bucket is its keeper.
+    packages.sort((a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at))
+
+    const now = Date.now()
+    const keepers = new Map<string, string>()
+    const lines: string[] = []
+    for (const ghPackage of packages) {
+      const updated = new Date(ghPackage.updated_at)
+      const age = now - updated.getTime()
+      const tags = ghPackage.metadata.container.tags
+      const label =
+        tags.length > 0 ? `${ghPackage.name} ${tags}` : ghPackage.name
+
+      let decision: string
+      const tier = tiers.find(t => t.window !== undefined && age < t.window)
+      if (retention.keepAll !== undefined && age < retention.keepAll) {
+        decision = 'keep: younger than gfs-keep-all'
+      } else if (!tier) {
+        deleteSet.add(ghPackage.name)
+        filterSet.delete(ghPackage.name)
+        decision = 'delete: older than every retention window'
+      } else {
+        const bucket = `${tier.name} ${tier.bucket(updated)}`
+        const keeper = keepers.get(bucket)
+        if (keeper) {
+          deleteSet.add(ghPackage.name)
+          filterSet.delete(ghPackage.name)
+          decision = `delete: ${bucket} is kept by ${keeper}`
+        } else {
+          keepers.set(bucket, ghPackage.name)
+          decision = `keep: newest in ${bucket}`
+        }
+      }
+      lines.push(`${label} ${decision}`)
+      this.context.trace?.record(ghPackage.name, `gfs ${decision}`)
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Finding images to delete by GFS retention: ${this.context.config.gfsRetentionReadable}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no images found'
+      }
+    )
+
+    return deleteSet
+  }
+
+  /**
+   * Delete the oldest images of the filter set until the package's storage
+   * fits `storage-quota`. `usage` accounts for the blobs images share, so
+   * an image only counts for what its deletion actually frees; the images
+   * other rules already staged in `deleteSet` are released first.
+   *
+   * Runs after every other rule, so the quota takes precedence over the
+   * keep rules, but exclude-tags matches, pinned and protected images and
+   * those younger than older-than are never in the filter set.
+   */
+  storageQuota(
+    filterSet: Set<string>,
+    deleteSet: Set<string>,
+    usage: StorageUsage
+  ): Set<string> {
+    const quotaDeleteSet = new Set<string>()
+    const quota = this.context.config.storageQuota
+
+    if (quota == null) {
+      return quotaDeleteSet
+    }
+
+    for (const digest of deleteSet) {
+      usage.releaseImage(digest)
+    }
+
+    const packages: GhPackage[] = []
+    for (const digest of filterSet) {
+      const ghPackage = this.context.packageRepo.getPackageByDigest(digest)
+      if (!ghPackage) {
+        throw new Error(
+          `cache invariant: digest ${digest} not in package cache`
+        )
+      }
+      packages.push(ghPackage)
+    }
+    // Oldest first
+    packages.sort((a, b) => Date.parse(a.updated_at) - Date.parse(b.updated_at))
+
+    const used = usage.bytes
+    const lines: string[] = []
+    for (const ghPackage of packages) {
+      if (usage.bytes <= quota) break
+      const freed = usage.releaseImage(ghPackage.name)
+      quotaDeleteSet.add(ghPackage.name)
+      filterSet.delete(ghPackage.name)
+      const tags = ghPackage.metadata.container.tags
+      const label =
+        tags.length > 0 ? `${ghPackage.name} ${tags}` : ghPackage.name
+      lines.push(
+        `${label} frees ${formatBytes(freed)}, ${formatBytes(usage.bytes)} left`
+      )
+      this.context.trace?.record(
+        ghPackage.name,
+        `storage-quota delete: frees ${formatBytes(freed)}`
+      )
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Finding images to delete by storage quota: ${this.context.config.storageQuotaReadable}, ${formatBytes(used)} used`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'package is within its quota'
+      }
+    )
+    if (usage.bytes > quota) {
+      core.warning(
+        `[${this.context.targetPackage}] still over storage-quota with ${formatBytes(usage.bytes)} used, no other images may be deleted`
+      )
+    }
+
+    return quotaDeleteSet
+  }
+
+  /**
+   * Hold the package to its retention floor: at least
+   * `retention-floor-tagged` tagged images and `retention-floor-images`
+   * images overall must survive the cleanup. The newest staged images are
+   * taken back out of `deleteSet` until both hold, tagged ones first for
+   * the tagged floor.
+   *
+   * @param images - Every top-level image of the package
+   * @param deleteSet - The images staged for deletion by the rules
+   * @param sources - The rule that staged each image, for the log
+   * @returns the images to keep after all
+   */
+  retentionFloor(
+    images: Set<string>,
+    deleteSet: Set<string>,
+    sources: Map<string, string>
+  ): Set<string> {
+    const reverted = new Set<string>()
+    const minTagged = this.context.config.retentionFloorTagged ?? 0
+    const minImages = this.context.config.retentionFloorImages ?? 0
+
+    let tagged = 0
+    let total = 0
+    const staged: GhPackage[] = []
+    for (const digest of images) {
+      const ghPackage = this.context.packageRepo.getPackageByDigest(digest)
+      if (!ghPackage) {
+        throw new Error(
+          `cache invariant: digest ${digest} not in package cache`
+        )
+      }
+      if (deleteSet.has(digest)) {
+        staged.push(ghPackage)
+      } else {
+        total++
+        if (ghPackage.metadata.container.tags.length > 0) {
+          tagged++
+        }
+      }
+    }
+    // Newest first
+    staged.sort((a, b) => Date.parse(b.updated_at) - Date.parse(a.updated_at))
+
+    const lines: string[] = []
+    const revert = (ghPackage: GhPackage): void => {
+      const tags = ghPackage.metadata.container.tags
+      reverted.add(ghPackage.name)
+      total++
+      if (tags.length > 0) {
+        tagged++
+      }
+      const label =
+        tags.length > 0 ? `${ghPackage.name} ${tags}` : ghPackage.name
+      lines.push(`${label} staged by ${sources.get(ghPackage.name)}`)
+      this.context.trace?.record(
+        ghPackage.name,
+        `kept back by the retention floor`
+      )
+    }
+    for (const ghPackage of staged) {
+      if (tagged >= minTagged) break
+      if (ghPackage.metadata.container.tags.length > 0) {
+        revert(ghPackage)
+      }
+    }
+    for (const ghPackage of staged) {
+      if (total >= minImages) break
+      if (!reverted.has(ghPackage.name)) {
+        revert(ghPackage)
+      }
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Applying retention floor: ${minTagged} tagged, ${minImages} images`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'the cleanup leaves the package above its floor'
+      }
+    )
+
+    return reverted
+  }
+
   /**
    * Delete all untagged images
    */
@@ -315,4 +812,76 @@ export class DeletionStrategy {
 
     return deleteSet
   }
+
+  /**
+   * Find the referrers of the filter set's images that are older than
+   * strip-referrers-older-than: the signatures and attestations tagged
+   * `sha256-<digest>.sig` / `.att`, and the OCI 1.1 referrers naming the
+   * image as their subject.
+   */
+  findStaleReferrers(
+    filterSet: Set<string>,
+    subjectReferrers: Map<string, Set<string>>
+  ): Set<string> {
+    const stale = new Set<string>()
+    const olderThan = this.context.config.stripReferrersOlderThan
+    if (!olderThan) {
+      return stale
+    }
+    const cutOff = new Date(Date.now() - olderThan)
+    const lines: string[] = []
+
+    for (const digest of filterSet) {
+      const referrers = new Set(subjectReferrers.get(digest))
+      for (const tag of this.context.packageRepo.getReferrerTagsForDigest(
+        digest
+      )) {
+        const referrer = this.context.packageRepo.getDigestByTag(tag)
+        if (referrer && (tag.endsWith('.sig') || tag.endsWith('.att'))) {
+          referrers.add(referrer)
+        }
+      }
+      for (const referrer of referrers) {
+        const ghPackage = this.context.packageRepo.getPackageByDigest(referrer)
+        if (
+          ghPackage &&
+          !stale.has(referrer) &&
+          new Date(ghPackage.updated_at) < cutOff
+        ) {
+          stale.add(referrer)
+          lines.push(`${referrer} of ${digest}`)
+        }
+      }
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Finding referrers older than: ${this.context.config.stripReferrersOlderThanReadable}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no referrers found'
+      }
+    )
+
+    return stale
+  }
+}
+
+// GFS bucket keys, all in UTC so the result doesn't depend on the runner's
+// timezone.
+function dayBucket(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+// Weeks start on Monday (ISO 8601) and are named by that Monday's date.
+function weekBucket(date: Date): string {
+  const monday = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  )
+  monday.setUTCDate(monday.getUTCDate() - ((monday.getUTCDay() + 6) % 7))
+  return `week of ${dayBucket(monday)}`
+}
+
+function monthBucket(date: Date): string {
+  return date.toISOString().slice(0, 7)
 }
@@ -1,6 +1,12 @@
 import * as core from '@actions/core'
-import { CleanupContext, DeletionResult } from './cleanup-types.js'
+import { createHash } from 'crypto'
+import {
+  CleanupContext,
+  DeletionResult,
+  IndexRewrite
+} from './cleanup-types.js'
 import { ManifestAnalyzer } from './manifest-analyzer.js'
+import { isAttestationEntry } from './artifact-class.js'
 import {
   BufferedLogger,
   consoleLogger,
@@ -31,19 +37,25 @@ export class ImageDeleter {
   private context: CleanupContext
   private manifestAnalyzer: ManifestAnalyzer
   private deleted: Set<string>
+  // Tags stripped by performUntagging
+  private untagged: string[] = []
   private digestUsedBy: Map<string, Set<string>>
   private subjectReferrers: Map<string, Set<string>>
+  // Digests pinned by the protected digests inventory, never deleted
+  private pinned: Set<string>
 
   constructor(
     context: CleanupContext,
     digestUsedBy: Map<string, Set<string>>,
-    subjectReferrers: Map<string, Set<string>> = new Map()
+    subjectReferrers: Map<string, Set<string>> = new Map(),
+    pinned: Set<string> = new Set()
   ) {
     this.context = context
     this.manifestAnalyzer = new ManifestAnalyzer(context)
     this.deleted = new Set<string>()
     this.digestUsedBy = digestUsedBy
     this.subjectReferrers = subjectReferrers
+    this.pinned = pinned
   }
 
   /**
@@ -188,10 +200,180 @@ export class ImageDeleter {
       )
     })
 
+    this.untagged.push(...allTags)
     core.endGroup()
     return true
   }
 
+  /**
+   * The tags performUntagging stripped, for the action outputs.
+   */
+  getUntaggedTags(): string[] {
+    return this.untagged
+  }
+
+  /**
+   * Push each multi-arch index again without the entries `dropEntry`
+   * picks, under every tag it has, so the tags move to the rewritten
+   * index and the old one is left untagged. An index losing none of its
+   * entries, or left with no platform image, is left alone. Dry-run mode
+   * only lists the rewrites.
+   *
+   * @param indexes - Digests of the indexes to rewrite
+   * @param dropEntry - Whether an entry of the index `entries` is left out
+   *   of the rewritten index
+   * @param title - Heading of the log group
+   * @returns The rewritten indexes by their old digest
+   */
+  async rewriteIndexes(
+    indexes: Set<string>,
+    dropEntry: (entry: ManifestEntry, entries: ManifestEntry[]) => boolean,
+    title: string
+  ): Promise<Map<string, IndexRewrite>> {
+    const rewritten = new Map<string, IndexRewrite>()
+    if (indexes.size === 0) {
+      return rewritten
+    }
+
+    // The full body, as the cached manifest leaves out entry annotations
+    const rawManifests = new Map<string, Manifest>()
+    await runWithConcurrency(
+      [...indexes],
+      UNTAG_WRITE_CONCURRENCY,
+      async digest => {
+        rawManifests.set(
+          digest,
+          await this.context.registry.getRawManifestByDigest(digest)
+        )
+      }
+    )
+
+    core.startGroup(`[${this.context.targetPackage}] ${title}`)
+    const jobs: Array<{ tag: string; manifest: Manifest }> = []
+    for (const [digest, manifest] of rawManifests) {
+      const tags =
+        this.context.packageRepo.getPackageByDigest(digest)?.metadata.container
+          .tags ?? []
+      const entries = manifest.manifests ?? []
+      const kept = entries.filter(entry => !dropEntry(entry, entries))
+      if (tags.length === 0 || kept.length === entries.length) {
+        continue
+      }
+      if (kept.every(entry => isAttestationEntry(entry))) {
+        core.info(
+          `${digest} ${tags}: no platform image would be left, skipping`
+        )
+        continue
+      }
+      const newManifest: Manifest = JSON.parse(JSON.stringify(manifest))
+      newManifest.manifests = kept
+      for (const tag of tags) {
+        jobs.push({ tag, manifest: newManifest })
+      }
+      // The digest of the body as putManifest sends it
+      const newDigest = `sha256:${createHash('sha256')
+        .update(JSON.stringify(newManifest))
+        .digest('hex')}`
+      rewritten.set(digest, {
+        tags: [...tags],
+        newDigest,
+        kept: kept.map(entry => entry.digest)
+      })
+      core.info(
+        `${digest} ${tags}: dropping ${entries.length - kept.length} of ${entries.length} entries, now ${newDigest}`
+      )
+      this.context.trace?.record(
+        digest,
+        `rewritten without ${entries.length - kept.length} entries under ${tags} as ${newDigest}`
+      )
+    }
+    if (rewritten.size === 0) {
+      core.info('no indexes to rewrite')
+    }
+
+    await runWithConcurrency(
+      jobs,
+      UNTAG_WRITE_CONCURRENCY,
+      async ({ tag, manifest }) => {
+        await this.context.registry.putManifest(tag, manifest, true)
+      }
+    )
+    core.endGroup()
+    return rewritten
+  }
+
+  /**
+   * The package versions deleteImages would delete for `deleteSet`,
+   * without deleting anything: each image and the referrers cascading
+   * from it, then the platform images whose parents are all deleted.
+   * Pinned images are left out with their referrers, as deleteImage
+   * skips them.
+   */
+  planDeletions(deleteSet: Set<string>): Set<string> {
+    return new Set(this.tracePlan(deleteSet).keys())
+  }
+
+  /**
+   * The same plan as {@link planDeletions}, grouped by the image of
+   * `deleteSet` each cascaded version is deleted along with.
+   */
+  planCascade(deleteSet: Set<string>): Map<string, string[]> {
+    const cascade = new Map<string, string[]>()
+    for (const [digest, root] of this.tracePlan(deleteSet)) {
+      if (digest === root) {
+        cascade.set(root, [])
+      } else {
+        cascade.get(root)?.push(digest)
+      }
+    }
+    return cascade
+  }
+
+  // Planned digest → the deleteSet image it's deleted along with
+  private tracePlan(deleteSet: Set<string>): Map<string, string> {
+    const planned = new Map<string, string>()
+    const pending: Array<[string, string]> = [...deleteSet].map(digest => [
+      digest,
+      digest
+    ])
+    // Referrers are appended as they're found and picked up by the loop
+    for (const [digest, root] of pending) {
+      if (
+        planned.has(digest) ||
+        this.pinned.has(digest) ||
+        !this.context.packageRepo.getPackageByDigest(digest)
+      ) {
+        continue
+      }
+      planned.set(digest, root)
+      for (const tag of this.context.packageRepo.getReferrerTagsForDigest(
+        digest
+      )) {
+        const referrerDigest = this.context.packageRepo.getDigestByTag(tag)
+        if (referrerDigest) {
+          pending.push([referrerDigest, root])
+        }
+      }
+      for (const referrerDigest of this.subjectReferrers.get(digest) ?? []) {
+        pending.push([referrerDigest, root])
+      }
+    }
+
+    // A platform image goes with the last of its parents
+    for (const [child, parents] of this.digestUsedBy) {
+      if (
+        parents.size > 0 &&
+        !planned.has(child) &&
+        !this.pinned.has(child) &&
+        this.context.packageRepo.getPackageByDigest(child) &&
+        [...parents].every(parent => planned.has(parent))
+      ) {
+        planned.set(child, planned.get([...parents][0]) ?? child)
+      }
+    }
+    return planned
+  }
+
   /**
    * Delete a single image and its children.
    *
@@ -217,6 +399,15 @@ export class ImageDeleter {
     if (this.deleted.has(ghPackage.name)) {
       return { deleted: 0, multiDeleted: 0 }
     }
+    // Pinned images are taken out of the filter set, but deletes that
+    // don't come from it (orphaned referrers, referrer cascades) can
+    // still reach one
+    if (this.pinned.has(ghPackage.name)) {
+      logger.info(
+        ` skipping package id: ${ghPackage.id} digest: ${ghPackage.name} as it's pinned by the protected digests file`
+      )
+      return { deleted: 0, multiDeleted: 0 }
+    }
     // Claim this digest synchronously before any await. Without the
     // claim, two parallel callers (e.g. dual-path cosign: the same
     // signature reached via both its sha256-*.sig tag and its OCI 1.1
@@ -327,6 +518,13 @@ export class ImageDeleter {
     if (!parents) {
       return { deleted: 0, multiDeleted: 0 }
     }
+    if (this.pinned.has(manifestPackage.name)) {
+      logger.info(
+        ` skipping package id: ${manifestPackage.id} digest: ${manifestPackage.name} as it's pinned by the protected digests file`
+      )
+      parents.delete(parent.name)
+      return { deleted: 0, multiDeleted: 0 }
+    }
     if (parents.size === 1 && parents.has(parent.name)) {
       // Claim the digest synchronously now that the reference-count
       // gate has passed. The gate (parents.size === 1) is what
@@ -394,10 +592,13 @@ export class ImageDeleter {
    *   packages" log group after the deletes finish but before the group
    *   closes — lets callers (the orchestrator) emit related log lines
    *   under the same group instead of having them dangle afterward.
+   * @param afterTree optional hook that runs once an image of the delete
+   *   set and everything cascading from it are deleted
    */
   async deleteImages(
     deleteSet: Set<string>,
-    afterDelete?: (deleted: Set<string>) => void
+    afterDelete?: (deleted: Set<string>) => void,
+    afterTree?: (digest: string) => Promise<void>
   ): Promise<DeletionResult> {
     // Prime manifests
     await this.manifestAnalyzer.primeManifests(deleteSet)
@@ -435,6 +636,7 @@ export class ImageDeleter {
           const result = await this.deleteImage(deleteImage, logger)
           totalDeleted += result.deleted
           totalMultiDeleted += result.multiDeleted
+          await afterTree?.(deleteDigest)
         } finally {
           logger.flush()
         }
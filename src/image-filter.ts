@@ -1,10 +1,25 @@
 import wcmatch from 'wildcard-match'
+import type { ArtifactClass } from './artifact-class.js'
 import { CleanupContext } from './cleanup-types.js'
-import { LogLevel } from './config.js'
-import { logListing } from './utils.js'
+import { LogLevel, formatLabelSelectors, type LabelSelector } from './config.js'
+import type { Release } from './octokit-client.js'
+import {
+  branchTag,
+  createTagMatcher,
+  logListing,
+  parentDigestFromReferrerTag
+} from './utils.js'
+
+export type PullRequestState = 'open' | 'closed' | null
 
 export class ImageFilter {
   private context: CleanupContext
+  // Pull request states already looked up, kept across reloads
+  private pullRequestStates = new Map<number, PullRequestState>()
+  // The repository's branches, listed once and kept across reloads
+  private liveBranches: string[] | null = null
+  // The repository's releases, listed once and kept across reloads
+  private releases: Release[] | null = null
 
   constructor(context: CleanupContext) {
     this.context = context
@@ -30,6 +45,10 @@ export class ImageFilter {
           const digest = this.context.packageRepo.getDigestByTag(tag)
           if (digest) {
             filterSet.delete(digest)
+            this.context.trace?.record(
+              digest,
+              `excluded: tag ${tag} matches exclude-tags`
+            )
           }
           excludeTags.push(tag)
         }
@@ -39,6 +58,10 @@ export class ImageFilter {
         if (regex.test(digest)) {
           filterSet.delete(digest)
           excludeTags.push(digest)
+          this.context.trace?.record(
+            digest,
+            'excluded: digest matches exclude-tags'
+          )
         }
       }
     } else {
@@ -49,6 +72,10 @@ export class ImageFilter {
           const digest = this.context.packageRepo.getDigestByTag(tag)
           if (digest) {
             filterSet.delete(digest)
+            this.context.trace?.record(
+              digest,
+              `excluded: tag ${tag} matches exclude-tags`
+            )
           }
           excludeTags.push(tag)
         }
@@ -58,6 +85,10 @@ export class ImageFilter {
         if (isTagMatch(digest)) {
           filterSet.delete(digest)
           excludeTags.push(digest)
+          this.context.trace?.record(
+            digest,
+            'excluded: digest matches exclude-tags'
+          )
         }
       }
     }
@@ -73,6 +104,467 @@ export class ImageFilter {
     return excludeTags
   }
 
+  /**
+   * Pins the images listed in the `protected-digests-file` inventory, by
+   * digest or by a tag of this package. Pinned images are removed from the
+   * filter set and their tags added to excludeTags. The pin carries down to
+   * the platform children of a pinned multi-arch image, so the returned set
+   * (everything pinned) lets ImageDeleter skip them even when another image
+   * referencing them is deleted.
+   */
+  applyInventoryFilter(
+    filterSet: Set<string>,
+    excludeTags: string[],
+    digestUsedBy: Map<string, Set<string>>
+  ): Set<string> {
+    const pinned = new Set<string>()
+    const inventory = this.context.config.protectedInventory
+
+    if (!inventory) {
+      return pinned
+    }
+
+    const lines: string[] = []
+    for (const digest of inventory.digests) {
+      if (this.context.packageRepo.getPackageByDigest(digest)) {
+        pinned.add(digest)
+        lines.push(digest)
+      }
+    }
+    for (const tag of inventory.tagsByPackage.get(this.context.targetPackage) ??
+      []) {
+      const digest = this.context.packageRepo.getDigestByTag(tag)
+      if (digest) {
+        pinned.add(digest)
+        excludeTags.push(tag)
+        lines.push(`${digest} ${tag}`)
+      }
+    }
+
+    for (const digest of pinned) {
+      this.context.trace?.record(digest, `pinned by ${inventory.path}`)
+    }
+    // Children of a pinned image are pinned with it
+    for (const [child, parents] of digestUsedBy) {
+      for (const parent of parents) {
+        if (pinned.has(parent)) {
+          pinned.add(child)
+          this.context.trace?.record(child, `pinned with index ${parent}`)
+          break
+        }
+      }
+    }
+
+    for (const digest of pinned) {
+      filterSet.delete(digest)
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Excluding images pinned by ${inventory.path}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no pinned images found'
+      }
+    )
+
+    return pinned
+  }
+
+  /**
+   * Keeps the OCI 1.1 referrers whose artifact type `referrer-artifact-types`
+   * doesn't list: they are added to `pinned`, so ImageDeleter leaves them
+   * in place when their subject is deleted. A referrer of unknown type is
+   * kept too.
+   */
+  applyReferrerTypeFilter(
+    subjectReferrers: Map<string, Set<string>>,
+    referrerTypes: Map<string, string>,
+    pinned: Set<string>
+  ): void {
+    const patterns = this.context.config.referrerArtifactTypes
+    if (!patterns) {
+      return
+    }
+    const isTypeMatch = wcmatch(patterns)
+
+    const lines: string[] = []
+    for (const referrers of subjectReferrers.values()) {
+      for (const referrer of referrers) {
+        const type = referrerTypes.get(referrer)
+        if (
+          (type && isTypeMatch(type)) ||
+          pinned.has(referrer) ||
+          !this.context.packageRepo.getPackageByDigest(referrer)
+        ) {
+          continue
+        }
+        pinned.add(referrer)
+        lines.push(`${referrer} ${type ?? 'unknown type'}`)
+        this.context.trace?.record(
+          referrer,
+          `referrer type ${type ?? 'unknown'} not in referrer-artifact-types`
+        )
+      }
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Keeping referrers of other artifact types`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no referrers of other types found'
+      }
+    )
+  }
+
+  /**
+   * Protects the images tagged for a GitHub Release of the repository. Like
+   * applyExclusionFilters, their digests are removed from the filter set
+   * and the tags added to excludeTags. Published releases are always
+   * protected, drafts and pre-releases only when their option is set.
+   * Returns the protected tags.
+   */
+  async applyReleaseFilter(
+    filterSet: Set<string>,
+    excludeTags: string[],
+    listReleases: () => Promise<Release[]>
+  ): Promise<string[]> {
+    const protectedTags: string[] = []
+    const config = this.context.config
+
+    if (!config.excludeReleaseTags) {
+      return protectedTags
+    }
+
+    if (this.releases === null) {
+      this.releases = await listReleases()
+    }
+
+    const lines: string[] = []
+    for (const release of this.releases) {
+      let kind = ''
+      if (release.draft) {
+        if (!config.excludeReleaseDrafts) continue
+        kind = ' (draft)'
+      } else if (release.prerelease) {
+        if (!config.excludeReleasePrereleases) continue
+        kind = ' (pre-release)'
+      }
+      const digest = this.context.packageRepo.getDigestByTag(release.tag)
+      if (!digest) continue
+      filterSet.delete(digest)
+      excludeTags.push(release.tag)
+      protectedTags.push(release.tag)
+      this.context.trace?.record(
+        digest,
+        `protected: tag ${release.tag} of a GitHub Release${kind}`
+      )
+      lines.push(`${release.tag}${kind}`)
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Excluding GitHub Release tags from deletion`,
+      lines,
+      {
+        debug: config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no release tags found'
+      }
+    )
+
+    return protectedTags
+  }
+
+  /**
+   * Resolves the tags matching `delete-closed-pr-tags` against the pull
+   * requests they were built for. Images carrying an open pull request's
+   * tag are removed from the filter set and the tag added to excludeTags,
+   * so no rule can delete them. The tags of closed pull requests still in
+   * the filter set are returned for processTagDeletions to queue.
+   */
+  async applyPullRequestFilter(
+    filterSet: Set<string>,
+    excludeTags: string[],
+    getPullRequestState: (pullNumber: number) => Promise<PullRequestState>
+  ): Promise<Set<string>> {
+    const closedTags = new Set<string>()
+
+    if (!this.context.config.deleteClosedPrTags) {
+      return closedTags
+    }
+
+    const regex = new RegExp(this.context.config.deleteClosedPrTags)
+    const lines: string[] = []
+    for (const tag of this.context.packageRepo.getTags()) {
+      const match = regex.exec(tag)
+      if (!match) continue
+      const pullNumber = Number(match[1])
+      if (!Number.isInteger(pullNumber)) {
+        lines.push(`${tag}: "${match[1]}" is not a pull request number`)
+        continue
+      }
+      let state = this.pullRequestStates.get(pullNumber)
+      if (state === undefined) {
+        state = await getPullRequestState(pullNumber)
+        this.pullRequestStates.set(pullNumber, state)
+      }
+
+      const digest = this.context.packageRepo.getDigestByTag(tag)
+      if (state === 'open') {
+        if (digest) {
+          filterSet.delete(digest)
+          this.context.trace?.record(
+            digest,
+            `protected: tag ${tag} of open pull request #${pullNumber}`
+          )
+        }
+        excludeTags.push(tag)
+        lines.push(`${tag}: #${pullNumber} is open, protected`)
+      } else if (state === 'closed') {
+        if (digest && filterSet.has(digest)) {
+          closedTags.add(tag)
+          lines.push(`${tag}: #${pullNumber} is closed, deleting`)
+          this.context.trace?.record(
+            digest,
+            `tag ${tag} of closed pull request #${pullNumber}`
+          )
+        } else {
+          lines.push(`${tag}: #${pullNumber} is closed, image is not selected`)
+        }
+      } else {
+        lines.push(`${tag}: #${pullNumber} is not a pull request`)
+      }
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Resolving pull request tags: ${this.context.config.deleteClosedPrTags}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no matching tags found'
+      }
+    )
+
+    return closedTags
+  }
+
+  /**
+   * Finds the tags that `delete-stale-branch-tags` maps to a branch which no
+   * longer exists. A tag has the template's shape but no live branch renders
+   * to it. Only tags of images still in the filter set are returned, for
+   * processTagDeletions to queue.
+   */
+  async findStaleBranchTags(
+    filterSet: Set<string>,
+    listBranches: () => Promise<string[]>
+  ): Promise<Set<string>> {
+    const staleTags = new Set<string>()
+    const template = this.context.config.deleteStaleBranchTags
+
+    if (!template) {
+      return staleTags
+    }
+
+    if (this.liveBranches === null) {
+      this.liveBranches = await listBranches()
+      // Every repository has at least its default branch - an empty list
+      // means the wrong repository or a token that can't see it, and
+      // would otherwise mark every branch tag as stale
+      if (this.liveBranches.length === 0) {
+        throw new Error(
+          `no branches found for ${this.context.config.owner}/${this.context.config.repository}, refusing to treat every branch tag as stale`
+        )
+      }
+    }
+    const liveTags = new Set(
+      this.liveBranches.map(branch => branchTag(template, branch))
+    )
+    const [prefix, suffix] = template.split('{branch}')
+    const isBranchTag = new RegExp(
+      `^${escapeRegExp(prefix)}.+${escapeRegExp(suffix)}$`
+    )
+
+    const lines: string[] = []
+    for (const tag of this.context.packageRepo.getTags()) {
+      // Referrer tags name a digest, not a branch
+      if (parentDigestFromReferrerTag(tag) !== null) continue
+      if (!isBranchTag.test(tag) || liveTags.has(tag)) continue
+      const digest = this.context.packageRepo.getDigestByTag(tag)
+      if (digest && filterSet.has(digest)) {
+        staleTags.add(tag)
+        lines.push(`${tag}: branch is gone, deleting`)
+        this.context.trace?.record(digest, `tag ${tag} of a deleted branch`)
+      } else {
+        lines.push(`${tag}: branch is gone, image is not selected`)
+      }
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Finding tags of deleted branches: ${template}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no stale branch tags found'
+      }
+    )
+
+    return staleTags
+  }
+
+  /**
+   * Protects the images whose labels or annotations match an
+   * `exclude-labels` selector. Like applyExclusionFilters, their digests
+   * are removed from the filter set and their tags added to excludeTags.
+   */
+  async applyLabelExclusionFilter(
+    filterSet: Set<string>,
+    excludeTags: string[]
+  ): Promise<void> {
+    const selectors = this.context.config.excludeLabels
+    if (!selectors) {
+      return
+    }
+
+    const lines: string[] = []
+    for (const [digest, selector] of await this.matchLabels(
+      filterSet,
+      selectors
+    )) {
+      filterSet.delete(digest)
+      const tags =
+        this.context.packageRepo.getPackageByDigest(digest)?.metadata.container
+          .tags ?? []
+      excludeTags.push(...tags)
+      lines.push(`${digest} ${tags.join(',')} (${selector})`)
+      this.context.trace?.record(
+        digest,
+        `excluded: ${selector} matches exclude-labels`
+      )
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Excluding images by label: ${formatLabelSelectors(selectors)}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no images matched'
+      }
+    )
+  }
+
+  /**
+   * Protects the images whose artifact class `include-artifacts` doesn't
+   * list or `exclude-artifacts` does. Like applyExclusionFilters, their
+   * digests are removed from the filter set and their tags added to
+   * excludeTags. Only top-level images are filtered: the platform images
+   * and referrers of an image follow it.
+   */
+  applyArtifactFilter(
+    filterSet: Set<string>,
+    excludeTags: string[],
+    artifactClasses: Map<string, ArtifactClass>
+  ): void {
+    const { includeArtifacts, excludeArtifacts } = this.context.config
+    if (!includeArtifacts && !excludeArtifacts) {
+      return
+    }
+
+    const lines: string[] = []
+    for (const digest of filterSet) {
+      const artifactClass = artifactClasses.get(digest) ?? 'image'
+      let reason: string
+      if (includeArtifacts && !includeArtifacts.includes(artifactClass)) {
+        reason = `${artifactClass} not in include-artifacts`
+      } else if (excludeArtifacts?.includes(artifactClass)) {
+        reason = `${artifactClass} matches exclude-artifacts`
+      } else {
+        continue
+      }
+      filterSet.delete(digest)
+      const tags =
+        this.context.packageRepo.getPackageByDigest(digest)?.metadata.container
+          .tags ?? []
+      excludeTags.push(...tags)
+      lines.push(`${digest} ${tags.join(',')} (${artifactClass})`)
+      this.context.trace?.record(digest, `excluded: ${reason}`)
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Excluding images by artifact class`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no images matched'
+      }
+    )
+  }
+
+  /**
+   * Finds the images in the filter set whose labels or annotations match a
+   * `delete-labels` selector. The whole image is deleted, tags included.
+   */
+  async findLabelMatches(filterSet: Set<string>): Promise<Set<string>> {
+    const matched = new Set<string>()
+    const selectors = this.context.config.deleteLabels
+    if (!selectors) {
+      return matched
+    }
+
+    const lines: string[] = []
+    for (const [digest, selector] of await this.matchLabels(
+      filterSet,
+      selectors
+    )) {
+      matched.add(digest)
+      this.context.trace?.record(digest, `${selector} matches delete-labels`)
+      const tags =
+        this.context.packageRepo.getPackageByDigest(digest)?.metadata.container
+          .tags ?? []
+      lines.push(`${digest} ${tags.join(',')} (${selector})`)
+    }
+
+    logListing(
+      `[${this.context.targetPackage}] Finding images by label: ${formatLabelSelectors(selectors)}`,
+      lines,
+      {
+        debug: this.context.config.logLevel >= LogLevel.DEBUG,
+        emptyMessage: 'no images matched'
+      }
+    )
+
+    return matched
+  }
+
+  /**
+   * Map each image of the filter set matching one of `selectors` to the
+   * `key=value` that matched.
+   */
+  private async matchLabels(
+    filterSet: Set<string>,
+    selectors: LabelSelector[]
+  ): Promise<Map<string, string>> {
+    const matchers = selectors.map(selector => ({
+      key: selector.key,
+      isValueMatch:
+        selector.value === undefined
+          ? () => true
+          : createTagMatcher(selector.value, this.context.config.useRegex)
+    }))
+
+    const matches = new Map<string, string>()
+    for (const digest of filterSet) {
+      const labels = await this.context.registry.getLabels(digest)
+      for (const { key, isValueMatch } of matchers) {
+        const value = labels[key]
+        if (value !== undefined && isValueMatch(value)) {
+          matches.set(digest, `${key}=${value}`)
+          break
+        }
+      }
+    }
+    return matches
+  }
+
   /**
    * Filters images by age
    */
@@ -95,6 +587,10 @@ export class ImageFilter {
         if (packageDate >= cutOff) {
           // The package is newer than cutoff so remove it from filterSet
           filterSet.delete(digest)
+          this.context.trace?.record(
+            digest,
+            `excluded: updated ${ghPackage.updated_at}, younger than older-than`
+          )
         } else {
           const tags = ghPackage.metadata.container.tags
           if (tags.length > 0) {
@@ -175,3 +671,7 @@ export class ImageFilter {
     return matchTags
   }
 }
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -20,7 +20,21 @@ export class ImageValidator {
       `[${this.context.targetPackage}] Validating multi-architecture/referrers images`
     )
 
-    let hasErrors = false
+    const findings: string[] = []
+    // fail-on-invalid raises the findings to error annotations
+    const report = (finding: string): void => {
+      findings.push(finding)
+      if (this.context.config.failOnInvalid) {
+        core.error(finding)
+      } else {
+        core.warning(finding)
+      }
+    }
+    const ghostImages = new Set<string>()
+    const partialImages = new Set<string>()
+    const orphanedImages = new Set<string>()
+    const missingChildren = new Map<string, string[]>()
+    const missingSubjects = new Map<string, string>()
     const processedManifests = new Set<string>()
     const digests = this.context.packageRepo.getDigests()
 
@@ -36,22 +50,29 @@ export class ImageValidator {
         const tags = ghPackage.metadata.container.tags
 
         if (manifest.manifests) {
+          const missing: string[] = []
           for (const childImage of manifest.manifests) {
             processedManifests.add(childImage.digest)
             if (!this.context.packageRepo.getIdByDigest(childImage.digest)) {
-              hasErrors = true
+              missing.push(childImage.digest)
               if (tags.length > 0) {
-                core.warning(
-                  `digest ${childImage.digest} not found on image ${tags}`
-                )
+                report(`digest ${childImage.digest} not found on image ${tags}`)
               } else {
-                core.warning(
+                report(
                   `digest ${childImage.digest} not found on untagged image ${digest}`
                 )
               }
             }
             digests.delete(childImage.digest)
           }
+          if (missing.length > 0) {
+            missingChildren.set(digest, missing)
+            if (missing.length === manifest.manifests.length) {
+              ghostImages.add(digest)
+            } else {
+              partialImages.add(digest)
+            }
+          }
         }
       }
     }
@@ -61,10 +82,11 @@ export class ImageValidator {
     for (const tag of tagsInUse) {
       const digest = parentDigestFromReferrerTag(tag)
       if (digest && !this.context.packageRepo.getIdByDigest(digest)) {
-        hasErrors = true
-        core.warning(
-          `parent image for referrer tag ${tag} not found in repository`
-        )
+        report(`parent image for referrer tag ${tag} not found in repository`)
+        const orphanDigest = this.context.packageRepo.getDigestByTag(tag)
+        if (orphanDigest) {
+          orphanedImages.add(orphanDigest)
+        }
       }
     }
 
@@ -73,26 +95,29 @@ export class ImageValidator {
       if (!this.context.packageRepo.getIdByDigest(subjectDigest)) {
         for (const referrerDigest of referrers) {
           if (this.context.packageRepo.getIdByDigest(referrerDigest)) {
-            hasErrors = true
-            core.warning(
+            report(
               `subject ${subjectDigest} for referrer ${referrerDigest} not found in repository`
             )
+            orphanedImages.add(referrerDigest)
+            missingSubjects.set(referrerDigest, subjectDigest)
           }
         }
       }
     }
 
-    if (!hasErrors) {
+    if (findings.length === 0) {
       core.info('no errors found')
     }
     core.endGroup()
 
-    // Return basic result - can be extended later
     return {
-      hasErrors,
-      ghostImages: new Set<string>(),
-      partialImages: new Set<string>(),
-      orphanedImages: new Set<string>()
+      hasErrors: findings.length > 0,
+      findings,
+      ghostImages,
+      partialImages,
+      orphanedImages,
+      missingChildren,
+      missingSubjects
     }
   }
 
@@ -1,5 +1,12 @@
 import * as core from '@actions/core'
-import { Config, buildConfig } from './config.js'
+import {
+  Config,
+  buildConfig,
+  configForPackage,
+  formatKeepNTaggedGroups,
+  formatLabelSelectors,
+  printEffectivePolicy
+} from './config.js'
 import { PackageRepo } from './package-repo.js'
 import { OctokitClient } from './octokit-client.js'
 import wcmatch from 'wildcard-match'
@@ -7,12 +14,45 @@ import { CleanupOrchestrator } from './cleanup-orchestrator.js'
 import { createTokenAuth } from '@octokit/auth-token'
 import { CleanupTaskStatistics } from './utils.js'
 import { ManifestCache } from './manifest-cache.js'
+import { formatBytes } from './storage-usage.js'
+import { ARTIFACT_CLASSES } from './artifact-class.js'
+import {
+  PLAN_FORMAT_VERSION,
+  type PackagePlan,
+  writeCleanupPlan
+} from './cleanup-plan.js'
+import { type CleanupTrace, writeCleanupTrace } from './decision-trace.js'
+import {
+  buildCleanupReport,
+  setCleanupOutputs,
+  writeCleanupReport
+} from './cleanup-report.js'
+import { type InventoryEntry, writeInventory } from './package-inventory.js'
+import { type RestoredVersion } from './package-restore.js'
+import {
+  type PackageGraph,
+  renderPlanMermaid,
+  writeGraph
+} from './relationship-graph.js'
 
 // SummaryTableRow lives in @actions/core's summary submodule but the
 // package's exports field hides subpath imports — pull the type out of
 // the addTable signature so it stays in sync with the runtime API.
 type SummaryTableRow = Parameters<typeof core.summary.addTable>[0][number]
 
+// Digests per package shown in the job summary's decision trace and
+// inventory tables, the rest are only in explain-file or inventory-file
+const SUMMARY_TABLE_ROWS = 200
+
+// Build an HTML table so it renders correctly inside <details>
+function buildHtmlTable(headers: string[], rows: string[][]): string {
+  const thead = `<tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr>`
+  const tbody = rows
+    .map(r => `<tr>${r.map(c => `<td>${c}</td>`).join('')}</tr>`)
+    .join('')
+  return `<table>${thead}${tbody}</table>`
+}
+
 /*
  * Main program entrypoint
  */
@@ -47,26 +87,39 @@ class CleanupAction {
     const startedAt = Date.now()
 
     let targetPackages: string[] = []
-    if (this.config.expandPackages) {
-      // first make sure sure we have PAT
-      const auth = createTokenAuth(this.config.token)
-      const authentication = await auth()
-      if (authentication.tokenType !== 'oauth') {
-        core.setFailed(
-          'A Personal Access Token (PAT) is required when the expand-packages option is set to true'
-        )
-        return
-      }
-      // Fine-grained PATs (github_pat_*) do not currently support GitHub
-      // Container Registry access (GitHub roadmap item #558 was removed in
-      // 2024 without a replacement). They pass the tokenType=='oauth' check
-      // above, so reject them up-front with a clear message instead of
-      // letting them fail later with an opaque 403 from the API.
-      if (authentication.token.startsWith('github_pat_')) {
-        core.setFailed(
-          'expand-packages requires a classic Personal Access Token. Fine-grained PATs do not currently support GitHub Container Registry access.'
-        )
-        return
+    if (this.config.cleanupPlan) {
+      // Apply works through the packages of the plan
+      targetPackages = this.config.cleanupPlan.packages.map(
+        packagePlan => packagePlan.package
+      )
+    } else if (this.config.restoreReport) {
+      // Restore works through the packages the reported run deleted from
+      targetPackages = this.config.restoreReport.packages
+        .filter(packageReport => packageReport.deleted.length > 0)
+        .map(packageReport => packageReport.package)
+    } else if (this.config.expandPackages) {
+      // first make sure sure we have PAT, listing packages on another
+      // registry needs no GitHub token
+      if (this.config.registryType === 'ghcr') {
+        const auth = createTokenAuth(this.config.token)
+        const authentication = await auth()
+        if (authentication.tokenType !== 'oauth') {
+          core.setFailed(
+            'A Personal Access Token (PAT) is required when the expand-packages option is set to true'
+          )
+          return
+        }
+        // Fine-grained PATs (github_pat_*) do not currently support GitHub
+        // Container Registry access (GitHub roadmap item #558 was removed in
+        // 2024 without a replacement). They pass the tokenType=='oauth' check
+        // above, so reject them up-front with a clear message instead of
+        // letting them fail later with an opaque 403 from the API.
+        if (authentication.token.startsWith('github_pat_')) {
+          core.setFailed(
+            'expand-packages requires a classic Personal Access Token. Fine-grained PATs do not currently support GitHub Container Registry access.'
+          )
+          return
+        }
       }
 
       // get the list of available packages in the repo
@@ -91,7 +144,13 @@ class CleanupAction {
         .filter(Boolean)
     }
 
-    if (targetPackages.length === 0) {
+    if (targetPackages.length === 0 && this.config.cleanupPlan) {
+      core.info(`${this.config.planFile} plans no changes`)
+      return
+    } else if (targetPackages.length === 0 && this.config.restoreReport) {
+      core.info(`${this.config.restoreReportFile} reports no deletions`)
+      return
+    } else if (targetPackages.length === 0) {
       core.setFailed('No packages selected to cleanup')
       return
     } else if (targetPackages.length > 1) {
@@ -102,9 +161,21 @@ class CleanupAction {
       core.endGroup()
     }
 
+    if (this.config.mode === 'inventory') {
+      await this.runInventory(targetPackages)
+      return
+    }
+    if (this.config.mode === 'restore') {
+      await this.runRestore(targetPackages)
+      return
+    }
+
     let globalStatistics = new CleanupTaskStatistics('combined-action', 0, 0)
     const perPackageStats: CleanupTaskStatistics[] = []
     const cacheStats = { hits: 0, misses: 0 }
+    const packagePlans: PackagePlan[] = []
+    const cleanupTrace: CleanupTrace = {}
+    const graphs: PackageGraph[] = []
     for (const targetPackage of targetPackages) {
       // Manifest cache is keyed per (owner, package, GITHUB_RUN_ID).
       // Restore before reload() so analyzer manifest fetches see the
@@ -113,16 +184,54 @@ class CleanupAction {
       const manifestCache = new ManifestCache(this.config.owner, targetPackage)
       await manifestCache.restore()
 
+      // A policy file rule can give each package its own cleanup options
+      const packageConfig = configForPackage(this.config, targetPackage)
+      if (this.config.policyFile && this.config.expandPackages) {
+        core.startGroup(`[${targetPackage}] Effective policy`)
+        printEffectivePolicy(packageConfig, targetPackage)
+        core.endGroup()
+      }
+
       const orchestrator = new CleanupOrchestrator(
-        this.config,
+        packageConfig,
         targetPackage,
         this.octokitClient,
         manifestCache
       )
+      const packagePlan = this.config.cleanupPlan?.packages.find(
+        candidate => candidate.package === targetPackage
+      )
       try {
         await orchestrator.init()
-        await orchestrator.reload()
-        const stats = await orchestrator.run()
+        // apply completes them itself, once the plan is checked
+        if (!packagePlan) {
+          await orchestrator.resumeDeletions()
+        }
+        let stats: CleanupTaskStatistics
+        if (packagePlan) {
+          stats = await orchestrator.apply(packagePlan)
+        } else if (this.config.mode === 'strip') {
+          await orchestrator.reload()
+          stats = await orchestrator.strip()
+        } else if (this.config.mode === 'prune-platforms') {
+          await orchestrator.reload()
+          stats = await orchestrator.prunePlatforms()
+        } else {
+          await orchestrator.reload()
+          stats = await orchestrator.run()
+          const plan = orchestrator.getPackagePlan()
+          if (plan) {
+            packagePlans.push(plan)
+          }
+        }
+        const trace = orchestrator.getTrace()
+        if (trace) {
+          cleanupTrace[targetPackage] = trace
+        }
+        const graph = orchestrator.getGraph()
+        if (graph) {
+          graphs.push(graph)
+        }
         perPackageStats.push(stats)
         globalStatistics = globalStatistics.add(stats)
       } finally {
@@ -137,14 +246,246 @@ class CleanupAction {
       globalStatistics.print()
     }
 
+    if (this.config.mode === 'plan' && this.config.planFile) {
+      await writeCleanupPlan(this.config.planFile, {
+        version: PLAN_FORMAT_VERSION,
+        owner: this.config.owner,
+        createdAt: new Date().toISOString(),
+        packages: packagePlans
+      })
+      core.info(`Cleanup plan written to ${this.config.planFile}`)
+    }
+
+    if (this.config.explainFile) {
+      await writeCleanupTrace(this.config.explainFile, cleanupTrace)
+      core.info(`Decision trace written to ${this.config.explainFile}`)
+    }
+
+    if (this.config.graphFiles) {
+      await writeGraph(this.config.graphFiles, graphs)
+      core.info(`Relationship graph written to ${this.config.graphFiles}`)
+    }
+
+    const report = buildCleanupReport(
+      this.config,
+      perPackageStats,
+      globalStatistics
+    )
+    setCleanupOutputs(report)
+    if (this.config.reportFile) {
+      await writeCleanupReport(this.config.reportFile, report)
+      core.info(`Cleanup report written to ${this.config.reportFile}`)
+    }
+
     const durationMs = Date.now() - startedAt
     await this.writeJobSummary(
       targetPackages,
       perPackageStats,
       globalStatistics,
       durationMs,
-      cacheStats
+      cacheStats,
+      cleanupTrace,
+      graphs
+    )
+
+    // Checked last so the outputs, report and summary are still written
+    if (this.config.failOnInvalid) {
+      const findings = perPackageStats.flatMap(
+        stats => stats.validationFindings
+      )
+      if (findings.length > 0) {
+        core.setFailed(
+          `validate found ${findings.length} problems after the cleanup`
+        )
+      }
+    }
+  }
+
+  /**
+   * `mode: inventory`: report every version of each package without
+   * evaluating any cleanup rule.
+   */
+  private async runInventory(targetPackages: string[]): Promise<void> {
+    const entries: InventoryEntry[] = []
+    for (const targetPackage of targetPackages) {
+      const manifestCache = new ManifestCache(this.config.owner, targetPackage)
+      await manifestCache.restore()
+      const orchestrator = new CleanupOrchestrator(
+        this.config,
+        targetPackage,
+        this.octokitClient,
+        manifestCache
+      )
+      try {
+        await orchestrator.init()
+        entries.push(...(await orchestrator.inventory()))
+      } finally {
+        await manifestCache.save()
+      }
+    }
+
+    if (this.config.inventoryFiles) {
+      await writeInventory(this.config.inventoryFiles, entries)
+      core.info(`Inventory written to ${this.config.inventoryFiles.join(', ')}`)
+    }
+    await this.writeInventorySummary(targetPackages, entries)
+  }
+
+  private async writeInventorySummary(
+    targetPackages: string[],
+    entries: InventoryEntry[]
+  ): Promise<void> {
+    const summary = core.summary
+    summary.addHeading('📦 GHCR Package Inventory')
+
+    const overviewRows: SummaryTableRow[] = [
+      [
+        { data: 'Package', header: true },
+        { data: 'Versions', header: true },
+        { data: 'Tagged', header: true },
+        { data: 'Platform images', header: true },
+        { data: 'Ghost', header: true },
+        { data: 'Partial', header: true },
+        { data: 'Orphaned', header: true }
+      ]
+    ]
+    for (const name of targetPackages) {
+      const versions = entries.filter(entry => entry.package === name)
+      const count = (test: (entry: InventoryEntry) => boolean): string =>
+        `${versions.filter(test).length}`
+      overviewRows.push([
+        name,
+        `${versions.length}`,
+        count(entry => entry.tags.length > 0),
+        count(entry => entry.child),
+        count(entry => entry.ghost),
+        count(entry => entry.partial),
+        count(entry => entry.orphan)
+      ])
+    }
+    summary.addTable(overviewRows)
+
+    // One collapsible table of versions per package
+    for (const name of targetPackages) {
+      const versions = entries.filter(entry => entry.package === name)
+      let versionsHtml = buildHtmlTable(
+        ['Digest', 'Id', 'Tags', 'Updated', 'Platforms', 'Size', 'Status'],
+        versions
+          .slice(0, SUMMARY_TABLE_ROWS)
+          .map(entry => [
+            entry.digest,
+            `${entry.id}`,
+            entry.tags.join(', '),
+            entry.updatedAt,
+            entry.platforms.join(', '),
+            formatBytes(entry.size),
+            (['child', 'ghost', 'partial', 'orphan'] as const)
+              .filter(status => entry[status])
+              .join(', ')
+          ])
+      )
+      if (versions.length > SUMMARY_TABLE_ROWS) {
+        versionsHtml += `<p>${versions.length - SUMMARY_TABLE_ROWS} more versions in inventory-file</p>`
+      }
+      summary.addDetails(`${name} (${versions.length} versions)`, versionsHtml)
+    }
+
+    await summary.write()
+  }
+
+  /**
+   * `mode: restore`: bring back deleted versions of each package.
+   */
+  private async runRestore(targetPackages: string[]): Promise<void> {
+    const restored: RestoredVersion[] = []
+    for (const targetPackage of targetPackages) {
+      const manifestCache = new ManifestCache(this.config.owner, targetPackage)
+      await manifestCache.restore()
+      const orchestrator = new CleanupOrchestrator(
+        this.config,
+        targetPackage,
+        this.octokitClient,
+        manifestCache
+      )
+      try {
+        await orchestrator.init()
+        restored.push(...(await orchestrator.restore()))
+      } finally {
+        await manifestCache.save()
+      }
+    }
+
+    core.info(
+      this.config.dryRun
+        ? `${restored.length} versions would be restored`
+        : `${restored.length} versions restored`
     )
+    await this.writeRestoreSummary(targetPackages, restored)
+  }
+
+  private async writeRestoreSummary(
+    targetPackages: string[],
+    restored: RestoredVersion[]
+  ): Promise<void> {
+    const summary = core.summary
+    summary.addHeading('♻️ GHCR Package Restore')
+    if (this.config.dryRun) {
+      summary.addRaw(
+        '> Dry run enabled: No packages were actually restored.',
+        true
+      )
+    }
+
+    const overviewRows: SummaryTableRow[] = [
+      [
+        { data: 'Package', header: true },
+        { data: 'Restored', header: true }
+      ]
+    ]
+    for (const name of targetPackages) {
+      overviewRows.push([
+        name,
+        `${restored.filter(version => version.package === name).length}`
+      ])
+    }
+    summary.addTable(overviewRows)
+
+    for (const name of targetPackages) {
+      const versions = restored.filter(version => version.package === name)
+      if (versions.length === 0) continue
+      let versionsHtml = buildHtmlTable(
+        ['Digest', 'Id', 'Tags', 'Deleted', 'Restored for'],
+        versions
+          .slice(0, SUMMARY_TABLE_ROWS)
+          .map(version => [
+            version.digest,
+            `${version.id}`,
+            version.tags.join(', '),
+            version.deletedAt,
+            version.reason
+          ])
+      )
+      if (versions.length > SUMMARY_TABLE_ROWS) {
+        versionsHtml += `<p>${versions.length - SUMMARY_TABLE_ROWS} more versions in the log</p>`
+      }
+      summary.addDetails(`${name} (${versions.length} versions)`, versionsHtml)
+    }
+
+    await summary.write()
+  }
+
+  private runMode(): string {
+    if (this.config.mode === 'plan') return 'Plan'
+    if (this.config.mode === 'apply') return 'Apply'
+    if (this.config.mode === 'strip') {
+      return this.config.dryRun ? 'Strip (dry run)' : 'Strip'
+    }
+    if (this.config.mode === 'prune-platforms') {
+      return this.config.dryRun
+        ? 'Prune platforms (dry run)'
+        : 'Prune platforms'
+    }
+    return this.config.dryRun ? 'Dry run' : 'Live'
   }
 
   private async writeJobSummary(
@@ -152,7 +493,9 @@ class CleanupAction {
     perPackageStats: CleanupTaskStatistics[],
     globalStats: CleanupTaskStatistics,
     durationMs: number,
-    cacheStats: { hits: number; misses: number }
+    cacheStats: { hits: number; misses: number },
+    cleanupTrace: CleanupTrace = {},
+    graphs: PackageGraph[] = []
   ): Promise<void> {
     const summary = core.summary
 
@@ -160,7 +503,12 @@ class CleanupAction {
     summary.addHeading('🧹 GHCR Cleanup Summary')
 
     // Mode/dry-run notice
-    if (this.config.dryRun) {
+    if (this.config.mode === 'plan') {
+      summary.addRaw(
+        `> Plan mode: changes were written to ${this.config.planFile}, nothing was deleted.`,
+        true
+      )
+    } else if (this.config.dryRun) {
       summary.addRaw(
         '> Dry run enabled: No packages were actually deleted.',
         true
@@ -177,7 +525,8 @@ class CleanupAction {
       ['Packages processed', `${targetPackages.length}`],
       ['Total images deleted', `${globalStats.numberImagesDeleted}`],
       ['Multi-arch images deleted', `${globalStats.numberMultiImagesDeleted}`],
-      ['Mode', this.config.dryRun ? 'Dry run' : 'Live'],
+      ['Storage reclaimed', formatBytes(globalStats.bytesReclaimed)],
+      ['Mode', this.runMode()],
       ['Duration', `${Math.round(durationMs / 1000)}s`]
     ]
     // Only surface manifest-cache stats when the cache actually saw
@@ -203,15 +552,81 @@ class CleanupAction {
     if (this.config.excludeTags) {
       configPairs.push(['exclude-tags', `${this.config.excludeTags}`])
     }
+    if (this.config.excludeReleaseTags !== undefined) {
+      configPairs.push([
+        'exclude-release-tags',
+        `${this.config.excludeReleaseTags}`
+      ])
+    }
+    if (this.config.deleteLabels) {
+      configPairs.push([
+        'delete-labels',
+        formatLabelSelectors(this.config.deleteLabels)
+      ])
+    }
+    if (this.config.excludeLabels) {
+      configPairs.push([
+        'exclude-labels',
+        formatLabelSelectors(this.config.excludeLabels)
+      ])
+    }
+    if (this.config.includeArtifacts) {
+      configPairs.push([
+        'include-artifacts',
+        this.config.includeArtifacts.join(', ')
+      ])
+    }
+    if (this.config.excludeArtifacts) {
+      configPairs.push([
+        'exclude-artifacts',
+        this.config.excludeArtifacts.join(', ')
+      ])
+    }
+    if (this.config.deleteClosedPrTags) {
+      configPairs.push([
+        'delete-closed-pr-tags',
+        `${this.config.deleteClosedPrTags}`
+      ])
+    }
+    if (this.config.deleteStaleBranchTags) {
+      configPairs.push([
+        'delete-stale-branch-tags',
+        `${this.config.deleteStaleBranchTags}`
+      ])
+    }
     if (this.config.olderThanReadable) {
       configPairs.push(['older-than', `${this.config.olderThanReadable}`])
     }
     if (this.config.keepNtagged !== undefined) {
       configPairs.push(['keep-n-tagged', `${this.config.keepNtagged}`])
     }
+    if (this.config.keepNtaggedGroups !== undefined) {
+      configPairs.push([
+        'keep-n-tagged-groups',
+        formatKeepNTaggedGroups(this.config.keepNtaggedGroups)
+      ])
+    }
+    if (this.config.semverKeepPatches !== undefined) {
+      configPairs.push([
+        'semver-keep-patches',
+        `${this.config.semverKeepPatches}`
+      ])
+    }
+    if (this.config.semverKeepMinors !== undefined) {
+      configPairs.push([
+        'semver-keep-minors',
+        `${this.config.semverKeepMinors}`
+      ])
+    }
+    if (this.config.gfsRetentionReadable !== undefined) {
+      configPairs.push(['gfs-retention', this.config.gfsRetentionReadable])
+    }
     if (this.config.keepNuntagged !== undefined) {
       configPairs.push(['keep-n-untagged', `${this.config.keepNuntagged}`])
     }
+    if (this.config.storageQuotaReadable !== undefined) {
+      configPairs.push(['storage-quota', this.config.storageQuotaReadable])
+    }
     if (this.config.deleteUntagged !== undefined) {
       configPairs.push(['delete-untagged', `${this.config.deleteUntagged}`])
     }
@@ -233,22 +648,98 @@ class CleanupAction {
         `${this.config.deleteOrphanedImages}`
       ])
     }
+    if (this.config.policyFile !== undefined) {
+      configPairs.push(['policy-file', this.config.policyFile.path])
+    }
+    if (this.config.protectedInventory !== undefined) {
+      configPairs.push([
+        'protected-digests-file',
+        this.config.protectedInventory.path
+      ])
+    }
+    if (this.config.mode !== undefined) {
+      configPairs.push(['mode', this.config.mode])
+    }
+    if (this.config.planFile !== undefined) {
+      configPairs.push(['plan-file', this.config.planFile])
+    }
+    if (this.config.stripAttestations !== undefined) {
+      configPairs.push([
+        'strip-attestations',
+        `${this.config.stripAttestations}`
+      ])
+    }
+    if (this.config.stripReferrersOlderThanReadable !== undefined) {
+      configPairs.push([
+        'strip-referrers-older-than',
+        this.config.stripReferrersOlderThanReadable
+      ])
+    }
+    if (this.config.prunePlatforms !== undefined) {
+      configPairs.push([
+        'prune-platforms',
+        this.config.prunePlatforms.join(', ')
+      ])
+    }
+    if (this.config.keepPlatforms !== undefined) {
+      configPairs.push(['keep-platforms', this.config.keepPlatforms.join(', ')])
+    }
+    if (this.config.planDrift !== undefined) {
+      configPairs.push(['plan-drift', this.config.planDrift])
+    }
+    if (this.config.explainFile !== undefined) {
+      configPairs.push(['explain-file', this.config.explainFile])
+    }
+    if (this.config.reportFile !== undefined) {
+      configPairs.push(['report-file', this.config.reportFile])
+    }
+    if (this.config.graphFiles !== undefined) {
+      configPairs.push(['graph-file', this.config.graphFiles.join(', ')])
+    }
+    if (this.config.maxDeletions !== undefined) {
+      configPairs.push(['max-deletions', `${this.config.maxDeletions}`])
+    }
+    if (this.config.maxDeletionsPercent !== undefined) {
+      configPairs.push([
+        'max-deletions-percent',
+        `${this.config.maxDeletionsPercent}%`
+      ])
+    }
+    if (this.config.maxDeletionsAction !== undefined) {
+      configPairs.push(['max-deletions-action', this.config.maxDeletionsAction])
+    }
+    if (this.config.acknowledgeDeletions !== undefined) {
+      configPairs.push([
+        'acknowledge-deletions',
+        `${this.config.acknowledgeDeletions}`
+      ])
+    }
+    if (this.config.retentionFloorTagged !== undefined) {
+      configPairs.push([
+        'retention-floor-tagged',
+        `${this.config.retentionFloorTagged}`
+      ])
+    }
+    if (this.config.retentionFloorImages !== undefined) {
+      configPairs.push([
+        'retention-floor-images',
+        `${this.config.retentionFloorImages}`
+      ])
+    }
+    if (this.config.deletionJournal !== undefined) {
+      configPairs.push(['deletion-journal', this.config.deletionJournal])
+    }
     if (this.config.validate !== undefined) {
       configPairs.push(['validate', `${this.config.validate}`])
     }
+    if (this.config.failOnInvalid !== undefined) {
+      configPairs.push(['fail-on-invalid', `${this.config.failOnInvalid}`])
+    }
     if (this.config.useRegex !== undefined) {
       configPairs.push(['use-regex', `${this.config.useRegex}`])
     }
     configPairs.push(['log-level', `${this.config.logLevel}`])
 
-    // Build an HTML table so it renders correctly inside <details>
-    const buildHtmlTable = (headers: string[], rows: string[][]): string => {
-      const thead = `<tr>${headers.map(h => `<th>${h}</th>`).join('')}</tr>`
-      const tbody = rows
-        .map(r => `<tr>${r.map(c => `<td>${c}</td>`).join('')}</tr>`)
-        .join('')
-      return `<table>${thead}${tbody}</table>`
-    }
     const configTableHtml = buildHtmlTable(
       ['Key', 'Value'],
       configPairs.map(([k, v]) => [k, v])
@@ -261,24 +752,135 @@ class CleanupAction {
       [
         { data: 'Package', header: true },
         { data: 'Total Deleted', header: true },
-        { data: 'Multi-arch Deleted', header: true }
+        { data: 'Multi-arch Deleted', header: true },
+        { data: 'Storage Reclaimed', header: true }
       ]
     ]
     for (const stats of perPackageStats) {
       resultRows.push([
         stats.name,
         `${stats.numberImagesDeleted}`,
-        `${stats.numberMultiImagesDeleted}`
+        `${stats.numberMultiImagesDeleted}`,
+        formatBytes(stats.bytesReclaimed)
       ])
     }
     // Totals row
     resultRows.push([
       { data: 'Total', header: true },
       `${globalStats.numberImagesDeleted}`,
-      `${globalStats.numberMultiImagesDeleted}`
+      `${globalStats.numberMultiImagesDeleted}`,
+      formatBytes(globalStats.bytesReclaimed)
     ])
     summary.addTable(resultRows)
 
+    // Deletions per artifact class, for the classes any package lost
+    const deletedClasses = ARTIFACT_CLASSES.filter(
+      artifactClass => globalStats.deletedByArtifactClass[artifactClass]
+    )
+    if (deletedClasses.length > 0) {
+      summary.addHeading('Deleted by artifact class', 2)
+      summary.addTable([
+        [
+          { data: 'Package', header: true },
+          ...deletedClasses.map(artifactClass => ({
+            data: artifactClass,
+            header: true
+          }))
+        ],
+        ...perPackageStats.map(stats => [
+          stats.name,
+          ...deletedClasses.map(
+            artifactClass =>
+              `${stats.deletedByArtifactClass[artifactClass] ?? 0}`
+          )
+        ]),
+        [
+          { data: 'Total', header: true },
+          ...deletedClasses.map(
+            artifactClass =>
+              `${globalStats.deletedByArtifactClass[artifactClass] ?? 0}`
+          )
+        ]
+      ])
+    }
+
+    // Indexes pushed again by mode strip or prune-platforms, whose tags
+    // moved to a new digest
+    const rewrittenRows: SummaryTableRow[] = perPackageStats.flatMap(stats =>
+      stats.rewrittenIndexes.map(rewrite => [
+        stats.name,
+        rewrite.tags.join(', '),
+        rewrite.digest,
+        rewrite.newDigest
+      ])
+    )
+    if (rewrittenRows.length > 0) {
+      summary.addHeading('Rewritten images', 2)
+      summary.addTable([
+        [
+          { data: 'Package', header: true },
+          { data: 'Tags', header: true },
+          { data: 'Old digest', header: true },
+          { data: 'New digest', header: true }
+        ],
+        ...rewrittenRows
+      ])
+    }
+
+    // Release tags kept by exclude-release-tags
+    const releaseRows: SummaryTableRow[] = perPackageStats
+      .filter(stats => stats.releaseProtectedTags.length > 0)
+      .map(stats => [stats.name, stats.releaseProtectedTags.join(', ')])
+    if (releaseRows.length > 0) {
+      summary.addHeading('Protected release tags', 2)
+      summary.addTable([
+        [
+          { data: 'Package', header: true },
+          { data: 'Tags', header: true }
+        ],
+        ...releaseRows
+      ])
+    }
+
+    // Deletion plan graphs, collapsed to the staged images
+    const planGraphs: Array<[string, string]> = []
+    for (const graph of graphs) {
+      const mermaid = renderPlanMermaid(graph)
+      if (mermaid) {
+        planGraphs.push([graph.package, mermaid])
+      }
+    }
+    if (planGraphs.length > 0) {
+      summary.addHeading('Deletion plan', 2)
+      for (const [name, mermaid] of planGraphs) {
+        // Blank lines around the fence so it renders inside <details>
+        summary.addDetails(name, `\n\n\`\`\`mermaid\n${mermaid}\n\`\`\`\n\n`)
+      }
+    }
+
+    // Decision trace, one collapsible table per package
+    if (this.config.explainFile) {
+      summary.addHeading('Decision trace', 2)
+      for (const [name, digests] of Object.entries(cleanupTrace)) {
+        const entries = Object.entries(digests)
+        let traceHtml = buildHtmlTable(
+          ['Digest', 'Tags', 'Steps', 'Verdict'],
+          entries
+            .slice(0, SUMMARY_TABLE_ROWS)
+            .map(([digest, trace]) => [
+              digest,
+              trace.tags.join(', '),
+              trace.steps.join('<br>'),
+              trace.verdict
+            ])
+        )
+        if (entries.length > SUMMARY_TABLE_ROWS) {
+          traceHtml += `<p>${entries.length - SUMMARY_TABLE_ROWS} more digests in ${this.config.explainFile}</p>`
+        }
+        summary.addDetails(`${name} (${entries.length} digests)`, traceHtml)
+      }
+    }
+
     await summary.write()
   }
 }
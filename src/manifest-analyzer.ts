@@ -1,8 +1,17 @@
 import * as core from '@actions/core'
 import { LogLevel } from './config.js'
 import { CleanupContext } from './cleanup-types.js'
+import { ArtifactClass, classifyManifest } from './artifact-class.js'
 import { ManifestEntry, runWithConcurrency } from './utils.js'
 
+// Classes of artifacts that only ever refer to other manifests, which the
+// Referrers API is not asked about
+const REFERRER_CLASSES = new Set<ArtifactClass>([
+  'signature',
+  'attestation',
+  'sbom'
+])
+
 // Concurrency cap for parallel registry manifest fetches. Registry traffic
 // goes to ghcr.io (separate rate budget from api.github.com) and the axios
 // client retries 429s, so a modest fan-out is safe. Conservative default —
@@ -17,19 +26,41 @@ export class ManifestAnalyzer {
   }
 
   /**
-   * Builds two relationship maps in a single pass:
+   * Builds five maps in a single pass:
    *  - digestUsedBy: child digest → set of multi-arch parent indexes
    *  - subjectReferrers: subject digest → set of OCI 1.1 referrer digests
    *    (manifests with a `subject` descriptor; subject may or may not be in
    *    the repo — entries where the subject is missing surface as orphans
    *    in the validator).
+   *  - referrerTypes: referrer digest → its artifactType, or config
+   *    mediaType when it has none
+   *  - blobSizes: manifest digest → its config and layer blobs' sizes, for
+   *    StorageUsage
+   *  - artifactClasses: manifest digest → what it holds, see
+   *    classifyManifest
    */
   async loadDigestUsedByMap(): Promise<{
     digestUsedBy: Map<string, Set<string>>
     subjectReferrers: Map<string, Set<string>>
+    referrerTypes: Map<string, string>
+    blobSizes: Map<string, Map<string, number>>
+    artifactClasses: Map<string, ArtifactClass>
   }> {
     const digestUsedBy = new Map<string, Set<string>>()
     const subjectReferrers = new Map<string, Set<string>>()
+    const referrerTypes = new Map<string, string>()
+    const blobSizes = new Map<string, Map<string, number>>()
+    const artifactClasses = new Map<string, ArtifactClass>()
+    const addReferrer = (subject: string, referrer: string): void => {
+      let referrers = subjectReferrers.get(subject)
+      if (!referrers) {
+        referrers = new Set<string>()
+        subjectReferrers.set(subject, referrers)
+      }
+      referrers.add(referrer)
+    }
+    // subject field of each manifest: [referrer, subject, type]
+    const subjectLinks: Array<[string, string, string | undefined]> = []
     const digests = this.context.packageRepo.getDigests()
     const digestCount = digests.size
     const digestList = Array.from(digests)
@@ -52,6 +83,7 @@ export class ManifestAnalyzer {
         const manifest = await this.context.registry.getManifestByDigest(digest)
         // JS Maps are single-thread-safe — mutating shared maps from
         // multiple awaited workers is fine.
+        artifactClasses.set(digest, classifyManifest(manifest))
         if (manifest.manifests) {
           for (const imageManifest of manifest.manifests) {
             if (digests.has(imageManifest.digest)) {
@@ -65,19 +97,28 @@ export class ManifestAnalyzer {
           }
         }
 
-        // OCI 1.1 subject-bearing referrer (sigstore bundle, etc). ghcr.io
-        // does not implement the /referrers API but echoes the subject
-        // field, so we build the reverse index ourselves. Record the link
-        // even when the subject is not in the repo so the validator can
-        // surface orphans.
+        // OCI 1.1 subject-bearing referrer (sigstore bundle, etc), linked
+        // up below once every manifest is classified
         const subjectDigest = manifest.subject?.digest
         if (subjectDigest) {
-          let referrers = subjectReferrers.get(subjectDigest)
-          if (!referrers) {
-            referrers = new Set<string>()
-            subjectReferrers.set(subjectDigest, referrers)
+          subjectLinks.push([
+            digest,
+            subjectDigest,
+            manifest.artifactType ?? manifest.config?.mediaType
+          ])
+        }
+
+        const blobs = new Map<string, number>()
+        for (const descriptor of [
+          manifest.config,
+          ...(manifest.layers ?? [])
+        ]) {
+          if (descriptor?.digest) {
+            blobs.set(descriptor.digest, descriptor.size)
           }
-          referrers.add(digest)
+        }
+        if (blobs.size > 0) {
+          blobSizes.set(digest, blobs)
         }
 
         processed++
@@ -94,9 +135,53 @@ export class ManifestAnalyzer {
       }
     )
     core.info(`loaded ${processed} manifests`)
+
+    // Where the registry has the Referrers API, it answers for every
+    // digest that can be a subject. ghcr.io does not implement it but
+    // echoes the subject field, so the reverse index is built from that
+    // for the rest, including subjects not in the repo so the validator
+    // can surface orphans.
+    const asked = new Set<string>()
+    if (await this.context.registry.supportsReferrers()) {
+      for (const digest of digestList) {
+        const artifactClass = artifactClasses.get(digest)
+        if (artifactClass && !REFERRER_CLASSES.has(artifactClass)) {
+          asked.add(digest)
+        }
+      }
+      await runWithConcurrency(
+        Array.from(asked),
+        MANIFEST_FETCH_CONCURRENCY,
+        async digest => {
+          for (const referrer of await this.context.registry.getReferrers(
+            digest
+          )) {
+            if (!digests.has(referrer.digest)) continue
+            addReferrer(digest, referrer.digest)
+            if (referrer.artifactType) {
+              referrerTypes.set(referrer.digest, referrer.artifactType)
+            }
+          }
+        }
+      )
+    }
+    for (const [digest, subjectDigest, type] of subjectLinks) {
+      if (!asked.has(subjectDigest)) {
+        addReferrer(subjectDigest, digest)
+      }
+      if (type) {
+        referrerTypes.set(digest, type)
+      }
+    }
     core.endGroup()
 
-    return { digestUsedBy, subjectReferrers }
+    return {
+      digestUsedBy,
+      subjectReferrers,
+      referrerTypes,
+      blobSizes,
+      artifactClasses
+    }
   }
 
   /**
@@ -116,9 +201,10 @@ export class ManifestAnalyzer {
     // the subject is missing, the referrer is an orphan and is reached
     // via delete-orphaned-images (symmetric with how orphaned sha256-*
     // fallback tags work).
-    for (const referrers of subjectReferrers.values()) {
+    for (const [subject, referrers] of subjectReferrers) {
       for (const referrerDigest of referrers) {
         digests.delete(referrerDigest)
+        this.context.trace?.record(referrerDigest, `referrer of ${subject}`)
       }
     }
 
@@ -127,6 +213,10 @@ export class ManifestAnalyzer {
       if (manifest.manifests) {
         for (const imageManifest of manifest.manifests) {
           digests.delete(imageManifest.digest)
+          this.context.trace?.record(
+            imageManifest.digest,
+            `child of index ${digest}`
+          )
         }
       }
 
@@ -139,12 +229,20 @@ export class ManifestAnalyzer {
         const tagDigest = this.context.packageRepo.getDigestByTag(tag)
         if (tagDigest) {
           digests.delete(tagDigest)
+          this.context.trace?.record(
+            tagDigest,
+            `referrer of ${digest} by tag ${tag}`
+          )
           // Process any children
           const childManifest =
             await this.context.registry.getManifestByTag(tag)
           if (childManifest?.manifests) {
             for (const manifestEntry of childManifest.manifests) {
               digests.delete(manifestEntry.digest)
+              this.context.trace?.record(
+                manifestEntry.digest,
+                `child of index ${tagDigest}`
+              )
             }
           }
         }
@@ -169,28 +267,26 @@ export class ManifestAnalyzer {
         }
         label = `architecture: ${label}`
       } else {
-        // Check if it's a buildx attestation
+        // Not a platform: buildx attaches its attestations this way
         const manifest = await this.context.registry.getManifestByDigest(
           imageManifest.digest
         )
-        // Kinda crude
-        if (manifest.layers) {
-          if (manifest.layers[0].mediaType === 'application/vnd.in-toto+json') {
-            label = 'application/vnd.in-toto+json'
-          }
-        }
+        const artifactClass = classifyManifest(manifest)
+        label =
+          artifactClass === 'image' || artifactClass === 'oras'
+            ? ''
+            : `artifact: ${artifactClass}`
       }
     } else if (imageManifest.artifactType) {
-      // Check if it's a github attestation
-      if (
-        imageManifest.artifactType.startsWith(
-          'application/vnd.dev.sigstore.bundle'
-        )
-      ) {
-        label = 'sigstore attestation'
-      } else {
-        label = imageManifest.artifactType
-      }
+      // An artifact of an ORAS index or referrers listing, by its type
+      // alone, or the type itself when that tells nothing
+      const artifactClass = classifyManifest({
+        artifactType: imageManifest.artifactType
+      })
+      label =
+        artifactClass === 'oras'
+          ? imageManifest.artifactType
+          : `artifact: ${artifactClass}`
     }
     return label
   }
@@ -7,19 +7,31 @@ import { Manifest, ManifestEntry } from './utils.js'
 
 // Schema version baked into cache keys. Bump when the on-disk record shape
 // changes — old entries become unreadable and LRU out on their own.
-const CACHE_SCHEMA_VERSION = 'v1'
+const CACHE_SCHEMA_VERSION = 'v4'
 
 // Compact per-digest record persisted to disk. Only the fields the cleanup
-// pipeline actually reads — full manifest bodies include blob descriptors,
-// annotations, etc. that are pure cache bloat for our use case.
+// pipeline actually reads — full manifest bodies include layer media types,
+// platform details etc. that are pure cache bloat for our use case.
 export interface DistilledManifest {
   mediaType?: string
+  // With configMediaType and firstLayerMediaType, what classifyManifest
+  // and the referrer types read
+  artifactType?: string
   manifestEntries?: ManifestEntry[]
   subjectDigest?: string
   // Captured for the buildx attestation check in manifest-analyzer
   // (layers[0].mediaType === 'application/vnd.in-toto+json'). Only set for
   // image manifests that have a layers array.
   firstLayerMediaType?: string
+  // Image manifests' config blob, whose labels are cached separately by
+  // their own (content-addressed) digest
+  configDigest?: string
+  configSize?: number
+  configMediaType?: string
+  // [digest, size] of each layer, for storage accounting
+  layerBlobs?: Array<[string, number]>
+  // Manifest / index annotations, matched by the label filters
+  annotations?: Record<string, string>
 }
 
 /**
@@ -48,9 +60,17 @@ export interface DistilledManifest {
  */
 export class ManifestCache {
   private map = new Map<string, DistilledManifest>()
+  // Config blob labels, keyed by config digest. Shared by every manifest
+  // built from the same config and pruned along with the last of them.
+  private labels = new Map<string, Record<string, string>>()
+  // Referrers API answers, keyed by subject digest. Unlike manifests these
+  // are not content-addressed: see prune() for when they are dropped.
+  private referrers = new Map<string, ManifestEntry[]>()
   private packageName: string
   private cacheDir: string
   private cachePath: string
+  private labelsPath: string
+  private referrersPath: string
   private key: string
   private restoreKeys: string[]
   private enabled: boolean
@@ -82,6 +102,8 @@ export class ManifestCache {
       `${owner}-${safePackage}`
     )
     this.cachePath = path.join(this.cacheDir, 'manifests.ndjson')
+    this.labelsPath = path.join(this.cacheDir, 'labels.ndjson')
+    this.referrersPath = path.join(this.cacheDir, 'referrers.ndjson')
 
     const runId = process.env.GITHUB_RUN_ID || `${Date.now()}`
     const keyPrefix = `ghcr-manifest-${CACHE_SCHEMA_VERSION}-${owner}-${safePackage}-`
@@ -129,6 +151,8 @@ export class ManifestCache {
       // content-addressed so the "lost" data costs only a refetch.
       if (stats.loaded === 0 && stats.skipped > 0) {
         this.map.clear()
+        this.labels.clear()
+        this.referrers.clear()
         core.warning(
           'manifest cache: file appears corrupt, discarding and starting cold'
         )
@@ -142,6 +166,8 @@ export class ManifestCache {
       // half-populated. Wipe it so the rest of the run treats this as a
       // clean cold start rather than acting on partial data.
       this.map.clear()
+      this.labels.clear()
+      this.referrers.clear()
       const message = error instanceof Error ? error.message : String(error)
       core.warning(`manifest cache: restore failed (${message}); continuing`)
     } finally {
@@ -234,6 +260,24 @@ export class ManifestCache {
     return this.map.size
   }
 
+  getLabels(configDigest: string): Record<string, string> | undefined {
+    return this.labels.get(configDigest)
+  }
+
+  setLabels(configDigest: string, labels: Record<string, string>): void {
+    this.labels.set(configDigest, labels)
+    this.dirty = true
+  }
+
+  getReferrers(subjectDigest: string): ManifestEntry[] | undefined {
+    return this.referrers.get(subjectDigest)
+  }
+
+  setReferrers(subjectDigest: string, referrers: ManifestEntry[]): void {
+    this.referrers.set(subjectDigest, referrers)
+    this.dirty = true
+  }
+
   /**
    * Drop in-memory entries whose digest is not in {@link liveDigests}.
    * Call after `loadPackages` so the saved cache stays bounded to
@@ -241,16 +285,50 @@ export class ManifestCache {
    * would otherwise accumulate forever (content-addressed, so they'll
    * never come back).
    *
+   * Referrer lists can grow, but a new referrer is a new version, so they
+   * are all dropped once a live digest has no cached manifest; otherwise
+   * they only lose the digests that are gone.
+   *
    * Returns the number of entries removed.
    */
   prune(liveDigests: Set<string>): number {
     let dropped = 0
+    if (this.referrers.size > 0) {
+      const added = Array.from(liveDigests).some(
+        digest => !this.map.has(digest)
+      )
+      for (const [subject, referrers] of this.referrers) {
+        const live = referrers.filter(referrer =>
+          liveDigests.has(referrer.digest)
+        )
+        if (added || !liveDigests.has(subject)) {
+          this.referrers.delete(subject)
+          this.dirty = true
+        } else if (live.length < referrers.length) {
+          this.referrers.set(subject, live)
+          this.dirty = true
+        }
+      }
+    }
     for (const digest of this.map.keys()) {
       if (!liveDigests.has(digest)) {
         this.map.delete(digest)
         dropped++
       }
     }
+    // Labels go once no remaining manifest uses their config
+    const liveConfigs = new Set<string>()
+    for (const distilled of this.map.values()) {
+      if (distilled.configDigest) {
+        liveConfigs.add(distilled.configDigest)
+      }
+    }
+    for (const configDigest of this.labels.keys()) {
+      if (!liveConfigs.has(configDigest)) {
+        this.labels.delete(configDigest)
+        this.dirty = true
+      }
+    }
     if (dropped > 0) {
       core.info(`manifest cache: pruned ${dropped} stale entries`)
       this.dirty = true
@@ -313,15 +391,107 @@ export class ManifestCache {
         skipped++
       }
     }
+    skipped += await this.loadLabelsFromDisk()
+    skipped += await this.loadReferrersFromDisk()
     return { loaded, skipped }
   }
 
+  /**
+   * Load the config labels file, returning the number of malformed lines
+   * skipped. A missing file (a cache saved before any labels were
+   * fetched) is not an error.
+   */
+  private async loadLabelsFromDisk(): Promise<number> {
+    let raw: string
+    try {
+      raw = await fs.promises.readFile(this.labelsPath, 'utf8')
+    } catch {
+      return 0
+    }
+    let skipped = 0
+    for (const line of raw.split('\n')) {
+      if (!line) continue
+      try {
+        const { configDigest, labels } = JSON.parse(line) as {
+          configDigest: string
+          labels: Record<string, string>
+        }
+        if (
+          typeof configDigest === 'string' &&
+          configDigest.length > 0 &&
+          typeof labels === 'object' &&
+          labels !== null
+        ) {
+          this.labels.set(configDigest, labels)
+        } else {
+          skipped++
+        }
+      } catch {
+        skipped++
+      }
+    }
+    return skipped
+  }
+
+  /**
+   * Load the referrers file, returning the number of malformed lines
+   * skipped. Like the labels file, a missing one is not an error.
+   */
+  private async loadReferrersFromDisk(): Promise<number> {
+    let raw: string
+    try {
+      raw = await fs.promises.readFile(this.referrersPath, 'utf8')
+    } catch {
+      return 0
+    }
+    let skipped = 0
+    for (const line of raw.split('\n')) {
+      if (!line) continue
+      try {
+        const { subjectDigest, referrers } = JSON.parse(line) as {
+          subjectDigest: string
+          referrers: ManifestEntry[]
+        }
+        if (
+          typeof subjectDigest === 'string' &&
+          subjectDigest.length > 0 &&
+          Array.isArray(referrers)
+        ) {
+          this.referrers.set(subjectDigest, referrers)
+        } else {
+          skipped++
+        }
+      } catch {
+        skipped++
+      }
+    }
+    return skipped
+  }
+
   private async writeToDisk(): Promise<void> {
     const lines: string[] = []
     for (const [digest, distilled] of this.map) {
       lines.push(JSON.stringify({ digest, ...distilled }))
     }
     await fs.promises.writeFile(this.cachePath, `${lines.join('\n')}\n`)
+
+    const labelLines: string[] = []
+    for (const [configDigest, labels] of this.labels) {
+      labelLines.push(JSON.stringify({ configDigest, labels }))
+    }
+    await fs.promises.writeFile(
+      this.labelsPath,
+      labelLines.length > 0 ? `${labelLines.join('\n')}\n` : ''
+    )
+
+    const referrerLines: string[] = []
+    for (const [subjectDigest, referrers] of this.referrers) {
+      referrerLines.push(JSON.stringify({ subjectDigest, referrers }))
+    }
+    await fs.promises.writeFile(
+      this.referrersPath,
+      referrerLines.length > 0 ? `${referrerLines.join('\n')}\n` : ''
+    )
   }
 }
 
@@ -333,6 +503,9 @@ export function distillManifest(manifest: Manifest): DistilledManifest {
   if (manifest.mediaType) {
     distilled.mediaType = manifest.mediaType
   }
+  if (manifest.artifactType) {
+    distilled.artifactType = manifest.artifactType
+  }
   if (manifest.manifests && manifest.manifests.length > 0) {
     distilled.manifestEntries = manifest.manifests.map(entry => ({
       digest: entry.digest,
@@ -347,6 +520,18 @@ export function distillManifest(manifest: Manifest): DistilledManifest {
   }
   if (manifest.layers && manifest.layers.length > 0) {
     distilled.firstLayerMediaType = manifest.layers[0].mediaType
+    distilled.layerBlobs = manifest.layers.map(layer => [
+      layer.digest,
+      layer.size
+    ])
+  }
+  if (manifest.config?.digest) {
+    distilled.configDigest = manifest.config.digest
+    distilled.configSize = manifest.config.size
+    distilled.configMediaType = manifest.config.mediaType
+  }
+  if (manifest.annotations && Object.keys(manifest.annotations).length > 0) {
+    distilled.annotations = manifest.annotations
   }
   return distilled
 }
@@ -356,9 +541,10 @@ export function distillManifest(manifest: Manifest): DistilledManifest {
  * callers can read it the same way they read a registry response.
  *
  * Only the fields used by the cleanup pipeline (analyzer, deleter
- * cascade, validator) are populated. In particular `layers[0]` carries
- * the original mediaType but its `digest`/`size` are placeholders —
- * never trust them. The untag-PUT path must use
+ * cascade, validator, label filters, storage accounting) are populated.
+ * Layer and config descriptors keep their digest and size, but only the
+ * config and `layers[0]` carry their original mediaType — never trust the
+ * others. The untag-PUT path must use
  * Registry.getRawManifestByDigest, which always fetches the full body
  * from the registry.
  */
@@ -367,20 +553,31 @@ export function reconstituteManifest(distilled: DistilledManifest): Manifest {
   if (distilled.mediaType) {
     manifest.mediaType = distilled.mediaType
   }
+  if (distilled.artifactType) {
+    manifest.artifactType = distilled.artifactType
+  }
   if (distilled.manifestEntries) {
     manifest.manifests = distilled.manifestEntries
   }
   if (distilled.subjectDigest) {
     manifest.subject = { digest: distilled.subjectDigest }
   }
-  if (distilled.firstLayerMediaType) {
-    manifest.layers = [
-      {
-        mediaType: distilled.firstLayerMediaType,
-        digest: '',
-        size: 0
-      }
-    ]
+  if (distilled.layerBlobs) {
+    manifest.layers = distilled.layerBlobs.map(([digest, size], index) => ({
+      mediaType: index === 0 ? (distilled.firstLayerMediaType ?? '') : '',
+      digest,
+      size
+    }))
+  }
+  if (distilled.configDigest) {
+    manifest.config = {
+      mediaType: distilled.configMediaType ?? '',
+      digest: distilled.configDigest,
+      size: distilled.configSize ?? 0
+    }
+  }
+  if (distilled.annotations) {
+    manifest.annotations = distilled.annotations
   }
   return manifest
 }
@@ -0,0 +1,426 @@
+import axios, {
+  AxiosError,
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  isAxiosError
+} from 'axios'
+import axiosRetry from 'axios-retry'
+import { Config } from './config.js'
+import type { PackageBackend } from './package-backend.js'
+import { IMAGE_CONFIG_MEDIA_TYPES } from './artifact-class.js'
+import {
+  basicAuthorization,
+  GhPackage,
+  isValidChallenge,
+  Manifest,
+  MANIFEST_MEDIA_TYPES,
+  OCI_INDEX_MEDIA_TYPE,
+  parseChallenge,
+  parseNextLink,
+  REFERRERS_PROBE_DIGEST,
+  runWithConcurrency
+} from './utils.js'
+
+// Tags asked for per tags/list page; the registry may return fewer
+const TAG_PAGE_SIZE = 1000
+
+// Concurrency for the per-tag HEAD and per-manifest GET requests
+const OCI_REQUEST_CONCURRENCY = 10
+
+/**
+ * The version id of a manifest on a registry that has none: the first 48
+ * bits of its digest, so the id stays the same across runs and plan files.
+ * listVersions refuses a package where two digests share one.
+ */
+export function versionIdFromDigest(digest: string): number {
+  const hex = digest.slice(digest.indexOf(':') + 1, digest.indexOf(':') + 13)
+  return parseInt(hex, 16)
+}
+
+// A build time as an ISO string. Reproducible builds pin it to the epoch,
+// which tells nothing, so that counts as unknown like a missing time.
+function isoTime(value: string | undefined): string | undefined {
+  const time = value ? Date.parse(value) : NaN
+  return time > 0 ? new Date(time).toISOString() : undefined
+}
+
+// What listVersions learns about a manifest before it becomes a GhPackage
+interface OciVersion {
+  tags: string[]
+  created?: string
+  children: string[]
+}
+
+/**
+ * Package versions of any registry implementing the OCI Distribution API,
+ * such as Harbor or `registry:2`. A package is the repository
+ * `<owner>/<package>`, and a version is a manifest.
+ *
+ * The API has no listing of manifests, only of tags, so a package is the
+ * manifests its tags resolve to plus the platform images of its multi-arch
+ * indexes and, where the registry has the OCI 1.1 Referrers API, their
+ * referrers. Manifests none of those reach are invisible to it. The API has no
+ * upload time either: a version's `updated_at` is the
+ * `org.opencontainers.image.created` annotation, else the `created` time
+ * of its image config, else for an index that of its newest platform
+ * image. A version whose age can't be told gets the time of the listing,
+ * so age rules never delete it.
+ */
+export class OciDistributionBackend implements PackageBackend {
+  // The action configuration
+  private config: Config
+
+  // http client for the registry, and one for its token service
+  private client: AxiosInstance
+  private authClient: AxiosInstance
+
+  // Bearer tokens by the access they were issued for. A token is scoped to
+  // the actions the registry asked for when it challenged the request, so
+  // reads and deletes each keep their own.
+  private tokens = new Map<'pull' | 'delete', string>()
+
+  // The Basic authorization, once the registry challenged for it, as a
+  // `registry:2` with htpasswd does
+  private basicAuth: string | null = null
+
+  constructor(config: Config) {
+    this.config = config
+    this.client = axios.create({ baseURL: config.registryUrl })
+    this.authClient = axios.create()
+    // Same retry posture as Registry: network errors, 5xx and 429s
+    const retryConfig = {
+      retries: 3,
+      retryCondition: (error: AxiosError) =>
+        axiosRetry.isNetworkOrIdempotentRequestError(error) ||
+        error.response?.status === 429,
+      retryDelay: (retryNumber: number, error: AxiosError) =>
+        axiosRetry.exponentialDelay(retryNumber, error)
+    }
+    axiosRetry(this.client, retryConfig)
+    axiosRetry(this.authClient, retryConfig)
+  }
+
+  private repository(targetPackage: string): string {
+    return `${this.config.owner}/${targetPackage}`
+  }
+
+  async listVersions(
+    targetPackage: string,
+    ingestPage: (versions: GhPackage[]) => void
+  ): Promise<void> {
+    const repository = this.repository(targetPackage)
+    const listedAt = new Date().toISOString()
+
+    let tags: string[]
+    try {
+      tags = await this.listTags(repository)
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        throw new Error(
+          `The package "${targetPackage}" is not found under ${repository} on ${this.config.registryUrl}, check the package value is correctly set.`
+        )
+      }
+      throw error
+    }
+
+    // Resolve every tag to the digest of its manifest
+    const versions = new Map<string, OciVersion>()
+    await runWithConcurrency(tags, OCI_REQUEST_CONCURRENCY, async tag => {
+      const response = await this.request({
+        method: 'HEAD',
+        url: `/v2/${repository}/manifests/${tag}`,
+        headers: { Accept: MANIFEST_MEDIA_TYPES }
+      })
+      const digest = response.headers['docker-content-digest']
+      if (!digest) {
+        throw new Error(
+          `${this.config.registryUrl} sent no Docker-Content-Digest for ${repository}:${tag}`
+        )
+      }
+      let version = versions.get(digest)
+      if (!version) {
+        version = { tags: [], children: [] }
+        versions.set(digest, version)
+      }
+      version.tags.push(tag)
+    })
+
+    // Read the manifests, adding the platform images of each index, and
+    // the referrers of each version where the registry has the OCI 1.1
+    // Referrers API, as untagged versions, breadth first
+    const referrersApi = await this.supportsReferrers(repository)
+    let pending = [...versions.keys()]
+    while (pending.length > 0) {
+      const found: string[] = []
+      await runWithConcurrency(
+        pending,
+        OCI_REQUEST_CONCURRENCY,
+        async digest => {
+          const version = versions.get(digest)
+          if (!version) return
+          const manifest = await this.getManifest(repository, digest)
+          version.created = isoTime(
+            manifest.annotations?.['org.opencontainers.image.created']
+          )
+          for (const entry of manifest.manifests ?? []) {
+            version.children.push(entry.digest)
+            if (!versions.has(entry.digest)) {
+              versions.set(entry.digest, { tags: [], children: [] })
+              found.push(entry.digest)
+            }
+          }
+          if (referrersApi) {
+            for (const referrer of await this.listReferrers(
+              repository,
+              digest
+            )) {
+              if (!versions.has(referrer)) {
+                versions.set(referrer, { tags: [], children: [] })
+                found.push(referrer)
+              }
+            }
+          }
+          // Only image configs carry `created`
+          if (
+            !version.created &&
+            manifest.config &&
+            IMAGE_CONFIG_MEDIA_TYPES.has(manifest.config.mediaType)
+          ) {
+            version.created = await this.getCreated(
+              repository,
+              manifest.config.digest
+            )
+          }
+        }
+      )
+      pending = found
+    }
+
+    const packages: GhPackage[] = []
+    // Digests by version id: two manifests sharing one would overwrite each
+    // other in PackageRepo, and a delete could reach the wrong one
+    const digestsById = new Map<number, string>()
+    for (const [digest, version] of versions) {
+      const id = versionIdFromDigest(digest)
+      const other = digestsById.get(id)
+      if (other !== undefined) {
+        throw new Error(
+          `${digest} and ${other} in ${repository} share the version id ${id}, refusing to go on`
+        )
+      }
+      digestsById.set(id, digest)
+      let updatedAt = version.created
+      if (!updatedAt) {
+        for (const child of version.children) {
+          const created = versions.get(child)?.created
+          if (created && (!updatedAt || created > updatedAt)) {
+            updatedAt = created
+          }
+        }
+      }
+      packages.push({
+        id,
+        name: digest,
+        updated_at: updatedAt ?? listedAt,
+        metadata: { container: { tags: version.tags.sort() } }
+      })
+    }
+    ingestPage(packages)
+  }
+
+  private async listTags(repository: string): Promise<string[]> {
+    const tags: string[] = []
+    let url: string | null = `/v2/${repository}/tags/list?n=${TAG_PAGE_SIZE}`
+    while (url) {
+      const response: AxiosResponse<{ tags?: string[] | null }> =
+        await this.request({ method: 'GET', url })
+      tags.push(...(response.data.tags ?? []))
+      url = parseNextLink(response.headers['link'])
+    }
+    return tags
+  }
+
+  // Whether the registry implements the OCI 1.1 Referrers API, as
+  // Registry.supportsReferrers probes it
+  private async supportsReferrers(repository: string): Promise<boolean> {
+    try {
+      const response = await this.request({
+        method: 'GET',
+        url: `/v2/${repository}/referrers/${REFERRERS_PROBE_DIGEST}`,
+        headers: { Accept: OCI_INDEX_MEDIA_TYPE }
+      })
+      return `${response.headers['content-type'] ?? ''}`.startsWith(
+        OCI_INDEX_MEDIA_TYPE
+      )
+    } catch (error) {
+      if (isAxiosError(error) && error.response) {
+        return false
+      }
+      throw error
+    }
+  }
+
+  private async listReferrers(
+    repository: string,
+    digest: string
+  ): Promise<string[]> {
+    const referrers: string[] = []
+    let url: string | null = `/v2/${repository}/referrers/${digest}`
+    while (url) {
+      const response: AxiosResponse<Manifest> = await this.request({
+        method: 'GET',
+        url,
+        headers: { Accept: OCI_INDEX_MEDIA_TYPE }
+      })
+      for (const entry of response.data?.manifests ?? []) {
+        referrers.push(entry.digest)
+      }
+      url = parseNextLink(response.headers['link'])
+    }
+    return referrers
+  }
+
+  private async getManifest(
+    repository: string,
+    digest: string
+  ): Promise<Manifest> {
+    const response = await this.request<Manifest>({
+      method: 'GET',
+      url: `/v2/${repository}/manifests/${digest}`,
+      headers: { Accept: MANIFEST_MEDIA_TYPES }
+    })
+    return response.data
+  }
+
+  // The `created` time of an image config blob
+  private async getCreated(
+    repository: string,
+    configDigest: string
+  ): Promise<string | undefined> {
+    const response = await this.request<{ created?: string }>({
+      method: 'GET',
+      url: `/v2/${repository}/blobs/${configDigest}`
+    })
+    return isoTime(response.data?.created)
+  }
+
+  async listDeletedVersions(): Promise<GhPackage[]> {
+    throw new Error('mode restore requires registry-type ghcr')
+  }
+
+  async deleteVersion(
+    targetPackage: string,
+    id: number,
+    digest: string
+  ): Promise<boolean> {
+    const repository = this.repository(targetPackage)
+    try {
+      await this.request(
+        { method: 'DELETE', url: `/v2/${repository}/manifests/${digest}` },
+        'delete'
+      )
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        return false
+      }
+      if (isAxiosError(error) && error.response?.status === 405) {
+        throw new Error(
+          `${this.config.registryUrl} does not allow deleting manifests of ${repository}; a registry:2 container needs REGISTRY_STORAGE_DELETE_ENABLED=true`
+        )
+      }
+      throw error
+    }
+    return true
+  }
+
+  async restoreVersion(): Promise<void> {
+    throw new Error('mode restore requires registry-type ghcr')
+  }
+
+  async listPackages(): Promise<string[]> {
+    const prefix = `${this.config.owner}/`
+    const packages: string[] = []
+    let url: string | null = `/v2/_catalog?n=${TAG_PAGE_SIZE}`
+    while (url) {
+      const response: AxiosResponse<{ repositories?: string[] | null }> =
+        await this.request({ method: 'GET', url })
+      for (const repository of response.data.repositories ?? []) {
+        if (repository.startsWith(prefix)) {
+          packages.push(repository.slice(prefix.length))
+        }
+      }
+      url = parseNextLink(response.headers['link'])
+    }
+    return packages
+  }
+
+  /**
+   * Send a request, answering a 401 challenge with a bearer token from the
+   * registry's token service, or the credentials themselves for a Basic
+   * challenge, and sending it again. A registry without authentication
+   * never challenges.
+   */
+  private async request<T = unknown>(
+    request: AxiosRequestConfig,
+    access: 'pull' | 'delete' = 'pull'
+  ): Promise<AxiosResponse<T>> {
+    const send = async (): Promise<AxiosResponse<T>> => {
+      const token = this.tokens.get(access)
+      const authorization =
+        this.basicAuth ?? (token ? `Bearer ${token}` : undefined)
+      return await this.client.request<T>({
+        ...request,
+        headers: {
+          ...request.headers,
+          ...(authorization ? { Authorization: authorization } : {})
+        }
+      })
+    }
+    try {
+      return await send()
+    } catch (error) {
+      if (!isAxiosError(error) || error.response?.status !== 401) {
+        throw error
+      }
+      const challenge = `${error.response.headers['www-authenticate'] ?? ''}`
+      const basic = basicAuthorization(
+        challenge,
+        this.config.registryUsername ?? 'token',
+        this.config.token
+      )
+      if (basic) {
+        // Sent with the credentials already: they were refused
+        if (this.basicAuth) {
+          throw error
+        }
+        this.basicAuth = basic
+        return await send()
+      }
+      const attributes = parseChallenge(challenge)
+      if (!isValidChallenge(attributes)) {
+        throw new Error(`invalid www-authenticate challenge ${challenge}`)
+      }
+      const response = await this.authClient.get<{
+        token?: string
+        access_token?: string
+      }>(
+        `${attributes.get('realm')}?service=${attributes.get('service')}&scope=${attributes.get('scope')}`,
+        {
+          auth: {
+            username: this.config.registryUsername ?? 'token',
+            password: this.config.token
+          }
+        }
+      )
+      const token = response.data.token ?? response.data.access_token
+      if (!token) {
+        throw new Error(
+          `${this.config.registryUrl} login failed: ${JSON.stringify(response.data)}`
+        )
+      }
+      this.tokens.set(access, token)
+      return await send()
+    }
+  }
+}
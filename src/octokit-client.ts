@@ -7,6 +7,13 @@ import { RequestError } from '@octokit/request-error'
 import type { EndpointDefaults } from '@octokit/types'
 import { LogLevel } from './config.js'
 
+// A GitHub Release, reduced to what the cleanup needs
+export interface Release {
+  tag: string
+  draft: boolean
+  prerelease: boolean
+}
+
 const MyOctokit = Octokit.plugin(requestLog, throttling, retry)
 type MyOctokitInstance = InstanceType<typeof MyOctokit>
 
@@ -174,4 +181,68 @@ export class OctokitClient {
       throw error
     }
   }
+
+  /**
+   * Return the state of a pull request via
+   * `GET /repos/{owner}/{repo}/pulls/{pull_number}`. Merged pull requests
+   * report `closed`. Returns `null` when the number isn't a pull request
+   * of the repository (an issue number, or never existed).
+   */
+  async getPullRequestState(
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<'open' | 'closed' | null> {
+    try {
+      const result = await this.octokit.request(
+        'GET /repos/{owner}/{repo}/pulls/{pull_number}',
+        { owner, repo, pull_number: pullNumber }
+      )
+      return result.data.state === 'open' ? 'open' : 'closed'
+    } catch (error) {
+      if (error instanceof RequestError && error.status === 404) {
+        return null
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Return the names of every branch of a repository via
+   * `GET /repos/{owner}/{repo}/branches`.
+   */
+  async listBranches(owner: string, repo: string): Promise<string[]> {
+    const branches: string[] = []
+    for await (const response of this.octokit.paginate.iterator(
+      this.octokit.rest.repos.listBranches,
+      { owner, repo, per_page: 100 }
+    )) {
+      for (const branch of response.data) {
+        branches.push(branch.name)
+      }
+    }
+    return branches
+  }
+
+  /**
+   * Return every release of a repository via
+   * `GET /repos/{owner}/{repo}/releases`. Draft releases are only listed
+   * for tokens with push access to the repository.
+   */
+  async listReleases(owner: string, repo: string): Promise<Release[]> {
+    const releases: Release[] = []
+    for await (const response of this.octokit.paginate.iterator(
+      this.octokit.rest.repos.listReleases,
+      { owner, repo, per_page: 100 }
+    )) {
+      for (const release of response.data) {
+        releases.push({
+          tag: release.tag_name,
+          draft: release.draft,
+          prerelease: release.prerelease
+        })
+      }
+    }
+    return releases
+  }
 }
@@ -0,0 +1,58 @@
+import { Config } from './config.js'
+import { OctokitClient } from './octokit-client.js'
+import { GitHubPackagesBackend } from './github-packages-backend.js'
+import { OciDistributionBackend } from './oci-distribution-backend.js'
+import { GhPackage } from './utils.js'
+
+/**
+ * Where PackageRepo gets the versions of a package from and how it deletes
+ * them. Versions are described as GhPackage whatever the registry, so the
+ * rest of the cleanup works the same on every backend.
+ */
+export interface PackageBackend {
+  /**
+   * List every version of the package, handing each page to `ingestPage`
+   * as it arrives.
+   */
+  listVersions(
+    targetPackage: string,
+    ingestPage: (versions: GhPackage[]) => void
+  ): Promise<void>
+
+  /**
+   * List the deleted versions the registry still holds for restoring.
+   */
+  listDeletedVersions(targetPackage: string): Promise<GhPackage[]>
+
+  /**
+   * Delete a version. Resolves false when the version was already gone.
+   */
+  deleteVersion(
+    targetPackage: string,
+    id: number,
+    digest: string
+  ): Promise<boolean>
+
+  /**
+   * Restore a deleted version.
+   */
+  restoreVersion(targetPackage: string, id: number): Promise<void>
+
+  /**
+   * List the packages of the owner.
+   */
+  listPackages(): Promise<string[]>
+}
+
+/**
+ * The backend for `registry-type`.
+ */
+export function createPackageBackend(
+  config: Config,
+  octokitClient: OctokitClient
+): PackageBackend {
+  if (config.registryType === 'oci') {
+    return new OciDistributionBackend(config)
+  }
+  return new GitHubPackagesBackend(config, octokitClient)
+}
@@ -0,0 +1,200 @@
+import fs from 'fs'
+import { CleanupContext } from './cleanup-types.js'
+import { ManifestPlatform } from './utils.js'
+
+/**
+ * One package version as `mode: inventory` reports it.
+ */
+export interface InventoryEntry {
+  package: string
+  digest: string
+  id: number
+  tags: string[]
+  updatedAt: string
+  mediaType: string
+  // os/architecture of a platform image, or of each platform of an index
+  platforms: string[]
+  // The multi-arch indexes listing the version as a platform image
+  parents: string[]
+  // Signatures, attestations and other referrers of the version
+  referrers: string[]
+  // Bytes of the distinct config and layer blobs of the version and, for
+  // an index, of its platform images
+  size: number
+  child: boolean
+  ghost: boolean
+  partial: boolean
+  orphan: boolean
+}
+
+/**
+ * The manifest relationships of a package, as built by
+ * ManifestAnalyzer.loadDigestUsedByMap.
+ */
+export interface ManifestRelations {
+  digestUsedBy: Map<string, Set<string>>
+  subjectReferrers: Map<string, Set<string>>
+  blobSizes: Map<string, Map<string, number>>
+}
+
+/**
+ * The broken images ImageValidator found in the package.
+ */
+export interface InventoryFindings {
+  ghost: Set<string>
+  partial: Set<string>
+  orphan: Set<string>
+}
+
+function formatPlatform(platform: ManifestPlatform): string {
+  return [platform.os ?? 'unknown', platform.architecture, platform.variant]
+    .filter(Boolean)
+    .join('/')
+}
+
+/**
+ * Describe every version of the package, in package list order.
+ */
+export async function buildInventory(
+  context: CleanupContext,
+  relations: ManifestRelations,
+  findings: InventoryFindings
+): Promise<InventoryEntry[]> {
+  const { packageRepo, registry } = context
+  const digests = [...packageRepo.getDigests()]
+
+  // Platform of each platform image, from the index listing it, and the
+  // platform images of each index
+  const childPlatforms = new Map<string, string>()
+  const children = new Map<string, string[]>()
+  for (const digest of digests) {
+    const manifest = await registry.getManifestByDigest(digest)
+    for (const entry of manifest.manifests ?? []) {
+      if (entry.platform) {
+        childPlatforms.set(entry.digest, formatPlatform(entry.platform))
+      }
+      if (relations.digestUsedBy.has(entry.digest)) {
+        let list = children.get(digest)
+        if (!list) {
+          list = []
+          children.set(digest, list)
+        }
+        list.push(entry.digest)
+      }
+    }
+  }
+
+  const entries: InventoryEntry[] = []
+  for (const digest of digests) {
+    const ghPackage = packageRepo.getPackageByDigest(digest)
+    if (!ghPackage) {
+      throw new Error(`cache invariant: digest ${digest} not in package cache`)
+    }
+    const manifest = await registry.getManifestByDigest(digest)
+    const platforms: string[] = []
+    for (const entry of manifest.manifests ?? []) {
+      if (entry.platform) {
+        platforms.push(formatPlatform(entry.platform))
+      }
+    }
+    const childPlatform = childPlatforms.get(digest)
+    if (childPlatform) {
+      platforms.push(childPlatform)
+    }
+
+    const referrers = new Set(relations.subjectReferrers.get(digest))
+    for (const tag of packageRepo.getReferrerTagsForDigest(digest)) {
+      const referrer = packageRepo.getDigestByTag(tag)
+      if (referrer) {
+        referrers.add(referrer)
+      }
+    }
+
+    const blobs = new Map<string, number>()
+    for (const manifestDigest of [digest, ...(children.get(digest) ?? [])]) {
+      const manifestBlobs = relations.blobSizes.get(manifestDigest)
+      for (const [blob, size] of manifestBlobs ?? []) {
+        blobs.set(blob, size)
+      }
+    }
+    let size = 0
+    for (const blobSize of blobs.values()) {
+      size += blobSize
+    }
+
+    const parents = [...(relations.digestUsedBy.get(digest) ?? [])]
+    entries.push({
+      package: context.targetPackage,
+      digest,
+      id: ghPackage.id,
+      tags: [...ghPackage.metadata.container.tags],
+      updatedAt: ghPackage.updated_at,
+      mediaType: manifest.mediaType ?? '',
+      platforms,
+      parents,
+      referrers: [...referrers],
+      size,
+      child: parents.length > 0,
+      ghost: findings.ghost.has(digest),
+      partial: findings.partial.has(digest),
+      orphan: findings.orphan.has(digest)
+    })
+  }
+  return entries
+}
+
+const CSV_COLUMNS: Array<keyof InventoryEntry> = [
+  'package',
+  'digest',
+  'id',
+  'tags',
+  'updatedAt',
+  'mediaType',
+  'platforms',
+  'parents',
+  'referrers',
+  'size',
+  'child',
+  'ghost',
+  'partial',
+  'orphan'
+]
+
+function csvField(value: InventoryEntry[keyof InventoryEntry]): string {
+  const text = Array.isArray(value) ? value.join(' ') : `${value}`
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * The inventory as CSV, one row per version. List columns are space
+ * separated.
+ */
+export function inventoryCsv(entries: InventoryEntry[]): string {
+  const rows = [CSV_COLUMNS.join(',')]
+  for (const entry of entries) {
+    rows.push(CSV_COLUMNS.map(column => csvField(entry[column])).join(','))
+  }
+  return `${rows.join('\n')}\n`
+}
+
+/**
+ * Write the inventory to each `inventory-file`: CSV for a `.csv` path,
+ * JSON otherwise.
+ */
+export async function writeInventory(
+  paths: string[],
+  entries: InventoryEntry[]
+): Promise<void> {
+  for (const path of paths) {
+    const content = path.toLowerCase().endsWith('.csv')
+      ? inventoryCsv(entries)
+      : `${JSON.stringify(entries, null, 2)}\n`
+    try {
+      await fs.promises.writeFile(path, content)
+    } catch (error) {
+      throw new Error(
+        `inventory-file ${path} could not be written: ${(error as Error).message}`
+      )
+    }
+  }
+}
@@ -2,49 +2,25 @@ import * as core from '@actions/core'
 import { Config, LogLevel } from './config.js'
 import { OctokitClient } from './octokit-client.js'
 import { RequestError } from '@octokit/request-error'
+import { createPackageBackend, PackageBackend } from './package-backend.js'
 import {
   consoleLogger,
   GhPackage,
   logListing,
   Logger,
-  parentDigestFromReferrerTag,
-  runWithConcurrency
+  parentDigestFromReferrerTag
 } from './utils.js'
 
-// Concurrency for parallel page fetches in loadPackages. Modest fan-out
-// — api.github.com applies per-token rate limits that throttling handles
-// up to a point, and we'd rather not push other workflows' calls into a
-// budget squeeze.
-const PACKAGE_LIST_PAGE_CONCURRENCY = 10
-
-/**
- * Parse the last-page number from a paginated GitHub API response's Link
- * header. Returns 1 when there is no `rel="last"` link, which is the
- * single-page case (nothing more to fetch).
- *
- * Example header:
- *   <https://api.github.com/...?page=2>; rel="next",
- *   <https://api.github.com/...?page=42>; rel="last"
- */
-export function parseLastPageFromLinkHeader(
-  linkHeader: string | undefined
-): number {
-  if (!linkHeader) return 1
-  const match = linkHeader.match(/<[^>]*[?&]page=(\d+)[^>]*>\s*;\s*rel="last"/)
-  if (!match) return 1
-  const n = parseInt(match[1], 10)
-  return Number.isFinite(n) && n > 0 ? n : 1
-}
-
 /**
- * Provides access to a package via the GitHub Packages REST API.
+ * Provides access to the versions of a package, indexed by digest, id and
+ * tag. The registry specific calls go through a PackageBackend.
  */
 export class PackageRepo {
   // The action configuration
   config: Config
 
-  // The Octokit client for API calls
-  octokitClient: OctokitClient
+  // Lists and deletes the versions, per `registry-type`
+  backend: PackageBackend
 
   // Map of digests to package ids
   digest2Id = new Map<string, number>()
@@ -66,14 +42,19 @@ export class PackageRepo {
    *
    * @param config The action configuration
    * @param octokitClient The Octokit client for API calls
+   * @param backend The backend, by default the one `registry-type` selects
    */
-  constructor(config: Config, octokitClient: OctokitClient) {
+  constructor(
+    config: Config,
+    octokitClient: OctokitClient,
+    backend: PackageBackend = createPackageBackend(config, octokitClient)
+  ) {
     this.config = config
-    this.octokitClient = octokitClient
+    this.backend = backend
   }
 
   /**
-   * Loads all versions of the package from the GitHub Packages API and populates the internal maps
+   * Loads all versions of the package from the backend and populates the internal maps
    */
   /**
    * Load the package list into the in-memory maps.
@@ -97,64 +78,9 @@ export class PackageRepo {
       this.tag2Digest.clear()
       this.referrerTagsByParent.clear()
 
-      const octokit = this.octokitClient.getClient()
-      // Three-branch endpoint dispatch with full Octokit types — each
-      // branch has a different required owner param (org / username /
-      // none), so a single polymorphic helper would need a discriminated
-      // union or fall back to `any`. Inline dispatch is clearer and
-      // type-safe; the only cast in the flow is `response.data as
-      // GhPackage[]` at the ingest boundary (see ingestPage comment).
-      const fetchPage = async (
-        page: number
-      ): Promise<{ data: unknown[]; headers: { link?: string } }> => {
-        if (this.config.repoType === 'User') {
-          if (this.config.tokenOwnsPackage) {
-            return await octokit.rest.packages.getAllPackageVersionsForPackageOwnedByAuthenticatedUser(
-              {
-                package_type: 'container',
-                package_name: targetPackage,
-                state: 'active',
-                per_page: 100,
-                page
-              }
-            )
-          }
-          return await octokit.rest.packages.getAllPackageVersionsForPackageOwnedByUser(
-            {
-              package_type: 'container',
-              package_name: targetPackage,
-              username: this.config.owner,
-              state: 'active',
-              per_page: 100,
-              page
-            }
-          )
-        }
-        return await octokit.rest.packages.getAllPackageVersionsForPackageOwnedByOrg(
-          {
-            package_type: 'container',
-            package_name: targetPackage,
-            org: this.config.owner,
-            state: 'active',
-            per_page: 100,
-            page
-          }
-        )
-      }
-
-      // Custom paginator: fetch page 1 to discover the total page count
-      // from the Link header, then fan out remaining pages in parallel.
-      // octokit.paginate.iterator follows the rel="next" cursor
-      // sequentially, which on a 60k-package repo means ~600 strictly-
-      // serial round trips to api.github.com — minutes of wall clock.
-      //
-      // Boundary cast: Octokit's PackageVersion has `metadata?` and
-      // `container?` as optional, but the container-package endpoints
-      // always return populated `metadata.container.tags`. Asserting
-      // the shape here keeps the rest of the codebase on the
-      // required-field GhPackage type without scattering `?.` guards.
-      const ingestPage = (data: unknown[]): void => {
-        const packages = data as GhPackage[]
+      // JS is single-threaded — concurrent page ingests mutate the same
+      // Maps safely.
+      await this.backend.listVersions(targetPackage, packages => {
         for (const packageVersion of packages) {
           this.digest2Id.set(packageVersion.name, packageVersion.id)
           this.id2Package.set(packageVersion.id, packageVersion)
@@ -162,28 +88,7 @@ export class PackageRepo {
             this.tag2Digest.set(tag, packageVersion.name)
           }
         }
-      }
-
-      const firstResponse = await fetchPage(1)
-      ingestPage(firstResponse.data)
-
-      const lastPage = parseLastPageFromLinkHeader(firstResponse.headers?.link)
-      if (lastPage > 1) {
-        const remainingPages = Array.from(
-          { length: lastPage - 1 },
-          (_, i) => i + 2
-        )
-        await runWithConcurrency(
-          remainingPages,
-          PACKAGE_LIST_PAGE_CONCURRENCY,
-          async page => {
-            const response = await fetchPage(page)
-            // JS is single-threaded — concurrent ingestPage calls
-            // mutate the same Maps safely.
-            ingestPage(response.data)
-          }
-        )
-      }
+      })
 
       // Build the fallback-tag-by-parent reverse index in one pass after
       // the maps are populated. The three call sites that need this
@@ -253,6 +158,14 @@ export class PackageRepo {
     }
   }
 
+  /**
+   * List the deleted versions of the package that the registry still holds
+   * for restoring. The in-memory maps of active versions are left untouched.
+   */
+  async getDeletedPackageVersions(targetPackage: string): Promise<GhPackage[]> {
+    return await this.backend.listDeletedVersions(targetPackage)
+  }
+
   /**
    * Return all tags in use for the package
    * @returns The tags for the package
@@ -327,120 +240,71 @@ export class PackageRepo {
     // so existing callers (untag cleanup, etc.) keep streaming directly.
     logger: Logger = consoleLogger
   ): Promise<void> {
-    try {
-      if (tags && tags.length > 0) {
-        logger.info(
-          ` deleting package id: ${id} digest: ${digest} tag: ${tags}`
-        )
-      } else if (label) {
-        logger.info(` deleting package id: ${id} digest: ${digest} ${label}`)
-      } else {
-        logger.info(` deleting package id: ${id} digest: ${digest}`)
-      }
-      if (!this.config.dryRun) {
-        const octokit = this.octokitClient.getClient()
-        if (this.config.repoType === 'User') {
-          if (this.config.tokenOwnsPackage) {
-            await octokit.rest.packages.deletePackageVersionForAuthenticatedUser(
-              {
-                package_type: 'container' as const,
-                package_name: targetPackage,
-                package_version_id: id
-              }
-            )
-          } else {
-            await octokit.rest.packages.deletePackageVersionForUser({
-              package_type: 'container' as const,
-              package_name: targetPackage,
-              username: this.config.owner,
-              package_version_id: id
-            })
-          }
-        } else {
-          await octokit.rest.packages.deletePackageVersionForOrg({
-            package_type: 'container' as const,
-            package_name: targetPackage,
-            org: this.config.owner,
-            package_version_id: id
-          })
-        }
-      }
-    } catch (error) {
-      if (error instanceof RequestError && error.status === 404) {
-        // 404 on DELETE means the package version is already gone — which
-        // is the outcome we wanted. We only ever call this with IDs that
-        // loadPackages just returned (state=active), so a 404 indicates
-        // stale list output: ghcr reported the version as active but
-        // soft-deleted it (or transitioned its state) before our DELETE
-        // landed. We have no way to fix that from the client side and
-        // the user-visible end state is correct, so warn and continue.
-        //
-        // Historical note: between commits 8f34cb4 and 1e3b9cd (late
-        // 2024, never tagged) this method tolerated every 404. 1e3b9cd
-        // tightened it to "tolerate one then fail" as a guardrail for
-        // suspected misconfig. v1.2.0's parallel cascade exposed that
-        // the guardrail blocks a real, benign scenario — multiple
-        // freshly-listed children can all 404 in rapid succession when
-        // ghcr's list output is stale. The tolerate-all behaviour is
-        // restored here; genuine permission/config issues surface as
-        // 401/403 at the LIST endpoint, not as 404 on per-version
-        // DELETE-after-LIST.
-        logger.warning(
-          `The package "${targetPackage}" version id ${id} wasn't found while trying to delete it; treating as already deleted.`
-        )
-        return
-      }
-      throw error
+    if (tags && tags.length > 0) {
+      logger.info(` deleting package id: ${id} digest: ${digest} tag: ${tags}`)
+    } else if (label) {
+      logger.info(` deleting package id: ${id} digest: ${digest} ${label}`)
+    } else {
+      logger.info(` deleting package id: ${id} digest: ${digest}`)
+    }
+    if (
+      !this.config.dryRun &&
+      !(await this.backend.deleteVersion(targetPackage, id, digest))
+    ) {
+      // Already gone — which is the outcome we wanted. We only ever
+      // call this with IDs that loadPackages just returned (state=active),
+      // so this indicates stale list output: ghcr reported the version
+      // as active but soft-deleted it (or transitioned its state) before
+      // our DELETE landed. We have no way to fix that from the client
+      // side and the user-visible end state is correct, so warn and
+      // continue.
+      //
+      // Historical note: between commits 8f34cb4 and 1e3b9cd (late
+      // 2024, never tagged) this method tolerated every 404. 1e3b9cd
+      // tightened it to "tolerate one then fail" as a guardrail for
+      // suspected misconfig. v1.2.0's parallel cascade exposed that
+      // the guardrail blocks a real, benign scenario — multiple
+      // freshly-listed children can all 404 in rapid succession when
+      // ghcr's list output is stale. The tolerate-all behaviour is
+      // restored here; genuine permission/config issues surface as
+      // 401/403 at the LIST endpoint, not as 404 on per-version
+      // DELETE-after-LIST.
+      logger.warning(
+        `The package "${targetPackage}" version id ${id} wasn't found while trying to delete it; treating as already deleted.`
+      )
     }
   }
 
   /**
-   * Get list of the packages in the GitHub account
-   * @returns Array of package names
+   * Restore a deleted package version
+   * @param id The ID of the package version to restore
+   * @param digest The associated digest for the package version
+   * @param tags The tags the version had when it was deleted
    */
-  async getPackageList(): Promise<string[]> {
-    const packages: string[] = []
-    const octokit = this.octokitClient.getClient()
-
-    // Three-branch dispatch with paginate.iterator per branch.
-    // Inlining is more verbose than a single polymorphic call, but each
-    // endpoint has a different required owner param so unifying them
-    // forces `any` on the function reference. Each branch's iterator
-    // is fully typed end-to-end.
-    const ingest = (data: ReadonlyArray<{ name: string }>): void => {
-      for (const pkg of data) {
-        packages.push(pkg.name)
-      }
-    }
-
-    if (this.config.repoType === 'User') {
-      if (this.config.tokenOwnsPackage) {
-        for await (const response of octokit.paginate.iterator(
-          octokit.rest.packages.listPackagesForAuthenticatedUser,
-          { package_type: 'container', per_page: 100 }
-        )) {
-          ingest(response.data)
-        }
-      } else {
-        for await (const response of octokit.paginate.iterator(
-          octokit.rest.packages.listPackagesForUser,
-          {
-            package_type: 'container',
-            username: this.config.owner,
-            per_page: 100
-          }
-        )) {
-          ingest(response.data)
-        }
-      }
+  async restorePackageVersion(
+    targetPackage: string,
+    id: number,
+    digest: string,
+    tags?: string[],
+    logger: Logger = consoleLogger
+  ): Promise<void> {
+    if (tags && tags.length > 0) {
+      logger.info(` restoring package id: ${id} digest: ${digest} tag: ${tags}`)
     } else {
-      for await (const response of octokit.paginate.iterator(
-        octokit.rest.packages.listPackagesForOrganization,
-        { package_type: 'container', org: this.config.owner, per_page: 100 }
-      )) {
-        ingest(response.data)
-      }
+      logger.info(` restoring package id: ${id} digest: ${digest}`)
     }
+    if (this.config.dryRun) {
+      return
+    }
+    await this.backend.restoreVersion(targetPackage, id)
+  }
+
+  /**
+   * Get list of the packages of the owner
+   * @returns Array of package names
+   */
+  async getPackageList(): Promise<string[]> {
+    const packages = await this.backend.listPackages()
 
     logListing(`Available packages for owner: ${this.config.owner}`, packages, {
       debug: this.config.logLevel >= LogLevel.DEBUG
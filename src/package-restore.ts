@@ -0,0 +1,109 @@
+import { Config } from './config.js'
+import { GhPackage } from './utils.js'
+
+/**
+ * A deleted version brought back by `mode: restore`.
+ */
+export interface RestoredVersion {
+  package: string
+  digest: string
+  id: number
+  tags: string[]
+  deletedAt: string
+  // The selector that picked it, or the image it came back with
+  reason: string
+}
+
+/**
+ * A deleted version to restore and why.
+ */
+export interface RestoreCandidate {
+  version: GhPackage
+  reason: string
+}
+
+export function deletedAt(version: GhPackage): string {
+  return version.deleted_at ?? version.updated_at
+}
+
+/**
+ * The most recent deletion of each digest. A digest pushed and deleted
+ * more than once has one deleted version per deletion.
+ */
+export function latestDeletions(deleted: GhPackage[]): Map<string, GhPackage> {
+  const latest = new Map<string, GhPackage>()
+  for (const version of deleted) {
+    const current = latest.get(version.name)
+    if (!current || deletedAt(version) > deletedAt(current)) {
+      latest.set(version.name, version)
+    }
+  }
+  return latest
+}
+
+/**
+ * The deleted versions of a package picked by the restore selectors:
+ * those a `restore-report` run deleted, the given digests and tags, and
+ * everything deleted within `restore-deleted-within`. A tag moved between
+ * images picks the image most recently deleted with it.
+ */
+export function selectRestoreVersions(
+  config: Config,
+  targetPackage: string,
+  deleted: GhPackage[],
+  now = Date.now()
+): RestoreCandidate[] {
+  const latest = latestDeletions(deleted)
+  const selected: RestoreCandidate[] = []
+
+  const packageReport = config.restoreReport?.packages.find(
+    candidate => candidate.package === targetPackage
+  )
+  if (packageReport) {
+    const ids = new Set(packageReport.deleted.map(version => version.id))
+    for (const version of deleted) {
+      if (ids.has(version.id)) {
+        selected.push({
+          version,
+          reason: `deleted by ${config.restoreReportFile}`
+        })
+      }
+    }
+  }
+
+  for (const digest of config.restoreDigests ?? []) {
+    const version = latest.get(digest)
+    if (version) {
+      selected.push({ version, reason: `digest ${digest}` })
+    }
+  }
+
+  for (const tag of config.restoreTags ?? []) {
+    let match: GhPackage | undefined
+    for (const version of deleted) {
+      if (
+        version.metadata.container.tags.includes(tag) &&
+        (!match || deletedAt(version) > deletedAt(match))
+      ) {
+        match = version
+      }
+    }
+    if (match) {
+      selected.push({ version: match, reason: `tag ${tag}` })
+    }
+  }
+
+  if (config.restoreDeletedWithin !== undefined) {
+    const cutoff = now - config.restoreDeletedWithin
+    for (const version of latest.values()) {
+      if (Date.parse(deletedAt(version)) >= cutoff) {
+        selected.push({
+          version,
+          reason: `deleted within ${config.restoreDeletedWithinReadable}`
+        })
+      }
+    }
+  }
+
+  return selected
+}
@@ -0,0 +1,78 @@
+import { isAttestationEntry } from './artifact-class.js'
+import type { ManifestEntry, ManifestPlatform } from './utils.js'
+
+// os/architecture with an optional variant, as `docker buildx --platform`
+// takes them
+const PLATFORM_PATTERN = /^[a-z0-9_.-]+\/[a-z0-9_.-]+(\/[a-z0-9_.-]+)?$/
+
+/**
+ * Parse a `prune-platforms` / `keep-platforms` input: a comma-separated
+ * list of platforms such as `linux/arm/v7`.
+ */
+export function parsePlatforms(name: string, value: string): string[] {
+  const platforms: string[] = []
+  for (const item of value.split(',')) {
+    const platform = item.trim().toLowerCase()
+    if (!platform) continue
+    if (!PLATFORM_PATTERN.test(platform)) {
+      throw new Error(
+        `${name}: "${platform}" is not a platform, expected os/architecture[/variant]`
+      )
+    }
+    platforms.push(platform)
+  }
+  if (platforms.length === 0) {
+    throw new Error(`${name} lists no platforms`)
+  }
+  return platforms
+}
+
+/**
+ * Whether a platform is the listed one. A listed platform without a
+ * variant matches every variant, so `linux/arm` matches `linux/arm/v6`
+ * and `linux/arm/v7`.
+ */
+export function matchesPlatform(
+  platform: ManifestPlatform | undefined,
+  listed: string
+): boolean {
+  if (!platform) {
+    return false
+  }
+  const [os, architecture, variant] = listed.split('/')
+  return (
+    platform.os === os &&
+    platform.architecture === architecture &&
+    (variant === undefined || platform.variant === variant)
+  )
+}
+
+/**
+ * The entries of a multi-arch index `mode: prune-platforms` drops: the
+ * platform images `prune` lists, or those `keep` doesn't, and the buildx
+ * attestations of the dropped platform images, which name the image they
+ * describe in their `vnd.docker.reference.digest` annotation. Entries
+ * without a platform are kept.
+ */
+export function createPlatformFilter(
+  prune: string[] | undefined,
+  keep: string[] | undefined
+): (entry: ManifestEntry, entries: ManifestEntry[]) => boolean {
+  const dropsPlatform = (entry: ManifestEntry): boolean => {
+    if (!entry.platform || isAttestationEntry(entry)) {
+      return false
+    }
+    if (keep) {
+      return !keep.some(listed => matchesPlatform(entry.platform, listed))
+    }
+    return (prune ?? []).some(listed => matchesPlatform(entry.platform, listed))
+  }
+  return (entry, entries) => {
+    if (!isAttestationEntry(entry)) {
+      return dropsPlatform(entry)
+    }
+    const subject = entry.annotations?.['vnd.docker.reference.digest']
+    const described = entries.find(candidate => candidate.digest === subject)
+    return described !== undefined && dropsPlatform(described)
+  }
+}
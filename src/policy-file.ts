@@ -0,0 +1,209 @@
+import fs from 'fs'
+import {
+  LineCounter,
+  isMap,
+  isScalar,
+  isSeq,
+  parseDocument,
+  type Node
+} from 'yaml'
+
+// The value types a policy rule setting may take, mirroring the action
+// input it stands in for.
+type PolicySettingType = 'string' | 'count' | 'boolean' | 'groups'
+
+// Cleanup rule inputs that a policy rule may set. Everything else (token,
+// owner, dry-run, log-level, ...) stays global to the action run.
+const POLICY_SETTINGS: Record<string, PolicySettingType> = {
+  'delete-tags': 'string',
+  'exclude-tags': 'string',
+  'exclude-release-tags': 'boolean',
+  'exclude-release-drafts': 'boolean',
+  'exclude-release-prereleases': 'boolean',
+  'delete-labels': 'string',
+  'exclude-labels': 'string',
+  'include-artifacts': 'string',
+  'exclude-artifacts': 'string',
+  'delete-closed-pr-tags': 'string',
+  'delete-stale-branch-tags': 'string',
+  'older-than': 'string',
+  'keep-n-tagged': 'count',
+  'keep-n-tagged-groups': 'groups',
+  'keep-n-untagged': 'count',
+  'semver-keep-patches': 'count',
+  'semver-keep-minors': 'count',
+  'gfs-keep-all': 'string',
+  'gfs-keep-daily': 'string',
+  'gfs-keep-weekly': 'string',
+  'gfs-keep-monthly': 'string',
+  'storage-quota': 'string',
+  'delete-untagged': 'boolean',
+  'delete-ghost-images': 'boolean',
+  'delete-partial-images': 'boolean',
+  'delete-orphaned-images': 'boolean'
+}
+
+/**
+ * One entry of the policy file's `rules` list. `settings` holds each cleanup
+ * input the rule sets, already converted to the string form the matching
+ * action input would carry, so rules go through the same parsing and
+ * validation as the action inputs.
+ */
+export interface PolicyRule {
+  packages: string
+  line: number
+  settings: Map<string, { value: string; line: number }>
+}
+
+export interface PolicyFile {
+  path: string
+  rules: PolicyRule[]
+}
+
+/**
+ * Load and schema-check a policy file. The file is YAML (JSON is accepted
+ * too, being a subset) of the form:
+ *
+ *   rules:
+ *     - packages: app-*
+ *       keep-n-tagged: 10
+ *     - packages: tools
+ *       delete-untagged: true
+ *
+ * Every error is reported as `<path>:<line>: <message>`.
+ */
+export async function loadPolicyFile(path: string): Promise<PolicyFile> {
+  let text: string
+  try {
+    text = await fs.promises.readFile(path, 'utf8')
+  } catch (error) {
+    throw new Error(
+      `policy-file ${path} could not be read: ${(error as Error).message}`
+    )
+  }
+  return { path, rules: parsePolicyFile(path, text) }
+}
+
+export function parsePolicyFile(path: string, text: string): PolicyRule[] {
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(text, { lineCounter, prettyErrors: false })
+  if (doc.errors.length > 0) {
+    const error = doc.errors[0]
+    const line = lineCounter.linePos(error.pos[0]).line
+    throw new Error(`${path}:${line}: ${error.message.split('\n')[0]}`)
+  }
+
+  const lineOf = (node: Node | null | undefined): number =>
+    node?.range ? lineCounter.linePos(node.range[0]).line : 1
+  const fail = (node: Node | null | undefined, message: string): never => {
+    throw new Error(`${path}:${lineOf(node)}: ${message}`)
+  }
+
+  const root = doc.contents
+  if (!isMap(root)) {
+    return fail(root, 'policy file must be a mapping with a rules list')
+  }
+  let rulesNode: Node | null = null
+  for (const pair of root.items) {
+    const key = isScalar(pair.key) ? String(pair.key.value) : ''
+    if (key === 'rules') {
+      rulesNode = pair.value
+    } else {
+      fail(pair.key, `unknown top-level key "${key}"`)
+    }
+  }
+  if (!isSeq(rulesNode)) {
+    return fail(rulesNode ?? root, 'rules must be a list')
+  }
+  if (rulesNode.items.length === 0) {
+    return fail(rulesNode, 'rules has no entries')
+  }
+
+  const rules: PolicyRule[] = []
+  for (const item of rulesNode.items as Node[]) {
+    if (!isMap(item)) {
+      return fail(item, 'rule must be a mapping')
+    }
+    const rule: PolicyRule = {
+      packages: '',
+      line: lineOf(item),
+      settings: new Map()
+    }
+    for (const pair of item.items) {
+      const keyNode = pair.key as Node
+      const valueNode = pair.value as Node | null
+      const key = isScalar(keyNode) ? String(keyNode.value) : ''
+      if (key === 'packages') {
+        if (!isScalar(valueNode) || typeof valueNode.value !== 'string') {
+          return fail(valueNode ?? keyNode, 'packages must be a string')
+        }
+        rule.packages = valueNode.value.trim()
+        continue
+      }
+      const type = POLICY_SETTINGS[key]
+      if (!type) {
+        return fail(keyNode, `unknown rule key "${key}"`)
+      }
+      if (rule.settings.has(key)) {
+        return fail(keyNode, `${key} is set more than once`)
+      }
+      rule.settings.set(key, {
+        value: settingValue(key, type, valueNode ?? keyNode, fail),
+        line: lineOf(valueNode ?? keyNode)
+      })
+    }
+    if (!rule.packages) {
+      return fail(item, 'rule is missing packages')
+    }
+    rules.push(rule)
+  }
+  return rules
+}
+
+function settingValue(
+  key: string,
+  type: PolicySettingType,
+  node: Node,
+  fail: (node: Node, message: string) => never
+): string {
+  if (type === 'groups') {
+    // A pattern: count mapping, or the input's multi-line string form
+    if (isMap(node)) {
+      const lines: string[] = []
+      for (const pair of node.items) {
+        const pattern = isScalar(pair.key) ? String(pair.key.value) : ''
+        const count = isScalar(pair.value) ? pair.value.value : undefined
+        if (!pattern || !isCount(count)) {
+          fail(
+            (pair.value ?? pair.key) as Node,
+            `${key} entries must map a pattern to a non-negative integer`
+          )
+        }
+        lines.push(`${pattern}=${String(count)}`)
+      }
+      return lines.join('\n')
+    }
+    if (isScalar(node) && typeof node.value === 'string') {
+      return node.value
+    }
+    return fail(node, `${key} must be a mapping of pattern to count`)
+  }
+
+  const value = isScalar(node) ? node.value : undefined
+  if (type === 'count') {
+    if (!isCount(value)) {
+      return fail(node, `${key} must be a non-negative integer`)
+    }
+  } else if (type === 'boolean') {
+    if (typeof value !== 'boolean') {
+      return fail(node, `${key} must be true or false`)
+    }
+  } else if (typeof value !== 'string' || !value.trim()) {
+    return fail(node, `${key} must be a non-empty string`)
+  }
+  return String(value)
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
@@ -0,0 +1,72 @@
+import fs from 'fs'
+
+const DIGEST_REGEX = /sha256:[a-f0-9]{64}/g
+
+/**
+ * Images pinned by the `protected-digests-file` inventory: bare digests, and
+ * the tags referenced per package by `<registry>/<owner>/<package>:<tag>`
+ * image references of the package owner.
+ */
+export interface ProtectedInventory {
+  path: string
+  digests: Set<string>
+  tagsByPackage: Map<string, Set<string>>
+}
+
+/**
+ * Load a protected digests inventory. The file's format doesn't matter - a
+ * plain list, a JSON export or rendered Kubernetes manifests all work - as
+ * it is scanned for `sha256:` digests and for image references to
+ * `registryHost` images of `owner`.
+ */
+export async function loadProtectedInventory(
+  path: string,
+  registryHost: string,
+  owner: string
+): Promise<ProtectedInventory> {
+  let text: string
+  try {
+    text = await fs.promises.readFile(path, 'utf8')
+  } catch (error) {
+    throw new Error(
+      `protected-digests-file ${path} could not be read: ${(error as Error).message}`
+    )
+  }
+  return { path, ...parseProtectedInventory(text, registryHost, owner) }
+}
+
+export function parseProtectedInventory(
+  text: string,
+  registryHost: string,
+  owner: string
+): Omit<ProtectedInventory, 'path'> {
+  const digests = new Set<string>(text.match(DIGEST_REGEX) ?? [])
+  const tagsByPackage = new Map<string, Set<string>>()
+
+  const prefix = `${registryHost}/${owner}/`.toLowerCase()
+  // Split on whitespace and the JSON / YAML punctuation around a reference
+  for (const token of text.split(/[\s"'`,[\]{}]+/)) {
+    if (!token.toLowerCase().startsWith(prefix)) continue
+    // ghcr.io/owner/package:tag@sha256:... - the digest is already
+    // collected above, the tag pins the package's tag too
+    const [reference, digest] = token.substring(prefix.length).split('@')
+    const slash = reference.lastIndexOf('/')
+    const colon = reference.lastIndexOf(':')
+    let packageName = reference
+    // Without a tag docker pulls latest, unless a digest is given
+    let tag = digest === undefined ? 'latest' : ''
+    if (colon > slash) {
+      packageName = reference.substring(0, colon)
+      tag = reference.substring(colon + 1)
+    }
+    if (!packageName || !tag) continue
+    let tags = tagsByPackage.get(packageName)
+    if (!tags) {
+      tags = new Set<string>()
+      tagsByPackage.set(packageName, tags)
+    }
+    tags.add(tag)
+  }
+
+  return { digests, tagsByPackage }
+}
@@ -3,7 +3,17 @@ import { Config, LogLevel } from './config.js'
 import axios, { AxiosError, AxiosInstance, isAxiosError } from 'axios'
 import axiosRetry from 'axios-retry'
 import * as AxiosLogger from 'axios-logger'
-import { isValidChallenge, parseChallenge, Manifest } from './utils.js'
+import {
+  basicAuthorization,
+  isValidChallenge,
+  parseChallenge,
+  parseNextLink,
+  Manifest,
+  ManifestEntry,
+  MANIFEST_MEDIA_TYPES,
+  OCI_INDEX_MEDIA_TYPE,
+  REFERRERS_PROBE_DIGEST
+} from './utils.js'
 import { setGlobalConfig } from 'axios-logger'
 import { PackageRepo } from './package-repo.js'
 import {
@@ -34,6 +44,13 @@ export class Registry {
   // cache of loaded manifests, by digest
   manifestCache = new Map<string, Manifest>()
 
+  // cache of config blob labels, by config digest. Content-addressed, so
+  // kept across packages.
+  private configLabels = new Map<string, Record<string, string>>()
+
+  // cache of Referrers API answers, by subject digest
+  private referrers = new Map<string, ManifestEntry[]>()
+
   // Cross-run distilled cache. Optional — null disables persistent caching
   // (e.g. when running outside a GitHub Actions runner).
   private distilledCache: ManifestCache | null
@@ -50,6 +67,15 @@ export class Registry {
   // invalidates the scope) and on any 401 from a subsequent PUT.
   private pushToken: { value: string; expiresAt: number } | null = null
 
+  // The Basic authorization when the registry challenged for it at login
+  // (a `registry:2` with htpasswd); it then goes with every request, PUTs
+  // included, instead of a token
+  private basicAuth: string | null = null
+
+  // Whether the registry serves the OCI 1.1 Referrers API, probed once per
+  // package; null until then
+  private referrersSupported: boolean | null = null
+
   /**
    * Constructor
    *
@@ -92,8 +118,7 @@ export class Registry {
     // config and surface as bare failures under parallel untag PUTs.
     this.authClient = axios.create()
     axiosRetry(this.authClient, retryConfig)
-    this.axios.defaults.headers.common['Accept'] =
-      'application/vnd.oci.image.manifest.v1+json, application/vnd.oci.image.index.v1+json, application/vnd.docker.distribution.manifest.v2+json, application/vnd.docker.distribution.manifest.list.v2+json'
+    this.axios.defaults.headers.common['Accept'] = MANIFEST_MEDIA_TYPES
 
     setGlobalConfig({
       data: false,
@@ -119,6 +144,8 @@ export class Registry {
     // Drop any push token cached for the previous package — its scope
     // is repository-bound and cannot be reused after the switch.
     this.pushToken = null
+    this.referrersSupported = null
+    this.referrers.clear()
     this.targetPackage = targetPackage
 
     try {
@@ -134,7 +161,15 @@ export class Registry {
         if (error.response?.status === 401) {
           const challenge = error.response?.headers['www-authenticate']
           const attributes = parseChallenge(challenge)
-          if (isValidChallenge(attributes)) {
+          const basic = basicAuthorization(
+            `${challenge ?? ''}`,
+            this.config.registryUsername ?? 'token',
+            this.config.token
+          )
+          if (basic) {
+            this.basicAuth = basic
+            this.axios.defaults.headers.common['Authorization'] = basic
+          } else if (isValidChallenge(attributes)) {
             const tokenResponse = await this.fetchRegistryToken(attributes)
             const token = tokenResponse.token
             if (token) {
@@ -178,7 +213,7 @@ export class Registry {
       `${attributes.get('realm')}?service=${attributes.get('service')}&scope=${attributes.get('scope')}`,
       {
         auth: {
-          username: 'token',
+          username: this.config.registryUsername ?? 'token',
           password: this.config.token
         }
       }
@@ -242,6 +277,128 @@ export class Registry {
     return obj
   }
 
+  /**
+   * The labels and annotations of an image, merged into one map. An image
+   * manifest contributes its config blob's labels (`LABEL` in a
+   * Dockerfile) and its annotations; a multi-arch index its annotations
+   * and the labels of its platform images. Annotations win when both set
+   * a key.
+   *
+   * @param digest - The digest of the image's manifest
+   */
+  async getLabels(digest: string): Promise<Record<string, string>> {
+    const manifest = await this.getManifestByDigest(digest)
+    let labels: Record<string, string> = {}
+    if (manifest.config?.digest) {
+      labels = await this.getConfigLabels(manifest.config.digest)
+    }
+    for (const entry of manifest.manifests ?? []) {
+      // Attestation manifests carry no image config worth matching
+      if (entry.platform?.architecture === 'unknown') continue
+      if (!this.githubPackageRepo.getPackageByDigest(entry.digest)) continue
+      labels = { ...(await this.getLabels(entry.digest)), ...labels }
+    }
+    return { ...labels, ...manifest.annotations }
+  }
+
+  /**
+   * Retrieves the labels of an image config blob, from the in-memory or
+   * cross-run cache when possible.
+   *
+   * @param configDigest - The digest of the config blob
+   */
+  private async getConfigLabels(
+    configDigest: string
+  ): Promise<Record<string, string>> {
+    const cached =
+      this.configLabels.get(configDigest) ??
+      this.distilledCache?.getLabels(configDigest)
+    if (cached) {
+      this.configLabels.set(configDigest, cached)
+      return cached
+    }
+    const response = await this.axios.get(
+      `/v2/${this.config.owner}/${this.targetPackage}/blobs/${configDigest}`,
+      {
+        transformResponse: [
+          data => {
+            return data
+          }
+        ]
+      }
+    )
+    // Docker and OCI image configs keep the labels under config.Labels
+    const blob: { config?: { Labels?: Record<string, string> | null } } =
+      JSON.parse(response?.data)
+    const labels = blob.config?.Labels ?? {}
+    this.configLabels.set(configDigest, labels)
+    this.distilledCache?.setLabels(configDigest, labels)
+    return labels
+  }
+
+  /**
+   * Whether the registry implements the OCI 1.1 Referrers API. A registry
+   * that does answers `/v2/<name>/referrers/<digest>` with an image index
+   * for any digest, one that doesn't (ghcr.io among them) with a 404.
+   */
+  async supportsReferrers(): Promise<boolean> {
+    if (this.referrersSupported === null) {
+      try {
+        const response = await this.axios.get(
+          `/v2/${this.config.owner}/${this.targetPackage}/referrers/${REFERRERS_PROBE_DIGEST}`,
+          { headers: { Accept: OCI_INDEX_MEDIA_TYPE } }
+        )
+        this.referrersSupported =
+          `${response.headers['content-type'] ?? ''}`.startsWith(
+            OCI_INDEX_MEDIA_TYPE
+          )
+      } catch (error) {
+        if (!isAxiosError(error) || !error.response) {
+          throw error
+        }
+        this.referrersSupported = false
+      }
+      if (this.config.logLevel === LogLevel.DEBUG) {
+        core.info(
+          `referrers API ${this.referrersSupported ? 'supported' : 'not supported'} by ${this.baseUrl}`
+        )
+      }
+    }
+    return this.referrersSupported
+  }
+
+  /**
+   * The OCI 1.1 referrers of a digest, through the Referrers API, from the
+   * in-memory or cross-run cache when possible. Only call once
+   * {@link supportsReferrers} said yes.
+   */
+  async getReferrers(digest: string): Promise<ManifestEntry[]> {
+    const cached =
+      this.referrers.get(digest) ?? this.distilledCache?.getReferrers(digest)
+    if (cached) {
+      this.referrers.set(digest, cached)
+      return cached
+    }
+    const referrers: ManifestEntry[] = []
+    let url: string | null =
+      `/v2/${this.config.owner}/${this.targetPackage}/referrers/${digest}`
+    while (url) {
+      const response = await this.axios.get<Manifest>(url, {
+        headers: { Accept: OCI_INDEX_MEDIA_TYPE }
+      })
+      for (const referrer of response.data?.manifests ?? []) {
+        referrers.push({
+          digest: referrer.digest,
+          artifactType: referrer.artifactType
+        })
+      }
+      url = parseNextLink(response.headers['link'])
+    }
+    this.referrers.set(digest, referrers)
+    this.distilledCache?.setReferrers(digest, referrers)
+    return referrers
+  }
+
   /**
    * Retrieves a manifest by its tag
    *
@@ -274,6 +431,15 @@ export class Registry {
 
     const contentType = manifest.mediaType
 
+    if (this.basicAuth) {
+      await this.axios.put(
+        `/v2/${this.config.owner}/${this.targetPackage}/manifests/${tag}`,
+        manifest,
+        { headers: { 'content-type': contentType } }
+      )
+      return
+    }
+
     // Fast path: a cached push token from a previous PUT this run. Skip
     // the 401-challenge handshake entirely. On expiry we clear the cache
     // and fall through to the challenge path below.
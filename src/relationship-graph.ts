@@ -0,0 +1,260 @@
+import fs from 'fs'
+import { CleanupContext } from './cleanup-types.js'
+import { parentDigestFromReferrerTag } from './utils.js'
+
+// How a version is drawn, the first that applies
+export type NodeState = 'planned' | 'ghost' | 'orphan' | 'tagged' | 'untagged'
+
+export interface GraphNode {
+  digest: string
+  tags: string[]
+  state: NodeState
+}
+
+export interface GraphEdge {
+  from: string
+  to: string
+  // platform: index → platform image, subject: OCI 1.1 subject → referrer,
+  // tag: image → referrer found by its sha256-* tag
+  kind: 'platform' | 'subject' | 'tag'
+}
+
+export interface PackageGraph {
+  package: string
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+  // The deletion plan: each staged image and the versions deleted with it
+  plan: Map<string, string[]>
+}
+
+const STATE_COLOURS: Record<NodeState, string> = {
+  planned: '#f4a6a6',
+  ghost: '#c9b3e6',
+  orphan: '#f7d08a',
+  tagged: '#a8d5f2',
+  untagged: '#e0e0e0'
+}
+
+// Staged images shown in the job summary's deletion plan, per package
+const PLAN_GRAPH_LIMIT = 50
+
+/**
+ * Build the relationship graph of a package for `graph-file`: every
+ * version, and the platform, subject and referrer tag links between them.
+ *
+ * @param plan - The deletion plan, as ImageDeleter.planCascade returns it
+ */
+export async function buildPackageGraph(
+  context: CleanupContext,
+  digestUsedBy: Map<string, Set<string>>,
+  subjectReferrers: Map<string, Set<string>>,
+  plan: Map<string, string[]>
+): Promise<PackageGraph> {
+  const { packageRepo } = context
+  const digests = packageRepo.getDigests()
+
+  const planned = new Set<string>()
+  for (const [root, cascade] of plan) {
+    planned.add(root)
+    for (const digest of cascade) {
+      planned.add(digest)
+    }
+  }
+
+  const edges: GraphEdge[] = []
+  for (const [child, parents] of digestUsedBy) {
+    for (const parent of parents) {
+      edges.push({ from: parent, to: child, kind: 'platform' })
+    }
+  }
+  const orphans = new Set<string>()
+  for (const [subject, referrers] of subjectReferrers) {
+    for (const referrer of referrers) {
+      if (!digests.has(referrer)) continue
+      if (digests.has(subject)) {
+        edges.push({ from: subject, to: referrer, kind: 'subject' })
+      } else {
+        orphans.add(referrer)
+      }
+    }
+  }
+
+  const nodes: GraphNode[] = []
+  for (const digest of digests) {
+    const ghPackage = packageRepo.getPackageByDigest(digest)
+    if (!ghPackage) {
+      throw new Error(`cache invariant: digest ${digest} not in package cache`)
+    }
+    const tags = ghPackage.metadata.container.tags
+    for (const tag of packageRepo.getReferrerTagsForDigest(digest)) {
+      const referrer = packageRepo.getDigestByTag(tag)
+      if (referrer) {
+        edges.push({ from: digest, to: referrer, kind: 'tag' })
+      }
+    }
+    for (const tag of tags) {
+      const parent = parentDigestFromReferrerTag(tag)
+      if (parent && !digests.has(parent)) {
+        orphans.add(digest)
+      }
+    }
+
+    let state: NodeState = tags.length > 0 ? 'tagged' : 'untagged'
+    if (planned.has(digest)) {
+      state = 'planned'
+    } else if (await isGhost(context, digest)) {
+      state = 'ghost'
+    } else if (orphans.has(digest)) {
+      state = 'orphan'
+    }
+    nodes.push({ digest, tags: [...tags], state })
+  }
+
+  return { package: context.targetPackage, nodes, edges, plan }
+}
+
+// A multi-arch index none of whose platform images is in the package
+async function isGhost(
+  context: CleanupContext,
+  digest: string
+): Promise<boolean> {
+  const manifest = await context.registry.getManifestByDigest(digest)
+  if (!manifest.manifests || manifest.manifests.length === 0) {
+    return false
+  }
+  return manifest.manifests.every(
+    entry => !context.packageRepo.getIdByDigest(entry.digest)
+  )
+}
+
+function shortDigest(digest: string): string {
+  return digest.replace(/^sha256:/, '').slice(0, 12)
+}
+
+function nodeLabel(node: GraphNode): string {
+  return node.tags.length > 0
+    ? `${shortDigest(node.digest)} ${node.tags.join(', ')}`
+    : shortDigest(node.digest)
+}
+
+/**
+ * Render the graphs as Graphviz DOT, one cluster per package.
+ */
+export function renderDot(graphs: PackageGraph[]): string {
+  const quote = (text: string): string => `"${text.replace(/"/g, '\\"')}"`
+  const lines = [
+    'digraph packages {',
+    '  rankdir=LR',
+    '  node [shape=box, style=filled]'
+  ]
+  for (const [index, graph] of graphs.entries()) {
+    lines.push(`  subgraph cluster_${index} {`)
+    lines.push(`    label=${quote(graph.package)}`)
+    // Digests repeat across packages, so node ids are prefixed
+    const id = (digest: string): string => quote(`${index}:${digest}`)
+    for (const node of graph.nodes) {
+      lines.push(
+        `    ${id(node.digest)} [label=${quote(nodeLabel(node))}, fillcolor=${quote(STATE_COLOURS[node.state])}]`
+      )
+    }
+    for (const edge of graph.edges) {
+      lines.push(
+        `    ${id(edge.from)} -> ${id(edge.to)} [label=${quote(edge.kind)}]`
+      )
+    }
+    lines.push('  }')
+  }
+  lines.push('}')
+  return `${lines.join('\n')}\n`
+}
+
+function mermaidHeader(): string[] {
+  const lines = ['flowchart LR']
+  for (const [state, colour] of Object.entries(STATE_COLOURS)) {
+    lines.push(`  classDef ${state} fill:${colour}`)
+  }
+  return lines
+}
+
+// Mermaid labels can't hold double quotes
+function mermaidLabel(text: string): string {
+  return `"${text.replace(/"/g, '#quot;')}"`
+}
+
+/**
+ * Render the graphs as a Mermaid flowchart, one subgraph per package.
+ */
+export function renderMermaid(graphs: PackageGraph[]): string {
+  const lines = mermaidHeader()
+  for (const [index, graph] of graphs.entries()) {
+    lines.push(`  subgraph p${index}[${mermaidLabel(graph.package)}]`)
+    const ids = new Map<string, string>()
+    for (const node of graph.nodes) {
+      const id = `p${index}n${ids.size}`
+      ids.set(node.digest, id)
+      lines.push(`    ${id}[${mermaidLabel(nodeLabel(node))}]:::${node.state}`)
+    }
+    for (const edge of graph.edges) {
+      const from = ids.get(edge.from)
+      const to = ids.get(edge.to)
+      if (from && to) {
+        lines.push(`    ${from} -->|${edge.kind}| ${to}`)
+      }
+    }
+    lines.push('  end')
+  }
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * A collapsed Mermaid view of one package's deletion plan for the job
+ * summary: each staged image with the number of versions deleted with it,
+ * or null when nothing is planned.
+ */
+export function renderPlanMermaid(graph: PackageGraph): string | null {
+  if (graph.plan.size === 0) {
+    return null
+  }
+  const nodes = new Map(graph.nodes.map(node => [node.digest, node]))
+  const lines = mermaidHeader()
+  let index = 0
+  for (const [root, cascade] of graph.plan) {
+    if (index === PLAN_GRAPH_LIMIT) {
+      lines.push(
+        `  more[${mermaidLabel(`${graph.plan.size - PLAN_GRAPH_LIMIT} more images`)}]:::planned`
+      )
+      break
+    }
+    const node = nodes.get(root) ?? { digest: root, tags: [], state: 'planned' }
+    lines.push(`  n${index}[${mermaidLabel(nodeLabel(node))}]:::planned`)
+    if (cascade.length > 0) {
+      lines.push(
+        `  n${index} --> c${index}[${mermaidLabel(`${cascade.length} cascaded versions`)}]:::planned`
+      )
+    }
+    index++
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Write the graphs to each `graph-file`: DOT for a `.dot` or `.gv` path,
+ * Mermaid otherwise.
+ */
+export async function writeGraph(
+  paths: string[],
+  graphs: PackageGraph[]
+): Promise<void> {
+  for (const path of paths) {
+    const content = /\.(dot|gv)$/i.test(path)
+      ? renderDot(graphs)
+      : renderMermaid(graphs)
+    try {
+      await fs.promises.writeFile(path, content)
+    } catch (error) {
+      throw new Error(
+        `graph-file ${path} could not be written: ${(error as Error).message}`
+      )
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Blob-level storage accounting for one package. The registry stores each
+ * blob (config or layer) once however many images reference it, so
+ * deleting an image only frees the blobs no remaining manifest uses -
+ * summing the deleted images' descriptor sizes would overstate what a
+ * deletion reclaims.
+ *
+ * Sizes come from the config and layer descriptors of the image manifests;
+ * multi-arch indexes hold no blobs themselves, their platform images do.
+ */
+export class StorageUsage {
+  private blobsByManifest: Map<string, Map<string, number>>
+  // Parent index digests → platform image digests, the reverse of
+  // digestUsedBy
+  private children = new Map<string, string[]>()
+  private digestUsedBy: Map<string, Set<string>>
+  private referrersOf: (digest: string) => Iterable<string>
+  private refCounts = new Map<string, number>()
+  private blobSizes = new Map<string, number>()
+  private released = new Set<string>()
+  private usedBytes = 0
+
+  /**
+   * @param blobsByManifest - Manifest digest → its blobs' digest and size,
+   *   as built by ManifestAnalyzer.loadDigestUsedByMap
+   * @param digestUsedBy - Child digest → the multi-arch indexes using it
+   * @param referrersOf - The versions deleted along with a top-level
+   *   image, such as ImageDeleter.planCascade lists: its signatures, SBOMs
+   *   and other referrers
+   */
+  constructor(
+    blobsByManifest: Map<string, Map<string, number>>,
+    digestUsedBy: Map<string, Set<string>> = new Map(),
+    referrersOf: (digest: string) => Iterable<string> = () => []
+  ) {
+    this.blobsByManifest = blobsByManifest
+    this.digestUsedBy = digestUsedBy
+    this.referrersOf = referrersOf
+    for (const blobs of blobsByManifest.values()) {
+      for (const [blob, size] of blobs) {
+        const count = this.refCounts.get(blob) ?? 0
+        if (count === 0) {
+          this.blobSizes.set(blob, size)
+          this.usedBytes += size
+        }
+        this.refCounts.set(blob, count + 1)
+      }
+    }
+    for (const [child, parents] of digestUsedBy) {
+      for (const parent of parents) {
+        let list = this.children.get(parent)
+        if (!list) {
+          list = []
+          this.children.set(parent, list)
+        }
+        list.push(child)
+      }
+    }
+  }
+
+  /**
+   * Bytes used by the blobs of the manifests not yet released.
+   */
+  get bytes(): number {
+    return this.usedBytes
+  }
+
+  /**
+   * Release manifests as deleted, returning the bytes of the blobs no
+   * remaining manifest uses.
+   */
+  release(manifestDigests: Iterable<string>): number {
+    let freed = 0
+    for (const digest of manifestDigests) {
+      if (this.released.has(digest)) continue
+      this.released.add(digest)
+      for (const blob of this.blobsByManifest.get(digest)?.keys() ?? []) {
+        const count = (this.refCounts.get(blob) ?? 1) - 1
+        this.refCounts.set(blob, count)
+        if (count === 0) {
+          freed += this.blobSizes.get(blob) ?? 0
+        }
+      }
+    }
+    this.usedBytes -= freed
+    return freed
+  }
+
+  /**
+   * Release a top-level image the way ImageDeleter deletes it: the image
+   * and its referrers, plus each platform image no other remaining index
+   * still uses with its own referrers.
+   */
+  releaseImage(digest: string): number {
+    const manifests = [digest, ...this.referrersOf(digest)]
+    for (const child of this.children.get(digest) ?? []) {
+      const parents = this.digestUsedBy.get(child) ?? new Set<string>()
+      const inUse = [...parents].some(
+        parent => parent !== digest && !this.released.has(parent)
+      )
+      if (!inUse) {
+        manifests.push(child, ...this.referrersOf(child))
+      }
+    }
+    return this.release(manifests)
+  }
+}
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB']
+
+/**
+ * Format a byte count for the log and job summary, in decimal units (as
+ * GitHub bills storage): `1.5 GB`.
+ */
+export function formatBytes(bytes: number): string {
+  let value = bytes
+  let unit = 0
+  while (value >= 1000 && unit < BYTE_UNITS.length - 1) {
+    value /= 1000
+    unit++
+  }
+  const rounded = unit === 0 ? `${value}` : value.toFixed(1)
+  return `${rounded} ${BYTE_UNITS[unit]}`
+}
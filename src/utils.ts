@@ -1,5 +1,8 @@
 import * as core from '@actions/core'
 import safeRegex from 'safe-regex2'
+import wcmatch from 'wildcard-match'
+import { formatBytes } from './storage-usage.js'
+import { ARTIFACT_CLASSES, type ArtifactClass } from './artifact-class.js'
 
 // A sha256 digest is 'sha256:' (7) + 64 hex chars = 71 chars total.
 export const SHA256_DIGEST_LENGTH = 'sha256:'.length + 64
@@ -36,6 +39,32 @@ export function validateUserRegex(pattern: string, source: string): void {
   }
 }
 
+/**
+ * Build a predicate for a user-supplied tag pattern, honouring the
+ * `use-regex` switch: a regular expression when set, otherwise a
+ * comma-separated list of wildcard patterns.
+ */
+export function createTagMatcher(
+  pattern: string,
+  useRegex?: boolean
+): (value: string) => boolean {
+  if (useRegex) {
+    const regex = new RegExp(pattern)
+    return value => regex.test(value)
+  }
+  return wcmatch(pattern.split(','))
+}
+
+/**
+ * Render the tag a `delete-stale-branch-tags` template gives a branch.
+ * Characters a tag can't hold are replaced with `-`, the same way
+ * docker/metadata-action names branch tags (`feature/login` becomes
+ * `feature-login`).
+ */
+export function branchTag(template: string, branch: string): string {
+  return template.replace('{branch}', branch.replace(/[^a-zA-Z0-9._-]+/g, '-'))
+}
+
 /**
  * Recover the parent image digest from a cosign/sigstore referrer tag.
  *
@@ -53,6 +82,33 @@ export function parentDigestFromReferrerTag(tag: string): string | null {
   return digest.slice(0, SHA256_DIGEST_LENGTH)
 }
 
+// Parsed `vMAJOR.MINOR.PATCH` release tag — see parseSemverTag.
+export interface SemverTag {
+  tag: string
+  major: number
+  minor: number
+  patch: number
+}
+
+/**
+ * Parse a release tag of the form `MAJOR.MINOR.PATCH`, with or without a
+ * leading `v`. Pre-release and build suffixes (`-rc.1`, `+build.5`) are
+ * deliberately not accepted — those tags aren't releases and are left to
+ * the other filters rather than competing for a semver keep slot.
+ *
+ * Returns null if the tag isn't a plain release version.
+ */
+export function parseSemverTag(tag: string): SemverTag | null {
+  const match = tag.match(/^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)$/)
+  if (!match) return null
+  return {
+    tag,
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10)
+  }
+}
+
 export function parseChallenge(challenge: string): Map<string, string> {
   const attributes = new Map<string, string>()
   if (challenge.startsWith('Bearer ')) {
@@ -75,6 +131,21 @@ export function parseChallenge(challenge: string): Map<string, string> {
   return attributes
 }
 
+/**
+ * The Authorization header answering a `Basic` www-authenticate challenge,
+ * as a `registry:2` with htpasswd sends, or null for any other challenge.
+ */
+export function basicAuthorization(
+  challenge: string,
+  username: string,
+  password: string
+): string | null {
+  if (!/^basic\b/i.test(challenge)) {
+    return null
+  }
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+}
+
 export function isValidChallenge(attributes: Map<string, string>): boolean {
   let valid = false
   if (
@@ -221,11 +292,50 @@ export class MapPrinter {
   }
 }
 
+// A package version the cleanup deleted, for the action outputs
+export interface DeletedVersion {
+  digest: string
+  id: number
+  tags: string[]
+}
+
+// A multi-arch index pushed again without some of its entries: its tags
+// moved from `digest` to `newDigest`
+export interface RewrittenIndex {
+  digest: string
+  newDigest: string
+  tags: string[]
+}
+
+/**
+ * Render per-class deletion counts as `image 3, attestation 3`, in the
+ * order of ARTIFACT_CLASSES. Empty when nothing was deleted.
+ */
+export function formatArtifactClassCounts(
+  counts: Partial<Record<ArtifactClass, number>>
+): string {
+  return ARTIFACT_CLASSES.filter(artifactClass => counts[artifactClass])
+    .map(artifactClass => `${artifactClass} ${counts[artifactClass]}`)
+    .join(', ')
+}
+
 export class CleanupTaskStatistics {
   // action stats
   name: string
   numberMultiImagesDeleted: number
   numberImagesDeleted: number
+  // Tags kept by exclude-release-tags, reported per package
+  releaseProtectedTags: string[] = []
+  // Estimated bytes freed by the deletions, see StorageUsage
+  bytesReclaimed = 0
+  // What was deleted and untagged, and what validation found, reported
+  // per package
+  deletedVersions: DeletedVersion[] = []
+  untaggedTags: string[] = []
+  rewrittenIndexes: RewrittenIndex[] = []
+  validationFindings: string[] = []
+  // Versions deleted of each artifact class
+  deletedByArtifactClass: Partial<Record<ArtifactClass, number>> = {}
 
   constructor(
     name: string,
@@ -238,11 +348,21 @@ export class CleanupTaskStatistics {
   }
 
   add(other: CleanupTaskStatistics): CleanupTaskStatistics {
-    return new CleanupTaskStatistics(
+    const total = new CleanupTaskStatistics(
       this.name,
       this.numberMultiImagesDeleted + other.numberMultiImagesDeleted,
       this.numberImagesDeleted + other.numberImagesDeleted
     )
+    total.bytesReclaimed = this.bytesReclaimed + other.bytesReclaimed
+    total.deletedByArtifactClass = { ...this.deletedByArtifactClass }
+    for (const [artifactClass, count] of Object.entries(
+      other.deletedByArtifactClass
+    )) {
+      const key = artifactClass as ArtifactClass
+      total.deletedByArtifactClass[key] =
+        (total.deletedByArtifactClass[key] ?? 0) + count
+    }
+    return total
   }
 
   print(): void {
@@ -254,6 +374,16 @@ export class CleanupTaskStatistics {
       )
     }
     core.info(`total images deleted = ${this.numberImagesDeleted}`)
+    if (this.bytesReclaimed > 0) {
+      core.info(`storage reclaimed = ${formatBytes(this.bytesReclaimed)}`)
+    }
+    const byClass = formatArtifactClassCounts(this.deletedByArtifactClass)
+    if (byClass) {
+      core.info(`deleted by artifact class = ${byClass}`)
+    }
+    if (this.releaseProtectedTags.length > 0) {
+      core.info(`release tags protected = ${this.releaseProtectedTags.length}`)
+    }
     core.endGroup()
   }
 }
@@ -266,6 +396,8 @@ export interface GhPackage {
   id: number
   name: string
   updated_at: string
+  // Set on versions listed with state=deleted
+  deleted_at?: string
   metadata: {
     container: {
       tags: string[]
@@ -298,6 +430,8 @@ export interface ManifestEntry {
   size?: number
   platform?: ManifestPlatform
   artifactType?: string
+  // Set on the descriptors the OCI 1.1 Referrers API returns
+  annotations?: Record<string, string>
 }
 
 // OCI 1.1 subject descriptor — present on referrer manifests that point
@@ -352,3 +486,24 @@ export interface Manifest {
   // that, byte-identical empty manifests collide on the same digest.
   annotations?: Record<string, string>
 }
+
+// Accept header for manifest reads: single-platform images and multi-arch
+// indexes, in both the OCI and the Docker flavour
+export const MANIFEST_MEDIA_TYPES =
+  'application/vnd.oci.image.manifest.v1+json, application/vnd.oci.image.index.v1+json, application/vnd.docker.distribution.manifest.v2+json, application/vnd.docker.distribution.manifest.list.v2+json'
+
+export const OCI_INDEX_MEDIA_TYPE = 'application/vnd.oci.image.index.v1+json'
+
+// Probed for Referrers API support. A registry implementing the API answers
+// for any digest, this one is the empty blob's.
+export const REFERRERS_PROBE_DIGEST =
+  'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+
+/**
+ * The target of a `rel="next"` Link header, as the Distribution API sends
+ * with paginated tag, catalog and referrer lists, or null on the last page.
+ */
+export function parseNextLink(linkHeader: string | undefined): string | null {
+  const match = linkHeader?.match(/<([^>]+)>\s*;\s*rel="next"/)
+  return match ? match[1] : null
+}